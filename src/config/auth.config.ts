@@ -0,0 +1,164 @@
+/**
+ * AUTH CONFIGURATION
+ *
+ * Configuración de las políticas de autenticación que se pueden
+ * ajustar por variables de entorno.
+ *
+ * USO:
+ *   import { emailVerificationConfig, magicLinkConfig, loginLockoutConfig, twoFactorConfig, sessionCleanupConfig, organizationInvitationConfig } from '../config/auth.config'
+ *   if (emailVerificationConfig.policy === EMAIL_VERIFICATION_POLICIES.LOGIN) { ... }
+ */
+
+import { VALIDATION } from '../constants'
+
+// ============================================
+// VERIFICACIÓN DE EMAIL
+// ============================================
+
+/**
+ * Políticas de verificación de email
+ *
+ * - none: no se bloquea nada (el email se verifica pero es opcional)
+ * - routes: se bloquean las rutas protegidas con requireVerifiedEmail
+ * - login: además, no se permite iniciar sesión sin verificar el email
+ */
+export const EMAIL_VERIFICATION_POLICIES = {
+  NONE: 'none',
+  ROUTES: 'routes',
+  LOGIN: 'login',
+} as const
+
+export type EmailVerificationPolicy = typeof EMAIL_VERIFICATION_POLICIES[keyof typeof EMAIL_VERIFICATION_POLICIES]
+
+/**
+ * Obtiene la política configurada (none si el valor no es válido)
+ */
+function parseEmailVerificationPolicy(value: string | undefined): EmailVerificationPolicy {
+  const policies = Object.values(EMAIL_VERIFICATION_POLICIES) as string[]
+  return value && policies.includes(value)
+    ? (value as EmailVerificationPolicy)
+    : EMAIL_VERIFICATION_POLICIES.NONE
+}
+
+export const emailVerificationConfig = {
+  // Política de bloqueo para usuarios sin email verificado
+  policy: parseEmailVerificationPolicy(process.env.EMAIL_VERIFICATION_POLICY),
+
+  // Horas de validez del token de verificación (24 horas por defecto)
+  tokenExpiresInHours: parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '24', 10),
+
+  // Segundos mínimos entre dos envíos del email de verificación a la misma cuenta
+  resendCooldownSeconds: parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN || '60', 10),
+
+  // Máximo de solicitudes de reenvío por IP en una ventana de 15 minutos
+  resendMaxPerIp: parseInt(process.env.EMAIL_VERIFICATION_RESEND_MAX_PER_IP || '5', 10),
+} as const
+
+// ============================================
+// POLÍTICA DE CONTRASEÑAS
+// ============================================
+
+export const passwordPolicyConfig = {
+  // Longitud mínima y máxima
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || String(VALIDATION.PASSWORD_MIN_LENGTH), 10),
+  maxLength: parseInt(process.env.PASSWORD_MAX_LENGTH || String(VALIDATION.PASSWORD_MAX_LENGTH), 10),
+
+  // Clases de caracteres obligatorias (todas activas por defecto)
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== 'false',
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== 'false',
+  requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== 'false',
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL !== 'false',
+
+  // Archivo con contraseñas comunes prohibidas (una por línea, relativo a la raíz del proyecto)
+  denylistFile: process.env.PASSWORD_DENYLIST_FILE || './data/common-passwords.txt',
+
+  // Rechazar contraseñas que contengan el email o el nombre del usuario
+  rejectPersonalInfo: process.env.PASSWORD_REJECT_PERSONAL_INFO !== 'false',
+
+  // Cantidad de contraseñas anteriores que no se pueden reutilizar (0 = sin historial)
+  historySize: parseInt(process.env.PASSWORD_HISTORY_SIZE || '5', 10),
+
+  // Días de validez de una contraseña (0 = no expiran)
+  maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS || '0', 10),
+} as const
+
+// ============================================
+// INICIO DE SESIÓN SIN CONTRASEÑA (MAGIC LINK)
+// ============================================
+
+export const magicLinkConfig = {
+  // Minutos de validez del enlace (15 minutos por defecto)
+  tokenExpiresInMinutes: parseInt(process.env.MAGIC_LINK_EXPIRES_MINUTES || '15', 10),
+
+  // Máximo de enlaces por email en una ventana de 15 minutos
+  maxPerEmail: parseInt(process.env.MAGIC_LINK_MAX_PER_EMAIL || '3', 10),
+
+  // Máximo de solicitudes por IP en una ventana de 15 minutos
+  maxPerIp: parseInt(process.env.MAGIC_LINK_MAX_PER_IP || '10', 10),
+} as const
+
+// ============================================
+// BLOQUEO POR INTENTOS FALLIDOS
+// ============================================
+
+export const loginLockoutConfig = {
+  // Intentos fallidos consecutivos antes de bloquear la cuenta
+  maxFailedAttempts: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5', 10),
+
+  // Minutos que dura el bloqueo temporal de la cuenta
+  lockDurationMinutes: parseInt(process.env.LOGIN_LOCK_DURATION_MINUTES || '15', 10),
+
+  // Intentos fallidos permitidos sin espera antes de aplicar la espera progresiva
+  backoffFreeAttempts: parseInt(process.env.LOGIN_BACKOFF_FREE_ATTEMPTS || '2', 10),
+
+  // Espera tras el primer intento penalizado (se duplica en cada fallo)
+  backoffBaseSeconds: parseInt(process.env.LOGIN_BACKOFF_BASE_SECONDS || '1', 10),
+
+  // Espera máxima entre intentos
+  backoffMaxSeconds: parseInt(process.env.LOGIN_BACKOFF_MAX_SECONDS || '300', 10),
+
+  // Intentos fallidos por IP antes de bloquearla durante la ventana
+  maxFailedAttemptsPerIp: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS_PER_IP || '20', 10),
+
+  // Ventana (en minutos) en la que se cuentan los fallos por IP
+  ipWindowMinutes: parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || '15', 10),
+} as const
+
+// ============================================
+// VERIFICACIÓN EN DOS PASOS (TOTP)
+// ============================================
+
+export const twoFactorConfig = {
+  // Nombre que muestran las apps de autenticación junto a la cuenta
+  issuer: process.env.TWO_FACTOR_ISSUER || 'instalacion-express-typescript',
+
+  // Intervalos de 30 segundos aceptados antes y después del actual (desfase de reloj)
+  window: parseInt(process.env.TWO_FACTOR_WINDOW || '1', 10),
+
+  // Cantidad de códigos de recuperación que se generan
+  recoveryCodesCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODES || '10', 10),
+} as const
+
+// ============================================
+// LIMPIEZA DE SESIONES
+// ============================================
+
+export const sessionCleanupConfig = {
+  // Minutos entre limpiezas de las sesiones expiradas o revocadas (0 = sin limpieza)
+  purgeIntervalMinutes: Math.max(0, parseInt(process.env.SESSION_PURGE_INTERVAL_MINUTES || '60', 10) || 0),
+
+  // Días que se conservan las sesiones expiradas o revocadas antes de eliminarlas
+  retentionDays: Math.max(0, parseInt(process.env.SESSION_RETENTION_DAYS || '30', 10) || 0),
+} as const
+
+// ============================================
+// INVITACIONES A ORGANIZACIONES
+// ============================================
+
+export const organizationInvitationConfig = {
+  // Horas de validez de la invitación (72 horas por defecto)
+  expiresInHours: parseInt(process.env.ORGANIZATION_INVITATION_EXPIRES_HOURS || '72', 10),
+
+  // Máximo de invitaciones por organización en una ventana de 15 minutos
+  maxPerOrganization: parseInt(process.env.ORGANIZATION_INVITATION_MAX_PER_ORG || '20', 10),
+} as const
@@ -6,11 +6,33 @@
  * Este archivo contiene la configuración y utilidades para JWT.
  * Asegúrate de tener instalado: npm install jsonwebtoken @types/jsonwebtoken
  * 
+ * Cada token incluye:
+ * - Claim "type" (access / refresh / mfa): un refresh token no sirve como access token
+ * - Claim "actorId" solo en los tokens de suplantación (ID del administrador)
+ * - Claims "iss" y "aud": se comprueban al verificar
+ * - Header "kid": identifica la clave del keyring con la que se firmó
+ * 
+ * KEYRING Y ROTACIÓN DE CLAVES:
+ * - Los tokens se firman con la clave activa (JWT_KEY_ID)
+ * - Se verifican con cualquier clave del keyring, así que los tokens firmados
+ *   con una clave anterior siguen siendo válidos hasta que expiran
+ * - Access tokens: HS256 (secreto compartido) o RS256/ES256 (par de claves PEM)
+ * - Refresh y mfa tokens: siempre HS256 con el secreto de refresco (solo los verifica esta API)
+ * 
  * USO:
- *   import { generateToken, verifyToken } from '../config/jwt.config'
+ *   import { generateTokens, verifyToken } from '../config/jwt.config'
+ *   const payload = verifyToken(token) // access token
+ *   const payload = verifyToken(token, JWT_CONFIG.TOKEN_TYPES.REFRESH)
  */
 
 import jwt from 'jsonwebtoken'
+import type { Algorithm, Secret } from 'jsonwebtoken'
+import { createPrivateKey, createPublicKey, randomUUID } from 'crypto'
+import type { JsonWebKey, KeyObject } from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { JWT_CONFIG } from '../constants'
+import type { TokenType } from '../constants'
 import type { JwtPayload } from '../types'
 
 // ============================================
@@ -18,47 +40,286 @@ import type { JwtPayload } from '../types'
 // ============================================
 
 /**
- * Clave secreta para firmar los tokens JWT
+ * Clave secreta por defecto (solo para desarrollo)
  * IMPORTANTE: En producción, usa una variable de entorno fuerte y segura
  * Genera una clave segura con: openssl rand -base64 32
  */
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-in-production'
 
+/**
+ * Secretos para firmar los access tokens (HS256) y los refresh tokens
+ * Si no se configuran, se usa JWT_SECRET
+ */
+const JWT_ACCESS_SECRET = process.env.JWT_ACCESS_SECRET || JWT_SECRET
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || JWT_SECRET
+
+/**
+ * Algoritmo de firma de los access tokens: HS256, RS256 o ES256
+ */
+const JWT_ALGORITHM = (process.env.JWT_ALGORITHM || 'HS256').toUpperCase() as Algorithm
+
+/**
+ * Identificador (kid) de la clave activa
+ */
+const JWT_KEY_ID = process.env.JWT_KEY_ID || 'default'
+
+/**
+ * Carpeta con las claves PEM (solo RS256/ES256)
+ * - <kid>.key: clave privada (solo es necesaria la de la clave activa)
+ * - <kid>.pub: clave pública (todas las presentes se usan para verificar)
+ */
+const JWT_KEYS_DIR = process.env.JWT_KEYS_DIR || path.join(process.cwd(), 'keys', 'jwt')
+
+/**
+ * Emisor y audiencia de los tokens
+ */
+const JWT_ISSUER = process.env.JWT_ISSUER || 'instalacion-express-typescript'
+const JWT_AUDIENCE = process.env.JWT_AUDIENCE || 'instalacion-express-typescript-api'
+
 /**
  * Tiempo de expiración del token de acceso (15 minutos por defecto)
  */
-const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || '15m'
+const ACCESS_TOKEN_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || JWT_CONFIG.ACCESS_TOKEN_EXPIRES_IN
 
 /**
  * Tiempo de expiración del token de refresco (7 días por defecto)
  */
-const REFRESH_TOKEN_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '7d'
+const REFRESH_TOKEN_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || JWT_CONFIG.REFRESH_TOKEN_EXPIRES_IN
+
+/**
+ * Tiempo de expiración del token del segundo paso del login (verificación en dos pasos)
+ */
+const MFA_TOKEN_EXPIRES_IN = process.env.JWT_MFA_EXPIRES_IN || JWT_CONFIG.MFA_TOKEN_EXPIRES_IN
+
+/**
+ * Tiempo de expiración del token de suplantación (administrador actuando como otro usuario)
+ */
+const IMPERSONATION_TOKEN_EXPIRES_IN =
+  process.env.JWT_IMPERSONATION_EXPIRES_IN || JWT_CONFIG.IMPERSONATION_TOKEN_EXPIRES_IN
+
+const SUPPORTED_ALGORITHMS: Algorithm[] = ['HS256', 'RS256', 'ES256']
+
+// ============================================
+// KEYRING
+// ============================================
+
+/**
+ * Clave del keyring
+ */
+interface KeyringEntry {
+  kid: string
+  algorithm: Algorithm
+  signingKey?: Secret | KeyObject   // Solo la clave activa necesita poder firmar
+  verificationKey: Secret | KeyObject
+  publicKey?: KeyObject             // Solo claves asimétricas (se publican en el JWKS)
+}
+
+/**
+ * Conjunto de claves de un tipo de token
+ */
+interface Keyring {
+  active: KeyringEntry
+  keys: Map<string, KeyringEntry>
+}
+
+/**
+ * Parsea una lista de secretos anteriores con formato "kid:secreto,kid:secreto"
+ */
+function parsePreviousSecrets(value: string | undefined): Array<[string, string]> {
+  if (!value) {
+    return []
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':')
+      if (separator <= 0) {
+        throw new Error(`Entrada de secreto JWT inválida: "${entry}" (formato esperado kid:secreto)`)
+      }
+      return [entry.substring(0, separator), entry.substring(separator + 1)]
+    })
+}
+
+/**
+ * Construye un keyring HS256 a partir del secreto activo y los anteriores
+ */
+function buildSecretKeyring(activeSecret: string, previousSecrets: string | undefined): Keyring {
+  const active: KeyringEntry = {
+    kid: JWT_KEY_ID,
+    algorithm: 'HS256',
+    signingKey: activeSecret,
+    verificationKey: activeSecret,
+  }
+  const keys = new Map<string, KeyringEntry>([[active.kid, active]])
+
+  for (const [kid, secret] of parsePreviousSecrets(previousSecrets)) {
+    if (!keys.has(kid)) {
+      keys.set(kid, { kid, algorithm: 'HS256', verificationKey: secret })
+    }
+  }
+
+  return { active, keys }
+}
+
+/**
+ * Construye un keyring RS256/ES256 a partir de las claves PEM de JWT_KEYS_DIR
+ */
+function buildPemKeyring(algorithm: Algorithm): Keyring {
+  const expectedKeyType = algorithm === 'RS256' ? 'rsa' : 'ec'
+  const keys = new Map<string, KeyringEntry>()
+
+  if (!fs.existsSync(JWT_KEYS_DIR)) {
+    throw new Error(`No existe la carpeta de claves JWT: ${JWT_KEYS_DIR}`)
+  }
+
+  for (const file of fs.readdirSync(JWT_KEYS_DIR)) {
+    if (!file.endsWith('.pub')) {
+      continue
+    }
+
+    const kid = path.basename(file, '.pub')
+    const publicKey = createPublicKey(fs.readFileSync(path.join(JWT_KEYS_DIR, file)))
+
+    if (publicKey.asymmetricKeyType !== expectedKeyType) {
+      throw new Error(`La clave JWT "${kid}" no es de tipo ${expectedKeyType} (requerido por ${algorithm})`)
+    }
+
+    keys.set(kid, { kid, algorithm, verificationKey: publicKey, publicKey })
+  }
+
+  const active = keys.get(JWT_KEY_ID)
+  const privateKeyPath = path.join(JWT_KEYS_DIR, `${JWT_KEY_ID}.key`)
+
+  if (!active || !fs.existsSync(privateKeyPath)) {
+    throw new Error(`Faltan las claves de la clave activa "${JWT_KEY_ID}" (${JWT_KEY_ID}.key y ${JWT_KEY_ID}.pub) en ${JWT_KEYS_DIR}`)
+  }
+
+  active.signingKey = createPrivateKey(fs.readFileSync(privateKeyPath))
+
+  return { active, keys }
+}
+
+/**
+ * Keyrings cargados (se construyen al primer uso)
+ */
+let accessKeyring: Keyring | null = null
+let refreshKeyring: Keyring | null = null
+
+/**
+ * Obtiene el keyring de un tipo de token
+ */
+function getKeyring(type: TokenType): Keyring {
+  // Los tokens internos (refresh / mfa) nunca se publican en el JWKS
+  if (type !== JWT_CONFIG.TOKEN_TYPES.ACCESS) {
+    refreshKeyring ??= buildSecretKeyring(JWT_REFRESH_SECRET, process.env.JWT_PREVIOUS_REFRESH_SECRETS)
+    return refreshKeyring
+  }
+
+  if (!accessKeyring) {
+    if (!SUPPORTED_ALGORITHMS.includes(JWT_ALGORITHM)) {
+      throw new Error(`Algoritmo JWT no soportado: ${JWT_ALGORITHM} (usa ${SUPPORTED_ALGORITHMS.join(', ')})`)
+    }
+    accessKeyring = JWT_ALGORITHM === 'HS256'
+      ? buildSecretKeyring(JWT_ACCESS_SECRET, process.env.JWT_PREVIOUS_ACCESS_SECRETS)
+      : buildPemKeyring(JWT_ALGORITHM)
+  }
+  return accessKeyring
+}
 
 // ============================================
 // GENERAR TOKENS
 // ============================================
 
+/**
+ * Datos que se incluyen en un token (los claims estándar los agrega la firma)
+ */
+type TokenPayload = Omit<JwtPayload, 'iat' | 'exp' | 'type'>
+
+/**
+ * Duración en formato de jsonwebtoken (ej: '15m', '7d')
+ */
+type ExpiresIn = NonNullable<jwt.SignOptions['expiresIn']>
+
+/**
+ * Firma un token del tipo indicado con la clave activa de su keyring
+ */
+function signToken(payload: TokenPayload, type: TokenType, options: jwt.SignOptions): string {
+  const { active } = getKeyring(type)
+
+  if (!active.signingKey) {
+    throw new Error(`La clave JWT activa "${active.kid}" no puede firmar`)
+  }
+
+  return jwt.sign({ ...payload, type }, active.signingKey, {
+    ...options,
+    algorithm: active.algorithm,
+    keyid: active.kid,
+    issuer: JWT_ISSUER,
+    audience: JWT_AUDIENCE,
+  })
+}
+
 /**
  * Genera un token JWT de acceso
  * 
  * @param payload - Datos a incluir en el token (userId, email, role, etc)
  * @returns Token JWT firmado
  */
-export function generateAccessToken(payload: Omit<JwtPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
+export function generateAccessToken(payload: TokenPayload): string {
+  return signToken(payload, JWT_CONFIG.TOKEN_TYPES.ACCESS, {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN as ExpiresIn,
   })
 }
 
 /**
  * Genera un token JWT de refresco
  * 
+ * Incluye un identificador único (jti) para que dos tokens emitidos en el
+ * mismo segundo para la misma sesión nunca sean idénticos.
+ * 
  * @param payload - Datos a incluir en el token
  * @returns Token JWT de refresco firmado
  */
-export function generateRefreshToken(payload: Omit<JwtPayload, 'iat' | 'exp'>): string {
-  return jwt.sign(payload, JWT_SECRET, {
-    expiresIn: REFRESH_TOKEN_EXPIRES_IN,
+export function generateRefreshToken(payload: TokenPayload): string {
+  return signToken(payload, JWT_CONFIG.TOKEN_TYPES.REFRESH, {
+    expiresIn: REFRESH_TOKEN_EXPIRES_IN as ExpiresIn,
+    jwtid: randomUUID(),
+  })
+}
+
+/**
+ * Genera el token del segundo paso del login (verificación en dos pasos)
+ * 
+ * Solo sirve para completar el login en POST /auth/login/mfa:
+ * no es un access token y no pertenece a ninguna sesión.
+ * 
+ * @param payload - Datos del usuario que superó el primer paso
+ * @returns Token JWT de corta duración
+ */
+export function generateMfaToken(payload: TokenPayload): string {
+  return signToken(payload, JWT_CONFIG.TOKEN_TYPES.MFA, {
+    expiresIn: MFA_TOKEN_EXPIRES_IN as ExpiresIn,
+  })
+}
+
+/**
+ * Genera el access token de una suplantación
+ * 
+ * Es un access token del usuario suplantado que incluye además el ID del
+ * administrador (claim "actorId") y la sesión de suplantación ("sid").
+ * Dura poco y no tiene refresh token asociado.
+ * 
+ * @param payload - Datos del usuario suplantado, con actorId y sid
+ * @returns Token JWT de acceso de corta duración
+ */
+export function generateImpersonationToken(
+  payload: TokenPayload & { actorId: number; sid: string }
+): string {
+  return signToken(payload, JWT_CONFIG.TOKEN_TYPES.ACCESS, {
+    expiresIn: IMPERSONATION_TOKEN_EXPIRES_IN as ExpiresIn,
   })
 }
 
@@ -68,7 +329,7 @@ export function generateRefreshToken(payload: Omit<JwtPayload, 'iat' | 'exp'>):
  * @param payload - Datos a incluir en los tokens
  * @returns Objeto con ambos tokens
  */
-export function generateTokens(payload: Omit<JwtPayload, 'iat' | 'exp'>) {
+export function generateTokens(payload: TokenPayload) {
   return {
     accessToken: generateAccessToken(payload),
     refreshToken: generateRefreshToken(payload),
@@ -82,13 +343,32 @@ export function generateTokens(payload: Omit<JwtPayload, 'iat' | 'exp'>) {
 /**
  * Verifica y decodifica un token JWT
  * 
+ * Comprueba la firma con la clave indicada en el header "kid",
+ * el emisor, la audiencia, la expiración y el tipo de token.
+ * 
  * @param token - Token JWT a verificar
+ * @param expectedType - Tipo de token esperado (access por defecto)
  * @returns Payload decodificado del token
- * @throws Error si el token es inválido o ha expirado
+ * @throws Error si el token es inválido, ha expirado o no es del tipo esperado
  */
-export function verifyToken(token: string): JwtPayload {
+export function verifyToken(
+  token: string,
+  expectedType: TokenType = JWT_CONFIG.TOKEN_TYPES.ACCESS
+): JwtPayload {
+  const kid = jwt.decode(token, { complete: true })?.header.kid
+  const key = kid ? getKeyring(expectedType).keys.get(kid) : undefined
+
+  if (!key) {
+    throw new Error('Invalid token')
+  }
+
+  let payload: JwtPayload
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload
+    payload = jwt.verify(token, key.verificationKey, {
+      algorithms: [key.algorithm],
+      issuer: JWT_ISSUER,
+      audience: JWT_AUDIENCE,
+    }) as JwtPayload
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       throw new Error('Token expired')
@@ -98,6 +378,12 @@ export function verifyToken(token: string): JwtPayload {
     }
     throw error
   }
+
+  if (payload.type !== expectedType) {
+    throw new Error('Invalid token type')
+  }
+
+  return payload
 }
 
 /**
@@ -111,13 +397,45 @@ export function decodeToken(token: string): JwtPayload | null {
   return jwt.decode(token) as JwtPayload | null
 }
 
+// ============================================
+// JWKS (claves públicas)
+// ============================================
+
+/**
+ * Obtiene el JSON Web Key Set con las claves públicas de los access tokens
+ * 
+ * Con HS256 el conjunto está vacío (los secretos nunca se publican).
+ * 
+ * @returns Objeto { keys } listo para servir en /.well-known/jwks.json
+ */
+export function getJwks(): { keys: JsonWebKey[] } {
+  const keys: JsonWebKey[] = []
+
+  for (const entry of getKeyring(JWT_CONFIG.TOKEN_TYPES.ACCESS).keys.values()) {
+    if (entry.publicKey) {
+      keys.push({
+        ...entry.publicKey.export({ format: 'jwk' }),
+        kid: entry.kid,
+        alg: entry.algorithm,
+        use: 'sig',
+      })
+    }
+  }
+
+  return { keys }
+}
+
 // ============================================
 // EXPORTAR CONFIGURACIÓN
 // ============================================
 
 export const jwtConfig = {
-  secret: JWT_SECRET,
+  algorithm: JWT_ALGORITHM,
+  keyId: JWT_KEY_ID,
+  issuer: JWT_ISSUER,
+  audience: JWT_AUDIENCE,
   accessTokenExpiresIn: ACCESS_TOKEN_EXPIRES_IN,
   refreshTokenExpiresIn: REFRESH_TOKEN_EXPIRES_IN,
+  mfaTokenExpiresIn: MFA_TOKEN_EXPIRES_IN,
+  impersonationTokenExpiresIn: IMPERSONATION_TOKEN_EXPIRES_IN,
 } as const
-
@@ -0,0 +1,151 @@
+/**
+ * OAUTH CONFIGURATION
+ * 
+ * Registro de proveedores de login social (OAuth2 / OpenID Connect).
+ * Los proveedores se habilitan por variables de entorno, sin tocar código.
+ * 
+ * VARIABLES:
+ *   OAUTH_PROVIDERS=google,github,mock      Proveedores habilitados (nombre libre)
+ *   OAUTH_<NOMBRE>_CLIENT_ID                Client ID (requerido)
+ *   OAUTH_<NOMBRE>_CLIENT_SECRET            Client secret
+ *   OAUTH_<NOMBRE>_TYPE=oidc|github         Tipo (por defecto github si el nombre es "github", si no oidc)
+ *   OAUTH_<NOMBRE>_ISSUER                   Issuer OIDC (google tiene valor por defecto)
+ *   OAUTH_<NOMBRE>_SCOPES                   Scopes separados por espacios
+ * 
+ * La redirect URI a registrar en el proveedor es:
+ *   <BACKEND_URL>/api/v1/auth/oauth/<nombre>/callback
+ * 
+ * USO:
+ *   import { getOAuthProvider, getOAuthRedirectUri } from '../config/oauth.config'
+ *   const provider = getOAuthProvider('google')
+ */
+
+import { OidcProvider } from '../oauth/providers/Oidc.provider'
+import { GitHubProvider } from '../oauth/providers/GitHub.provider'
+import { BACKEND_URL } from './email.config'
+import type { IOAuthProvider } from '../oauth/interfaces/OAuthProvider.interface'
+
+// ============================================
+// CONFIGURACIÓN DE VARIABLES DE ENTORNO
+// ============================================
+
+/**
+ * Issuers conocidos (no hace falta configurar OAUTH_<NOMBRE>_ISSUER)
+ */
+const KNOWN_ISSUERS: Record<string, string> = {
+  google: 'https://accounts.google.com',
+}
+
+/**
+ * Nombres de proveedor válidos (se usan en la URL y en la base de datos)
+ */
+const PROVIDER_NAME_PATTERN = /^[a-z0-9-]{1,50}$/
+
+export const oauthConfig = {
+  // Minutos de validez de un flujo iniciado y no completado
+  stateExpiresInMinutes: parseInt(process.env.OAUTH_STATE_EXPIRES_MINUTES || '10', 10),
+} as const
+
+// ============================================
+// CREAR PROVIDERS SEGÚN CONFIGURACIÓN
+// ============================================
+
+/**
+ * Crea un provider a partir de sus variables de entorno
+ * 
+ * @returns null (con aviso) si la configuración está incompleta
+ */
+function createProvider(name: string): IOAuthProvider | null {
+  const envPrefix = `OAUTH_${name.toUpperCase().replace(/-/g, '_')}_`
+  const env = (key: string) => process.env[envPrefix + key]?.trim() || undefined
+
+  const clientId = env('CLIENT_ID')
+  const clientSecret = env('CLIENT_SECRET')
+  const type = env('TYPE') || (name === 'github' ? 'github' : 'oidc')
+  const scopes = env('SCOPES')?.split(/[\s,]+/).filter(Boolean)
+
+  if (!clientId) {
+    console.warn(`⚠️  OAuth: ${envPrefix}CLIENT_ID no está configurado. Proveedor "${name}" deshabilitado.`)
+    return null
+  }
+
+  if (type === 'github') {
+    if (!clientSecret) {
+      console.warn(`⚠️  OAuth: ${envPrefix}CLIENT_SECRET no está configurado. Proveedor "${name}" deshabilitado.`)
+      return null
+    }
+
+    return new GitHubProvider({
+      name,
+      clientId,
+      clientSecret,
+      ...(scopes && { scopes }),
+      ...(env('BASE_URL') && { baseUrl: env('BASE_URL')! }),
+      ...(env('API_URL') && { apiUrl: env('API_URL')! }),
+    })
+  }
+
+  if (type !== 'oidc') {
+    console.warn(`⚠️  OAuth: tipo "${type}" no soportado para "${name}" (usa oidc o github).`)
+    return null
+  }
+
+  const issuer = env('ISSUER') || KNOWN_ISSUERS[name]
+  if (!issuer) {
+    console.warn(`⚠️  OAuth: ${envPrefix}ISSUER no está configurado. Proveedor "${name}" deshabilitado.`)
+    return null
+  }
+
+  return new OidcProvider({
+    name,
+    issuer,
+    clientId,
+    ...(clientSecret && { clientSecret }),
+    ...(scopes && { scopes }),
+  })
+}
+
+const oauthProviders = new Map<string, IOAuthProvider>()
+
+for (const name of (process.env.OAUTH_PROVIDERS || '').split(',').map((n) => n.trim().toLowerCase())) {
+  if (!name) continue
+
+  if (!PROVIDER_NAME_PATTERN.test(name)) {
+    console.warn(`⚠️  OAuth: nombre de proveedor inválido "${name}" (solo a-z, 0-9 y guiones).`)
+    continue
+  }
+
+  const provider = createProvider(name)
+  if (provider) {
+    oauthProviders.set(name, provider)
+  }
+}
+
+if (oauthProviders.size > 0) {
+  console.log(`🔑 OAuth configurado: ${[...oauthProviders.keys()].join(', ')}`)
+}
+
+// ============================================
+// EXPORTAR REGISTRO
+// ============================================
+
+/**
+ * Obtiene un proveedor habilitado por nombre (undefined si no existe)
+ */
+export function getOAuthProvider(name: string): IOAuthProvider | undefined {
+  return oauthProviders.get(name)
+}
+
+/**
+ * Nombres de los proveedores habilitados
+ */
+export function getOAuthProviderNames(): string[] {
+  return [...oauthProviders.keys()]
+}
+
+/**
+ * Redirect URI (callback) registrada en el proveedor
+ */
+export function getOAuthRedirectUri(name: string): string {
+  return `${BACKEND_URL.replace(/\/+$/, '')}/api/v1/auth/oauth/${name}/callback`
+}
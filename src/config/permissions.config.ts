@@ -0,0 +1,91 @@
+/**
+ * PERMISSIONS CONFIGURATION
+ *
+ * Reglas de implicación entre permisos que usa el resolver de permisos
+ * (utils/permission.util). Además de las reglas fijas:
+ * - "*" concede cualquier permiso
+ * - "recurso.*" concede cualquier permiso del recurso (ej: users.* → users.delete)
+ * - "recurso.manage" concede cualquier permiso del recurso (ej: users.manage → users.delete)
+ *
+ * el mapa de implicaciones permite que un permiso conceda otros concretos
+ * (ej: "support.agent" → ["users.read", "users.impersonate"]).
+ *
+ * Se puede ampliar o sobrescribir con PERMISSION_IMPLICATIONS (JSON):
+ *   PERMISSION_IMPLICATIONS={"support.agent":["users.read","users.impersonate"]}
+ *
+ * Los permisos de cada rol se guardan en una caché en memoria durante
+ * PERMISSION_CACHE_TTL_SECONDS (0 = sin caché).
+ *
+ * Los permisos directos expirados se purgan cada
+ * USER_PERMISSION_PURGE_INTERVAL_MINUTES (0 = sin purga periódica).
+ *
+ * USO:
+ *   import { permissionImplications, permissionCacheConfig, userPermissionConfig } from '../config/permissions.config'
+ */
+
+import { PERMISSIONS } from '../models/Role.model'
+
+// ============================================
+// IMPLICACIONES DE PERMISOS
+// ============================================
+
+/**
+ * Mapa permiso → permisos que concede
+ */
+export type PermissionImplicationMap = Readonly<Record<string, readonly string[]>>
+
+/**
+ * Implicaciones por defecto
+ */
+const DEFAULT_PERMISSION_IMPLICATIONS: PermissionImplicationMap = {
+  [PERMISSIONS.ADMIN_ACCESS]: ['*'], // Acceso completo al sistema
+}
+
+/**
+ * Lee las implicaciones adicionales de PERMISSION_IMPLICATIONS
+ */
+function parsePermissionImplications(value: string | undefined): PermissionImplicationMap {
+  if (!value) {
+    return {}
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    throw new Error('PERMISSION_IMPLICATIONS debe ser un objeto JSON (ej: {"support.agent":["users.read"]})')
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('PERMISSION_IMPLICATIONS debe ser un objeto JSON (ej: {"support.agent":["users.read"]})')
+  }
+
+  const implications: Record<string, string[]> = {}
+  for (const [permission, implied] of Object.entries(parsed)) {
+    if (!Array.isArray(implied) || !implied.every((name) => typeof name === 'string')) {
+      throw new Error(`PERMISSION_IMPLICATIONS: "${permission}" debe ser un arreglo de nombres de permisos`)
+    }
+    implications[permission] = implied
+  }
+
+  return implications
+}
+
+// ============================================
+// EXPORTAR CONFIGURACIÓN
+// ============================================
+
+export const permissionImplications: PermissionImplicationMap = {
+  ...DEFAULT_PERMISSION_IMPLICATIONS,
+  ...parsePermissionImplications(process.env.PERMISSION_IMPLICATIONS),
+}
+
+export const permissionCacheConfig = {
+  // Segundos que se guardan en memoria los permisos de un rol (0 = sin caché)
+  ttlSeconds: Math.max(0, parseInt(process.env.PERMISSION_CACHE_TTL_SECONDS || '60') || 0),
+} as const
+
+export const userPermissionConfig = {
+  // Minutos entre purgas de los permisos directos expirados (0 = sin purga periódica)
+  purgeIntervalMinutes: Math.max(0, parseInt(process.env.USER_PERMISSION_PURGE_INTERVAL_MINUTES || '60') || 0),
+} as const
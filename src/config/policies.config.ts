@@ -0,0 +1,186 @@
+/**
+ * POLICIES CONFIGURATION
+ *
+ * Reglas del motor de políticas (services/Policy.service): condiciones sobre
+ * el sujeto, el recurso y el contexto que complementan a rol → permiso.
+ *
+ * Evaluación de una acción:
+ * - Se evalúan todas las reglas de la acción, en el orden de esta lista
+ * - Una regla "deny" que se cumple deniega (tiene prioridad sobre "allow")
+ * - Si no, una regla "allow" que se cumple permite
+ * - Si ninguna regla permite, se deniega
+ *
+ * Modo explain (POLICY_EXPLAIN=true): las respuestas 403 incluyen qué regla
+ * decidió y el resultado de cada regla evaluada (para depurar).
+ *
+ * USO:
+ *   import { policyRules, policyConfig } from '../config/policies.config'
+ */
+
+import { PERMISSIONS, ROLE_NAMES } from '../models/Role.model'
+import { POLICY_ACTIONS } from '../models/Policy.model'
+import { FILE_VISIBILITY } from '../models/File.model'
+import type { PolicyRule } from '../models/Policy.model'
+import type { BusinessHours } from '../utils/policy.util'
+import { subjectHasPermission, subjectApiKeyAllows, isWithinBusinessHours, isWithinWindow } from '../utils/policy.util'
+
+// ============================================
+// CONFIGURACIÓN
+// ============================================
+
+/**
+ * Lee el horario laboral de POLICY_BUSINESS_HOURS ("09:00-18:00")
+ * (null = sin restricción horaria)
+ */
+function parseBusinessHours(): BusinessHours | null {
+  const value = process.env.POLICY_BUSINESS_HOURS
+  if (!value) {
+    return null
+  }
+
+  const match = /^([01]\d|2[0-3]):([0-5]\d)-([01]\d|2[0-4]):([0-5]\d)$/.exec(value)
+  if (!match) {
+    throw new Error('POLICY_BUSINESS_HOURS debe tener el formato HH:MM-HH:MM (ej: 09:00-18:00)')
+  }
+
+  const days = (process.env.POLICY_BUSINESS_DAYS || '1,2,3,4,5')
+    .split(',')
+    .map((day) => parseInt(day.trim()))
+
+  if (days.some((day) => isNaN(day) || day < 0 || day > 6)) {
+    throw new Error('POLICY_BUSINESS_DAYS debe ser una lista de días de 0 (domingo) a 6 (sábado)')
+  }
+
+  return {
+    start: `${match[1]}:${match[2]}`,
+    end: `${match[3]}:${match[4]}`,
+    days,
+    timeZone: process.env.POLICY_TIMEZONE || 'UTC',
+  }
+}
+
+export const policyConfig = {
+  // Incluir la explicación de la decisión en las respuestas 403
+  explain: process.env.POLICY_EXPLAIN === 'true',
+  // Horas desde la subida en las que el propietario puede eliminar un archivo (0 = sin límite)
+  fileDeleteWindowHours: Math.max(0, parseInt(process.env.POLICY_FILE_DELETE_WINDOW_HOURS || '24') || 0),
+  // Horario en el que se permite la suplantación de usuarios (null = siempre)
+  businessHours: parseBusinessHours(),
+} as const
+
+// ============================================
+// RECURSOS
+// ============================================
+
+/**
+ * Atributos de un usuario como recurso
+ */
+export interface UserResource {
+  id: number
+  role: string | null
+}
+
+/**
+ * Atributos de un archivo como recurso
+ */
+export interface FileResource {
+  path: string
+  ownerId: number | null
+  uploadedAt: Date | null
+  visibility: string | null // null = archivo sin registro en la base de datos
+}
+
+// ============================================
+// REGLAS
+// ============================================
+
+const userRules: PolicyRule<UserResource>[] = [
+  {
+    name: 'users.deactivate.any',
+    description: `Con ${PERMISSIONS.USERS_UPDATE_ANY} se pueden desactivar usuarios`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.USERS_DEACTIVATE],
+    condition: ({ subject }) => subjectHasPermission(subject, PERMISSIONS.USERS_UPDATE_ANY),
+  },
+  {
+    name: 'users.deactivate.protect-admins',
+    description: 'Solo un administrador puede desactivar a otro administrador',
+    effect: 'deny',
+    actions: [POLICY_ACTIONS.USERS_DEACTIVATE],
+    condition: ({ subject, resource }) =>
+      resource?.role === ROLE_NAMES.ADMIN && subject.role !== ROLE_NAMES.ADMIN,
+  },
+  {
+    name: 'users.deactivate.self',
+    description: 'Un usuario no puede desactivar su propia cuenta',
+    effect: 'deny',
+    actions: [POLICY_ACTIONS.USERS_DEACTIVATE],
+    condition: ({ subject, resource }) => resource?.id === subject.id,
+  },
+  {
+    name: 'users.impersonate.permission',
+    description: `Con ${PERMISSIONS.USERS_IMPERSONATE} se puede suplantar a otros usuarios`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.USERS_IMPERSONATE],
+    condition: ({ subject }) => subjectHasPermission(subject, PERMISSIONS.USERS_IMPERSONATE),
+  },
+  {
+    name: 'users.impersonate.business-hours',
+    description: 'La suplantación solo se permite en horario laboral (POLICY_BUSINESS_HOURS)',
+    effect: 'deny',
+    actions: [POLICY_ACTIONS.USERS_IMPERSONATE],
+    condition: ({ context }) =>
+      policyConfig.businessHours !== null && !isWithinBusinessHours(context.now, policyConfig.businessHours),
+  },
+]
+
+const fileRules: PolicyRule<FileResource>[] = [
+  {
+    name: 'files.read.manage',
+    description: `Con ${PERMISSIONS.FILES_MANAGE} se puede ver y descargar cualquier archivo`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.FILES_READ],
+    condition: ({ subject }) => subjectHasPermission(subject, PERMISSIONS.FILES_MANAGE),
+  },
+  {
+    name: 'files.read.owner',
+    description: `El propietario puede ver y descargar sus archivos (con API key, si la key tiene ${PERMISSIONS.FILES_READ})`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.FILES_READ],
+    condition: ({ subject, resource }) =>
+      resource?.ownerId === subject.id && subjectApiKeyAllows(subject, PERMISSIONS.FILES_READ),
+  },
+  {
+    name: 'files.read.public',
+    description: `Cualquier usuario autenticado puede ver y descargar los archivos públicos (con API key, si la key tiene ${PERMISSIONS.FILES_READ})`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.FILES_READ],
+    condition: ({ subject, resource }) =>
+      resource?.visibility === FILE_VISIBILITY.PUBLIC && subjectApiKeyAllows(subject, PERMISSIONS.FILES_READ),
+  },
+  {
+    name: 'files.delete.any',
+    description: `Con ${PERMISSIONS.FILES_DELETE_ANY} se puede eliminar cualquier archivo`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.FILES_DELETE],
+    condition: ({ subject }) => subjectHasPermission(subject, PERMISSIONS.FILES_DELETE_ANY),
+  },
+  {
+    name: 'files.delete.own-recent',
+    description: `El propietario puede eliminar su archivo dentro de POLICY_FILE_DELETE_WINDOW_HOURS desde la subida (con API key, si la key tiene ${PERMISSIONS.FILES_DELETE})`,
+    effect: 'allow',
+    actions: [POLICY_ACTIONS.FILES_DELETE],
+    condition: ({ subject, resource, context }) =>
+      resource?.ownerId === subject.id &&
+      subjectApiKeyAllows(subject, PERMISSIONS.FILES_DELETE) &&
+      isWithinWindow(resource.uploadedAt, policyConfig.fileDeleteWindowHours, context.now),
+  },
+]
+
+/**
+ * Reglas registradas, en orden de evaluación
+ *
+ * Para agregar una acción: añade la acción a POLICY_ACTIONS (models/Policy.model)
+ * y sus reglas a esta lista.
+ */
+export const policyRules: readonly PolicyRule[] = [...userRules, ...fileRules]
@@ -24,12 +24,29 @@ import type { IStorageProvider } from '../storage/interfaces/Storage.interface'
  */
 const STORAGE_TYPE = (process.env.STORAGE_TYPE || 'local') as 'local' | 's3'
 
+/**
+ * Configuración de las URLs firmadas (temporales, sin autenticación)
+ * - secret: clave HMAC del storage local (si no se configura, se usa JWT_SECRET)
+ * - defaultExpiresIn / maxExpiresIn: validez en segundos (máximo 7 días, el límite de S3)
+ */
+const SIGNED_URL_CONFIG = {
+  secret:
+    process.env.STORAGE_SIGNED_URL_SECRET || process.env.JWT_SECRET || 'your-secret-key-change-in-production',
+  defaultExpiresIn: parseInt(process.env.STORAGE_SIGNED_URL_EXPIRES_SECONDS || '900'),
+  maxExpiresIn: 7 * 24 * 60 * 60,
+  localBaseUrl: '/api/v1/files/signed',
+}
+
 /**
  * Configuración de storage local
  */
 const LOCAL_STORAGE_CONFIG = {
   basePath: process.env.STORAGE_LOCAL_PATH || './uploads',
   baseUrl: process.env.STORAGE_LOCAL_URL || '/uploads',
+  // Servir la carpeta como estáticos públicos en baseUrl (sin autenticación)
+  serveStatic: process.env.STORAGE_LOCAL_SERVE_STATIC === 'true',
+  signedUrlBase: SIGNED_URL_CONFIG.localBaseUrl,
+  signingSecret: SIGNED_URL_CONFIG.secret,
 }
 
 /**
@@ -41,6 +58,9 @@ const S3_STORAGE_CONFIG = {
   baseUrl: process.env.AWS_S3_BASE_URL || '',
   accessKeyId: process.env.AWS_ACCESS_KEY_ID,
   secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+  // Servicios compatibles con S3 (MinIO, R2, un mock local)
+  endpoint: process.env.AWS_S3_ENDPOINT || undefined,
+  forcePathStyle: process.env.AWS_S3_FORCE_PATH_STYLE === 'true',
 }
 
 // ============================================
@@ -55,6 +75,7 @@ if (STORAGE_TYPE === 's3') {
     storageProvider = new LocalStorageProvider(LOCAL_STORAGE_CONFIG)
   } else {
     storageProvider = new S3StorageProvider(S3_STORAGE_CONFIG)
+    console.log(`📁 Storage configurado: S3 (${S3_STORAGE_CONFIG.bucket})`)
   }
 } else {
   // Por defecto: storage local
@@ -67,5 +88,5 @@ if (STORAGE_TYPE === 's3') {
 // ============================================
 
 export { storageProvider }
-export { STORAGE_TYPE, LOCAL_STORAGE_CONFIG, S3_STORAGE_CONFIG }
+export { STORAGE_TYPE, LOCAL_STORAGE_CONFIG, S3_STORAGE_CONFIG, SIGNED_URL_CONFIG }
 
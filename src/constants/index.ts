@@ -36,6 +36,33 @@ export const HTTP_MESSAGES = {
   USER_DELETED: 'Usuario eliminado exitosamente',
   USER_NOT_FOUND: 'Usuario no encontrado',
   USER_ALREADY_EXISTS: 'Ya existe un usuario con este email',
+  ROLE_CREATED: 'Rol creado exitosamente',
+  ROLE_UPDATED: 'Rol actualizado exitosamente',
+  ROLE_DELETED: 'Rol eliminado exitosamente',
+  ROLE_PERMISSIONS_UPDATED: 'Permisos del rol actualizados exitosamente',
+  PERMISSION_CREATED: 'Permiso creado exitosamente',
+  PERMISSION_UPDATED: 'Permiso actualizado exitosamente',
+  PERMISSION_DELETED: 'Permiso eliminado exitosamente',
+  SESSION_REVOKED: 'Sesión cerrada exitosamente',
+  OTHER_SESSIONS_REVOKED: 'Se cerraron las demás sesiones',
+  USER_UNLOCKED: 'Cuenta desbloqueada exitosamente',
+  USER_DEACTIVATED: 'Usuario desactivado exitosamente',
+  USER_PERMISSION_UPDATED: 'Permiso directo del usuario actualizado exitosamente',
+  USER_PERMISSION_REMOVED: 'Permiso directo del usuario eliminado exitosamente',
+  API_KEY_CREATED: 'API key creada exitosamente. Guarda la key: no se volverá a mostrar',
+  API_KEY_UPDATED: 'API key actualizada exitosamente',
+  API_KEY_DELETED: 'API key eliminada exitosamente',
+  OAUTH_IDENTITY_LINKED: 'Cuenta externa vinculada exitosamente',
+  OAUTH_IDENTITY_UNLINKED: 'Cuenta externa desvinculada exitosamente',
+  IMPERSONATION_STARTED: 'Suplantación iniciada',
+  IMPERSONATION_STOPPED: 'Suplantación finalizada',
+  ORGANIZATION_CREATED: 'Organización creada exitosamente',
+  ORGANIZATION_SWITCHED: 'Organización activa cambiada',
+  MEMBER_UPDATED: 'Rol del miembro actualizado exitosamente',
+  MEMBER_REMOVED: 'Miembro eliminado de la organización',
+  INVITATION_SENT: 'Invitación enviada',
+  INVITATION_REVOKED: 'Invitación revocada',
+  INVITATION_ACCEPTED: 'Te uniste a la organización',
 } as const
 
 // ============================================
@@ -67,12 +94,18 @@ export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
   NO_CONTENT: 204,
+  PARTIAL_CONTENT: 206,
+  NOT_MODIFIED: 304,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  RANGE_NOT_SATISFIABLE: 416,
+  LOCKED: 423,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
+  BAD_GATEWAY: 502,
 } as const
 
 // ============================================
@@ -100,14 +133,34 @@ export const JWT_CONFIG = {
   // Tiempo de expiración de tokens
   ACCESS_TOKEN_EXPIRES_IN: '15m',      // 15 minutos
   REFRESH_TOKEN_EXPIRES_IN: '7d',      // 7 días
+  MFA_TOKEN_EXPIRES_IN: '5m',          // 5 minutos para completar el segundo paso del login
+  IMPERSONATION_TOKEN_EXPIRES_IN: '15m', // 15 minutos de suplantación (no se puede refrescar)
   
-  // Tipos de token
+  // Tipos de token (claim "type" de cada JWT)
   TOKEN_TYPES: {
     ACCESS: 'access',
     REFRESH: 'refresh',
+    MFA: 'mfa',          // Login pendiente de verificación en dos pasos
   },
 } as const
 
+export type TokenType = typeof JWT_CONFIG.TOKEN_TYPES[keyof typeof JWT_CONFIG.TOKEN_TYPES]
+
+// ============================================
+// CONFIGURACIÓN DE API KEYS
+// ============================================
+
+export const API_KEY_CONFIG = {
+  // Prefijo de todas las keys (formato: "ak_<prefix>_<secret>")
+  KEY_PREFIX: 'ak',
+  
+  // Cada cuánto se actualiza lastUsedAt como máximo (evita una escritura por petición)
+  LAST_USED_UPDATE_INTERVAL_SECONDS: 60,
+  
+  // Máximo de API keys por usuario
+  MAX_KEYS_PER_USER: 20,
+} as const
+
 // ============================================
 // ROLES DE USUARIO (ejemplo - ajustar según necesidades)
 // ============================================
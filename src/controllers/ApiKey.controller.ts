@@ -0,0 +1,234 @@
+/**
+ * API KEY CONTROLLER - Controlador HTTP para API Keys Personales
+ *
+ * Este controller maneja las peticiones HTTP de gestión de las API keys
+ * del usuario autenticado:
+ * - Listar y consultar keys
+ * - Crear keys (la key completa solo se muestra en la respuesta de creación)
+ * - Actualizar y eliminar keys
+ *
+ * USO:
+ *   import { ApiKeyController } from '../controllers/ApiKey.controller'
+ *   const apiKeyController = new ApiKeyController()
+ *   router.get('/', apiKeyController.getAll.bind(apiKeyController))
+ */
+
+import type { Request, Response } from 'express'
+import { ApiKeyService } from '../services/ApiKey.service'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import type { ApiResponse, AuthenticatedRequest } from '../types'
+import type { ApiKeyInfo, CreateApiKeyInput, CreatedApiKey, UpdateApiKeyInput } from '../models/ApiKey.model'
+
+export class ApiKeyController {
+  private apiKeyService: ApiKeyService
+
+  constructor() {
+    this.apiKeyService = new ApiKeyService()
+  }
+
+  /**
+   * GET /api/v1/auth/api-keys
+   * Lista las API keys del usuario autenticado
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const apiKeys = await this.apiKeyService.listApiKeys(userId)
+
+      const response: ApiResponse<ApiKeyInfo[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: apiKeys,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/auth/api-keys/:id
+   * Obtiene una API key del usuario autenticado
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      const apiKey = await this.apiKeyService.getApiKey(userId, id)
+
+      const response: ApiResponse<ApiKeyInfo> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: apiKey,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/auth/api-keys
+   * Crea una API key (la respuesta incluye la key completa una única vez)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const { name, permissions, expiresAt } = req.body as CreateApiKeyInput
+
+      if (!name || permissions === undefined) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El nombre y los permisos son requeridos',
+        })
+        return
+      }
+
+      const data: CreateApiKeyInput = { name, permissions }
+      if (expiresAt !== undefined) data.expiresAt = expiresAt
+
+      const apiKey = await this.apiKeyService.createApiKey(userId, data)
+
+      const response: ApiResponse<CreatedApiKey> = {
+        success: true,
+        message: HTTP_MESSAGES.API_KEY_CREATED,
+        data: apiKey,
+      }
+
+      res.status(HTTP_STATUS.CREATED).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * PUT /api/v1/auth/api-keys/:id
+   * Actualiza el nombre, la expiración o los permisos de una API key
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      const { name, permissions, expiresAt } = req.body as UpdateApiKeyInput
+
+      const data: UpdateApiKeyInput = {}
+      if (name !== undefined) data.name = name
+      if (permissions !== undefined) data.permissions = permissions
+      if (expiresAt !== undefined) data.expiresAt = expiresAt
+
+      const apiKey = await this.apiKeyService.updateApiKey(userId, id, data)
+
+      const response: ApiResponse<ApiKeyInfo> = {
+        success: true,
+        message: HTTP_MESSAGES.API_KEY_UPDATED,
+        data: apiKey,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/auth/api-keys/:id
+   * Elimina (revoca) una API key
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      await this.apiKeyService.deleteApiKey(userId, id)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.API_KEY_DELETED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Obtiene el ID del usuario autenticado o responde 401
+ */
+function getUserId(req: Request, res: Response): number | null {
+  const userId = (req as AuthenticatedRequest).user?.id
+
+  if (!userId) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({
+      success: false,
+      message: HTTP_MESSAGES.UNAUTHORIZED,
+      error: 'Autenticación requerida',
+    })
+    return null
+  }
+
+  return userId
+}
+
+/**
+ * Convierte el parámetro :id en número o responde 400
+ */
+function parseIdParam(param: unknown, res: Response): number | null {
+  const id = typeof param === 'string' ? parseInt(param) : NaN
+
+  if (isNaN(id) || id <= 0) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: 'ID de API key inválido',
+    })
+    return null
+  }
+
+  return id
+}
+
+/**
+ * Maneja errores y envía respuestas HTTP apropiadas
+ */
+function handleError(error: unknown, res: Response): void {
+  if (error instanceof Error) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR
+
+    res.status(statusCode).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error.message,
+    })
+    return
+  }
+
+  res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+    success: false,
+    message: HTTP_MESSAGES.INTERNAL_ERROR,
+    error: 'Ocurrió un error desconocido',
+  })
+}
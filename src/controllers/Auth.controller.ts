@@ -8,6 +8,10 @@
  * - Recuperación de contraseña
  * - Cambio de contraseña
  * - Logout
+ * - Sesiones activas (dispositivos conectados)
+ * - Verificación de email
+ * - Inicio de sesión sin contraseña (magic link)
+ * - Verificación en dos pasos (TOTP)
  * 
  * USO:
  *   import { AuthController } from '../controllers/Auth.controller'
@@ -17,6 +21,12 @@
 
 import type { Request, Response } from 'express'
 import { AuthService } from '../services/Auth.service'
+import { SessionService } from '../services/Session.service'
+import { EmailVerificationService } from '../services/EmailVerification.service'
+import { MagicLinkService } from '../services/MagicLink.service'
+import { TwoFactorService } from '../services/TwoFactor.service'
+import { PasswordPolicyService } from '../services/PasswordPolicy.service'
+import { ImpersonationService } from '../services/Impersonation.service'
 import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
 import type { ApiResponse, AuthenticatedRequest } from '../types'
 import type {
@@ -26,14 +36,39 @@ import type {
   ResetPasswordInput,
   ChangePasswordInput,
   RefreshTokenInput,
-  AuthResponse,
+  VerifyEmailInput,
+  ResendVerificationInput,
+  MagicLinkInput,
+  MagicLinkVerifyInput,
+  MfaLoginInput,
+  TwoFactorCodeInput,
+  DisableTwoFactorInput,
+  LoginResponse,
+  MfaLoginResponse,
+  TwoFactorSetupResponse,
+  TwoFactorStatus,
+  RegisterResponse,
+  PasswordPolicyInfo,
 } from '../models/Auth.model'
+import type { ClientInfo, SessionInfo } from '../models/Session.model'
 
 export class AuthController {
   private authService: AuthService
+  private sessionService: SessionService
+  private emailVerificationService: EmailVerificationService
+  private magicLinkService: MagicLinkService
+  private twoFactorService: TwoFactorService
+  private passwordPolicyService: PasswordPolicyService
+  private impersonationService: ImpersonationService
   
   constructor() {
     this.authService = new AuthService()
+    this.sessionService = new SessionService()
+    this.emailVerificationService = new EmailVerificationService()
+    this.magicLinkService = new MagicLinkService()
+    this.twoFactorService = new TwoFactorService()
+    this.passwordPolicyService = new PasswordPolicyService()
+    this.impersonationService = new ImpersonationService()
   }
   
   /**
@@ -58,11 +93,13 @@ export class AuthController {
         registerData.name = name
       }
       
-      const result = await this.authService.register(registerData)
+      const result = await this.authService.register(registerData, this.getClientInfo(req))
       
-      const response: ApiResponse<AuthResponse> = {
+      const response: ApiResponse<RegisterResponse> = {
         success: true,
-        message: 'Usuario registrado exitosamente',
+        message: result.accessToken
+          ? 'Usuario registrado exitosamente'
+          : 'Usuario registrado. Verifica tu email para iniciar sesión',
         data: result,
       }
       
@@ -89,11 +126,13 @@ export class AuthController {
         return
       }
       
-      const result = await this.authService.login({ email, password })
+      const result = await this.authService.login({ email, password }, this.getClientInfo(req))
       
-      const response: ApiResponse<AuthResponse> = {
+      const response: ApiResponse<LoginResponse> = {
         success: true,
-        message: 'Inicio de sesión exitoso',
+        message: 'mfaRequired' in result
+          ? 'Se requiere la verificación en dos pasos'
+          : 'Inicio de sesión exitoso',
         data: result,
       }
       
@@ -120,7 +159,7 @@ export class AuthController {
         return
       }
       
-      const result = await this.authService.refreshToken({ refreshToken })
+      const result = await this.authService.refreshToken({ refreshToken }, this.getClientInfo(req))
       
       const response: ApiResponse<typeof result> = {
         success: true,
@@ -151,7 +190,7 @@ export class AuthController {
         return
       }
       
-      const result = await this.authService.forgotPassword({ email })
+      const result = await this.authService.forgotPassword({ email }, this.getClientInfo(req))
       
       const response: ApiResponse<typeof result> = {
         success: true,
@@ -181,7 +220,70 @@ export class AuthController {
         return
       }
       
-      const result = await this.authService.resetPassword({ token, password })
+      const result = await this.authService.resetPassword({ token, password }, this.getClientInfo(req))
+      
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: result.message,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/verify-email
+   * Verifica el email usando el token enviado por correo
+   */
+  async verifyEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body as VerifyEmailInput
+      
+      if (!token) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El token es requerido',
+        })
+        return
+      }
+      
+      const result = await this.emailVerificationService.verifyEmail(token)
+      
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: result.message,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/resend-verification
+   * Reenvía el email de verificación
+   */
+  async resendVerification(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body as ResendVerificationInput
+      
+      if (!email) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El email es requerido',
+        })
+        return
+      }
+      
+      const result = await this.emailVerificationService.resendVerification(
+        email,
+        this.getClientInfo(req)
+      )
       
       const response: ApiResponse<typeof result> = {
         success: true,
@@ -194,6 +296,69 @@ export class AuthController {
     }
   }
   
+  /**
+   * POST /api/v1/auth/magic-link
+   * Envía un enlace de inicio de sesión sin contraseña
+   */
+  async requestMagicLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { email } = req.body as MagicLinkInput
+      
+      if (!email) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El email es requerido',
+        })
+        return
+      }
+      
+      const result = await this.magicLinkService.requestLink(email, this.getClientInfo(req))
+      
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: result.message,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/magic-link/verify
+   * Inicia sesión con el token del enlace
+   */
+  async verifyMagicLink(req: Request, res: Response): Promise<void> {
+    try {
+      const { token } = req.body as MagicLinkVerifyInput
+      
+      if (!token) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El token es requerido',
+        })
+        return
+      }
+      
+      const result = await this.magicLinkService.login(token, this.getClientInfo(req))
+      
+      const response: ApiResponse<LoginResponse> = {
+        success: true,
+        message: 'mfaRequired' in result
+          ? 'Se requiere la verificación en dos pasos'
+          : 'Inicio de sesión exitoso',
+        data: result,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
   /**
    * POST /api/v1/auth/change-password
    * Cambia la contraseña (requiere autenticación)
@@ -202,6 +367,7 @@ export class AuthController {
     try {
       const { currentPassword, newPassword } = req.body as ChangePasswordInput
       const userId = (req as AuthenticatedRequest).user?.id
+      const sessionId = (req as AuthenticatedRequest).user?.sessionId
       
       if (!userId) {
         res.status(HTTP_STATUS.UNAUTHORIZED).json({
@@ -221,10 +387,12 @@ export class AuthController {
         return
       }
       
-      const result = await this.authService.changePassword(userId, {
-        currentPassword,
-        newPassword,
-      })
+      const result = await this.authService.changePassword(
+        userId,
+        { currentPassword, newPassword },
+        sessionId,
+        this.getClientInfo(req)
+      )
       
       const response: ApiResponse<typeof result> = {
         success: true,
@@ -239,11 +407,12 @@ export class AuthController {
   
   /**
    * POST /api/v1/auth/logout
-   * Cierra sesión (invalida el refresh token)
+   * Cierra sesión (revoca la sesión actual)
    */
   async logout(req: Request, res: Response): Promise<void> {
     try {
       const userId = (req as AuthenticatedRequest).user?.id
+      const sessionId = (req as AuthenticatedRequest).user?.sessionId
       
       if (!userId) {
         res.status(HTTP_STATUS.UNAUTHORIZED).json({
@@ -254,7 +423,15 @@ export class AuthController {
         return
       }
       
-      const result = await this.authService.logout(userId)
+      // Cerrar la sesión de una suplantación la da por terminada (queda registrado)
+      const user = (req as AuthenticatedRequest).user
+      let result: { message: string }
+      if (user?.impersonatorId !== undefined) {
+        await this.impersonationService.stop(user, this.getClientInfo(req))
+        result = { message: HTTP_MESSAGES.IMPERSONATION_STOPPED }
+      } else {
+        result = await this.authService.logout(userId, sessionId)
+      }
       
       const response: ApiResponse<typeof result> = {
         success: true,
@@ -296,17 +473,411 @@ export class AuthController {
     }
   }
   
+  /**
+   * GET /api/v1/auth/password-policy
+   * Devuelve la política de contraseñas vigente (para mostrar los requisitos en la UI)
+   */
+  async getPasswordPolicy(_req: Request, res: Response): Promise<void> {
+    try {
+      const response: ApiResponse<PasswordPolicyInfo> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: this.passwordPolicyService.getPolicy(),
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * GET /api/v1/auth/sessions
+   * Lista las sesiones activas del usuario autenticado
+   */
+  async getSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as AuthenticatedRequest).user
+      
+      if (!user) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      const sessions = await this.sessionService.listSessions(user.id, user.sessionId)
+      
+      const response: ApiResponse<SessionInfo[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: sessions,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * DELETE /api/v1/auth/sessions/:id
+   * Revoca una sesión del usuario autenticado
+   */
+  async revokeSession(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as AuthenticatedRequest).user
+      const sessionId = req.params.id
+      
+      if (!user) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      if (typeof sessionId !== 'string' || !sessionId) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ID de sesión inválido',
+        })
+        return
+      }
+      
+      await this.sessionService.revokeSession(user.id, sessionId)
+      
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.SESSION_REVOKED,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * DELETE /api/v1/auth/sessions
+   * Cierra todas las sesiones excepto la actual
+   */
+  async revokeOtherSessions(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as AuthenticatedRequest).user
+      
+      if (!user) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      const revoked = await this.sessionService.revokeOtherSessions(user.id, user.sessionId)
+      
+      const response: ApiResponse<{ revoked: number }> = {
+        success: true,
+        message: HTTP_MESSAGES.OTHER_SESSIONS_REVOKED,
+        data: { revoked },
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/login/mfa
+   * Completa el login con un código TOTP o de recuperación
+   */
+  async loginMfa(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfaToken, code } = req.body as MfaLoginInput
+      
+      if (!mfaToken || !code) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El mfaToken y el código son requeridos',
+        })
+        return
+      }
+      
+      const result = await this.authService.completeMfaLogin({ mfaToken, code }, this.getClientInfo(req))
+      
+      const response: ApiResponse<MfaLoginResponse> = {
+        success: true,
+        message: 'Inicio de sesión exitoso',
+        data: result,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/login/mfa/setup
+   * Inicia la configuración de 2FA durante el login (rol que exige 2FA)
+   */
+  async loginMfaSetup(req: Request, res: Response): Promise<void> {
+    try {
+      const { mfaToken } = req.body as Partial<MfaLoginInput>
+      
+      if (!mfaToken) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El mfaToken es requerido',
+        })
+        return
+      }
+      
+      const result = await this.authService.setupMfaLogin(mfaToken)
+      
+      const response: ApiResponse<TwoFactorSetupResponse> = {
+        success: true,
+        message: 'Escanea el código QR con tu app de autenticación',
+        data: result,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * GET /api/v1/auth/2fa
+   * Obtiene el estado de la verificación en dos pasos
+   */
+  async getTwoFactorStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthenticatedRequest).user?.id
+      
+      if (!userId) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      const status = await this.twoFactorService.getStatus(userId)
+      
+      const response: ApiResponse<TwoFactorStatus> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: status,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/2fa/setup
+   * Genera el secreto y la URI otpauth:// para la app de autenticación
+   */
+  async setupTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthenticatedRequest).user?.id
+      
+      if (!userId) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      const result = await this.twoFactorService.setup(userId)
+      
+      const response: ApiResponse<TwoFactorSetupResponse> = {
+        success: true,
+        message: 'Escanea el código QR con tu app de autenticación',
+        data: result,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/2fa/confirm
+   * Activa la verificación en dos pasos con el primer código de la app
+   */
+  async confirmTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthenticatedRequest).user?.id
+      const { code } = req.body as TwoFactorCodeInput
+      
+      if (!userId) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      if (!code) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El código es requerido',
+        })
+        return
+      }
+      
+      const result = await this.twoFactorService.confirm(userId, code)
+      
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: 'Verificación en dos pasos activada. Guarda los códigos de recuperación en un lugar seguro',
+        data: result,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/2fa/disable
+   * Desactiva la verificación en dos pasos (requiere contraseña y código)
+   */
+  async disableTwoFactor(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthenticatedRequest).user?.id
+      const { password, code } = req.body as DisableTwoFactorInput
+      
+      if (!userId) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      if (!password || !code) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'La contraseña y el código son requeridos',
+        })
+        return
+      }
+      
+      await this.twoFactorService.disable(userId, password, code)
+      
+      const response: ApiResponse = {
+        success: true,
+        message: 'Verificación en dos pasos desactivada',
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/auth/2fa/recovery-codes
+   * Genera nuevos códigos de recuperación (invalida los anteriores)
+   */
+  async regenerateRecoveryCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthenticatedRequest).user?.id
+      const { code } = req.body as TwoFactorCodeInput
+      
+      if (!userId) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      if (!code) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El código es requerido',
+        })
+        return
+      }
+      
+      const result = await this.twoFactorService.regenerateRecoveryCodes(userId, code)
+      
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        message: 'Códigos de recuperación regenerados. Los anteriores ya no son válidos',
+        data: result,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * Extrae la información del cliente (dispositivo) de la petición
+   */
+  private getClientInfo(req: Request): ClientInfo {
+    const client: ClientInfo = {}
+    const userAgent = req.get('user-agent')
+    
+    if (userAgent) {
+      client.userAgent = userAgent.substring(0, 512)
+    }
+    if (req.ip) {
+      client.ipAddress = req.ip
+    }
+    
+    return client
+  }
+  
   /**
    * Maneja errores y envía respuestas HTTP apropiadas
    */
   private handleError(error: unknown, res: Response): void {
     if (error instanceof Error) {
-      const statusCode = (error as Error & { statusCode?: number }).statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR
+      const { statusCode, retryAfter, details } = error as Error & {
+        statusCode?: number
+        retryAfter?: number
+        details?: unknown
+      }
+      
+      // Indicar al cliente cuánto esperar (bloqueos y límites de intentos)
+      if (retryAfter) {
+        res.setHeader('Retry-After', String(retryAfter))
+      }
       
-      res.status(statusCode).json({
+      res.status(statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
         success: false,
         message: HTTP_MESSAGES.INTERNAL_ERROR,
         error: error.message,
+        // Información adicional del error (ej: reglas de contraseña incumplidas)
+        ...(details !== undefined && { details }),
       })
       return
     }
@@ -2,9 +2,13 @@
  * FILE CONTROLLER - Controlador para Manejo de Archivos
  * 
  * Este controller maneja las peticiones HTTP relacionadas con archivos:
- * - Subir archivos
- * - Eliminar archivos
+ * - Subir archivos (a la carpeta del usuario: "users/<userId>/") y registrarlos
+ * - Listar y obtener los archivos registrados
+ * - Descargar archivos en streaming (con rangos de bytes, ETag y Last-Modified)
+ * - Generar URLs firmadas (temporales, sin autenticación) y servir los archivos con ellas
+ * - Eliminar archivos (por ID o por ruta)
  * - Obtener información de archivos
+ * - Obtener el propietario y los atributos de un archivo (para requireOwnershipOr y requirePolicy)
  * 
  * USO:
  *   import { FileController } from '../controllers/File.controller'
@@ -13,10 +17,19 @@
  */
 
 import type { Request, Response } from 'express'
+import { pipeline } from 'stream'
 import { FileService } from '../services/File.service'
 import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
-import type { ApiResponse } from '../types'
-import { ALLOWED_MIME_TYPES, MAX_FILE_SIZES } from '../utils/file.util'
+import type { ApiResponse, AuthenticatedRequest, PaginatedResponse } from '../types'
+import type { FileResource } from '../config/policies.config'
+import { ALLOWED_MIME_TYPES, MAX_FILE_SIZES, buildContentDisposition, isInlineSafeMimeType } from '../utils/file.util'
+import { logError } from '../utils/logger.util'
+import type { ByteRange, SignedUrlOptions } from '../storage/interfaces/Storage.interface'
+import type { SignedUrlResult } from '../services/File.service'
+import { FILE_VISIBILITY } from '../models/File.model'
+import { getTenantId } from '../utils/tenant.util'
+import type { FileFilters, FileInfo, FileVisibility } from '../models/File.model'
+import type { File } from '@prisma/client'
 
 // Extender Request para incluir archivos de multer
 interface MulterRequest extends Omit<Request, 'file' | 'files'> {
@@ -63,6 +76,28 @@ export class FileController {
         return
       }
 
+      const ownerId = this.getUploadOwnerId(req as unknown as Request)
+
+      if (ownerId === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ownerId inválido',
+        })
+        return
+      }
+
+      const visibility = parseVisibility(req.query.visibility)
+
+      if (visibility === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'visibility debe ser "private" o "public"',
+        })
+        return
+      }
+
       // Opciones de configuración desde query params
       const options: {
         folder?: string
@@ -70,12 +105,22 @@ export class FileController {
         prefix?: string
         allowedMimeTypes?: string[]
         maxSize?: number
+        ownerId: number
+        uploadedById?: number
+        organizationId?: number
+        visibility: FileVisibility
       } = {
         useDatePath: req.query.useDatePath === 'true',
+        folder: this.fileService.getOwnerFolder(ownerId, req.query.folder as string | undefined),
+        ownerId,
+        visibility,
       }
       
-      if (req.query.folder) options.folder = req.query.folder as string
       if (req.query.prefix) options.prefix = req.query.prefix as string
+      const uploaderId = (req as unknown as AuthenticatedRequest).user?.id
+      if (uploaderId !== undefined) options.uploadedById = uploaderId
+      const organizationId = getTenantId(req as unknown as Request)
+      if (organizationId !== undefined) options.organizationId = organizationId
       if (req.query.allowedTypes) {
         options.allowedMimeTypes = (req.query.allowedTypes as string).split(',')
       }
@@ -143,17 +188,49 @@ export class FileController {
         return
       }
 
+      const ownerId = this.getUploadOwnerId(req as unknown as Request)
+
+      if (ownerId === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ownerId inválido',
+        })
+        return
+      }
+
+      const visibility = parseVisibility(req.query.visibility)
+
+      if (visibility === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'visibility debe ser "private" o "public"',
+        })
+        return
+      }
+
       // Opciones de configuración
       const options: {
         folder?: string
         useDatePath: boolean
         prefix?: string
+        ownerId: number
+        uploadedById?: number
+        organizationId?: number
+        visibility: FileVisibility
       } = {
         useDatePath: req.query.useDatePath === 'true',
+        folder: this.fileService.getOwnerFolder(ownerId, req.query.folder as string | undefined),
+        ownerId,
+        visibility,
       }
       
-      if (req.query.folder) options.folder = req.query.folder as string
       if (req.query.prefix) options.prefix = req.query.prefix as string
+      const uploaderId = (req as unknown as AuthenticatedRequest).user?.id
+      if (uploaderId !== undefined) options.uploadedById = uploaderId
+      const organizationId = getTenantId(req as unknown as Request)
+      if (organizationId !== undefined) options.organizationId = organizationId
 
       // Subir todos los archivos
       const uploadPromises = files.map((file) =>
@@ -198,6 +275,198 @@ export class FileController {
     }
   }
 
+  /**
+   * GET /api/v1/files
+   * Lista los archivos registrados del usuario autenticado (o de ?ownerId=) con paginación
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const ownerId = this.getUploadOwnerId(req)
+
+      if (ownerId === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ownerId inválido',
+        })
+        return
+      }
+
+      const page = parseInt(req.query.page as string) || 1
+      const limit = parseInt(req.query.limit as string) || 10
+      const filters: FileFilters = { ownerId }
+      const organizationId = getTenantId(req)
+      if (organizationId !== undefined) filters.organizationId = organizationId
+      if (req.query.mimetype) filters.mimetype = req.query.mimetype as string
+
+      const result = await this.fileService.listFiles(filters, page, limit)
+
+      const response: ApiResponse<PaginatedResponse<FileInfo>> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: result,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/files/:id
+   * Obtiene un archivo registrado
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      const file = await this.fileService.getFileById(id, getTenantId(req))
+
+      const response: ApiResponse<FileInfo> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: file,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/files/:id/download
+   * Descarga un archivo registrado en streaming
+   * 
+   * - ?inline=true lo muestra en el navegador (imágenes, PDF, texto) en lugar de descargarlo
+   * - Range: bytes=<inicio>-<fin> responde 206 con ese rango (416 si no es satisfacible);
+   *   con If-Range que no coincide con el ETag se envía el archivo entero
+   * - ETag (checksum SHA-256) y Last-Modified: responde 304 si el cliente ya lo tiene
+   */
+  async download(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      const file = await this.fileService.getFileById(id, getTenantId(req))
+
+      await this.sendFile(req, res, file, req.query.inline === 'true', 'private, no-cache')
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/files/:id/signed-url
+   * Genera una URL firmada para leer el archivo sin autenticación (ej: en un <img>)
+   * 
+   * - ?expiresIn=<segundos> (por defecto STORAGE_SIGNED_URL_EXPIRES_SECONDS)
+   * - ?disposition=inline|attachment (por defecto attachment; inline solo para los
+   *   tipos de INLINE_SAFE_MIME_TYPES, el resto se descarga)
+   */
+  async getSignedUrl(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      const disposition = parseDisposition(req.query.disposition)
+
+      if (disposition === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'disposition debe ser "inline" o "attachment"',
+        })
+        return
+      }
+
+      const file = await this.fileService.getFileById(id, getTenantId(req))
+      const expiresIn = req.query.expiresIn !== undefined ? Number(req.query.expiresIn) : undefined
+      const result = await this.fileService.createSignedUrl(file, expiresIn, disposition)
+
+      const response: ApiResponse<SignedUrlResult> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: result,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/files/signed/*path?expires=&disposition=&signature=
+   * Sirve un archivo del storage local con una URL firmada (sin autenticación)
+   * 
+   * La firma cubre la ruta, la expiración y el modo de Content-Disposition.
+   * Admite Range, ETag y Last-Modified igual que /:id/download.
+   */
+  async downloadSigned(req: Request, res: Response): Promise<void> {
+    try {
+      const filePath = this.getFilePath(req)
+      const expires = Number(req.query.expires)
+      const disposition = req.query.disposition
+      const signature = req.query.signature
+
+      if (
+        !filePath ||
+        (disposition !== 'inline' && disposition !== 'attachment') ||
+        typeof signature !== 'string' ||
+        !this.fileService.verifySignedPath(filePath, expires, disposition, signature)
+      ) {
+        res.status(HTTP_STATUS.FORBIDDEN).json({
+          success: false,
+          message: HTTP_MESSAGES.FORBIDDEN,
+          error: 'URL firmada inválida o expirada',
+        })
+        return
+      }
+
+      const file = await this.fileService.getFileByPath(filePath)
+
+      if (!file) {
+        res.status(HTTP_STATUS.NOT_FOUND).json({
+          success: false,
+          message: HTTP_MESSAGES.NOT_FOUND,
+          error: 'Archivo no encontrado',
+        })
+        return
+      }
+
+      // Cacheable por el navegador mientras la URL sea válida
+      const maxAge = Math.max(expires - Math.floor(Date.now() / 1000), 0)
+      await this.sendFile(req, res, file, disposition === 'inline', `private, max-age=${maxAge}`)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/files/:id
+   * Elimina un archivo registrado (el objeto del storage y su registro)
+   */
+  async deleteById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      await this.fileService.deleteFileById(id, getTenantId(req))
+
+      const response: ApiResponse = {
+        success: true,
+        message: 'Archivo eliminado exitosamente',
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
   /**
    * DELETE /api/v1/files/:path
    * Elimina un archivo
@@ -206,20 +475,7 @@ export class FileController {
    */
   async delete(req: Request, res: Response): Promise<void> {
     try {
-      // Intentar obtener desde req.params.path primero (para rutas simples)
-      let filePath = req.params.path as string | undefined
-      
-      // Si no está en params o parece ser solo un segmento, extraer desde req.path
-      // req.path será algo como "/api/v1/files/2024/01/15/archivo.jpg"
-      if (!filePath || !filePath.includes('/')) {
-        const fullPath = req.path
-        const basePath = '/api/v1/files/'
-        if (fullPath.startsWith(basePath)) {
-          filePath = fullPath.slice(basePath.length)
-        } else if (fullPath.startsWith('/api/v1/files')) {
-          filePath = fullPath.slice('/api/v1/files'.length + 1)
-        }
-      }
+      const filePath = this.getFilePath(req)
 
       if (!filePath) {
         res.status(HTTP_STATUS.BAD_REQUEST).json({
@@ -257,6 +513,72 @@ export class FileController {
     }
   }
 
+  /**
+   * Propietario de un archivo subido: el usuario indicado en ?ownerId=
+   * o el usuario autenticado (lo usa requireOwnershipOr)
+   */
+  getUploadOwnerId(req: Request): number | null {
+    if (req.query.ownerId !== undefined) {
+      const ownerId = typeof req.query.ownerId === 'string' ? parseInt(req.query.ownerId) : NaN
+      return isNaN(ownerId) || ownerId <= 0 ? null : ownerId
+    }
+
+    return (req as AuthenticatedRequest).user?.id ?? null
+  }
+
+  /**
+   * Atributos del archivo registrado de /api/v1/files/:id (los usa requirePolicy)
+   * null si el ID no es válido o el archivo no existe
+   */
+  async getFileRecordResource(req: Request): Promise<FileResource | null> {
+    const id = typeof req.params.id === 'string' ? parseInt(req.params.id) : NaN
+    if (isNaN(id) || id <= 0) {
+      return null
+    }
+
+    try {
+      const file = await this.fileService.getFileById(id, getTenantId(req))
+      return { path: file.key, ownerId: file.ownerId, uploadedAt: file.createdAt, visibility: file.visibility }
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Atributos del archivo de DELETE /api/v1/files/*path (los usa requirePolicy)
+   * El propietario y la fecha de subida salen del registro del archivo; los
+   * archivos sin registro (subidos antes de registrarlos) usan su ruta y el storage.
+   * Con organización activa solo cuentan los archivos registrados en ella.
+   * null si el archivo no existe
+   */
+  async getFileResource(req: Request): Promise<FileResource | null> {
+    const filePath = this.getFilePath(req)
+    if (!filePath) {
+      return null
+    }
+
+    const organizationId = getTenantId(req)
+    const record = await this.fileService.getFileByPath(filePath, organizationId)
+    if (record) {
+      return { path: filePath, ownerId: record.ownerId, uploadedAt: record.createdAt, visibility: record.visibility }
+    }
+    if (organizationId !== undefined) {
+      return null
+    }
+
+    const uploadedAt = await this.fileService.getUploadedAt(filePath)
+    if (!uploadedAt) {
+      return null
+    }
+
+    return {
+      path: filePath,
+      ownerId: this.fileService.getOwnerId(filePath),
+      uploadedAt,
+      visibility: null,
+    }
+  }
+
   /**
    * GET /api/v1/files/info
    * Obtiene información sobre tipos de archivo permitidos
@@ -294,5 +616,169 @@ export class FileController {
 
     res.status(HTTP_STATUS.OK).json(response)
   }
+
+  /**
+   * Envía un archivo registrado en streaming
+   * 
+   * - Range: bytes=<inicio>-<fin> responde 206 con ese rango (416 si no es satisfacible);
+   *   con If-Range que no coincide con el ETag se envía el archivo entero
+   * - ETag (checksum SHA-256) y Last-Modified: responde 304 si el cliente ya lo tiene
+   * - Las cabeceras del archivo se ponen después de abrirlo: si el objeto falta en el
+   *   storage, el error sale como JSON sin su tipo, Content-Disposition ni caché
+   * - X-Content-Type-Options: nosniff (el navegador no adivina otro tipo del contenido)
+   * - inline solo para los tipos de INLINE_SAFE_MIME_TYPES: un SVG o HTML mostrado
+   *   en el navegador ejecutaría sus scripts en el origen de la API
+   */
+  private async sendFile(req: Request, res: Response, file: File, inline: boolean, cacheControl: string): Promise<void> {
+    // req.fresh compara If-None-Match / If-Modified-Since con estas cabeceras
+    res.setHeader('ETag', `"${file.checksum}"`)
+    res.setHeader('Last-Modified', file.createdAt.toUTCString())
+
+    if (req.fresh) {
+      res.setHeader('Cache-Control', cacheControl)
+      res.status(HTTP_STATUS.NOT_MODIFIED).end()
+      return
+    }
+
+    const range = getRequestedRange(req, file.size, `"${file.checksum}"`)
+
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${file.size}`)
+      res.status(HTTP_STATUS.RANGE_NOT_SATISFIABLE).end()
+      return
+    }
+
+    let stream: NodeJS.ReadableStream
+    try {
+      stream = await this.fileService.openFileStream(file, range ?? undefined)
+    } catch (error) {
+      res.removeHeader('ETag')
+      res.removeHeader('Last-Modified')
+      throw error
+    }
+
+    res.setHeader('Content-Type', file.mimetype)
+    res.setHeader(
+      'Content-Disposition',
+      buildContentDisposition(file.originalName, inline && isInlineSafeMimeType(file.mimetype))
+    )
+    res.setHeader('X-Content-Type-Options', 'nosniff')
+    res.setHeader('Accept-Ranges', 'bytes')
+    res.setHeader('Cache-Control', cacheControl)
+
+    if (range) {
+      res.status(HTTP_STATUS.PARTIAL_CONTENT)
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`)
+      res.setHeader('Content-Length', range.end - range.start + 1)
+    } else {
+      res.status(HTTP_STATUS.OK)
+      res.setHeader('Content-Length', file.size)
+    }
+
+    pipeline(stream, res, (error) => {
+      // El cliente cerró la conexión (ej: salto en un video): no es un error
+      if (error && error.code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+        logError(error, { action: 'file_download', fileId: file.id })
+      }
+    })
+  }
+
+  /**
+   * Obtiene la ruta del archivo de la petición
+   * Ruta comodín: req.params.path trae los segmentos ("users/5/2024/01/15/archivo.jpg")
+   */
+  private getFilePath(req: Request): string | undefined {
+    const segments = req.params.path as string | string[] | undefined
+    const filePath = Array.isArray(segments) ? segments.join('/') : segments
+    return filePath || undefined
+  }
+}
+
+/**
+ * Lee la visibilidad de ?visibility= ("private" si no se indica; null si no es válida)
+ */
+function parseVisibility(value: unknown): FileVisibility | null {
+  if (value === undefined) {
+    return FILE_VISIBILITY.PRIVATE
+  }
+
+  const visibilities: string[] = Object.values(FILE_VISIBILITY)
+  return typeof value === 'string' && visibilities.includes(value) ? (value as FileVisibility) : null
+}
+
+/**
+ * Lee el modo de ?disposition= ("attachment" si no se indica; null si no es válido)
+ */
+function parseDisposition(value: unknown): NonNullable<SignedUrlOptions['disposition']> | null {
+  if (value === undefined) {
+    return 'attachment'
+  }
+  return value === 'inline' || value === 'attachment' ? value : null
+}
+
+/**
+ * Rango de bytes pedido en la cabecera Range
+ * 
+ * @returns El rango, null para enviar el archivo entero (sin Range, Range inválido,
+ *   varios rangos o If-Range que no coincide) o "unsatisfiable" si está fuera del archivo
+ */
+function getRequestedRange(req: Request, size: number, etag: string): ByteRange | null | 'unsatisfiable' {
+  if (!req.headers.range || size === 0) {
+    return null
+  }
+
+  const ifRange = req.headers['if-range']
+  if (ifRange && ifRange !== etag) {
+    return null
+  }
+
+  const ranges = req.range(size, { combine: true })
+  if (ranges === -1) {
+    return 'unsatisfiable'
+  }
+  if (ranges === undefined || ranges === -2 || ranges.type !== 'bytes' || ranges.length !== 1 || !ranges[0]) {
+    return null
+  }
+
+  return { start: ranges[0].start, end: ranges[0].end }
 }
 
+/**
+ * Lee un ID numérico de los parámetros de la ruta (responde 400 si no es válido)
+ */
+function parseIdParam(param: unknown, res: Response): number | null {
+  const id = typeof param === 'string' ? parseInt(param) : NaN
+
+  if (isNaN(id) || id <= 0) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: 'ID de archivo inválido',
+    })
+    return null
+  }
+
+  return id
+}
+
+/**
+ * Maneja errores y envía respuestas HTTP apropiadas
+ */
+function handleError(error: unknown, res: Response): void {
+  if (error instanceof Error) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR
+
+    res.status(statusCode).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error.message,
+    })
+    return
+  }
+
+  res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+    success: false,
+    message: HTTP_MESSAGES.INTERNAL_ERROR,
+    error: 'Ocurrió un error desconocido',
+  })
+}
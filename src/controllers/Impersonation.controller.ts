@@ -0,0 +1,148 @@
+/**
+ * IMPERSONATION CONTROLLER - Controlador HTTP para la Suplantación de Usuarios
+ *
+ * Este controller maneja las peticiones HTTP de suplantación:
+ * - Iniciar la suplantación de un usuario (administrador de soporte)
+ * - Terminar la suplantación en curso (con el token de suplantación)
+ *
+ * USO:
+ *   import { ImpersonationController } from '../controllers/Impersonation.controller'
+ *   const impersonationController = new ImpersonationController()
+ *   router.post('/impersonate/:userId', impersonationController.start.bind(impersonationController))
+ */
+
+import type { Request, Response } from 'express'
+import { ImpersonationService } from '../services/Impersonation.service'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import type { ApiResponse, AuthenticatedRequest } from '../types'
+import type { ImpersonationResponse } from '../models/Impersonation.model'
+import type { ClientInfo } from '../models/Session.model'
+
+export class ImpersonationController {
+  private impersonationService: ImpersonationService
+
+  constructor() {
+    this.impersonationService = new ImpersonationService()
+  }
+
+  /**
+   * POST /api/v1/admin/impersonate/:userId
+   * Inicia la suplantación de un usuario
+   */
+  async start(req: Request, res: Response): Promise<void> {
+    try {
+      const actor = getAuthenticatedUser(req, res)
+      if (!actor) return
+
+      const userId = typeof req.params.userId === 'string' ? parseInt(req.params.userId) : NaN
+
+      if (isNaN(userId) || userId <= 0) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ID de usuario inválido',
+        })
+        return
+      }
+
+      const result = await this.impersonationService.start(
+        { id: actor.id, email: actor.email },
+        userId,
+        getClientInfo(req)
+      )
+
+      const response: ApiResponse<ImpersonationResponse> = {
+        success: true,
+        message: HTTP_MESSAGES.IMPERSONATION_STARTED,
+        data: result,
+      }
+
+      res.status(HTTP_STATUS.CREATED).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/admin/impersonate
+   * Termina la suplantación en curso (requiere el token de suplantación)
+   */
+  async stop(req: Request, res: Response): Promise<void> {
+    try {
+      const user = getAuthenticatedUser(req, res)
+      if (!user) return
+
+      await this.impersonationService.stop(user, getClientInfo(req))
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.IMPERSONATION_STOPPED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Obtiene el usuario autenticado o responde 401
+ */
+function getAuthenticatedUser(req: Request, res: Response): NonNullable<AuthenticatedRequest['user']> | null {
+  const user = (req as AuthenticatedRequest).user
+
+  if (!user) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({
+      success: false,
+      message: HTTP_MESSAGES.UNAUTHORIZED,
+      error: 'Autenticación requerida',
+    })
+    return null
+  }
+
+  return user
+}
+
+/**
+ * Extrae la información del cliente (navegador / IP) de la petición
+ */
+function getClientInfo(req: Request): ClientInfo {
+  const client: ClientInfo = {}
+  const userAgent = req.get('user-agent')
+
+  if (userAgent) {
+    client.userAgent = userAgent.substring(0, 512)
+  }
+  if (req.ip) {
+    client.ipAddress = req.ip
+  }
+
+  return client
+}
+
+/**
+ * Maneja errores y envía respuestas HTTP apropiadas
+ */
+function handleError(error: unknown, res: Response): void {
+  if (error instanceof Error) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR
+
+    res.status(statusCode).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error.message,
+    })
+    return
+  }
+
+  res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+    success: false,
+    message: HTTP_MESSAGES.INTERNAL_ERROR,
+    error: 'Ocurrió un error desconocido',
+  })
+}
@@ -0,0 +1,266 @@
+/**
+ * OAUTH CONTROLLER - Controlador HTTP para Login Social
+ *
+ * Este controller maneja las peticiones HTTP del login con proveedores
+ * OAuth2 / OpenID Connect:
+ * - Listar los proveedores habilitados
+ * - Iniciar el flujo (redirección al proveedor) y procesar el callback
+ * - Vincular, listar y desvincular identidades de la cuenta autenticada
+ *
+ * USO:
+ *   import { OAuthController } from '../controllers/OAuth.controller'
+ *   const oauthController = new OAuthController()
+ *   router.get('/:provider', oauthController.authorize.bind(oauthController))
+ */
+
+import type { Request, Response } from 'express'
+import { OAuthService } from '../services/OAuth.service'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import type { ApiResponse, AuthenticatedRequest } from '../types'
+import type { ClientInfo } from '../models/Session.model'
+import type {
+  OAuthAuthorizationResponse,
+  OAuthCallbackInput,
+  OAuthCallbackResult,
+  UserIdentityInfo,
+} from '../models/OAuth.model'
+
+export class OAuthController {
+  private oauthService: OAuthService
+
+  constructor() {
+    this.oauthService = new OAuthService()
+  }
+
+  /**
+   * GET /api/v1/auth/oauth/providers
+   * Lista los proveedores habilitados
+   */
+  async getProviders(_req: Request, res: Response): Promise<void> {
+    const response: ApiResponse<string[]> = {
+      success: true,
+      message: HTTP_MESSAGES.SUCCESS,
+      data: this.oauthService.listProviders(),
+    }
+
+    res.status(HTTP_STATUS.OK).json(response)
+  }
+
+  /**
+   * GET /api/v1/auth/oauth/:provider
+   * Inicia el login: redirige al proveedor
+   * (responde JSON con la URL si el cliente solo acepta JSON)
+   */
+  async authorize(req: Request, res: Response): Promise<void> {
+    try {
+      const authorizationUrl = await this.oauthService.startAuthorization(String(req.params.provider))
+
+      if (req.accepts(['html', 'json']) === 'json') {
+        const response: ApiResponse<OAuthAuthorizationResponse> = {
+          success: true,
+          message: HTTP_MESSAGES.SUCCESS,
+          data: { authorizationUrl },
+        }
+        res.status(HTTP_STATUS.OK).json(response)
+        return
+      }
+
+      res.redirect(authorizationUrl)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/auth/oauth/:provider/callback
+   * Procesa la respuesta del proveedor (login o vinculación)
+   */
+  async callback(req: Request, res: Response): Promise<void> {
+    try {
+      const input: OAuthCallbackInput = {}
+      if (typeof req.query.code === 'string') input.code = req.query.code
+      if (typeof req.query.state === 'string') input.state = req.query.state
+      if (typeof req.query.error === 'string') input.error = req.query.error
+
+      const result = await this.oauthService.handleCallback(
+        String(req.params.provider),
+        input,
+        getClientInfo(req)
+      )
+
+      let message: string
+      if (result.mode === 'link') {
+        message = HTTP_MESSAGES.OAUTH_IDENTITY_LINKED
+      } else if ('mfaRequired' in result.login) {
+        message = 'Se requiere la verificación en dos pasos'
+      } else {
+        message = result.isNewUser ? 'Cuenta creada e inicio de sesión exitoso' : 'Inicio de sesión exitoso'
+      }
+
+      const response: ApiResponse<OAuthCallbackResult> = {
+        success: true,
+        message,
+        data: result,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/auth/oauth/:provider/link
+   * Inicia la vinculación de un proveedor a la cuenta autenticada
+   */
+  async link(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const authorizationUrl = await this.oauthService.startAuthorization(String(req.params.provider), userId)
+
+      const response: ApiResponse<OAuthAuthorizationResponse> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: { authorizationUrl },
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/auth/oauth/identities
+   * Lista las cuentas externas vinculadas
+   */
+  async getIdentities(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const identities = await this.oauthService.listIdentities(userId)
+
+      const response: ApiResponse<UserIdentityInfo[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: identities,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/auth/oauth/identities/:id
+   * Desvincula una cuenta externa
+   */
+  async unlink(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const id = parseIdParam(req.params.id, res)
+      if (id === null) return
+
+      await this.oauthService.unlinkIdentity(userId, id)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.OAUTH_IDENTITY_UNLINKED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Obtiene el ID del usuario autenticado o responde 401
+ */
+function getUserId(req: Request, res: Response): number | null {
+  const userId = (req as AuthenticatedRequest).user?.id
+
+  if (!userId) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({
+      success: false,
+      message: HTTP_MESSAGES.UNAUTHORIZED,
+      error: 'Autenticación requerida',
+    })
+    return null
+  }
+
+  return userId
+}
+
+/**
+ * Convierte el parámetro :id en número o responde 400
+ */
+function parseIdParam(param: unknown, res: Response): number | null {
+  const id = typeof param === 'string' ? parseInt(param) : NaN
+
+  if (isNaN(id) || id <= 0) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: 'ID de cuenta externa inválido',
+    })
+    return null
+  }
+
+  return id
+}
+
+/**
+ * Extrae la información del cliente (dispositivo) de la petición
+ */
+function getClientInfo(req: Request): ClientInfo {
+  const client: ClientInfo = {}
+  const userAgent = req.get('user-agent')
+
+  if (userAgent) {
+    client.userAgent = userAgent.substring(0, 512)
+  }
+  if (req.ip) {
+    client.ipAddress = req.ip
+  }
+
+  return client
+}
+
+/**
+ * Maneja errores y envía respuestas HTTP apropiadas
+ */
+function handleError(error: unknown, res: Response): void {
+  if (error instanceof Error) {
+    const { statusCode, retryAfter } = error as Error & { statusCode?: number; retryAfter?: number }
+
+    // Indicar al cliente cuánto esperar (bloqueos y límites de intentos)
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter))
+    }
+
+    res.status(statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error.message,
+    })
+    return
+  }
+
+  res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+    success: false,
+    message: HTTP_MESSAGES.INTERNAL_ERROR,
+    error: 'Ocurrió un error desconocido',
+  })
+}
@@ -0,0 +1,402 @@
+/**
+ * ORGANIZATION CONTROLLER - Controlador HTTP para Organizaciones
+ *
+ * Este controller maneja las peticiones HTTP de las organizaciones:
+ * - Listar las organizaciones del usuario y crear organizaciones
+ * - Cambiar la organización activa de la sesión
+ * - Gestionar los miembros de la organización activa
+ * - Invitar a la organización activa y aceptar invitaciones
+ *
+ * USO:
+ *   import { OrganizationController } from '../controllers/Organization.controller'
+ *   const organizationController = new OrganizationController()
+ *   router.get('/', organizationController.getAll.bind(organizationController))
+ */
+
+import type { Request, Response } from 'express'
+import { OrganizationService } from '../services/Organization.service'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import type { ApiResponse, AuthenticatedRequest } from '../types'
+import type { Organization } from '@prisma/client'
+import type {
+  AcceptInvitationResponse,
+  CreateOrganizationInput,
+  InvitationInfo,
+  InviteMemberInput,
+  MembershipInfo,
+  SwitchOrganizationResponse,
+  UserOrganization,
+} from '../models/Organization.model'
+import { getTenantId } from '../utils/tenant.util'
+
+export class OrganizationController {
+  private organizationService: OrganizationService
+
+  constructor() {
+    this.organizationService = new OrganizationService()
+  }
+
+  /**
+   * GET /api/v1/organizations
+   * Lista las organizaciones del usuario autenticado
+   */
+  async getAll(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const organizations = await this.organizationService.getUserOrganizations(userId, getTenantId(req))
+
+      const response: ApiResponse<UserOrganization[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: organizations,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/organizations
+   * Crea una organización (el usuario queda como org_admin)
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const { name, slug } = req.body as CreateOrganizationInput
+
+      const organization = await this.organizationService.createOrganization(userId, { name, slug })
+
+      const response: ApiResponse<Organization> = {
+        success: true,
+        message: HTTP_MESSAGES.ORGANIZATION_CREATED,
+        data: organization,
+      }
+
+      res.status(HTTP_STATUS.CREATED).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/organizations/switch
+   * Cambia la organización activa de la sesión (null = ninguna)
+   */
+  async switch(req: Request, res: Response): Promise<void> {
+    try {
+      const user = (req as AuthenticatedRequest).user
+      if (getUserId(req, res) === null || !user) return
+
+      const { organizationId } = req.body as { organizationId?: unknown }
+
+      if (organizationId !== null && (!Number.isInteger(organizationId) || (organizationId as number) <= 0)) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'organizationId debe ser un ID de organización o null',
+        })
+        return
+      }
+
+      const result = await this.organizationService.switchOrganization(
+        { id: user.id, email: user.email, role: user.role ?? '' },
+        user.sessionId,
+        organizationId as number | null
+      )
+
+      const response: ApiResponse<SwitchOrganizationResponse> = {
+        success: true,
+        message: HTTP_MESSAGES.ORGANIZATION_SWITCHED,
+        data: result,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/organizations/current/members
+   * Lista los miembros de la organización activa
+   */
+  async getMembers(req: Request, res: Response): Promise<void> {
+    try {
+      const organizationId = getOrganizationId(req, res)
+      if (organizationId === null) return
+
+      const members = await this.organizationService.listMembers(organizationId)
+
+      const response: ApiResponse<MembershipInfo[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: members,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * PUT /api/v1/organizations/current/members/:userId
+   * Cambia el rol de un miembro de la organización activa
+   */
+  async updateMember(req: Request, res: Response): Promise<void> {
+    try {
+      const organizationId = getOrganizationId(req, res)
+      if (organizationId === null) return
+
+      const userId = parseIdParam(req.params.userId, res)
+      if (userId === null) return
+
+      const { roleId } = req.body as { roleId: number }
+
+      await this.organizationService.updateMemberRole(organizationId, getActorPermissions(req), userId, roleId)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.MEMBER_UPDATED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/organizations/current/members/:userId
+   * Quita un miembro de la organización activa
+   */
+  async removeMember(req: Request, res: Response): Promise<void> {
+    try {
+      const actorId = getUserId(req, res)
+      if (actorId === null) return
+
+      const organizationId = getOrganizationId(req, res)
+      if (organizationId === null) return
+
+      const userId = parseIdParam(req.params.userId, res)
+      if (userId === null) return
+
+      await this.organizationService.removeMember(organizationId, actorId, userId)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.MEMBER_REMOVED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/organizations/current/invitations
+   * Lista las invitaciones de la organización activa
+   */
+  async getInvitations(req: Request, res: Response): Promise<void> {
+    try {
+      const organizationId = getOrganizationId(req, res)
+      if (organizationId === null) return
+
+      const invitations = await this.organizationService.listInvitations(organizationId)
+
+      const response: ApiResponse<InvitationInfo[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: invitations,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/organizations/current/invitations
+   * Invita a un email a la organización activa
+   * (misma respuesta exista o no una cuenta con ese email)
+   */
+  async invite(req: Request, res: Response): Promise<void> {
+    try {
+      const actorId = getUserId(req, res)
+      if (actorId === null) return
+
+      const organizationId = getOrganizationId(req, res)
+      if (organizationId === null) return
+
+      const { email, roleId } = req.body as InviteMemberInput
+
+      const invitation = await this.organizationService.inviteMember(
+        organizationId,
+        actorId,
+        getActorPermissions(req),
+        { email, roleId }
+      )
+
+      const response: ApiResponse<InvitationInfo> = {
+        success: true,
+        message: HTTP_MESSAGES.INVITATION_SENT,
+        data: invitation,
+      }
+
+      res.status(HTTP_STATUS.CREATED).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/organizations/current/invitations/:id
+   * Revoca una invitación de la organización activa
+   */
+  async revokeInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const organizationId = getOrganizationId(req, res)
+      if (organizationId === null) return
+
+      const invitationId = parseIdParam(req.params.id, res, 'ID de invitación inválido')
+      if (invitationId === null) return
+
+      await this.organizationService.revokeInvitation(organizationId, invitationId)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.INVITATION_REVOKED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/organizations/invitations/accept
+   * Acepta una invitación (el usuario autenticado se une a la organización)
+   */
+  async acceptInvitation(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = getUserId(req, res)
+      if (userId === null) return
+
+      const { token } = req.body as { token: string }
+
+      const result = await this.organizationService.acceptInvitation(userId, token)
+
+      const response: ApiResponse<AcceptInvitationResponse> = {
+        success: true,
+        message: HTTP_MESSAGES.INVITATION_ACCEPTED,
+        data: result,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Obtiene el ID del usuario autenticado o responde 401
+ */
+function getUserId(req: Request, res: Response): number | null {
+  const userId = (req as AuthenticatedRequest).user?.id
+
+  if (!userId) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({
+      success: false,
+      message: HTTP_MESSAGES.UNAUTHORIZED,
+      error: 'Autenticación requerida',
+    })
+    return null
+  }
+
+  return userId
+}
+
+/**
+ * Obtiene la organización activa o responde 400
+ */
+function getOrganizationId(req: Request, res: Response): number | null {
+  const organizationId = getTenantId(req)
+
+  if (organizationId === undefined) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: 'Selecciona una organización (header X-Organization-Id)',
+    })
+    return null
+  }
+
+  return organizationId
+}
+
+/**
+ * Permisos efectivos de quien hace la petición en la organización activa
+ * (cargados por requirePermission)
+ */
+function getActorPermissions(req: Request): string[] {
+  return (req as AuthenticatedRequest).user?.permissions ?? []
+}
+
+/**
+ * Convierte un parámetro de ID (:userId, :id) en número o responde 400
+ */
+function parseIdParam(param: unknown, res: Response, message = 'ID de usuario inválido'): number | null {
+  const id = typeof param === 'string' ? parseInt(param) : NaN
+
+  if (isNaN(id) || id <= 0) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: message,
+    })
+    return null
+  }
+
+  return id
+}
+
+/**
+ * Maneja errores y envía respuestas HTTP apropiadas
+ */
+function handleError(error: unknown, res: Response): void {
+  if (error instanceof Error) {
+    const { statusCode, retryAfter } = error as Error & { statusCode?: number; retryAfter?: number }
+
+    // Indicar al cliente cuánto esperar (límite de invitaciones)
+    if (retryAfter) {
+      res.setHeader('Retry-After', String(retryAfter))
+    }
+
+    res.status(statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error.message,
+    })
+    return
+  }
+
+  res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+    success: false,
+    message: HTTP_MESSAGES.INTERNAL_ERROR,
+    error: 'Ocurrió un error desconocido',
+  })
+}
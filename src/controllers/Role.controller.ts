@@ -0,0 +1,524 @@
+/**
+ * ROLE CONTROLLER - Controlador HTTP para Roles y Permisos
+ *
+ * Este controller maneja las peticiones HTTP de administración de roles y permisos:
+ * - CRUD de roles
+ * - CRUD de permisos
+ * - Asignación de permisos a roles
+ *
+ * USO:
+ *   import { RoleController, PermissionController } from '../controllers/Role.controller'
+ *   const roleController = new RoleController()
+ *   router.get('/', roleController.getAll.bind(roleController))
+ */
+
+import type { Request, Response } from 'express'
+import { RoleService } from '../services/Role.service'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import type { ApiResponse } from '../types'
+import type { CreateRoleInput, UpdateRoleInput, CreatePermissionInput, UpdatePermissionInput } from '../models/Role.model'
+
+export class RoleController {
+  private roleService: RoleService
+
+  constructor() {
+    this.roleService = new RoleService()
+  }
+
+  /**
+   * GET /api/v1/roles
+   * Obtiene todos los roles activos
+   */
+  async getAll(_req: Request, res: Response): Promise<void> {
+    try {
+      const roles = await this.roleService.getAllRoles()
+
+      const response: ApiResponse<typeof roles> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: roles,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/roles/:id
+   * Obtiene un rol por su ID con sus roles padre y sus permisos (directos y heredados)
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      const role = await this.roleService.getRoleByIdWithPermissions(id)
+
+      const response: ApiResponse<typeof role> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: role,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/roles
+   * Crea un nuevo rol
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description, requireTwoFactor, permissionIds, parentIds } = req.body as CreateRoleInput
+
+      if (typeof name !== 'string' || !name.trim()) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El nombre del rol es requerido',
+        })
+        return
+      }
+
+      if (permissionIds !== undefined && !isIdArray(permissionIds)) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'permissionIds debe ser un arreglo de IDs numéricos',
+        })
+        return
+      }
+
+      if (parentIds !== undefined && !isIdArray(parentIds)) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'parentIds debe ser un arreglo de IDs numéricos',
+        })
+        return
+      }
+
+      if (requireTwoFactor !== undefined && typeof requireTwoFactor !== 'boolean') {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'requireTwoFactor debe ser un booleano',
+        })
+        return
+      }
+
+      const data: CreateRoleInput = { name }
+      if (description !== undefined) data.description = description
+      if (requireTwoFactor !== undefined) data.requireTwoFactor = requireTwoFactor
+      if (permissionIds !== undefined) data.permissionIds = permissionIds
+      if (parentIds !== undefined) data.parentIds = parentIds
+
+      const role = await this.roleService.createRole(data)
+
+      const response: ApiResponse<typeof role> = {
+        success: true,
+        message: HTTP_MESSAGES.ROLE_CREATED,
+        data: role,
+      }
+
+      res.status(HTTP_STATUS.CREATED).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * PUT /api/v1/roles/:id
+   * Actualiza un rol existente
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      const { name, description, isActive, requireTwoFactor, permissionIds, parentIds } = req.body as UpdateRoleInput
+
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El nombre del rol no puede estar vacío',
+        })
+        return
+      }
+
+      if (permissionIds !== undefined && !isIdArray(permissionIds)) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'permissionIds debe ser un arreglo de IDs numéricos',
+        })
+        return
+      }
+
+      if (parentIds !== undefined && !isIdArray(parentIds)) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'parentIds debe ser un arreglo de IDs numéricos',
+        })
+        return
+      }
+
+      if (requireTwoFactor !== undefined && typeof requireTwoFactor !== 'boolean') {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'requireTwoFactor debe ser un booleano',
+        })
+        return
+      }
+
+      const data: UpdateRoleInput = {}
+      if (name !== undefined) data.name = name
+      if (description !== undefined) data.description = description
+      if (isActive !== undefined) data.isActive = isActive
+      if (requireTwoFactor !== undefined) data.requireTwoFactor = requireTwoFactor
+      if (permissionIds !== undefined) data.permissionIds = permissionIds
+      if (parentIds !== undefined) data.parentIds = parentIds
+
+      const role = await this.roleService.updateRole(id, data)
+
+      const response: ApiResponse<typeof role> = {
+        success: true,
+        message: HTTP_MESSAGES.ROLE_UPDATED,
+        data: role,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/roles/:id
+   * Elimina (desactiva) un rol sin usuarios asignados
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      await this.roleService.deleteRole(id)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.ROLE_DELETED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/roles/:id/permissions
+   * Obtiene los permisos asignados a un rol
+   */
+  async getPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      const permissions = await this.roleService.getRolePermissions(id)
+
+      const response: ApiResponse<typeof permissions> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: permissions,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * PUT /api/v1/roles/:id/permissions
+   * Reemplaza todos los permisos de un rol
+   */
+  async replacePermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      const { permissionIds } = req.body as { permissionIds?: unknown }
+
+      if (!isIdArray(permissionIds)) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'permissionIds es requerido y debe ser un arreglo de IDs numéricos',
+        })
+        return
+      }
+
+      const permissions = await this.roleService.assignPermissions(id, permissionIds)
+
+      const response: ApiResponse<typeof permissions> = {
+        success: true,
+        message: HTTP_MESSAGES.ROLE_PERMISSIONS_UPDATED,
+        data: permissions,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/roles/:id/permissions/:permissionId
+   * Agrega un permiso individual a un rol
+   */
+  async addPermission(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      const permissionId = parseIdParam(req.params.permissionId, 'permiso', res)
+      if (permissionId === null) return
+
+      const permissions = await this.roleService.addPermissionToRole(id, permissionId)
+
+      const response: ApiResponse<typeof permissions> = {
+        success: true,
+        message: HTTP_MESSAGES.ROLE_PERMISSIONS_UPDATED,
+        data: permissions,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/roles/:id/permissions/:permissionId
+   * Quita un permiso individual de un rol
+   */
+  async removePermission(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'rol', res)
+      if (id === null) return
+
+      const permissionId = parseIdParam(req.params.permissionId, 'permiso', res)
+      if (permissionId === null) return
+
+      const permissions = await this.roleService.removePermissionFromRole(id, permissionId)
+
+      const response: ApiResponse<typeof permissions> = {
+        success: true,
+        message: HTTP_MESSAGES.ROLE_PERMISSIONS_UPDATED,
+        data: permissions,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+}
+
+export class PermissionController {
+  private roleService: RoleService
+
+  constructor() {
+    this.roleService = new RoleService()
+  }
+
+  /**
+   * GET /api/v1/permissions
+   * Obtiene todos los permisos activos
+   */
+  async getAll(_req: Request, res: Response): Promise<void> {
+    try {
+      const permissions = await this.roleService.getAllPermissions()
+
+      const response: ApiResponse<typeof permissions> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: permissions,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * GET /api/v1/permissions/:id
+   * Obtiene un permiso por su ID
+   */
+  async getById(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'permiso', res)
+      if (id === null) return
+
+      const permission = await this.roleService.getPermissionById(id)
+
+      const response: ApiResponse<typeof permission> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: permission,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * POST /api/v1/permissions
+   * Crea un nuevo permiso
+   */
+  async create(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description } = req.body as CreatePermissionInput
+
+      if (!name) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El nombre del permiso es requerido',
+        })
+        return
+      }
+
+      const data: CreatePermissionInput = { name }
+      if (description !== undefined) data.description = description
+
+      const permission = await this.roleService.createPermission(data)
+
+      const response: ApiResponse<typeof permission> = {
+        success: true,
+        message: HTTP_MESSAGES.PERMISSION_CREATED,
+        data: permission,
+      }
+
+      res.status(HTTP_STATUS.CREATED).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * PUT /api/v1/permissions/:id
+   * Actualiza un permiso existente
+   */
+  async update(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'permiso', res)
+      if (id === null) return
+
+      const { name, description, isActive } = req.body as UpdatePermissionInput
+
+      const data: UpdatePermissionInput = {}
+      if (name !== undefined) data.name = name
+      if (description !== undefined) data.description = description
+      if (isActive !== undefined) data.isActive = isActive
+
+      const permission = await this.roleService.updatePermission(id, data)
+
+      const response: ApiResponse<typeof permission> = {
+        success: true,
+        message: HTTP_MESSAGES.PERMISSION_UPDATED,
+        data: permission,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+
+  /**
+   * DELETE /api/v1/permissions/:id
+   * Elimina (desactiva) un permiso
+   */
+  async delete(req: Request, res: Response): Promise<void> {
+    try {
+      const id = parseIdParam(req.params.id, 'permiso', res)
+      if (id === null) return
+
+      await this.roleService.deletePermission(id)
+
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.PERMISSION_DELETED,
+      }
+
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      handleError(error, res)
+    }
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Parsea un parámetro de ruta como ID numérico positivo
+ *
+ * Si el parámetro es inválido, envía la respuesta 400 y retorna null.
+ */
+function parseIdParam(param: unknown, resourceName: string, res: Response): number | null {
+  const id = typeof param === 'string' ? parseInt(param) : NaN
+
+  if (isNaN(id) || id <= 0) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: `ID de ${resourceName} inválido`,
+    })
+    return null
+  }
+
+  return id
+}
+
+/**
+ * Verifica que un valor sea un arreglo de IDs numéricos
+ */
+function isIdArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((id) => Number.isInteger(id) && id > 0)
+}
+
+/**
+ * Maneja errores y envía respuestas HTTP apropiadas
+ */
+function handleError(error: unknown, res: Response): void {
+  if (error instanceof Error) {
+    const statusCode = (error as Error & { statusCode?: number }).statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR
+
+    res.status(statusCode).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error.message,
+    })
+    return
+  }
+
+  res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+    success: false,
+    message: HTTP_MESSAGES.INTERNAL_ERROR,
+    error: 'Ocurrió un error desconocido',
+  })
+}
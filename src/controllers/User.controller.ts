@@ -24,15 +24,22 @@
 
 import type { Request, Response } from 'express'
 import { UserService } from '../services/User.service'
+import { UserPermissionService } from '../services/UserPermission.service'
+import { buildPolicyRequest } from '../middleware/permissions.middleware'
+import { POLICY_ACTIONS } from '../models/Policy.model'
+import { getTenantId } from '../utils/tenant.util'
 import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
-import type { ApiResponse, PaginatedResponse } from '../types'
+import type { ApiResponse, AuthenticatedRequest, PaginatedResponse } from '../types'
 import type { User } from '@prisma/client'
+import type { SetUserPermissionInput, UserPermissionInfo } from '../models/UserPermission.model'
 
 export class UserController {
   private userService: UserService
+  private userPermissionService: UserPermissionService
   
   constructor() {
     this.userService = new UserService()
+    this.userPermissionService = new UserPermissionService()
   }
   
   /**
@@ -46,9 +53,14 @@ export class UserController {
       const filters: {
         email?: string
         name?: string
+        organizationId?: number
       } = {}
       if (req.query.email) filters.email = req.query.email as string
       if (req.query.name) filters.name = req.query.name as string
+      
+      // Con organización activa solo se listan sus miembros
+      const organizationId = getTenantId(req)
+      if (organizationId !== undefined) filters.organizationId = organizationId
       const orderBy: {
         id?: 'asc' | 'desc'
         email?: 'asc' | 'desc'
@@ -72,6 +84,15 @@ export class UserController {
     }
   }
   
+  /**
+   * Propietario del recurso /api/v1/users/:id: el propio usuario
+   * (lo usa requireOwnershipOr; null si el ID no es válido)
+   */
+  getOwnerId(req: Request): number | null {
+    const id = typeof req.params.id === 'string' ? parseInt(req.params.id) : NaN
+    return isNaN(id) || id <= 0 ? null : id
+  }
+  
   /**
    * GET /api/v1/users/:id
    * Obtiene un usuario por su ID
@@ -99,7 +120,7 @@ export class UserController {
         return
       }
       
-      const user = await this.userService.getUserById(id)
+      const user = await this.userService.getUserById(id, getTenantId(req))
       
       const response: ApiResponse<User> = {
         success: true,
@@ -174,7 +195,17 @@ export class UserController {
       
       const { email, name } = req.body
       
-      const user = await this.userService.updateUser(id, { email, name })
+      // Durante una suplantación no se puede cambiar el email
+      if (email !== undefined && (req as AuthenticatedRequest).user?.impersonatorId !== undefined) {
+        res.status(HTTP_STATUS.FORBIDDEN).json({
+          success: false,
+          message: HTTP_MESSAGES.FORBIDDEN,
+          error: 'No se puede cambiar el email durante una suplantación',
+        })
+        return
+      }
+      
+      const user = await this.userService.updateUser(id, { email, name }, getTenantId(req), (req as AuthenticatedRequest).user?.id)
       
       const response: ApiResponse<User> = {
         success: true,
@@ -215,7 +246,7 @@ export class UserController {
         return
       }
       
-      await this.userService.deleteUser(id)
+      await this.userService.deleteUser(id, getTenantId(req), (req as AuthenticatedRequest).user?.id)
       
       const response: ApiResponse = {
         success: true,
@@ -228,17 +259,209 @@ export class UserController {
     }
   }
   
+  /**
+   * POST /api/v1/users/:id/unlock
+   * Desbloquea una cuenta bloqueada por intentos fallidos de login
+   */
+  async unlock(req: Request, res: Response): Promise<void> {
+    try {
+      const idParam = req.params.id
+      if (typeof idParam !== 'string') {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'El ID de usuario es requerido',
+        })
+        return
+      }
+      
+      const id = parseInt(idParam)
+      
+      if (isNaN(id) || id <= 0) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ID de usuario inválido',
+        })
+        return
+      }
+      
+      await this.userService.unlockUser(id, (req as AuthenticatedRequest).user?.id)
+      
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.USER_UNLOCKED,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * POST /api/v1/users/:id/deactivate
+   * Desactiva un usuario y cierra sus sesiones (según la política users.deactivate)
+   */
+  async deactivate(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.getOwnerId(req)
+      
+      if (id === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ID de usuario inválido',
+        })
+        return
+      }
+      
+      const { subject, context } = await buildPolicyRequest(req, POLICY_ACTIONS.USERS_DEACTIVATE)
+      await this.userService.deactivateUser(id, { subject, context }, getTenantId(req))
+      
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.USER_DEACTIVATED,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * GET /api/v1/users/:id/permissions
+   * Lista los permisos concedidos o denegados directamente al usuario
+   */
+  async getPermissions(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.getOwnerId(req)
+      
+      if (id === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'ID de usuario inválido',
+        })
+        return
+      }
+      
+      const permissions = await this.userPermissionService.listUserPermissions(id)
+      
+      const response: ApiResponse<UserPermissionInfo[]> = {
+        success: true,
+        message: HTTP_MESSAGES.SUCCESS,
+        data: permissions,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * PUT /api/v1/users/:id/permissions/:permissionId
+   * Concede o deniega un permiso directamente al usuario (opcionalmente hasta una fecha)
+   */
+  async setPermission(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.getOwnerId(req)
+      const permissionId = this.getPermissionId(req)
+      
+      if (id === null || permissionId === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: id === null ? 'ID de usuario inválido' : 'ID de permiso inválido',
+        })
+        return
+      }
+      
+      const user = (req as AuthenticatedRequest).user
+      if (!user) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          success: false,
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Autenticación requerida',
+        })
+        return
+      }
+      
+      const { effect, expiresAt, reason } = req.body as SetUserPermissionInput
+      const input: SetUserPermissionInput = { effect }
+      if (expiresAt !== undefined) input.expiresAt = expiresAt
+      if (reason !== undefined) input.reason = reason
+      
+      const permission = await this.userPermissionService.setUserPermission(id, permissionId, input, {
+        id: user.id,
+        permissions: user.permissions ?? [],
+      })
+      
+      const response: ApiResponse<UserPermissionInfo> = {
+        success: true,
+        message: HTTP_MESSAGES.USER_PERMISSION_UPDATED,
+        data: permission,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * DELETE /api/v1/users/:id/permissions/:permissionId
+   * Quita un permiso directo del usuario (vuelve a aplicarse solo su rol)
+   */
+  async removePermission(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.getOwnerId(req)
+      const permissionId = this.getPermissionId(req)
+      
+      if (id === null || permissionId === null) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: id === null ? 'ID de usuario inválido' : 'ID de permiso inválido',
+        })
+        return
+      }
+      
+      await this.userPermissionService.removeUserPermission(id, permissionId, (req as AuthenticatedRequest).user?.id)
+      
+      const response: ApiResponse = {
+        success: true,
+        message: HTTP_MESSAGES.USER_PERMISSION_REMOVED,
+      }
+      
+      res.status(HTTP_STATUS.OK).json(response)
+    } catch (error) {
+      this.handleError(error, res)
+    }
+  }
+  
+  /**
+   * Obtiene el ID del permiso de la ruta (null si no es válido)
+   */
+  private getPermissionId(req: Request): number | null {
+    const id = typeof req.params.permissionId === 'string' ? parseInt(req.params.permissionId) : NaN
+    return isNaN(id) || id <= 0 ? null : id
+  }
+  
   /**
    * Maneja errores y envía respuestas HTTP apropiadas
    */
   private handleError(error: unknown, res: Response): void {
     if (error instanceof Error) {
-      const statusCode = (error as Error & { statusCode?: number }).statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR
+      const { statusCode, details } = error as Error & { statusCode?: number; details?: Record<string, unknown> }
       
-      res.status(statusCode).json({
+      res.status(statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
         success: false,
         message: HTTP_MESSAGES.INTERNAL_ERROR,
         error: error.message,
+        ...(details && { details }),
       })
       return
     }
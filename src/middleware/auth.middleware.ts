@@ -1,7 +1,7 @@
 /**
  * AUTHENTICATION MIDDLEWARE
  * 
- * Middleware para autenticación JWT
+ * Middleware para autenticación JWT y API keys
  * 
  * Este middleware verifica que el usuario esté autenticado
  * y agrega la información del usuario al objeto Request.
@@ -9,6 +9,9 @@
  * USO:
  *   import { authenticate } from '../middleware/auth.middleware'
  *   router.get('/protected', authenticate, controller)
+ *   router.post('/sensitive', authenticate, requireVerifiedEmail, controller)
+ *   router.post('/account', authenticate, rejectApiKeys, controller)
+ *   router.post('/password', authenticate, rejectImpersonation, controller)
  */
 
 import type { Request, Response, NextFunction } from 'express'
@@ -16,17 +19,26 @@ import { verifyToken } from '../config/jwt.config'
 import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
 import type { AuthenticatedRequest } from '../types'
 import { db } from '../config/prisma'
+import { emailVerificationConfig, EMAIL_VERIFICATION_POLICIES } from '../config/auth.config'
+import { ApiKeyService } from '../services/ApiKey.service'
+
+const apiKeyService = new ApiKeyService()
 
 /**
  * Middleware de autenticación JWT
  * 
- * Verifica el token JWT en el header Authorization y agrega
+ * Verifica el token JWT (o la API key) y agrega
  * la información del usuario al objeto Request.
  * 
- * Headers requeridos:
+ * Headers requeridos (uno de ellos):
  *   Authorization: Bearer <token>
+ *   Authorization: ApiKey <key>
+ *   X-API-Key: <key>
  * 
  * Si el token es válido, agrega req.user con la información del usuario.
+ * Con una API key, req.user incluye además los permisos concedidos a la key.
+ * Con un token de suplantación, req.user es el usuario suplantado y
+ * req.user.impersonatorId el administrador que actúa como él.
  * Si el token es inválido o falta, retorna un error 401.
  */
 export async function authenticate(
@@ -35,6 +47,14 @@ export async function authenticate(
   next: NextFunction
 ): Promise<void> {
   try {
+    // Autenticación con API key
+    const apiKey = getApiKey(req)
+    if (apiKey) {
+      ;(req as AuthenticatedRequest).user = await authenticateApiKey(apiKey, req)
+      next()
+      return
+    }
+    
     // Obtener el token del header Authorization
     const authHeader = req.headers.authorization
     
@@ -67,6 +87,7 @@ export async function authenticate(
           },
         },
         isActive: true,
+        emailVerifiedAt: true,
       },
     })
     
@@ -79,12 +100,30 @@ export async function authenticate(
       return
     }
     
+    // Verificar que la sesión del token no haya sido revocada
+    // (un token de suplantación solo es válido con su sesión de suplantación)
+    if (
+      (payload.sid && !(await isSessionActive(payload.sid, user.id, payload.actorId))) ||
+      (payload.actorId !== undefined && !payload.sid)
+    ) {
+      res.status(HTTP_STATUS.UNAUTHORIZED).json({
+        success: false,
+        message: HTTP_MESSAGES.UNAUTHORIZED,
+        error: 'La sesión ha sido revocada',
+      })
+      return
+    }
+    
     // Agregar información del usuario al request
     ;(req as AuthenticatedRequest).user = {
       id: user.id,
       email: user.email,
       role: user.role?.name || payload.role,
       roleId: user.roleId,
+      emailVerified: user.emailVerifiedAt !== null,
+      ...(payload.sid && { sessionId: payload.sid }),
+      ...(payload.actorId !== undefined && { impersonatorId: payload.actorId }),
+      ...(payload.orgId !== undefined && { organizationId: payload.orgId }),
     }
     
     // Continuar al siguiente middleware/controlador
@@ -112,8 +151,15 @@ export async function optionalAuthenticate(
 ): Promise<void> {
   try {
     const authHeader = req.headers.authorization
+    const apiKey = getApiKey(req)
     
-    if (authHeader && authHeader.startsWith('Bearer ')) {
+    if (apiKey) {
+      try {
+        ;(req as AuthenticatedRequest).user = await authenticateApiKey(apiKey, req)
+      } catch (error) {
+        // Si hay error, simplemente continuar sin usuario autenticado
+      }
+    } else if (authHeader && authHeader.startsWith('Bearer ')) {
       try {
         const token = authHeader.substring(7)
         const payload = verifyToken(token)
@@ -131,15 +177,24 @@ export async function optionalAuthenticate(
               },
             },
             isActive: true,
+            emailVerifiedAt: true,
           },
         })
         
-        if (user && user.isActive) {
+        const sessionActive = payload.sid
+          ? await isSessionActive(payload.sid, payload.userId, payload.actorId)
+          : payload.actorId === undefined
+        
+        if (user && user.isActive && sessionActive) {
           ;(req as AuthenticatedRequest).user = {
             id: user.id,
             email: user.email,
             role: user.role?.name || payload.role,
             roleId: user.roleId,
+            emailVerified: user.emailVerifiedAt !== null,
+            ...(payload.sid && { sessionId: payload.sid }),
+            ...(payload.actorId !== undefined && { impersonatorId: payload.actorId }),
+            ...(payload.orgId !== undefined && { organizationId: payload.orgId }),
           }
         }
       } catch (error) {
@@ -154,3 +209,161 @@ export async function optionalAuthenticate(
   }
 }
 
+/**
+ * Middleware que exige el email verificado
+ * 
+ * Debe usarse después de authenticate. Solo bloquea cuando la política
+ * EMAIL_VERIFICATION_POLICY es "routes" o "login"; con "none" no hace nada.
+ * 
+ * Ejemplo:
+ *   router.post('/upload', authenticate, requireVerifiedEmail, controller.upload)
+ */
+export function requireVerifiedEmail(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (emailVerificationConfig.policy === EMAIL_VERIFICATION_POLICIES.NONE) {
+    next()
+    return
+  }
+  
+  const user = (req as AuthenticatedRequest).user
+  
+  if (!user) {
+    res.status(HTTP_STATUS.UNAUTHORIZED).json({
+      success: false,
+      message: HTTP_MESSAGES.UNAUTHORIZED,
+      error: 'Autenticación requerida',
+    })
+    return
+  }
+  
+  if (!user.emailVerified) {
+    res.status(HTTP_STATUS.FORBIDDEN).json({
+      success: false,
+      message: HTTP_MESSAGES.FORBIDDEN,
+      error: 'Debes verificar tu email para acceder a este recurso',
+    })
+    return
+  }
+  
+  next()
+}
+
+/**
+ * Middleware que rechaza las peticiones autenticadas con API key
+ * 
+ * Debe usarse después de authenticate en las rutas que gestionan la cuenta
+ * (contraseña, sesiones, 2FA, API keys): solo un usuario con sesión puede usarlas.
+ * 
+ * Ejemplo:
+ *   router.post('/change-password', authenticate, rejectApiKeys, controller.changePassword)
+ */
+export function rejectApiKeys(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if ((req as AuthenticatedRequest).user?.apiKeyId !== undefined) {
+    res.status(HTTP_STATUS.FORBIDDEN).json({
+      success: false,
+      message: HTTP_MESSAGES.FORBIDDEN,
+      error: 'Esta operación no está disponible con API key',
+    })
+    return
+  }
+  
+  next()
+}
+
+/**
+ * Middleware que rechaza las peticiones de una suplantación
+ * 
+ * Debe usarse después de authenticate en las rutas que cambian las credenciales
+ * o la seguridad de la cuenta (contraseña, email, 2FA, API keys, cuentas vinculadas):
+ * un administrador que suplanta a un usuario no puede modificarlas.
+ * 
+ * Ejemplo:
+ *   router.post('/change-password', authenticate, rejectImpersonation, controller.changePassword)
+ */
+export function rejectImpersonation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if ((req as AuthenticatedRequest).user?.impersonatorId !== undefined) {
+    res.status(HTTP_STATUS.FORBIDDEN).json({
+      success: false,
+      message: HTTP_MESSAGES.FORBIDDEN,
+      error: 'Esta operación no está disponible durante una suplantación',
+    })
+    return
+  }
+  
+  next()
+}
+
+/**
+ * Obtiene la API key de la petición (Authorization: ApiKey <key> o X-API-Key)
+ */
+function getApiKey(req: Request): string | null {
+  const authHeader = req.headers.authorization
+  if (authHeader && authHeader.startsWith('ApiKey ')) {
+    return authHeader.substring(7).trim()
+  }
+  
+  const apiKeyHeader = req.headers['x-api-key']
+  return typeof apiKeyHeader === 'string' && apiKeyHeader ? apiKeyHeader.trim() : null
+}
+
+/**
+ * Autentica una API key y construye el usuario del request
+ */
+async function authenticateApiKey(key: string, req: Request): Promise<NonNullable<AuthenticatedRequest['user']>> {
+  const { apiKey, user } = await apiKeyService.authenticate(key, req.ip)
+  
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role.name,
+    roleId: user.roleId,
+    emailVerified: user.emailVerifiedAt !== null,
+    apiKeyId: apiKey.id,
+    apiKeyPermissions: apiKey.permissions,
+  }
+}
+
+/**
+ * Verifica que una sesión siga activa (no revocada ni expirada)
+ * 
+ * La sesión debe ser del mismo tipo que el token: una sesión de suplantación
+ * solo acepta tokens de su administrador y una sesión normal ninguno de suplantación.
+ * Durante una suplantación el administrador también debe seguir activo.
+ */
+async function isSessionActive(sessionId: string, userId: number, impersonatorId?: number): Promise<boolean> {
+  const session = await db.session.findFirst({
+    where: {
+      id: sessionId,
+      userId,
+      impersonatorId: impersonatorId ?? null,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true },
+  })
+  
+  if (!session) {
+    return false
+  }
+  
+  if (impersonatorId !== undefined) {
+    const impersonator = await db.user.findUnique({
+      where: { id: impersonatorId },
+      select: { isActive: true },
+    })
+    return impersonator?.isActive === true
+  }
+  
+  return true
+}
@@ -9,6 +9,18 @@
  * USO:
  *   import { requirePermission, requireAnyPermission } from '../middleware/permissions.middleware'
  *   router.post('/', authenticate, requirePermission('users.create'), controller.create)
+ *   router.put('/:id', authenticate, requireOwnershipOr('users.update.any', loadOwner), controller.update)
+ *   router.post('/:id/deactivate', authenticate, requirePolicy('users.deactivate', loadUser), controller.deactivate)
+ * 
+ * Los permisos concedidos se resuelven con comodines: "users.manage" o "users.*"
+ * conceden "users.create", y "*" (o admin.access) concede cualquier permiso.
+ * Los permisos del usuario se cargan una vez por petición (req.user.permissions)
+ * y los de cada rol se guardan en caché (PERMISSION_CACHE_TTL_SECONDS).
+ * Con una organización activa (resolveTenant), los permisos y el rol son los
+ * de la membresía en esa organización en lugar del rol global.
+ * 
+ * requirePolicy evalúa las políticas de acceso (config/policies.config) con
+ * atributos del usuario, del recurso y del contexto (ABAC).
  */
 
 import type { Request, Response, NextFunction } from 'express'
@@ -16,8 +28,78 @@ import { RoleService } from '../services/Role.service'
 import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
 import type { AuthenticatedRequest } from '../types'
 import type { PermissionName } from '../models/Role.model'
+import { permissionSetDenies, permissionSetGrants } from '../utils/permission.util'
+import { PolicyService } from '../services/Policy.service'
+import { policyConfig } from '../config/policies.config'
+import type { PolicyAction, PolicyRequest, PolicySubject } from '../models/Policy.model'
 
 const roleService = new RoleService()
+const policyService = new PolicyService()
+
+/**
+ * Carga los permisos efectivos del usuario una sola vez por petición
+ * 
+ * Se guardan en req.user.permissions (rol + concedidos directamente) y
+ * req.user.deniedPermissions: las siguientes comprobaciones de la misma
+ * petición no vuelven a consultar la base de datos.
+ * Con organización activa se usa el rol de la membresía.
+ */
+async function loadUserPermissions(user: NonNullable<AuthenticatedRequest['user']>): Promise<string[]> {
+  if (!user.permissions) {
+    const roleId = user.tenant ? user.tenant.roleId : user.roleId
+    const { permissions, denied } = await roleService.getUserEffectivePermissions(user.id, roleId)
+    user.permissions = permissions
+    user.deniedPermissions = denied
+  }
+  return user.permissions
+}
+
+/**
+ * Verifica un permiso del usuario autenticado
+ * 
+ * Los permisos se resuelven con comodines e implicaciones
+ * ("users.manage", "users.*", "*", admin.access; ver utils/permission.util).
+ * Con API key, el permiso debe estar concedido a la key
+ * y además seguir siendo un permiso del propietario.
+ * Un permiso denegado directamente al usuario prevalece sobre todo lo demás.
+ */
+async function checkPermission(
+  user: NonNullable<AuthenticatedRequest['user']>,
+  permission: string
+): Promise<boolean> {
+  if (user.apiKeyPermissions && !permissionSetGrants(user.apiKeyPermissions, permission)) {
+    return false
+  }
+  const permissions = await loadUserPermissions(user)
+  if (user.deniedPermissions && permissionSetDenies(user.deniedPermissions, permission)) {
+    return false
+  }
+  return permissionSetGrants(permissions, permission)
+}
+
+/**
+ * Middleware que carga los permisos efectivos en req.user.permissions
+ * 
+ * Los middlewares require*Permission los cargan solos; este es para las
+ * rutas que solo necesitan leerlos (ej: GET /auth/me).
+ * 
+ * Ejemplo:
+ *   router.get('/me', authenticate, loadPermissions, controller.getMe)
+ */
+export async function loadPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = (req as AuthenticatedRequest).user
+    if (user) {
+      await loadUserPermissions(user)
+    }
+    next()
+  } catch (error) {
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: 'Error checking permissions',
+    })
+  }
+}
 
 /**
  * Middleware que requiere un permiso específico
@@ -40,7 +122,7 @@ export function requirePermission(permission: PermissionName | string) {
         return
       }
       
-      const hasPermission = await roleService.userHasPermission(user.id, permission)
+      const hasPermission = await checkPermission(user, permission)
       
       if (!hasPermission) {
         res.status(HTTP_STATUS.FORBIDDEN).json({
@@ -82,9 +164,11 @@ export function requireAnyPermission(permissions: (PermissionName | string)[]) {
       }
       
       // Verificar si tiene al menos uno de los permisos
-      const permissionChecks = await Promise.all(
-        permissions.map((permission) => roleService.userHasPermission(user.id, permission))
-      )
+      // (secuencial: la primera comprobación carga los permisos y el resto los reutiliza)
+      const permissionChecks: boolean[] = []
+      for (const permission of permissions) {
+        permissionChecks.push(await checkPermission(user, permission))
+      }
       
       const hasAnyPermission = permissionChecks.some((has) => has === true)
       
@@ -128,9 +212,11 @@ export function requireAllPermissions(permissions: (PermissionName | string)[])
       }
       
       // Verificar si tiene todos los permisos
-      const permissionChecks = await Promise.all(
-        permissions.map((permission) => roleService.userHasPermission(user.id, permission))
-      )
+      // (secuencial: la primera comprobación carga los permisos y el resto los reutiliza)
+      const permissionChecks: boolean[] = []
+      for (const permission of permissions) {
+        permissionChecks.push(await checkPermission(user, permission))
+      }
       
       const hasAllPermissions = permissionChecks.every((has) => has === true)
       
@@ -152,6 +238,189 @@ export function requireAllPermissions(permissions: (PermissionName | string)[])
   }
 }
 
+/**
+ * Obtiene el ID del propietario del recurso de la petición
+ * (null si el recurso no tiene propietario)
+ */
+export type OwnerLoader = (req: Request) => Promise<number | null> | number | null
+
+/**
+ * Middleware de propiedad: el propietario del recurso puede actuar sobre él,
+ * los demás necesitan el permiso amplio ("any")
+ * 
+ * @param anyPermission - Permiso para actuar sobre recursos de otros (ej: "users.update.any")
+ * @param loadOwner - Obtiene el ID del propietario del recurso (null = sin propietario)
+ * @param ownPermission - Permiso que necesita el propietario (opcional; sin él basta con serlo)
+ * @param ownApiKeyScope - Sin ownPermission: permiso que debe tener concedido la API key
+ *   del propietario (opcional; sin él el propietario no puede usar API keys)
+ * 
+ * Un recurso sin propietario solo es accesible con anyPermission.
+ * Con API key, el propietario siempre necesita un permiso concedido a la key
+ * (ownPermission u ownApiKeyScope): una key no actúa fuera de sus permisos.
+ * 
+ * Ejemplo:
+ *   router.get('/', authenticate, requireOwnershipOr('files.manage', loadOwner, undefined, 'files.read'), controller.getAll)
+ */
+export function requireOwnershipOr(
+  anyPermission: PermissionName | string,
+  loadOwner: OwnerLoader,
+  ownPermission?: PermissionName | string,
+  ownApiKeyScope?: PermissionName | string
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = (req as AuthenticatedRequest).user
+      
+      if (!user || !user.id) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Authentication required',
+        })
+        return
+      }
+      
+      const ownerId = await loadOwner(req)
+      const isOwner = ownerId !== null && ownerId === user.id
+      
+      let required: string | undefined
+      let allowed: boolean
+      
+      if (!isOwner) {
+        required = anyPermission
+        allowed = await checkPermission(user, required)
+      } else if (ownPermission !== undefined) {
+        required = ownPermission
+        allowed = await checkPermission(user, required)
+      } else if (user.apiKeyPermissions) {
+        // El propietario no necesita el permiso en su rol: solo se comprueba el alcance de la key
+        required = ownApiKeyScope
+        allowed = required !== undefined && permissionSetGrants(user.apiKeyPermissions, required)
+      } else {
+        allowed = true
+      }
+      
+      if (!allowed) {
+        res.status(HTTP_STATUS.FORBIDDEN).json({
+          message: HTTP_MESSAGES.FORBIDDEN,
+          error: required ? `Permission required: ${required}` : 'Not available with API key',
+        })
+        return
+      }
+      
+      next()
+    } catch (error) {
+      res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+        message: HTTP_MESSAGES.INTERNAL_ERROR,
+        error: 'Error checking permissions',
+      })
+    }
+  }
+}
+
+/**
+ * Obtiene los atributos del recurso de la petición para las políticas
+ * (null si el recurso no existe: responde 404)
+ */
+export type ResourceLoader = (req: Request) => Promise<unknown> | unknown
+
+/**
+ * Construye la petición de autorización de las políticas (sujeto y contexto)
+ * a partir del usuario autenticado
+ * 
+ * Ejemplo (en un controller):
+ *   await policyService.authorize({ ...(await buildPolicyRequest(req, action)), resource })
+ */
+export async function buildPolicyRequest(
+  req: Request,
+  action: PolicyAction | string,
+  resource?: unknown
+): Promise<PolicyRequest> {
+  const user = (req as AuthenticatedRequest).user
+  if (!user) {
+    throw new Error('buildPolicyRequest requiere un usuario autenticado')
+  }
+
+  const role = user.tenant ? user.tenant.role : user.role
+  const roleId = user.tenant ? user.tenant.roleId : user.roleId
+  
+  const subject: PolicySubject = {
+    id: user.id,
+    permissions: await loadUserPermissions(user),
+    ...(user.deniedPermissions && user.deniedPermissions.length > 0 && { deniedPermissions: user.deniedPermissions }),
+    ...(role !== undefined && { role }),
+    ...(roleId !== undefined && { roleId }),
+    ...(user.apiKeyPermissions && { apiKeyPermissions: user.apiKeyPermissions }),
+    ...(user.impersonatorId !== undefined && { impersonatorId: user.impersonatorId }),
+  }
+
+  return {
+    subject,
+    action,
+    ...(resource !== undefined && { resource }),
+    context: {
+      now: new Date(),
+      ...(req.ip && { ip: req.ip }),
+      ...(user.tenant && { organizationId: user.tenant.organizationId }),
+    },
+  }
+}
+
+/**
+ * Middleware que exige que una política permita la acción
+ * 
+ * @param action - Acción a evaluar (ej: "users.deactivate")
+ * @param loadResource - Obtiene los atributos del recurso (opcional)
+ * 
+ * Con POLICY_EXPLAIN=true la respuesta 403 incluye en details.policy
+ * la regla que decidió y el resultado de cada regla evaluada.
+ * 
+ * Ejemplo:
+ *   router.post('/:id/deactivate', authenticate, requirePolicy('users.deactivate', loadUser), controller.deactivate)
+ */
+export function requirePolicy(action: PolicyAction | string, loadResource?: ResourceLoader) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = (req as AuthenticatedRequest).user
+      
+      if (!user || !user.id) {
+        res.status(HTTP_STATUS.UNAUTHORIZED).json({
+          message: HTTP_MESSAGES.UNAUTHORIZED,
+          error: 'Authentication required',
+        })
+        return
+      }
+      
+      const resource = loadResource ? await loadResource(req) : undefined
+      
+      if (resource === null) {
+        res.status(HTTP_STATUS.NOT_FOUND).json({
+          message: HTTP_MESSAGES.NOT_FOUND,
+          error: 'Resource not found',
+        })
+        return
+      }
+      
+      const decision = await policyService.evaluate(await buildPolicyRequest(req, action, resource))
+      
+      if (!decision.allowed) {
+        res.status(HTTP_STATUS.FORBIDDEN).json({
+          message: HTTP_MESSAGES.FORBIDDEN,
+          error: `Policy denied: ${action}`,
+          ...(policyConfig.explain && { details: { policy: decision } }),
+        })
+        return
+      }
+      
+      next()
+    } catch (error) {
+      res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+        message: HTTP_MESSAGES.INTERNAL_ERROR,
+        error: 'Error checking policies',
+      })
+    }
+  }
+}
+
 /**
  * Middleware que requiere un rol específico
  * 
@@ -173,7 +442,11 @@ export function requireRole(roleName: string) {
         return
       }
       
-      if (user.role !== roleName) {
+      // Con organización activa cuenta el rol de la membresía
+      const role = user.tenant ? user.tenant.role : user.role
+      
+      // Las API keys solo conceden los permisos explícitos de la key, nunca un rol completo
+      if (role !== roleName || user.apiKeyId !== undefined) {
         res.status(HTTP_STATUS.FORBIDDEN).json({
           message: HTTP_MESSAGES.FORBIDDEN,
           error: `Role required: ${roleName}`,
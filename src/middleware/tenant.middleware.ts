@@ -0,0 +1,108 @@
+/**
+ * TENANT MIDDLEWARE
+ *
+ * Middleware para resolver la organización activa (tenant) de la petición
+ *
+ * La organización se toma del header X-Organization-Id o, si no viene,
+ * del claim "orgId" del token (organización activa de la sesión).
+ * Tras comprobar que el usuario es miembro, req.user.tenant guarda la
+ * membresía y los permisos de la petición se resuelven con su rol.
+ *
+ * Solo se aplica en las rutas con datos por organización: en las demás
+ * (roles, permisos, administración) siempre se usa el rol global.
+ *
+ * USO:
+ *   import { resolveTenant, requireTenant } from '../middleware/tenant.middleware'
+ *   router.get('/', authenticate, resolveTenant, requirePermission('users.read.any'), controller.getAll)
+ *   router.get('/members', authenticate, resolveTenant, requireTenant, controller.listMembers)
+ */
+
+import type { Request, Response, NextFunction } from 'express'
+import { OrganizationService } from '../services/Organization.service'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import type { AuthenticatedRequest } from '../types'
+
+const organizationService = new OrganizationService()
+
+/**
+ * Header con la organización activa
+ */
+export const TENANT_HEADER = 'x-organization-id'
+
+/**
+ * Middleware que resuelve la organización activa
+ *
+ * - Sin header ni claim: continúa sin organización (rol global)
+ * - Header con un ID inválido: 400
+ * - El usuario no es miembro (o la organización está desactivada): 403
+ */
+export async function resolveTenant(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const user = (req as AuthenticatedRequest).user
+
+    if (!user) {
+      next()
+      return
+    }
+
+    const header = req.headers[TENANT_HEADER]
+    let organizationId = user.organizationId
+
+    if (header !== undefined) {
+      organizationId = typeof header === 'string' && /^\d+$/.test(header) ? parseInt(header) : NaN
+
+      if (isNaN(organizationId) || organizationId <= 0) {
+        res.status(HTTP_STATUS.BAD_REQUEST).json({
+          success: false,
+          message: HTTP_MESSAGES.BAD_REQUEST,
+          error: 'Header X-Organization-Id inválido',
+        })
+        return
+      }
+    }
+
+    if (organizationId === undefined) {
+      next()
+      return
+    }
+
+    const tenant = await organizationService.resolveMembership(user.id, organizationId)
+
+    if (!tenant) {
+      res.status(HTTP_STATUS.FORBIDDEN).json({
+        success: false,
+        message: HTTP_MESSAGES.FORBIDDEN,
+        error: 'No perteneces a esta organización',
+      })
+      return
+    }
+
+    // Los permisos se vuelven a cargar con el rol de la membresía
+    user.tenant = tenant
+    delete user.permissions
+
+    next()
+  } catch (error) {
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: 'Error al resolver la organización',
+    })
+  }
+}
+
+/**
+ * Middleware que exige una organización activa (usar después de resolveTenant)
+ */
+export function requireTenant(req: Request, res: Response, next: NextFunction): void {
+  if (!(req as AuthenticatedRequest).user?.tenant) {
+    res.status(HTTP_STATUS.BAD_REQUEST).json({
+      success: false,
+      message: HTTP_MESSAGES.BAD_REQUEST,
+      error: 'Selecciona una organización (header X-Organization-Id)',
+    })
+    return
+  }
+
+  next()
+}
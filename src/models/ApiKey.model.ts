@@ -0,0 +1,95 @@
+/**
+ * API KEY MODELS - Tipos para API Keys Personales
+ *
+ * Este archivo contiene los tipos TypeScript relacionados con las API keys
+ * (acceso máquina a máquina en nombre de un usuario).
+ *
+ * USO:
+ *   import type { CreateApiKeyInput, ApiKeyInfo } from '../models/ApiKey.model'
+ */
+
+import type { ApiKey, Permission } from '@prisma/client'
+
+// ============================================
+// TIPOS CON RELACIONES
+// ============================================
+
+/**
+ * API key con sus permisos incluidos
+ */
+export type ApiKeyWithPermissions = ApiKey & {
+  permissions: Array<{ permission: Permission }>
+}
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Datos necesarios para crear una API key
+ *
+ * permissions: nombres de permisos (deben ser permisos del propietario)
+ * expiresAt: fecha ISO 8601 (opcional, sin fecha la key no expira)
+ */
+export interface CreateApiKeyInput {
+  name: string
+  permissions: string[]
+  expiresAt?: string
+}
+
+/**
+ * Datos para actualizar una API key
+ *
+ * expiresAt: null para quitar la expiración
+ */
+export interface UpdateApiKeyInput {
+  name?: string
+  permissions?: string[]
+  expiresAt?: string | null
+}
+
+/**
+ * Datos para guardar una API key (con el secreto ya hasheado)
+ */
+export interface CreateApiKeyData {
+  userId: number
+  name: string
+  prefix: string
+  secretHash: string
+  expiresAt: Date | null
+  permissionIds: number[]
+}
+
+/**
+ * Datos para actualizar una API key en la base de datos
+ */
+export interface UpdateApiKeyData {
+  name?: string
+  expiresAt?: Date | null
+  permissionIds?: number[]
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Información pública de una API key (nunca incluye el secreto ni su hash)
+ */
+export interface ApiKeyInfo {
+  id: number
+  name: string
+  prefix: string
+  permissions: string[]
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  lastUsedIp: string | null
+  createdAt: Date
+}
+
+/**
+ * API key recién creada: incluye la key completa (solo se muestra esta vez)
+ */
+export interface CreatedApiKey extends ApiKeyInfo {
+  key: string
+}
@@ -59,6 +59,59 @@ export interface RefreshTokenInput {
   refreshToken: string
 }
 
+/**
+ * Datos para verificar el email con token
+ */
+export interface VerifyEmailInput {
+  token: string
+}
+
+/**
+ * Datos para reenviar el email de verificación
+ */
+export interface ResendVerificationInput {
+  email: string
+}
+
+/**
+ * Datos para solicitar un enlace de inicio de sesión (magic link)
+ */
+export interface MagicLinkInput {
+  email: string
+}
+
+/**
+ * Datos para iniciar sesión con el token de un enlace (magic link)
+ */
+export interface MagicLinkVerifyInput {
+  token: string
+}
+
+/**
+ * Datos para completar el login con verificación en dos pasos
+ * 
+ * code: código TOTP de 6 dígitos o un código de recuperación
+ */
+export interface MfaLoginInput {
+  mfaToken: string
+  code: string
+}
+
+/**
+ * Datos para confirmar o usar la verificación en dos pasos
+ */
+export interface TwoFactorCodeInput {
+  code: string
+}
+
+/**
+ * Datos para desactivar la verificación en dos pasos
+ */
+export interface DisableTwoFactorInput {
+  password: string
+  code: string
+}
+
 // ============================================
 // OUTPUT TYPES
 // ============================================
@@ -72,11 +125,69 @@ export interface AuthResponse {
     email: string
     name: string | null
     role: string
+    emailVerified: boolean
   }
   accessToken: string
   refreshToken: string
 }
 
+/**
+ * Respuesta del primer paso del login cuando se requiere verificación en dos pasos
+ * 
+ * mfaSetupRequired: el rol exige 2FA y el usuario todavía no la configuró
+ * (debe configurarla con POST /auth/login/mfa/setup antes de completar el login)
+ */
+export interface MfaChallengeResponse {
+  mfaRequired: true
+  mfaToken: string
+  mfaSetupRequired: boolean
+}
+
+/**
+ * Respuesta del login: tokens o desafío de verificación en dos pasos
+ */
+export type LoginResponse = AuthResponse | MfaChallengeResponse
+
+/**
+ * Respuesta del segundo paso del login
+ * 
+ * Si el login completó la configuración obligatoria de 2FA incluye
+ * los códigos de recuperación (solo se muestran una vez).
+ */
+export interface MfaLoginResponse extends AuthResponse {
+  recoveryCodes?: string[]
+}
+
+/**
+ * Datos para configurar la app de autenticación
+ */
+export interface TwoFactorSetupResponse {
+  secret: string
+  otpauthUri: string
+}
+
+/**
+ * Estado de la verificación en dos pasos de un usuario
+ */
+export interface TwoFactorStatus {
+  enabled: boolean
+  required: boolean
+  pendingSetup: boolean
+  recoveryCodesRemaining: number
+}
+
+/**
+ * Respuesta del registro
+ * 
+ * Si la política de verificación bloquea el login (EMAIL_VERIFICATION_POLICY=login)
+ * no se emiten tokens hasta que el usuario verifique su email.
+ */
+export interface RegisterResponse {
+  user: AuthResponse['user']
+  accessToken?: string
+  refreshToken?: string
+}
+
 /**
  * Respuesta de refresh token
  */
@@ -85,3 +196,19 @@ export interface RefreshTokenResponse {
   refreshToken: string
 }
 
+
+/**
+ * Política de contraseñas vigente (para mostrar los requisitos en la UI)
+ */
+export interface PasswordPolicyInfo {
+  minLength: number
+  maxLength: number
+  requireUppercase: boolean
+  requireLowercase: boolean
+  requireNumber: boolean
+  requireSymbol: boolean
+  rejectCommonPasswords: boolean
+  rejectPersonalInfo: boolean
+  historySize: number
+  maxAgeDays: number
+}
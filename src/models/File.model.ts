@@ -0,0 +1,66 @@
+/**
+ * FILE MODELS - Tipos para los Archivos Subidos
+ *
+ * Este archivo contiene los tipos TypeScript del registro de cada archivo
+ * subido (propietario, storage, ruta y metadatos).
+ *
+ * USO:
+ *   import { FILE_VISIBILITY } from '../models/File.model'
+ *   import type { FileInfo } from '../models/File.model'
+ */
+
+import type { File } from '@prisma/client'
+
+// ============================================
+// CONSTANTES
+// ============================================
+
+/**
+ * Visibilidad de un archivo
+ */
+export const FILE_VISIBILITY = {
+  PRIVATE: 'private', // Solo el propietario y quien tenga files.manage
+  PUBLIC: 'public', // Cualquier usuario autenticado
+} as const
+
+export type FileVisibility = (typeof FILE_VISIBILITY)[keyof typeof FILE_VISIBILITY]
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Datos para registrar un archivo guardado en el storage
+ */
+export interface CreateFileData {
+  ownerId: number | null
+  uploadedById: number | null
+  organizationId: number | null
+  storage: string
+  key: string
+  originalName: string
+  mimetype: string
+  size: number
+  checksum: string
+  visibility: FileVisibility
+}
+
+/**
+ * Filtros para listar archivos
+ */
+export interface FileFilters {
+  ownerId?: number
+  organizationId?: number // Organización activa (sin ella no se filtra)
+  mimetype?: string // Prefijo del tipo MIME (ej: "image/")
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Archivo con su URL de descarga (GET /api/v1/files/:id/download, requiere autenticación)
+ */
+export type FileInfo = File & {
+  url: string
+}
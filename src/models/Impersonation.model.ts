@@ -0,0 +1,44 @@
+/**
+ * IMPERSONATION MODELS - Tipos para la Suplantación de Usuarios
+ *
+ * Este archivo contiene los tipos TypeScript relacionados con la suplantación:
+ * un administrador de soporte obtiene un access token de corta duración
+ * para ver la aplicación como otro usuario.
+ *
+ * USO:
+ *   import type { ImpersonationResponse } from '../models/Impersonation.model'
+ */
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Administrador que inicia o termina la suplantación
+ */
+export interface ImpersonationActor {
+  id: number
+  email: string
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Suplantación iniciada
+ *
+ * accessToken: token del usuario suplantado (sin refresh token)
+ */
+export interface ImpersonationResponse {
+  accessToken: string
+  expiresAt: Date
+  sessionId: string
+  user: {
+    id: number
+    email: string
+    name: string | null
+    role: string
+  }
+  impersonatorId: number
+}
@@ -0,0 +1,83 @@
+/**
+ * OAUTH MODELS - Tipos para Login Social (OAuth2 / OpenID Connect)
+ *
+ * Este archivo contiene los tipos TypeScript relacionados con el login
+ * con proveedores externos y las identidades vinculadas a un usuario.
+ *
+ * USO:
+ *   import type { OAuthCallbackInput, UserIdentityInfo } from '../models/OAuth.model'
+ */
+
+import type { LoginResponse } from './Auth.model'
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Parámetros que el proveedor envía al callback
+ *
+ * error: el usuario canceló o el proveedor rechazó la autorización
+ */
+export interface OAuthCallbackInput {
+  code?: string
+  state?: string
+  error?: string
+}
+
+/**
+ * Datos para guardar un flujo OAuth iniciado (con el state ya hasheado)
+ *
+ * userId: usuario que vincula la identidad (null = flujo de login)
+ */
+export interface CreateOAuthStateData {
+  stateHash: string
+  provider: string
+  codeVerifier: string
+  nonce: string
+  userId: number | null
+  expiresAt: Date
+}
+
+/**
+ * Datos para crear un usuario a partir de una identidad externa
+ */
+export interface CreateOAuthUserData {
+  email: string
+  name: string | null
+  emailVerified: boolean
+  provider: string
+  subject: string
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Identidad externa vinculada a un usuario
+ */
+export interface UserIdentityInfo {
+  id: number
+  provider: string
+  email: string | null
+  lastLoginAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Respuesta al iniciar un flujo (cuando no se redirige directamente)
+ */
+export interface OAuthAuthorizationResponse {
+  authorizationUrl: string
+}
+
+/**
+ * Resultado del callback
+ *
+ * - login: tokens o desafío de verificación en dos pasos (igual que POST /auth/login)
+ * - link: identidad vinculada a la cuenta que inició el flujo
+ */
+export type OAuthCallbackResult =
+  | { mode: 'login'; isNewUser: boolean; login: LoginResponse }
+  | { mode: 'link'; identity: UserIdentityInfo }
@@ -0,0 +1,143 @@
+/**
+ * ORGANIZATION MODELS - Tipos para Organizaciones (Multi-Tenant)
+ *
+ * Este archivo contiene los tipos TypeScript relacionados con las
+ * organizaciones, las membresías de sus usuarios (un rol por organización)
+ * y las invitaciones para unirse a ellas.
+ *
+ * USO:
+ *   import type { CreateOrganizationInput, MembershipInfo } from '../models/Organization.model'
+ */
+
+import type { Membership, Organization, OrganizationInvitation, Role } from '@prisma/client'
+
+// ============================================
+// TIPOS CON RELACIONES
+// ============================================
+
+/**
+ * Membresía con su organización y su rol
+ */
+export type MembershipWithOrganization = Membership & {
+  organization: Organization
+  role: Pick<Role, 'id' | 'name'>
+}
+
+/**
+ * Membresía con el usuario miembro y su rol
+ */
+export type MembershipWithUser = Membership & {
+  user: { id: number; email: string; name: string | null; isActive: boolean }
+  role: Pick<Role, 'id' | 'name'>
+}
+
+/**
+ * Invitación con su organización y su rol
+ */
+export type InvitationWithOrganization = OrganizationInvitation & {
+  organization: Organization
+  role: Pick<Role, 'id' | 'name' | 'isActive'>
+}
+
+/**
+ * Invitación con su rol y quién la envió
+ */
+export type InvitationWithRole = OrganizationInvitation & {
+  role: Pick<Role, 'id' | 'name'>
+  invitedBy: { id: number; email: string } | null
+}
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Datos para crear una organización
+ *
+ * slug: identificador legible y único (minúsculas, números y guiones; ej: "acme")
+ */
+export interface CreateOrganizationInput {
+  name: string
+  slug: string
+}
+
+/**
+ * Datos para invitar a alguien a la organización activa
+ */
+export interface InviteMemberInput {
+  email: string
+  roleId: number
+}
+
+/**
+ * Datos para guardar una invitación (token ya hasheado)
+ */
+export interface CreateInvitationData {
+  organizationId: number
+  email: string
+  roleId: number
+  invitedById: number
+  tokenHash: string
+  expiresAt: Date
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Organización del usuario con su rol en ella
+ */
+export interface UserOrganization {
+  id: number
+  name: string
+  slug: string
+  role: string
+  current: boolean // true si es la organización activa de la petición
+}
+
+/**
+ * Miembro de una organización
+ */
+export interface MembershipInfo {
+  userId: number
+  email: string
+  name: string | null
+  isActive: boolean
+  role: string
+  roleId: number
+  joinedAt: Date
+}
+
+/**
+ * Invitación pendiente de una organización
+ */
+export interface InvitationInfo {
+  id: number
+  email: string
+  role: string
+  roleId: number
+  invitedBy: string | null // Email de quien la envió
+  expiresAt: Date
+  expired: boolean
+  createdAt: Date
+}
+
+/**
+ * Resultado de aceptar una invitación
+ */
+export interface AcceptInvitationResponse {
+  organizationId: number
+  organizationName: string
+  role: string
+}
+
+/**
+ * Resultado de cambiar la organización activa
+ *
+ * accessToken: nuevo access token con el claim "orgId"
+ */
+export interface SwitchOrganizationResponse {
+  accessToken: string
+  organizationId: number | null
+}
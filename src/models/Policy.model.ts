@@ -0,0 +1,120 @@
+/**
+ * POLICY MODELS - Tipos para las Políticas de Acceso (ABAC)
+ *
+ * Este archivo contiene los tipos TypeScript del motor de políticas:
+ * reglas condicionales que se evalúan con el sujeto (quién), la acción,
+ * el recurso (sobre qué) y el contexto (cuándo, desde dónde).
+ *
+ * Complementan a rol → permiso con condiciones como
+ * "un moderador puede desactivar usuarios, pero no administradores".
+ *
+ * USO:
+ *   import { POLICY_ACTIONS } from '../models/Policy.model'
+ *   import type { PolicyRule, PolicyDecision } from '../models/Policy.model'
+ */
+
+// ============================================
+// ACCIONES
+// ============================================
+
+/**
+ * Acciones protegidas por políticas
+ * Formato: "recurso.accion" (como los permisos)
+ */
+export const POLICY_ACTIONS = {
+  USERS_DEACTIVATE: 'users.deactivate',
+  USERS_IMPERSONATE: 'users.impersonate',
+  FILES_READ: 'files.read',
+  FILES_DELETE: 'files.delete',
+} as const
+
+export type PolicyAction = typeof POLICY_ACTIONS[keyof typeof POLICY_ACTIONS]
+
+// ============================================
+// INPUT TYPES
+// ============================================
+
+/**
+ * Quién realiza la acción
+ */
+export interface PolicySubject {
+  id: number
+  role?: string
+  roleId?: number
+  permissions: string[] // Permisos efectivos del rol y directos
+  deniedPermissions?: string[] // Permisos denegados directamente al usuario
+  apiKeyPermissions?: string[] // Permisos de la API key (solo si se autenticó con API key)
+  impersonatorId?: number
+}
+
+/**
+ * Cuándo y desde dónde se realiza la acción
+ */
+export interface PolicyContext {
+  now: Date
+  ip?: string
+  [key: string]: unknown
+}
+
+/**
+ * Petición de autorización que evalúan las reglas
+ *
+ * resource: atributos del recurso (ej: { id, role } de un usuario
+ * o { path, ownerId, uploadedAt } de un archivo)
+ */
+export interface PolicyRequest<TResource = unknown> {
+  subject: PolicySubject
+  action: PolicyAction | string
+  resource?: TResource
+  context: PolicyContext
+}
+
+// ============================================
+// REGLAS
+// ============================================
+
+/**
+ * Efecto de una regla cuando su condición se cumple
+ */
+export type PolicyEffect = 'allow' | 'deny'
+
+/**
+ * Regla de política (se registran en código: config/policies.config)
+ *
+ * actions: acciones a las que aplica ("*" = todas)
+ */
+export interface PolicyRule<TResource = any> {
+  name: string
+  description: string
+  effect: PolicyEffect
+  actions: readonly string[]
+  condition: (request: PolicyRequest<TResource>) => boolean | Promise<boolean>
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Resultado de una regla (modo explain)
+ */
+export interface PolicyRuleResult {
+  rule: string
+  description: string
+  effect: PolicyEffect
+  matched: boolean
+}
+
+/**
+ * Decisión del motor de políticas
+ *
+ * rule: regla que decidió (null si ninguna regla permitió la acción)
+ * rules: todas las reglas evaluadas, en orden (modo explain)
+ */
+export interface PolicyDecision {
+  action: string
+  allowed: boolean
+  rule: string | null
+  reason: string
+  rules: PolicyRuleResult[]
+}
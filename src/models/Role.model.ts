@@ -19,7 +19,9 @@ import type { Role, Permission } from '@prisma/client'
 export interface CreateRoleInput {
   name: string
   description?: string
+  requireTwoFactor?: boolean // Exigir verificación en dos pasos a los usuarios del rol
   permissionIds?: number[] // IDs de permisos a asignar
+  parentIds?: number[] // IDs de los roles de los que hereda permisos
 }
 
 /**
@@ -29,7 +31,9 @@ export interface UpdateRoleInput {
   name?: string
   description?: string
   isActive?: boolean
+  requireTwoFactor?: boolean
   permissionIds?: number[] // IDs de permisos a asignar (reemplaza los existentes)
+  parentIds?: number[] // IDs de los roles padre (reemplaza los existentes)
 }
 
 /**
@@ -67,6 +71,36 @@ export type RoleWithPermissions = Role & {
   permissions: Permission[]
 }
 
+/**
+ * Enlace de herencia: roleId hereda los permisos de parentId
+ */
+export interface RoleParentLink {
+  roleId: number
+  parentId: number
+  parentIsActive: boolean
+}
+
+/**
+ * Permiso de un rol indicando de dónde viene
+ *
+ * - source: "direct" si está asignado al rol, "inherited" si solo lo hereda
+ * - inheritedFrom: roles de la cadena de herencia que lo aportan
+ *   (un permiso directo también puede heredarse)
+ */
+export interface RolePermissionSource {
+  permission: Permission
+  source: 'direct' | 'inherited'
+  inheritedFrom: Array<{ id: number; name: string }>
+}
+
+/**
+ * Rol con sus padres y sus permisos directos y heredados
+ */
+export type RoleWithPermissionSources = Role & {
+  parents: Array<{ id: number; name: string; isActive: boolean }>
+  permissions: RolePermissionSource[]
+}
+
 /**
  * Permiso con información básica
  */
@@ -82,6 +116,8 @@ export type PermissionInfo = Permission
 export const ROLE_NAMES = {
   ADMIN: 'admin',
   USER: 'user',
+  ORG_ADMIN: 'org_admin', // Administrador de una organización (rol de membresía)
+  ORG_MEMBER: 'org_member', // Miembro de una organización (rol de membresía)
 } as const
 
 export type RoleName = typeof ROLE_NAMES[keyof typeof ROLE_NAMES]
@@ -97,6 +133,27 @@ export const PERMISSIONS = {
   USERS_UPDATE: 'users.update',
   USERS_DELETE: 'users.delete',
   USERS_MANAGE: 'users.manage', // Todos los permisos de usuarios
+  USERS_IMPERSONATE: 'users.impersonate', // Actuar como otro usuario (soporte)
+  
+  // Usuarios de otros ("any"): sin ellos cada usuario solo accede a su propio perfil
+  USERS_READ_ANY: 'users.read.any',
+  USERS_UPDATE_ANY: 'users.update.any',
+  USERS_DELETE_ANY: 'users.delete.any',
+  
+  // Archivos propios: cada usuario gestiona los suyos sin permisos extra;
+  // son los permisos que debe tener concedidos una API key para hacerlo
+  FILES_READ: 'files.read',
+  FILES_CREATE: 'files.create',
+  FILES_DELETE: 'files.delete',
+  
+  // Archivos de otros usuarios ("any")
+  FILES_CREATE_ANY: 'files.create.any',
+  FILES_DELETE_ANY: 'files.delete.any',
+  FILES_MANAGE: 'files.manage', // Todos los permisos de archivos
+  
+  // Organizaciones (se evalúan con el rol de la membresía activa)
+  ORGANIZATIONS_READ: 'organizations.read', // Ver la organización y sus miembros
+  ORGANIZATIONS_MANAGE: 'organizations.manage', // Gestionar miembros y sus roles
   
   // Roles y Permisos
   ROLES_READ: 'roles.read',
@@ -114,18 +171,40 @@ export const PERMISSIONS = {
 
 export type PermissionName = typeof PERMISSIONS[keyof typeof PERMISSIONS]
 
+/**
+ * Formato válido para nombres de permisos: "recurso.accion" (ej: "users.create")
+ * o un comodín: "recurso.*" (todas las acciones del recurso) o "*" (todo)
+ */
+export const PERMISSION_NAME_PATTERN = /^(\*|[a-z][a-z0-9_-]*(\.[a-z][a-z0-9_-]*)*\.\*|[a-z][a-z0-9_-]*(\.[a-z][a-z0-9_-]*)+)$/
+
 /**
  * Permisos asignados por defecto a cada rol
+ * (init:roles solo los aplica al crear el rol; para reconciliar roles existentes
+ * actualiza data/roles.yaml y ejecuta npm run roles:sync)
  */
 export const DEFAULT_ROLE_PERMISSIONS = {
   [ROLE_NAMES.ADMIN]: [
     PERMISSIONS.ADMIN_ACCESS,
     PERMISSIONS.USERS_MANAGE,
+    PERMISSIONS.USERS_IMPERSONATE,
+    PERMISSIONS.FILES_MANAGE,
     PERMISSIONS.ROLES_MANAGE,
     PERMISSIONS.PERMISSIONS_MANAGE,
   ],
   [ROLE_NAMES.USER]: [
     PERMISSIONS.USERS_READ, // Solo lectura de su propio perfil
+    // Sus archivos: los gestiona sin ellos; le permiten concederlos a sus API keys
+    PERMISSIONS.FILES_READ,
+    PERMISSIONS.FILES_CREATE,
+    PERMISSIONS.FILES_DELETE,
+  ],
+  [ROLE_NAMES.ORG_ADMIN]: [
+    PERMISSIONS.ORGANIZATIONS_MANAGE,
+    PERMISSIONS.USERS_READ_ANY, // Con organización activa: solo los miembros
+  ],
+  [ROLE_NAMES.ORG_MEMBER]: [
+    PERMISSIONS.ORGANIZATIONS_READ,
+    PERMISSIONS.USERS_READ,
   ],
 } as const
 
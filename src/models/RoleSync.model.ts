@@ -0,0 +1,122 @@
+/**
+ * ROLE SYNC MODELS - Tipos para la Sincronización Declarativa de Roles
+ *
+ * Este archivo contiene los tipos del manifiesto de roles y permisos
+ * (YAML o JSON) y del plan de cambios que genera `npm run roles:sync`.
+ *
+ * USO:
+ *   import type { RoleManifest, RoleSyncPlan } from '../models/RoleSync.model'
+ */
+
+// ============================================
+// MANIFIESTO
+// ============================================
+
+/**
+ * Permiso declarado en el manifiesto
+ */
+export interface PermissionManifestEntry {
+  name: string
+  description?: string // Sin description no se modifica la de la base de datos
+}
+
+/**
+ * Rol declarado en el manifiesto con sus permisos (nombres declarados en el manifiesto)
+ */
+export interface RoleManifestEntry {
+  name: string
+  description?: string // Sin description no se modifica la de la base de datos
+  requireTwoFactor?: boolean // Sin requireTwoFactor no se modifica
+  permissions: string[]
+}
+
+/**
+ * Manifiesto de roles y permisos (estado deseado)
+ *
+ * Es la fuente de verdad: los permisos y roles de la base de datos que no
+ * aparecen en él se desactivan, y las asignaciones que no declara se quitan.
+ */
+export interface RoleManifest {
+  permissions: PermissionManifestEntry[]
+  roles: RoleManifestEntry[]
+}
+
+// ============================================
+// ESTADO ACTUAL (BASE DE DATOS)
+// ============================================
+
+/**
+ * Permiso en la base de datos (incluye los desactivados)
+ */
+export interface PermissionSnapshot {
+  id: number
+  name: string
+  description: string | null
+  isActive: boolean
+}
+
+/**
+ * Rol en la base de datos (incluye los desactivados) con sus asignaciones
+ */
+export interface RoleSnapshot {
+  id: number
+  name: string
+  description: string | null
+  isActive: boolean
+  requireTwoFactor: boolean
+  permissions: Array<{ id: number; name: string }>
+  users: number // Usuarios con el rol
+  memberships: number // Membresías de organizaciones con el rol
+  children: number // Roles activos que heredan de él
+}
+
+// ============================================
+// PLAN DE CAMBIOS
+// ============================================
+
+/**
+ * Cambios de un campo: valor actual → valor deseado
+ */
+export type FieldChanges<T> = { [K in keyof T]?: { from: T[K]; to: T[K] } }
+
+/**
+ * Campos sincronizables de un permiso
+ */
+export interface PermissionFields {
+  description: string | null
+  isActive: boolean
+}
+
+/**
+ * Campos sincronizables de un rol
+ */
+export interface RoleFields {
+  description: string | null
+  isActive: boolean
+  requireTwoFactor: boolean
+}
+
+/**
+ * Plan de cambios para llevar la base de datos al estado del manifiesto
+ *
+ * - permissions.remove / roles.remove: se desactivan (soft delete, igual que en la API)
+ * - assignments: altas y bajas de permisos en roles existentes
+ * - blocked: motivos que impiden aplicar el plan (ej: desactivar un rol con usuarios)
+ */
+export interface RoleSyncPlan {
+  permissions: {
+    add: Array<{ name: string; description: string | null }>
+    update: Array<{ id: number; name: string; changes: FieldChanges<PermissionFields> }>
+    remove: Array<{ id: number; name: string }>
+  }
+  roles: {
+    add: Array<{ name: string; description: string | null; requireTwoFactor: boolean; permissions: string[] }>
+    update: Array<{ id: number; name: string; changes: FieldChanges<RoleFields> }>
+    remove: Array<{ id: number; name: string }>
+  }
+  assignments: {
+    add: Array<{ roleId: number; role: string; permission: string }>
+    remove: Array<{ roleId: number; role: string; permissionId: number; permission: string }>
+  }
+  blocked: string[]
+}
@@ -0,0 +1,80 @@
+/**
+ * SESSION MODELS - Tipos para Sesiones de Usuario
+ *
+ * Este archivo contiene los tipos TypeScript relacionados con las sesiones
+ * (una por refresh token / dispositivo).
+ *
+ * USO:
+ *   import type { ClientInfo, SessionInfo } from '../models/Session.model'
+ */
+
+import type { RefreshToken, Session } from '@prisma/client'
+
+// ============================================
+// TIPOS CON RELACIONES
+// ============================================
+
+/**
+ * Refresh token junto con la sesión (familia) a la que pertenece
+ */
+export type RefreshTokenWithSession = RefreshToken & { session: Session }
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Información del cliente que realiza la petición
+ * (se extrae de la request HTTP en el controller)
+ */
+export interface ClientInfo {
+  userAgent?: string
+  ipAddress?: string
+}
+
+/**
+ * Datos necesarios para crear una sesión
+ */
+export interface CreateSessionData extends ClientInfo {
+  id: string
+  userId: number
+  refreshTokenHash: string
+  expiresAt: Date
+}
+
+/**
+ * Datos necesarios para crear una sesión de suplantación (sin refresh token)
+ */
+export interface CreateImpersonationSessionData extends ClientInfo {
+  id: string
+  userId: number
+  impersonatorId: number
+  expiresAt: Date
+}
+
+/**
+ * Datos del nuevo refresh token emitido al rotar
+ */
+export interface RotateTokenData extends ClientInfo {
+  tokenHash: string
+  expiresAt: Date
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Sesión visible para el usuario (lista de dispositivos)
+ */
+export interface SessionInfo {
+  id: string
+  userAgent: string | null
+  ipAddress: string | null
+  createdAt: Date
+  lastUsedAt: Date
+  expiresAt: Date
+  impersonatorId: number | null // Administrador que suplanta al usuario en esta sesión
+  organizationId: number | null // Organización activa de la sesión
+  current: boolean // true si es la sesión que hace la petición
+}
@@ -91,6 +91,7 @@ export type UserSummary = Pick<User, 'id' | 'email' | 'name'>
 export interface UserFilters {
   email?: string
   name?: string
+  organizationId?: number // Solo miembros de la organización (organización activa)
   // Agrega más filtros según necesites
   // role?: string
   // isActive?: boolean
@@ -0,0 +1,88 @@
+/**
+ * USER PERMISSION MODELS - Tipos para Permisos Directos de Usuario
+ *
+ * Este archivo contiene los tipos TypeScript de los permisos concedidos
+ * (grant) o denegados (deny) directamente a un usuario, además de los de su rol.
+ *
+ * USO:
+ *   import { USER_PERMISSION_EFFECTS } from '../models/UserPermission.model'
+ *   import type { SetUserPermissionInput } from '../models/UserPermission.model'
+ */
+
+import type { Permission, UserPermission } from '@prisma/client'
+
+// ============================================
+// CONSTANTES
+// ============================================
+
+/**
+ * Efectos de un permiso directo
+ */
+export const USER_PERMISSION_EFFECTS = {
+  GRANT: 'grant', // Concede el permiso además de los del rol
+  DENY: 'deny', // Deniega el permiso aunque lo conceda el rol o un grant
+} as const
+
+export type UserPermissionEffect = (typeof USER_PERMISSION_EFFECTS)[keyof typeof USER_PERMISSION_EFFECTS]
+
+// ============================================
+// TIPOS CON RELACIONES
+// ============================================
+
+/**
+ * Permiso directo con su permiso incluido
+ */
+export type UserPermissionWithPermission = UserPermission & {
+  permission: Pick<Permission, 'id' | 'name' | 'isActive'>
+}
+
+// ============================================
+// INPUT TYPES (DTOs)
+// ============================================
+
+/**
+ * Datos para conceder o denegar un permiso a un usuario
+ *
+ * expiresAt: fecha ISO 8601 (opcional, sin fecha no expira)
+ */
+export interface SetUserPermissionInput {
+  effect: UserPermissionEffect
+  expiresAt?: string | null
+  reason?: string | null
+}
+
+/**
+ * Datos para guardar un permiso directo (ya validados)
+ */
+export interface UpsertUserPermissionData {
+  effect: UserPermissionEffect
+  expiresAt: Date | null
+  reason: string | null
+  grantedById: number | null
+}
+
+// ============================================
+// OUTPUT TYPES
+// ============================================
+
+/**
+ * Permiso directo de un usuario
+ */
+export interface UserPermissionInfo {
+  permissionId: number
+  permission: string
+  effect: UserPermissionEffect
+  expiresAt: Date | null
+  expired: boolean // true si expiró y aún no se purgó (ya no se aplica)
+  reason: string | null
+  grantedById: number | null
+  createdAt: Date
+}
+
+/**
+ * Permisos directos vigentes de un usuario (nombres)
+ */
+export interface UserPermissionOverrides {
+  granted: string[]
+  denied: string[]
+}
@@ -0,0 +1,58 @@
+/**
+ * OAUTH PROVIDER INTERFACE - Abstracción para Proveedores OAuth2 / OpenID Connect
+ * 
+ * Esta interfaz define el contrato que deben cumplir todos los
+ * proveedores de login social (OIDC genérico, GitHub, etc.)
+ * 
+ * El flujo es siempre authorization code + PKCE:
+ * 1. getAuthorizationUrl: URL a la que se redirige al usuario
+ * 2. exchangeCode: canjea el código del callback y devuelve el perfil
+ */
+
+/**
+ * Perfil de la cuenta externa, normalizado para todos los proveedores
+ */
+export interface OAuthProfile {
+  subject: string // Identificador estable de la cuenta en el proveedor
+  email: string | null
+  emailVerified: boolean // true solo si el proveedor garantiza el email
+  name: string | null
+}
+
+export interface AuthorizationUrlParams {
+  state: string
+  codeChallenge: string // S256(code_verifier) en base64url
+  nonce: string
+  redirectUri: string
+}
+
+export interface ExchangeCodeParams {
+  code: string
+  codeVerifier: string
+  nonce: string
+  redirectUri: string
+}
+
+export interface IOAuthProvider {
+  /**
+   * Nombre del proveedor (se usa en las rutas: /auth/oauth/:provider)
+   */
+  readonly name: string
+
+  /**
+   * Construye la URL de autorización del proveedor
+   * 
+   * @param params - state, code_challenge, nonce y redirect_uri del flujo
+   * @returns URL a la que redirigir al usuario
+   */
+  getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string>
+
+  /**
+   * Canjea el código de autorización y obtiene el perfil del usuario
+   * 
+   * @param params - Código recibido en el callback y datos del flujo
+   * @returns Perfil normalizado de la cuenta externa
+   * @throws Error si el código o el id_token no son válidos
+   */
+  exchangeCode(params: ExchangeCodeParams): Promise<OAuthProfile>
+}
@@ -0,0 +1,134 @@
+/**
+ * GITHUB PROVIDER - Login con GitHub (OAuth2)
+ * 
+ * GitHub no implementa OpenID Connect (no emite id_token), por lo que
+ * el perfil se obtiene de su API REST con el access token:
+ * - GET /user: ID (subject) y nombre
+ * - GET /user/emails: email principal verificado
+ * 
+ * USO:
+ *   import { GitHubProvider } from '../providers/GitHub.provider'
+ *   const github = new GitHubProvider({ name: 'github', clientId: '...', clientSecret: '...' })
+ */
+
+import type {
+  AuthorizationUrlParams,
+  ExchangeCodeParams,
+  IOAuthProvider,
+  OAuthProfile,
+} from '../interfaces/OAuthProvider.interface'
+
+export interface GitHubProviderConfig {
+  name: string
+  clientId: string
+  clientSecret: string
+  scopes?: string[] // ["read:user", "user:email"] por defecto
+  baseUrl?: string // https://github.com (GitHub Enterprise: https://github.empresa.com)
+  apiUrl?: string // https://api.github.com (GitHub Enterprise: https://github.empresa.com/api/v3)
+}
+
+interface GitHubEmail {
+  email: string
+  primary: boolean
+  verified: boolean
+}
+
+/**
+ * Tiempo máximo de espera de las peticiones a GitHub
+ */
+const REQUEST_TIMEOUT_MS = 10000
+
+export class GitHubProvider implements IOAuthProvider {
+  readonly name: string
+  private clientId: string
+  private clientSecret: string
+  private scopes: string[]
+  private baseUrl: string
+  private apiUrl: string
+
+  constructor(config: GitHubProviderConfig) {
+    this.name = config.name
+    this.clientId = config.clientId
+    this.clientSecret = config.clientSecret
+    this.scopes = config.scopes?.length ? config.scopes : ['read:user', 'user:email']
+    this.baseUrl = (config.baseUrl || 'https://github.com').replace(/\/+$/, '')
+    this.apiUrl = (config.apiUrl || 'https://api.github.com').replace(/\/+$/, '')
+  }
+
+  /**
+   * Construye la URL de autorización (GitHub no usa nonce)
+   */
+  async getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string> {
+    const url = new URL(`${this.baseUrl}/login/oauth/authorize`)
+    url.searchParams.set('client_id', this.clientId)
+    url.searchParams.set('redirect_uri', params.redirectUri)
+    url.searchParams.set('scope', this.scopes.join(' '))
+    url.searchParams.set('state', params.state)
+    url.searchParams.set('code_challenge', params.codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+    url.searchParams.set('allow_signup', 'true')
+
+    return url.toString()
+  }
+
+  /**
+   * Canjea el código y obtiene el perfil de la API de GitHub
+   */
+  async exchangeCode(params: ExchangeCodeParams): Promise<OAuthProfile> {
+    const tokens = await this.fetchJson<{ access_token?: string; error?: string }>(
+      `${this.baseUrl}/login/oauth/access_token`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+        body: new URLSearchParams({
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          code: params.code,
+          redirect_uri: params.redirectUri,
+          code_verifier: params.codeVerifier,
+        }),
+      }
+    )
+
+    // GitHub responde 200 con { error } si el código no es válido
+    if (!tokens.access_token) {
+      throw new Error(`GitHub rechazó el código de autorización${tokens.error ? ` (${tokens.error})` : ''}`)
+    }
+
+    const headers = {
+      Authorization: `Bearer ${tokens.access_token}`,
+      Accept: 'application/vnd.github+json',
+    }
+
+    const user = await this.fetchJson<{ id?: number; name?: string | null; login?: string }>(
+      `${this.apiUrl}/user`,
+      { headers }
+    )
+    if (typeof user.id !== 'number') {
+      throw new Error('GitHub no devolvió el ID del usuario')
+    }
+
+    const emails = await this.fetchJson<GitHubEmail[]>(`${this.apiUrl}/user/emails`, { headers })
+    const primary = Array.isArray(emails) ? emails.find((email) => email.primary && email.verified) : undefined
+
+    return {
+      subject: String(user.id),
+      email: primary?.email ?? null,
+      emailVerified: primary !== undefined,
+      name: user.name || user.login || null,
+    }
+  }
+
+  /**
+   * Petición HTTP que devuelve JSON o lanza un error con el estado
+   */
+  private async fetchJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+
+    if (!response.ok) {
+      throw new Error(`GitHub respondió ${response.status} en ${new URL(url).pathname}`)
+    }
+
+    return (await response.json()) as T
+  }
+}
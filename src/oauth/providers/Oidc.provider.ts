@@ -0,0 +1,251 @@
+/**
+ * OIDC PROVIDER - Proveedor OpenID Connect Genérico
+ * 
+ * Implementación de login social para cualquier proveedor que cumpla
+ * OpenID Connect (Google, Microsoft, Keycloak, Auth0, un servidor OIDC de pruebas...).
+ * 
+ * FUNCIONAMIENTO:
+ * - Descubre los endpoints en <issuer>/.well-known/openid-configuration
+ * - Canjea el código con PKCE (client_secret_post)
+ * - Verifica el id_token con las claves públicas del JWKS del proveedor
+ *   (firma, issuer, audience, expiración y nonce)
+ * - Si el id_token no trae el email, lo consulta en el endpoint userinfo
+ * 
+ * USO:
+ *   import { OidcProvider } from '../providers/Oidc.provider'
+ *   const google = new OidcProvider({
+ *     name: 'google',
+ *     issuer: 'https://accounts.google.com',
+ *     clientId: '...',
+ *     clientSecret: '...',
+ *   })
+ */
+
+import { createPublicKey, type JsonWebKey } from 'crypto'
+import jwt from 'jsonwebtoken'
+import type {
+  AuthorizationUrlParams,
+  ExchangeCodeParams,
+  IOAuthProvider,
+  OAuthProfile,
+} from '../interfaces/OAuthProvider.interface'
+
+export interface OidcProviderConfig {
+  name: string
+  issuer: string // URL del issuer (sin /.well-known/...)
+  clientId: string
+  clientSecret?: string // Opcional para clientes públicos (solo PKCE)
+  scopes?: string[] // ["openid", "email", "profile"] por defecto
+}
+
+/**
+ * Campos usados del documento de descubrimiento
+ */
+interface OidcDiscovery {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  jwks_uri: string
+  userinfo_endpoint?: string
+}
+
+/**
+ * Algoritmos asimétricos aceptados para el id_token
+ */
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512']
+
+/**
+ * Tiempo máximo de espera de las peticiones al proveedor
+ */
+const REQUEST_TIMEOUT_MS = 10000
+
+export class OidcProvider implements IOAuthProvider {
+  readonly name: string
+  private issuer: string
+  private clientId: string
+  private clientSecret: string | undefined
+  private scopes: string[]
+  private discovery: Promise<OidcDiscovery> | null = null
+  private jwks: JsonWebKey[] | null = null
+
+  constructor(config: OidcProviderConfig) {
+    this.name = config.name
+    this.issuer = config.issuer.replace(/\/+$/, '')
+    this.clientId = config.clientId
+    this.clientSecret = config.clientSecret
+    this.scopes = config.scopes?.length ? config.scopes : ['openid', 'email', 'profile']
+  }
+
+  /**
+   * Construye la URL de autorización (code + PKCE S256 + nonce)
+   */
+  async getAuthorizationUrl(params: AuthorizationUrlParams): Promise<string> {
+    const discovery = await this.getDiscovery()
+
+    const url = new URL(discovery.authorization_endpoint)
+    url.searchParams.set('response_type', 'code')
+    url.searchParams.set('client_id', this.clientId)
+    url.searchParams.set('redirect_uri', params.redirectUri)
+    url.searchParams.set('scope', this.scopes.join(' '))
+    url.searchParams.set('state', params.state)
+    url.searchParams.set('nonce', params.nonce)
+    url.searchParams.set('code_challenge', params.codeChallenge)
+    url.searchParams.set('code_challenge_method', 'S256')
+
+    return url.toString()
+  }
+
+  /**
+   * Canjea el código, verifica el id_token y devuelve el perfil
+   */
+  async exchangeCode(params: ExchangeCodeParams): Promise<OAuthProfile> {
+    const discovery = await this.getDiscovery()
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: this.clientId,
+      code_verifier: params.codeVerifier,
+    })
+    if (this.clientSecret) {
+      body.set('client_secret', this.clientSecret)
+    }
+
+    const tokens = await this.fetchJson<{ id_token?: string; access_token?: string }>(discovery.token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body,
+    })
+
+    if (!tokens.id_token) {
+      throw new Error(`El proveedor ${this.name} no devolvió un id_token`)
+    }
+
+    const claims = await this.verifyIdToken(tokens.id_token, discovery, params.nonce)
+
+    let email = typeof claims.email === 'string' ? claims.email : null
+    let emailVerified = claims.email_verified === true || claims.email_verified === 'true'
+    let name = typeof claims.name === 'string' ? claims.name : null
+
+    // Algunos proveedores solo incluyen el email en userinfo
+    if (!email && tokens.access_token && discovery.userinfo_endpoint) {
+      const userInfo = await this.fetchJson<Record<string, unknown>>(discovery.userinfo_endpoint, {
+        headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: 'application/json' },
+      })
+
+      if (userInfo.sub === claims.sub) {
+        email = typeof userInfo.email === 'string' ? userInfo.email : null
+        emailVerified = userInfo.email_verified === true || userInfo.email_verified === 'true'
+        name = name ?? (typeof userInfo.name === 'string' ? userInfo.name : null)
+      }
+    }
+
+    return {
+      subject: claims.sub as string,
+      email,
+      emailVerified: email !== null && emailVerified,
+      name,
+    }
+  }
+
+  /**
+   * Verifica firma y claims del id_token
+   */
+  private async verifyIdToken(
+    idToken: string,
+    discovery: OidcDiscovery,
+    nonce: string
+  ): Promise<jwt.JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true })
+    if (!decoded) {
+      throw new Error('id_token con formato inválido')
+    }
+
+    const jwk = await this.getSigningKey(discovery, decoded.header.kid)
+
+    let claims: jwt.JwtPayload | string
+    try {
+      claims = jwt.verify(idToken, createPublicKey({ key: jwk, format: 'jwk' }), {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: discovery.issuer,
+        audience: this.clientId,
+      })
+    } catch (error) {
+      throw new Error(`id_token inválido: ${error instanceof Error ? error.message : 'error desconocido'}`)
+    }
+
+    if (typeof claims === 'string' || typeof claims.sub !== 'string' || !claims.sub) {
+      throw new Error('id_token sin claim "sub"')
+    }
+
+    if (claims.nonce !== nonce) {
+      throw new Error('El nonce del id_token no coincide')
+    }
+
+    return claims
+  }
+
+  /**
+   * Obtiene la clave pública del JWKS para un kid
+   * 
+   * Si el kid no está en caché se vuelve a descargar el JWKS
+   * (el proveedor puede haber rotado sus claves).
+   */
+  private async getSigningKey(discovery: OidcDiscovery, kid: string | undefined): Promise<JsonWebKey> {
+    const findKey = (keys: JsonWebKey[]): JsonWebKey | undefined =>
+      kid ? keys.find((key) => key.kid === kid) : keys.length === 1 ? keys[0] : undefined
+
+    let key = this.jwks ? findKey(this.jwks) : undefined
+
+    if (!key) {
+      const jwks = await this.fetchJson<{ keys?: JsonWebKey[] }>(discovery.jwks_uri, {
+        headers: { Accept: 'application/json' },
+      })
+      this.jwks = (jwks.keys ?? []).filter((k) => k.use === undefined || k.use === 'sig')
+      key = findKey(this.jwks)
+    }
+
+    if (!key) {
+      throw new Error('No se encontró la clave de firma del id_token')
+    }
+
+    return key
+  }
+
+  /**
+   * Descarga (una vez) el documento de descubrimiento del issuer
+   */
+  private getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      this.discovery = this.fetchJson<OidcDiscovery>(`${this.issuer}/.well-known/openid-configuration`, {
+        headers: { Accept: 'application/json' },
+      }).then((discovery) => {
+        if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+          throw new Error(`Documento de descubrimiento incompleto para ${this.name}`)
+        }
+        return discovery
+      })
+
+      // No cachear fallos (ej: proveedor caído al arrancar)
+      this.discovery.catch(() => {
+        this.discovery = null
+      })
+    }
+
+    return this.discovery
+  }
+
+  /**
+   * Petición HTTP que devuelve JSON o lanza un error con el estado
+   */
+  private async fetchJson<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+
+    if (!response.ok) {
+      throw new Error(`El proveedor ${this.name} respondió ${response.status} en ${new URL(url).pathname}`)
+    }
+
+    return (await response.json()) as T
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * API KEY REPOSITORY - Capa de Acceso a Datos para API Keys
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con las API keys personales.
+ *
+ * RESPONSABILIDADES:
+ * - Listar, crear, actualizar y eliminar las API keys de un usuario
+ * - Buscar una API key por su prefijo (autenticación)
+ * - Registrar el último uso de una API key
+ *
+ * USO:
+ *   import { ApiKeyRepository } from '../repositories/ApiKey.repository'
+ *   const apiKeyRepo = new ApiKeyRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { ApiKeyWithPermissions, CreateApiKeyData, UpdateApiKeyData } from '../models/ApiKey.model'
+
+/**
+ * Incluir los permisos de la key
+ */
+const PERMISSIONS_INCLUDE = {
+  permissions: {
+    include: { permission: true },
+  },
+} as const
+
+export class ApiKeyRepository {
+  /**
+   * Lista las API keys de un usuario
+   */
+  async findByUser(userId: number): Promise<ApiKeyWithPermissions[]> {
+    return db.apiKey.findMany({
+      where: { userId },
+      include: PERMISSIONS_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    })
+  }
+
+  /**
+   * Encuentra una API key de un usuario por su ID
+   */
+  async findByIdForUser(id: number, userId: number): Promise<ApiKeyWithPermissions | null> {
+    return db.apiKey.findFirst({
+      where: { id, userId },
+      include: PERMISSIONS_INCLUDE,
+    })
+  }
+
+  /**
+   * Encuentra una API key por su prefijo junto con su propietario
+   * (para autenticar peticiones)
+   */
+  async findByPrefix(prefix: string) {
+    return db.apiKey.findUnique({
+      where: { prefix },
+      include: {
+        ...PERMISSIONS_INCLUDE,
+        user: {
+          select: {
+            id: true,
+            email: true,
+            roleId: true,
+            role: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+            isActive: true,
+            emailVerifiedAt: true,
+          },
+        },
+      },
+    })
+  }
+
+  /**
+   * Crea una API key con sus permisos
+   */
+  async create(data: CreateApiKeyData): Promise<ApiKeyWithPermissions> {
+    return db.apiKey.create({
+      data: {
+        userId: data.userId,
+        name: data.name,
+        prefix: data.prefix,
+        secretHash: data.secretHash,
+        expiresAt: data.expiresAt,
+        permissions: {
+          create: data.permissionIds.map((permissionId) => ({ permissionId })),
+        },
+      },
+      include: PERMISSIONS_INCLUDE,
+    })
+  }
+
+  /**
+   * Actualiza una API key (los permisos, si se indican, reemplazan a los existentes)
+   */
+  async update(id: number, data: UpdateApiKeyData): Promise<ApiKeyWithPermissions> {
+    return db.apiKey.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.expiresAt !== undefined && { expiresAt: data.expiresAt }),
+        ...(data.permissionIds !== undefined && {
+          permissions: {
+            deleteMany: {},
+            create: data.permissionIds.map((permissionId) => ({ permissionId })),
+          },
+        }),
+      },
+      include: PERMISSIONS_INCLUDE,
+    })
+  }
+
+  /**
+   * Elimina una API key
+   */
+  async delete(id: number): Promise<void> {
+    await db.apiKey.delete({
+      where: { id },
+    })
+  }
+
+  /**
+   * Registra el último uso de una API key
+   */
+  async touch(id: number, ipAddress: string | null): Promise<void> {
+    await db.apiKey.update({
+      where: { id },
+      data: {
+        lastUsedAt: new Date(),
+        lastUsedIp: ipAddress,
+      },
+    })
+  }
+}
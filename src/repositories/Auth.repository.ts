@@ -6,8 +6,10 @@
  * 
  * RESPONSABILIDADES:
  * - Buscar usuarios por email
- * - Actualizar tokens de refresco
  * - Manejar tokens de recuperación de contraseña
+ * - Manejar tokens de verificación de email
+ * - Manejar tokens de inicio de sesión sin contraseña (magic link)
+ * - Registrar intentos de login fallidos y bloqueos
  * - Actualizar contraseñas
  * 
  * USO:
@@ -18,6 +20,35 @@
 import { db } from '../config/prisma'
 import type { User } from '@prisma/client'
 
+/**
+ * Campos necesarios para iniciar sesión
+ * (contraseña, estado de bloqueo y verificación en dos pasos)
+ */
+const LOGIN_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  password: true,
+  roleId: true,
+  role: {
+    select: {
+      id: true,
+      name: true,
+      requireTwoFactor: true,
+    },
+  },
+  isActive: true,
+  emailVerifiedAt: true,
+  failedLoginAttempts: true,
+  lastFailedLoginAt: true,
+  lockedUntil: true,
+  passwordChangedAt: true,
+  twoFactorSecret: true,
+  twoFactorEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const
+
 export class AuthRepository {
   /**
    * Encuentra un usuario por email (para login)
@@ -35,23 +66,18 @@ export class AuthRepository {
   async findByEmailWithPassword(email: string) {
     return db.user.findUnique({
       where: { email },
-      select: {
-        id: true,
-        email: true,
-        name: true,
-        password: true,
-        roleId: true,
-        role: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-        isActive: true,
-        refreshToken: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select: LOGIN_SELECT,
+    })
+  }
+  
+  /**
+   * Encuentra un usuario por ID con los mismos datos que el login
+   * (para el segundo paso del login con verificación en dos pasos)
+   */
+  async findByIdForLogin(id: number) {
+    return db.user.findUnique({
+      where: { id },
+      select: LOGIN_SELECT,
     })
   }
   
@@ -63,13 +89,16 @@ export class AuthRepository {
     password: string
     name?: string
     roleId?: number // ID del rol (por defecto será "user")
+    emailVerifiedAt?: Date // Solo para usuarios creados ya verificados (ej: seed)
   }): Promise<User> {
     return db.user.create({
       data: {
         email: data.email,
         password: data.password,
+        passwordChangedAt: new Date(),
         name: data.name,
         roleId: data.roleId || 2, // Por defecto rol "user" (ID 2)
+        emailVerifiedAt: data.emailVerifiedAt ?? null,
       },
       include: {
         role: true,
@@ -78,43 +107,195 @@ export class AuthRepository {
   }
   
   /**
-   * Actualiza el refresh token de un usuario
+   * Guarda el hash del token de recuperación de contraseña y su expiración
+   * 
+   * Reemplaza al token anterior, que deja de ser válido.
    */
-  async updateRefreshToken(userId: number, refreshToken: string | null): Promise<User> {
+  async updatePasswordResetToken(
+    userId: number,
+    tokenHash: string | null,
+    expiresAt: Date | null
+  ): Promise<User> {
     return db.user.update({
       where: { id: userId },
-      data: { refreshToken },
+      data: {
+        passwordResetTokenHash: tokenHash,
+        passwordResetExpires: expiresAt,
+      },
     })
   }
   
   /**
-   * Actualiza el token de recuperación de contraseña y su expiración
+   * Encuentra un usuario por el hash de su token de recuperación de contraseña
    */
-  async updatePasswordResetToken(
+  async findByPasswordResetToken(tokenHash: string): Promise<User | null> {
+    return db.user.findFirst({
+      where: {
+        passwordResetTokenHash: tokenHash,
+        passwordResetExpires: {
+          gt: new Date(), // Token no expirado
+        },
+      },
+    })
+  }
+  
+  /**
+   * Consume el token de recuperación de contraseña (un solo uso)
+   * 
+   * Si el mismo token se usa dos veces a la vez solo una petición lo consume.
+   * 
+   * @returns true si el token seguía vigente y se consumió
+   */
+  async consumePasswordResetToken(userId: number, tokenHash: string): Promise<boolean> {
+    const result = await db.user.updateMany({
+      where: {
+        id: userId,
+        passwordResetTokenHash: tokenHash,
+        passwordResetExpires: { gt: new Date() },
+      },
+      data: {
+        passwordResetTokenHash: null,
+        passwordResetExpires: null,
+      },
+    })
+    return result.count > 0
+  }
+  
+  /**
+   * Guarda un nuevo token de verificación de email
+   * 
+   * Marca el email como no verificado hasta que se use el token.
+   */
+  async startEmailVerification(
     userId: number,
-    token: string | null,
-    expiresAt: Date | null
+    tokenHash: string,
+    expiresAt: Date
   ): Promise<User> {
     return db.user.update({
       where: { id: userId },
       data: {
-        passwordResetToken: token,
-        passwordResetExpires: expiresAt,
+        emailVerifiedAt: null,
+        emailVerificationTokenHash: tokenHash,
+        emailVerificationExpires: expiresAt,
+        emailVerificationSentAt: new Date(),
       },
     })
   }
   
   /**
-   * Encuentra un usuario por token de recuperación de contraseña
+   * Encuentra un usuario por el hash de su token de verificación de email
    */
-  async findByPasswordResetToken(token: string): Promise<User | null> {
+  async findByEmailVerificationToken(tokenHash: string): Promise<User | null> {
     return db.user.findFirst({
       where: {
-        passwordResetToken: token,
-        passwordResetExpires: {
+        emailVerificationTokenHash: tokenHash,
+        emailVerificationExpires: {
+          gt: new Date(), // Token no expirado
+        },
+      },
+    })
+  }
+  
+  /**
+   * Marca el email de un usuario como verificado y limpia el token
+   */
+  async markEmailVerified(userId: number): Promise<User> {
+    return db.user.update({
+      where: { id: userId },
+      data: {
+        emailVerifiedAt: new Date(),
+        emailVerificationTokenHash: null,
+        emailVerificationExpires: null,
+      },
+    })
+  }
+  
+  /**
+   * Guarda el token de un enlace de inicio de sesión (reemplaza al anterior)
+   */
+  async saveMagicLinkToken(userId: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        magicLinkTokenHash: tokenHash,
+        magicLinkExpires: expiresAt,
+      },
+    })
+  }
+  
+  /**
+   * Consume el token de un enlace de inicio de sesión (un solo uso)
+   * 
+   * Si el mismo enlace se usa dos veces a la vez solo una petición lo consume.
+   * 
+   * @returns ID del usuario, o null si el token no existe, expiró o ya se usó
+   */
+  async consumeMagicLinkToken(tokenHash: string): Promise<number | null> {
+    const user = await db.user.findFirst({
+      where: {
+        magicLinkTokenHash: tokenHash,
+        magicLinkExpires: {
           gt: new Date(), // Token no expirado
         },
       },
+      select: { id: true },
+    })
+    
+    if (!user) {
+      return null
+    }
+    
+    const result = await db.user.updateMany({
+      where: { id: user.id, magicLinkTokenHash: tokenHash },
+      data: {
+        magicLinkTokenHash: null,
+        magicLinkExpires: null,
+      },
+    })
+    
+    return result.count > 0 ? user.id : null
+  }
+  
+  /**
+   * Registra un intento de login fallido
+   * 
+   * @param restart - true para empezar el conteo desde cero (ej: el bloqueo anterior ya expiró)
+   * @returns Intentos fallidos consecutivos tras registrar este
+   */
+  async recordFailedLogin(userId: number, restart = false): Promise<number> {
+    const user = await db.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginAttempts: restart ? 1 : { increment: 1 },
+        lastFailedLoginAt: new Date(),
+        ...(restart && { lockedUntil: null }),
+      },
+      select: { failedLoginAttempts: true },
+    })
+    return user.failedLoginAttempts
+  }
+  
+  /**
+   * Bloquea la cuenta hasta la fecha indicada
+   */
+  async lockAccount(userId: number, lockedUntil: Date): Promise<void> {
+    await db.user.update({
+      where: { id: userId },
+      data: { lockedUntil },
+    })
+  }
+  
+  /**
+   * Reinicia el contador de intentos fallidos y elimina el bloqueo
+   */
+  async resetFailedLogins(userId: number): Promise<void> {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+      },
     })
   }
   
@@ -126,7 +307,8 @@ export class AuthRepository {
       where: { id: userId },
       data: {
         password: hashedPassword,
-        passwordResetToken: null,
+        passwordChangedAt: new Date(),
+        passwordResetTokenHash: null,
         passwordResetExpires: null,
       },
     })
@@ -161,7 +343,7 @@ export class AuthRepository {
           },
         },
         isActive: true,
-        refreshToken: true,
+        emailVerifiedAt: true,
       },
     })
   }
@@ -0,0 +1,100 @@
+/**
+ * FILE REPOSITORY - Capa de Acceso a Datos para Archivos
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con el registro de los archivos subidos.
+ *
+ * RESPONSABILIDADES:
+ * - Registrar los archivos guardados en el storage
+ * - Buscar archivos por ID o por su ruta en el storage
+ * - Listar archivos con filtros y paginación
+ * - Con organización activa, solo los archivos de esa organización (ver utils/tenant.util)
+ * - Eliminar registros
+ *
+ * USO:
+ *   import { FileRepository } from '../repositories/File.repository'
+ *   const fileRepo = new FileRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { File, Prisma } from '@prisma/client'
+import type { CreateFileData, FileFilters } from '../models/File.model'
+import { tenantWhere } from '../utils/tenant.util'
+
+export class FileRepository {
+  /**
+   * Registra un archivo
+   */
+  async create(data: CreateFileData): Promise<File> {
+    return db.file.create({ data })
+  }
+
+  /**
+   * Encuentra un archivo por ID
+   * 
+   * @param organizationId - Organización activa: solo si el archivo es de ella
+   */
+  async findById(id: number, organizationId?: number): Promise<File | null> {
+    return db.file.findFirst({
+      where: { id, ...(organizationId !== undefined && tenantWhere(organizationId)) },
+    })
+  }
+
+  /**
+   * Encuentra un archivo por su ruta en un storage
+   * 
+   * @param organizationId - Organización activa: solo si el archivo es de ella
+   */
+  async findByKey(storage: string, key: string, organizationId?: number): Promise<File | null> {
+    return db.file.findFirst({
+      where: { storage, key, ...(organizationId !== undefined && tenantWhere(organizationId)) },
+    })
+  }
+
+  /**
+   * Lista archivos (más recientes primero)
+   */
+  async findAll(filters: FileFilters, skip: number, take: number): Promise<File[]> {
+    return db.file.findMany({
+      where: buildWhere(filters),
+      orderBy: { createdAt: 'desc' },
+      skip,
+      take,
+    })
+  }
+
+  /**
+   * Cuenta los archivos que cumplen los filtros
+   */
+  async count(filters: FileFilters): Promise<number> {
+    return db.file.count({
+      where: buildWhere(filters),
+    })
+  }
+
+  /**
+   * Elimina el registro de un archivo
+   *
+   * @returns true si existía y se eliminó
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await db.file.deleteMany({
+      where: { id },
+    })
+    return result.count > 0
+  }
+}
+
+/**
+ * Construye el filtro de la consulta
+ */
+function buildWhere(filters: FileFilters): Prisma.FileWhereInput {
+  const where: Prisma.FileWhereInput = filters.organizationId !== undefined ? tenantWhere(filters.organizationId) : {}
+  if (filters.ownerId !== undefined) {
+    where.ownerId = filters.ownerId
+  }
+  if (filters.mimetype) {
+    where.mimetype = { startsWith: filters.mimetype }
+  }
+  return where
+}
@@ -0,0 +1,162 @@
+/**
+ * OAUTH REPOSITORY - Capa de Acceso a Datos para Login Social
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con los flujos OAuth y las identidades externas.
+ *
+ * RESPONSABILIDADES:
+ * - Guardar y consumir (un solo uso) los flujos OAuth en curso
+ * - Buscar, vincular y desvincular identidades externas
+ * - Crear usuarios a partir de una identidad externa
+ *
+ * USO:
+ *   import { OAuthRepository } from '../repositories/OAuth.repository'
+ *   const oauthRepo = new OAuthRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { OAuthState, User, UserIdentity } from '@prisma/client'
+import type { CreateOAuthStateData, CreateOAuthUserData } from '../models/OAuth.model'
+
+export class OAuthRepository {
+  // ============================================
+  // FLUJOS OAUTH (STATE + PKCE)
+  // ============================================
+
+  /**
+   * Guarda un flujo OAuth iniciado y limpia los flujos expirados
+   */
+  async createState(data: CreateOAuthStateData): Promise<OAuthState> {
+    await db.oAuthState.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    })
+
+    return db.oAuthState.create({ data })
+  }
+
+  /**
+   * Obtiene y elimina un flujo OAuth por el hash de su state
+   *
+   * Si dos callbacks llegan a la vez con el mismo state solo uno lo consume.
+   *
+   * @returns El flujo, o null si no existe o ya se usó
+   */
+  async consumeState(stateHash: string): Promise<OAuthState | null> {
+    const state = await db.oAuthState.findUnique({
+      where: { stateHash },
+    })
+
+    if (!state) {
+      return null
+    }
+
+    const result = await db.oAuthState.deleteMany({
+      where: { id: state.id },
+    })
+
+    return result.count > 0 ? state : null
+  }
+
+  // ============================================
+  // IDENTIDADES EXTERNAS
+  // ============================================
+
+  /**
+   * Encuentra una identidad por proveedor y subject
+   */
+  async findIdentity(provider: string, subject: string): Promise<UserIdentity | null> {
+    return db.userIdentity.findUnique({
+      where: { provider_subject: { provider, subject } },
+    })
+  }
+
+  /**
+   * Lista las identidades vinculadas a un usuario
+   */
+  async findIdentitiesByUser(userId: number): Promise<UserIdentity[]> {
+    return db.userIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Encuentra una identidad de un usuario por su ID
+   */
+  async findIdentityForUser(id: number, userId: number): Promise<UserIdentity | null> {
+    return db.userIdentity.findFirst({
+      where: { id, userId },
+    })
+  }
+
+  /**
+   * Vincula una identidad externa a un usuario
+   */
+  async createIdentity(
+    userId: number,
+    provider: string,
+    subject: string,
+    email: string | null
+  ): Promise<UserIdentity> {
+    return db.userIdentity.create({
+      data: { userId, provider, subject, email },
+    })
+  }
+
+  /**
+   * Registra un login con una identidad (y actualiza el email informado)
+   */
+  async touchIdentity(id: number, email: string | null): Promise<void> {
+    await db.userIdentity.update({
+      where: { id },
+      data: { lastLoginAt: new Date(), email },
+    })
+  }
+
+  /**
+   * Desvincula una identidad
+   */
+  async deleteIdentity(id: number): Promise<void> {
+    await db.userIdentity.delete({
+      where: { id },
+    })
+  }
+
+  // ============================================
+  // USUARIOS
+  // ============================================
+
+  /**
+   * Crea un usuario sin contraseña junto con su identidad externa
+   */
+  async createUserWithIdentity(data: CreateOAuthUserData): Promise<User> {
+    return db.user.create({
+      data: {
+        email: data.email,
+        name: data.name,
+        password: null,
+        roleId: 2, // Por defecto rol "user" (ID 2)
+        emailVerifiedAt: data.emailVerified ? new Date() : null,
+        identities: {
+          create: {
+            provider: data.provider,
+            subject: data.subject,
+            email: data.email,
+            lastLoginAt: new Date(),
+          },
+        },
+      },
+    })
+  }
+
+  /**
+   * Indica si un usuario tiene contraseña local
+   */
+  async hasPassword(userId: number): Promise<boolean> {
+    const user = await db.user.findUnique({
+      where: { id: userId },
+      select: { password: true },
+    })
+    return user?.password != null
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * ORGANIZATION REPOSITORY - Capa de Acceso a Datos para Organizaciones
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con las organizaciones, sus membresías y sus invitaciones.
+ *
+ * Las consultas de membresías reciben siempre la organización: una
+ * organización nunca ve los miembros de otra (ver utils/tenant.util).
+ *
+ * RESPONSABILIDADES:
+ * - Crear organizaciones (junto con la membresía de su creador)
+ * - Buscar la membresía de un usuario en una organización
+ * - Listar, actualizar y quitar miembros
+ * - Guardar, listar, revocar y aceptar invitaciones (por hash del token)
+ *
+ * USO:
+ *   import { OrganizationRepository } from '../repositories/Organization.repository'
+ *   const organizationRepo = new OrganizationRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { Organization } from '@prisma/client'
+import type {
+  CreateInvitationData,
+  CreateOrganizationInput,
+  InvitationWithOrganization,
+  InvitationWithRole,
+  MembershipWithOrganization,
+  MembershipWithUser,
+} from '../models/Organization.model'
+import { tenantWhere } from '../utils/tenant.util'
+
+/**
+ * Rol de la membresía (solo ID y nombre)
+ */
+const ROLE_SELECT = {
+  select: { id: true, name: true },
+} as const
+
+/**
+ * Rol de la invitación y quién la envió
+ */
+const INVITATION_INCLUDE = {
+  role: ROLE_SELECT,
+  invitedBy: { select: { id: true, email: true } },
+} as const
+
+export class OrganizationRepository {
+  /**
+   * Crea una organización y la membresía de su creador
+   */
+  async create(data: CreateOrganizationInput, ownerId: number, ownerRoleId: number): Promise<Organization> {
+    return db.organization.create({
+      data: {
+        name: data.name,
+        slug: data.slug,
+        memberships: {
+          create: { userId: ownerId, roleId: ownerRoleId },
+        },
+      },
+    })
+  }
+
+  /**
+   * Encuentra una organización por ID
+   */
+  async findById(id: number): Promise<Organization | null> {
+    return db.organization.findUnique({ where: { id } })
+  }
+
+  /**
+   * Verifica si un slug ya está en uso
+   */
+  async slugExists(slug: string): Promise<boolean> {
+    const organization = await db.organization.findUnique({
+      where: { slug },
+      select: { id: true },
+    })
+    return organization !== null
+  }
+
+  /**
+   * Encuentra la membresía de un usuario en una organización
+   */
+  async findMembership(userId: number, organizationId: number): Promise<MembershipWithOrganization | null> {
+    return db.membership.findUnique({
+      where: { userId_organizationId: { userId, organizationId } },
+      include: { organization: true, role: ROLE_SELECT },
+    })
+  }
+
+  /**
+   * Lista las membresías de un usuario en organizaciones activas
+   */
+  async findMembershipsByUser(userId: number): Promise<MembershipWithOrganization[]> {
+    return db.membership.findMany({
+      where: { userId, organization: { isActive: true } },
+      include: { organization: true, role: ROLE_SELECT },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Cuenta las membresías de un usuario en otras organizaciones
+   */
+  async countMembershipsOutside(userId: number, organizationId: number): Promise<number> {
+    return db.membership.count({
+      where: { userId, organizationId: { not: organizationId } },
+    })
+  }
+
+  /**
+   * Lista los miembros de una organización
+   */
+  async findMembers(organizationId: number): Promise<MembershipWithUser[]> {
+    return db.membership.findMany({
+      where: tenantWhere(organizationId),
+      include: {
+        user: { select: { id: true, email: true, name: true, isActive: true } },
+        role: ROLE_SELECT,
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Cambia el rol de un miembro
+   *
+   * @returns true si el usuario era miembro de la organización
+   */
+  async updateMemberRole(organizationId: number, userId: number, roleId: number): Promise<boolean> {
+    const result = await db.membership.updateMany({
+      where: { ...tenantWhere(organizationId), userId },
+      data: { roleId },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Quita un miembro de una organización
+   *
+   * @returns true si el usuario era miembro de la organización
+   */
+  async removeMember(organizationId: number, userId: number): Promise<boolean> {
+    const result = await db.membership.deleteMany({
+      where: { ...tenantWhere(organizationId), userId },
+    })
+    return result.count > 0
+  }
+
+  // ============================================
+  // INVITACIONES
+  // ============================================
+
+  /**
+   * Guarda una invitación; si el email ya tenía una en la organización,
+   * la reemplaza (nuevo token, rol y expiración)
+   */
+  async upsertInvitation(data: CreateInvitationData): Promise<InvitationWithRole> {
+    const { organizationId, email, ...invitation } = data
+    return db.organizationInvitation.upsert({
+      where: { organizationId_email: { organizationId, email } },
+      create: data,
+      update: invitation,
+      include: INVITATION_INCLUDE,
+    })
+  }
+
+  /**
+   * Lista las invitaciones de una organización
+   */
+  async findInvitations(organizationId: number): Promise<InvitationWithRole[]> {
+    return db.organizationInvitation.findMany({
+      where: tenantWhere(organizationId),
+      include: INVITATION_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Encuentra una invitación por el hash de su token
+   */
+  async findInvitationByTokenHash(tokenHash: string): Promise<InvitationWithOrganization | null> {
+    return db.organizationInvitation.findUnique({
+      where: { tokenHash },
+      include: {
+        organization: true,
+        role: { select: { id: true, name: true, isActive: true } },
+      },
+    })
+  }
+
+  /**
+   * Revoca una invitación de una organización
+   *
+   * @returns true si la invitación existía en la organización
+   */
+  async deleteInvitation(organizationId: number, id: number): Promise<boolean> {
+    const result = await db.organizationInvitation.deleteMany({
+      where: { ...tenantWhere(organizationId), id },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Acepta una invitación: crea la membresía y borra la invitación
+   * en la misma transacción (el token no puede usarse dos veces)
+   *
+   * @returns false si la invitación ya no existía
+   */
+  async acceptInvitation(invitationId: number, userId: number): Promise<boolean> {
+    return db.$transaction(async (tx) => {
+      const invitation = await tx.organizationInvitation.findUnique({ where: { id: invitationId } })
+      if (!invitation) {
+        return false
+      }
+
+      await tx.organizationInvitation.delete({ where: { id: invitationId } })
+      await tx.membership.create({
+        data: { organizationId: invitation.organizationId, userId, roleId: invitation.roleId },
+      })
+      return true
+    })
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * PASSWORD HISTORY REPOSITORY - Capa de Acceso a Datos para el Historial de Contraseñas
+ *
+ * Este repository maneja los hashes de las contraseñas anteriores
+ * de cada usuario (para impedir que se reutilicen).
+ *
+ * USO:
+ *   import { PasswordHistoryRepository } from '../repositories/PasswordHistory.repository'
+ *   const passwordHistoryRepo = new PasswordHistoryRepository()
+ */
+
+import { db } from '../config/prisma'
+
+export class PasswordHistoryRepository {
+  /**
+   * Obtiene los hashes de las últimas contraseñas de un usuario (más reciente primero)
+   */
+  async findRecentHashes(userId: number, take: number): Promise<string[]> {
+    const entries = await db.passwordHistory.findMany({
+      where: { userId },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take,
+      select: { passwordHash: true },
+    })
+    return entries.map((entry) => entry.passwordHash)
+  }
+
+  /**
+   * Agrega una contraseña al historial y conserva solo las `keep` más recientes
+   */
+  async add(userId: number, passwordHash: string, keep: number): Promise<void> {
+    await db.$transaction(async (tx) => {
+      await tx.passwordHistory.create({
+        data: { userId, passwordHash },
+      })
+
+      const stale = await tx.passwordHistory.findMany({
+        where: { userId },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: keep,
+        select: { id: true },
+      })
+
+      if (stale.length > 0) {
+        await tx.passwordHistory.deleteMany({
+          where: { id: { in: stale.map((entry) => entry.id) } },
+        })
+      }
+    })
+  }
+}
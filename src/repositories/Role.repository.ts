@@ -10,8 +10,14 @@
  */
 
 import { db } from '../config/prisma'
-import type { Role, Permission, RolePermission } from '@prisma/client'
-import type { CreateRoleInput, UpdateRoleInput, CreatePermissionInput, UpdatePermissionInput } from '../models/Role.model'
+import type { Prisma, Role, Permission, RolePermission } from '@prisma/client'
+import type {
+  CreateRoleInput,
+  UpdateRoleInput,
+  CreatePermissionInput,
+  UpdatePermissionInput,
+  RoleParentLink,
+} from '../models/Role.model'
 
 export class RoleRepository {
   /**
@@ -43,11 +49,41 @@ export class RoleRepository {
   }
   
   /**
-   * Encuentra un rol por ID con sus permisos
+   * Encuentra varios roles por sus IDs
+   */
+  async findByIds(ids: number[]): Promise<Role[]> {
+    return db.role.findMany({
+      where: { id: { in: ids } },
+    })
+  }
+  
+  /**
+   * Encuentra un rol por ID con sus permisos y sus roles padre
    */
   async findByIdWithPermissions(id: number) {
     return db.role.findUnique({
       where: { id },
+      include: {
+        permissions: {
+          include: {
+            permission: true,
+          },
+        },
+        parents: {
+          include: {
+            parent: { select: { id: true, name: true, isActive: true } },
+          },
+        },
+      },
+    })
+  }
+  
+  /**
+   * Encuentra varios roles con sus permisos
+   */
+  async findManyWithPermissions(ids: number[]) {
+    return db.role.findMany({
+      where: { id: { in: ids } },
       include: {
         permissions: {
           include: {
@@ -66,46 +102,62 @@ export class RoleRepository {
       data: {
         name: data.name,
         description: data.description,
+        requireTwoFactor: data.requireTwoFactor,
         permissions: data.permissionIds
           ? {
-              create: data.permissionIds.map((permissionId) => ({
+              create: [...new Set(data.permissionIds)].map((permissionId) => ({
                 permissionId,
               })),
             }
           : undefined,
+        parents: data.parentIds
+          ? {
+              create: [...new Set(data.parentIds)].map((parentId) => ({
+                parentId,
+              })),
+            }
+          : undefined,
       },
     })
   }
   
   /**
-   * Actualiza un rol
+   * Actualiza un rol: datos, permisos y roles padre en una transacción (todo o nada)
+   * 
+   * Si cambian los padres, los enlaces de herencia se bloquean (FOR UPDATE) hasta el
+   * final de la transacción: una edición concurrente espera y valida sobre el
+   * resultado de esta, así que dos ediciones no pueden cerrar un ciclo entre ambas.
+   * 
+   * @param validateParents - Valida los nuevos padres con los enlaces leídos dentro de
+   *   la transacción (ej: que no creen un ciclo); si lanza, no se aplica ningún cambio
    */
-  async update(id: number, data: UpdateRoleInput): Promise<Role> {
-    // Si se proporcionan nuevos permissionIds, reemplazar los existentes
-    if (data.permissionIds !== undefined) {
-      // Eliminar permisos existentes
-      await db.rolePermission.deleteMany({
-        where: { roleId: id },
-      })
+  async update(
+    id: number,
+    data: UpdateRoleInput,
+    validateParents?: (links: RoleParentLink[]) => Promise<void>
+  ): Promise<Role> {
+    return db.$transaction(async (tx) => {
+      // Si se proporcionan nuevos parentIds, reemplazar los existentes
+      if (data.parentIds !== undefined) {
+        await tx.$queryRaw`SELECT id FROM role_parents FOR UPDATE`
+        await validateParents?.(await this.getParentLinks(tx))
+        await this.replaceParents(tx, id, data.parentIds)
+      }
       
-      // Crear nuevos permisos si hay alguno
-      if (data.permissionIds.length > 0) {
-        await db.rolePermission.createMany({
-          data: data.permissionIds.map((permissionId) => ({
-            roleId: id,
-            permissionId,
-          })),
-        })
+      // Si se proporcionan nuevos permissionIds, reemplazar los existentes
+      if (data.permissionIds !== undefined) {
+        await this.replacePermissions(tx, id, data.permissionIds)
       }
-    }
-    
-    return db.role.update({
-      where: { id },
-      data: {
-        name: data.name,
-        description: data.description,
-        isActive: data.isActive,
-      },
+      
+      return tx.role.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          isActive: data.isActive,
+          requireTwoFactor: data.requireTwoFactor,
+        },
+      })
     })
   }
   
@@ -120,23 +172,113 @@ export class RoleRepository {
   }
   
   /**
-   * Asigna permisos a un rol
+   * Asigna permisos a un rol (reemplaza los existentes)
+   * 
+   * En una transacción: si la creación falla, el rol conserva sus permisos.
+   * Los IDs repetidos se ignoran (la clave única no admite duplicados).
    */
   async assignPermissions(roleId: number, permissionIds: number[]): Promise<void> {
-    // Eliminar permisos existentes
-    await db.rolePermission.deleteMany({
+    await db.$transaction((tx) => this.replacePermissions(tx, roleId, permissionIds))
+  }
+  
+  /**
+   * Reemplaza los permisos de un rol dentro de una transacción (sin IDs repetidos)
+   */
+  private async replacePermissions(tx: Prisma.TransactionClient, roleId: number, permissionIds: number[]): Promise<void> {
+    await tx.rolePermission.deleteMany({
       where: { roleId },
     })
+    await tx.rolePermission.createMany({
+      data: [...new Set(permissionIds)].map((permissionId) => ({
+        roleId,
+        permissionId,
+      })),
+    })
+  }
+  
+  /**
+   * Agrega un permiso a un rol (no falla si ya estaba asignado)
+   */
+  async addPermission(roleId: number, permissionId: number): Promise<RolePermission> {
+    return db.rolePermission.upsert({
+      where: {
+        roleId_permissionId: { roleId, permissionId },
+      },
+      create: { roleId, permissionId },
+      update: {},
+    })
+  }
+  
+  /**
+   * Quita un permiso de un rol
+   * 
+   * @returns true si el permiso estaba asignado y se eliminó
+   */
+  async removePermission(roleId: number, permissionId: number): Promise<boolean> {
+    const result = await db.rolePermission.deleteMany({
+      where: { roleId, permissionId },
+    })
+    return result.count > 0
+  }
+  
+  /**
+   * Reemplaza los roles padre de un rol dentro de una transacción (sin IDs repetidos)
+   */
+  private async replaceParents(tx: Prisma.TransactionClient, roleId: number, parentIds: number[]): Promise<void> {
+    await tx.roleParent.deleteMany({
+      where: { roleId },
+    })
+    await tx.roleParent.createMany({
+      data: [...new Set(parentIds)].map((parentId) => ({
+        roleId,
+        parentId,
+      })),
+    })
+  }
+  
+  /**
+   * Obtiene todos los enlaces de herencia entre roles
+   * (la tabla es pequeña: se recorre en memoria para resolver la cadena)
+   * 
+   * @param client - Cliente de una transacción en curso (por defecto, el global)
+   */
+  async getParentLinks(client: Prisma.TransactionClient = db): Promise<RoleParentLink[]> {
+    const links = await client.roleParent.findMany({
+      select: { roleId: true, parentId: true, parent: { select: { isActive: true } } },
+    })
     
-    // Crear nuevos permisos
-    if (permissionIds.length > 0) {
-      await db.rolePermission.createMany({
-        data: permissionIds.map((permissionId) => ({
-          roleId,
-          permissionId,
-        })),
-      })
-    }
+    return links.map((link) => ({
+      roleId: link.roleId,
+      parentId: link.parentId,
+      parentIsActive: link.parent.isActive,
+    }))
+  }
+  
+  /**
+   * Cuenta los roles activos que heredan de un rol
+   */
+  async countChildren(roleId: number): Promise<number> {
+    return db.roleParent.count({
+      where: { parentId: roleId, role: { isActive: true } },
+    })
+  }
+  
+  /**
+   * Cuenta los usuarios que tienen asignado un rol
+   */
+  async countUsers(roleId: number): Promise<number> {
+    return db.user.count({
+      where: { roleId },
+    })
+  }
+  
+  /**
+   * Cuenta las membresías de organizaciones que usan un rol
+   */
+  async countMemberships(roleId: number): Promise<number> {
+    return db.membership.count({
+      where: { roleId },
+    })
   }
   
   /**
@@ -152,20 +294,19 @@ export class RoleRepository {
   }
   
   /**
-   * Verifica si un rol tiene un permiso específico
+   * Obtiene los nombres de los permisos activos de uno o varios roles (sin repetir)
+   * (la resolución de comodines e implicaciones se hace en utils/permission.util)
    */
-  async hasPermission(roleId: number, permissionName: string): Promise<boolean> {
-    const rolePermission = await db.rolePermission.findFirst({
+  async getActivePermissionNames(roleIds: number[]): Promise<string[]> {
+    const rolePermissions = await db.rolePermission.findMany({
       where: {
-        roleId,
-        permission: {
-          name: permissionName,
-          isActive: true,
-        },
+        roleId: { in: roleIds },
+        permission: { isActive: true },
       },
+      select: { permission: { select: { name: true } } },
     })
     
-    return rolePermission !== null
+    return [...new Set(rolePermissions.map((rp) => rp.permission.name))]
   }
 }
 
@@ -189,6 +330,24 @@ export class PermissionRepository {
     })
   }
   
+  /**
+   * Encuentra varios permisos por sus IDs
+   */
+  async findByIds(ids: number[]): Promise<Permission[]> {
+    return db.permission.findMany({
+      where: { id: { in: ids } },
+    })
+  }
+  
+  /**
+   * Encuentra varios permisos activos por sus nombres
+   */
+  async findByNames(names: string[]): Promise<Permission[]> {
+    return db.permission.findMany({
+      where: { name: { in: names }, isActive: true },
+    })
+  }
+  
   /**
    * Encuentra un permiso por nombre
    */
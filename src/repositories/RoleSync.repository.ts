@@ -0,0 +1,159 @@
+/**
+ * ROLE SYNC REPOSITORY - Capa de Acceso a Datos para la Sincronización de Roles
+ *
+ * Este repository lee el estado completo de roles, permisos y asignaciones
+ * (incluidos los desactivados) y aplica un plan de sincronización.
+ *
+ * RESPONSABILIDADES:
+ * - Obtener todos los permisos y roles con sus asignaciones
+ * - Aplicar un plan de cambios en una única transacción (todo o nada)
+ *
+ * USO:
+ *   import { RoleSyncRepository } from '../repositories/RoleSync.repository'
+ *   const roleSyncRepo = new RoleSyncRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { FieldChanges, PermissionSnapshot, RoleSnapshot, RoleSyncPlan } from '../models/RoleSync.model'
+
+/**
+ * Tiempo máximo de la transacción al aplicar un plan (milisegundos)
+ */
+const APPLY_TIMEOUT_MS = 30_000
+
+export class RoleSyncRepository {
+  /**
+   * Obtiene todos los permisos (incluidos los desactivados)
+   */
+  async getPermissions(): Promise<PermissionSnapshot[]> {
+    return db.permission.findMany({
+      select: { id: true, name: true, description: true, isActive: true },
+      orderBy: { name: 'asc' },
+    })
+  }
+
+  /**
+   * Obtiene todos los roles (incluidos los desactivados) con sus asignaciones
+   */
+  async getRoles(): Promise<RoleSnapshot[]> {
+    const roles = await db.role.findMany({
+      include: {
+        permissions: { select: { permission: { select: { id: true, name: true } } } },
+        _count: { select: { users: true, memberships: true, children: { where: { role: { isActive: true } } } } },
+      },
+      orderBy: { name: 'asc' },
+    })
+
+    return roles.map((role) => ({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      isActive: role.isActive,
+      requireTwoFactor: role.requireTwoFactor,
+      permissions: role.permissions.map((rp) => rp.permission),
+      users: role._count.users,
+      memberships: role._count.memberships,
+      children: role._count.children,
+    }))
+  }
+
+  /**
+   * Aplica un plan de sincronización en una transacción
+   *
+   * Los permisos y roles eliminados se desactivan (soft delete).
+   */
+  async applyPlan(plan: RoleSyncPlan): Promise<void> {
+    await db.$transaction(async (tx) => {
+      // Permisos: altas y cambios
+      if (plan.permissions.add.length > 0) {
+        await tx.permission.createMany({ data: plan.permissions.add })
+      }
+
+      for (const permission of plan.permissions.update) {
+        await tx.permission.update({
+          where: { id: permission.id },
+          data: changesToData(permission.changes),
+        })
+      }
+
+      // IDs de todos los permisos (incluidos los recién creados)
+      const permissionIds = new Map(
+        (await tx.permission.findMany({ select: { id: true, name: true } })).map((p) => [p.name, p.id])
+      )
+      const getPermissionId = (name: string): number => {
+        const id = permissionIds.get(name)
+        if (id === undefined) {
+          throw new Error(`Permiso no encontrado: ${name}`)
+        }
+        return id
+      }
+
+      // Roles: altas (con sus permisos) y cambios
+      for (const role of plan.roles.add) {
+        await tx.role.create({
+          data: {
+            name: role.name,
+            description: role.description,
+            requireTwoFactor: role.requireTwoFactor,
+            permissions: {
+              create: role.permissions.map((name) => ({ permissionId: getPermissionId(name) })),
+            },
+          },
+        })
+      }
+
+      for (const role of plan.roles.update) {
+        await tx.role.update({
+          where: { id: role.id },
+          data: changesToData(role.changes),
+        })
+      }
+
+      // Asignaciones de roles existentes
+      if (plan.assignments.add.length > 0) {
+        await tx.rolePermission.createMany({
+          data: plan.assignments.add.map((assignment) => ({
+            roleId: assignment.roleId,
+            permissionId: getPermissionId(assignment.permission),
+          })),
+          skipDuplicates: true,
+        })
+      }
+
+      for (const assignment of plan.assignments.remove) {
+        await tx.rolePermission.deleteMany({
+          where: { roleId: assignment.roleId, permissionId: assignment.permissionId },
+        })
+      }
+
+      // Bajas (soft delete)
+      if (plan.roles.remove.length > 0) {
+        await tx.role.updateMany({
+          where: { id: { in: plan.roles.remove.map((role) => role.id) } },
+          data: { isActive: false },
+        })
+      }
+
+      if (plan.permissions.remove.length > 0) {
+        await tx.permission.updateMany({
+          where: { id: { in: plan.permissions.remove.map((permission) => permission.id) } },
+          data: { isActive: false },
+        })
+      }
+    }, { timeout: APPLY_TIMEOUT_MS })
+  }
+}
+
+/**
+ * Convierte los cambios de un plan en los datos de un update ({ campo: valor deseado })
+ */
+function changesToData<T>(changes: FieldChanges<T>): Partial<T> {
+  const data: Partial<T> = {}
+  for (const key of Object.keys(changes) as Array<keyof T>) {
+    const change = changes[key]
+    if (change) {
+      data[key] = change.to
+    }
+  }
+  return data
+}
@@ -0,0 +1,222 @@
+/**
+ * SESSION REPOSITORY - Capa de Acceso a Datos para Sesiones
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con las sesiones de usuario (una por refresh token).
+ *
+ * RESPONSABILIDADES:
+ * - Crear sesiones al iniciar sesión (y sesiones de suplantación)
+ * - Buscar refresh tokens por su hash
+ * - Rotar el refresh token de una sesión (registrando el token padre)
+ * - Revocar sesiones (individualmente o en bloque)
+ * - Cambiar la organización activa de una sesión
+ *
+ * USO:
+ *   import { SessionRepository } from '../repositories/Session.repository'
+ *   const sessionRepo = new SessionRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { Session } from '@prisma/client'
+import type {
+  CreateImpersonationSessionData,
+  CreateSessionData,
+  RefreshTokenWithSession,
+  RotateTokenData,
+} from '../models/Session.model'
+
+/**
+ * Campos públicos de una sesión (sin el hash del token)
+ */
+const SESSION_PUBLIC_SELECT = {
+  id: true,
+  userAgent: true,
+  ipAddress: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  impersonatorId: true,
+  organizationId: true,
+} as const
+
+export class SessionRepository {
+  /**
+   * Crea una nueva sesión junto con su primer refresh token
+   */
+  async create(data: CreateSessionData): Promise<Session> {
+    return db.session.create({
+      data: {
+        id: data.id,
+        userId: data.userId,
+        userAgent: data.userAgent ?? null,
+        ipAddress: data.ipAddress ?? null,
+        expiresAt: data.expiresAt,
+        refreshTokens: {
+          create: {
+            tokenHash: data.refreshTokenHash,
+            expiresAt: data.expiresAt,
+          },
+        },
+      },
+    })
+  }
+
+  /**
+   * Crea una sesión de suplantación (un administrador actuando como el usuario)
+   *
+   * No tiene refresh tokens: termina al expirar su access token o al revocarla.
+   */
+  async createImpersonation(data: CreateImpersonationSessionData): Promise<Session> {
+    return db.session.create({
+      data: {
+        id: data.id,
+        userId: data.userId,
+        impersonatorId: data.impersonatorId,
+        userAgent: data.userAgent ?? null,
+        ipAddress: data.ipAddress ?? null,
+        expiresAt: data.expiresAt,
+      },
+    })
+  }
+
+  /**
+   * Encuentra un refresh token por su hash (esté vigente, rotado o revocado)
+   */
+  async findRefreshTokenByHash(tokenHash: string): Promise<RefreshTokenWithSession | null> {
+    return db.refreshToken.findUnique({
+      where: { tokenHash },
+      include: { session: true },
+    })
+  }
+
+  /**
+   * Lista las sesiones activas de un usuario (más recientes primero)
+   */
+  async findActiveByUser(userId: number) {
+    return db.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: SESSION_PUBLIC_SELECT,
+      orderBy: { lastUsedAt: 'desc' },
+    })
+  }
+
+  /**
+   * Rota un refresh token: lo marca como usado y emite su sucesor en la misma sesión
+   *
+   * El marcado es atómico: si el token ya había sido rotado (por ejemplo, dos
+   * peticiones simultáneas con el mismo token) no se emite nada.
+   *
+   * @returns true si se rotó, false si el token ya había sido rotado
+   */
+  async rotateToken(parent: RefreshTokenWithSession, data: RotateTokenData): Promise<boolean> {
+    return db.$transaction(async (tx) => {
+      const now = new Date()
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: parent.id, rotatedAt: null },
+        data: { rotatedAt: now },
+      })
+
+      if (claimed.count === 0) {
+        return false
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          sessionId: parent.sessionId,
+          tokenHash: data.tokenHash,
+          parentId: parent.id,
+          expiresAt: data.expiresAt,
+        },
+      })
+
+      await tx.session.update({
+        where: { id: parent.sessionId },
+        data: {
+          expiresAt: data.expiresAt,
+          lastUsedAt: now,
+          ...(data.userAgent !== undefined && { userAgent: data.userAgent }),
+          ...(data.ipAddress !== undefined && { ipAddress: data.ipAddress }),
+        },
+      })
+
+      return true
+    })
+  }
+
+  /**
+   * Revoca una familia completa de refresh tokens (la sesión a la que pertenecen)
+   *
+   * @returns true si la sesión estaba activa y se revocó
+   */
+  async revokeFamily(sessionId: string): Promise<boolean> {
+    const result = await db.session.updateMany({
+      where: { id: sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Revoca una sesión
+   *
+   * @returns true si la sesión estaba activa y se revocó
+   */
+  async revoke(id: string, userId: number): Promise<boolean> {
+    const result = await db.session.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Cambia la organización activa de una sesión (null = ninguna)
+   *
+   * @returns true si la sesión estaba activa y se actualizó
+   */
+  async setOrganization(id: string, userId: number, organizationId: number | null): Promise<boolean> {
+    const result = await db.session.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { organizationId },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Revoca todas las sesiones activas de un usuario, opcionalmente excepto una
+   *
+   * @returns Número de sesiones revocadas
+   */
+  async revokeAllForUser(userId: number, exceptSessionId?: string): Promise<number> {
+    const result = await db.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date() },
+    })
+    return result.count
+  }
+
+  /**
+   * Elimina las sesiones expiradas o revocadas antes de una fecha
+   *
+   * @returns Número de sesiones eliminadas
+   */
+  async deleteStale(before: Date): Promise<number> {
+    const result = await db.session.deleteMany({
+      where: {
+        OR: [
+          { expiresAt: { lt: before } },
+          { revokedAt: { lt: before } },
+        ],
+      },
+    })
+    return result.count
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * TWO FACTOR REPOSITORY - Capa de Acceso a Datos para Verificación en Dos Pasos
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con la verificación en dos pasos (TOTP).
+ *
+ * RESPONSABILIDADES:
+ * - Guardar el secreto TOTP pendiente de confirmación
+ * - Activar y desactivar la verificación en dos pasos
+ * - Marcar el último intervalo TOTP usado (sin reutilizar códigos)
+ * - Guardar y consumir los códigos de recuperación (hasheados)
+ *
+ * USO:
+ *   import { TwoFactorRepository } from '../repositories/TwoFactor.repository'
+ *   const twoFactorRepo = new TwoFactorRepository()
+ */
+
+import { db } from '../config/prisma'
+
+export class TwoFactorRepository {
+  /**
+   * Encuentra un usuario con sus datos de verificación en dos pasos
+   * (incluye la contraseña y el estado de intentos fallidos)
+   */
+  async findUserById(userId: number) {
+    return db.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        password: true,
+        isActive: true,
+        emailVerifiedAt: true,
+        failedLoginAttempts: true,
+        lastFailedLoginAt: true,
+        lockedUntil: true,
+        twoFactorSecret: true,
+        twoFactorEnabledAt: true,
+        twoFactorLastUsedStep: true,
+        role: {
+          select: {
+            id: true,
+            name: true,
+            requireTwoFactor: true,
+          },
+        },
+      },
+    })
+  }
+
+  /**
+   * Guarda un nuevo secreto pendiente de confirmación
+   */
+  async savePendingSecret(userId: number, secret: string): Promise<void> {
+    await db.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: secret,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    })
+  }
+
+  /**
+   * Activa la verificación en dos pasos y reemplaza los códigos de recuperación
+   *
+   * @param step - Intervalo TOTP usado para confirmar (no se podrá reutilizar)
+   * @param codeHashes - Hashes de los nuevos códigos de recuperación
+   */
+  async enable(userId: number, step: number, codeHashes: string[]): Promise<void> {
+    await db.$transaction([
+      db.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorEnabledAt: new Date(),
+          twoFactorLastUsedStep: step,
+        },
+      }),
+      db.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      db.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ])
+  }
+
+  /**
+   * Desactiva la verificación en dos pasos y elimina los códigos de recuperación
+   */
+  async disable(userId: number): Promise<void> {
+    await db.$transaction([
+      db.user.update({
+        where: { id: userId },
+        data: {
+          twoFactorSecret: null,
+          twoFactorEnabledAt: null,
+          twoFactorLastUsedStep: null,
+        },
+      }),
+      db.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ])
+  }
+
+  /**
+   * Marca un intervalo TOTP como usado
+   *
+   * La actualización es atómica: solo tiene éxito si el intervalo es posterior
+   * al último usado, así el mismo código no sirve dos veces.
+   *
+   * @returns true si el intervalo se pudo reclamar
+   */
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await db.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Reemplaza los códigos de recuperación de un usuario
+   */
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.$transaction([
+      db.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+      db.twoFactorRecoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ])
+  }
+
+  /**
+   * Consume un código de recuperación (atómico, un solo uso)
+   *
+   * @returns true si el código existía y no se había usado
+   */
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db.twoFactorRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Cuenta los códigos de recuperación que quedan sin usar
+   */
+  async countRemainingRecoveryCodes(userId: number): Promise<number> {
+    return db.twoFactorRecoveryCode.count({
+      where: { userId, usedAt: null },
+    })
+  }
+}
@@ -23,6 +23,7 @@
 import { db } from '../config/prisma'
 import type { User, Prisma } from '@prisma/client'
 import type { CreateUserInput, UpdateUserInput, UserFilters, UserOrderBy } from '../models/User.model'
+import { tenantUserWhere } from '../utils/tenant.util'
 
 export class UserRepository {
   /**
@@ -35,7 +36,7 @@ export class UserRepository {
     skip?: number,
     take?: number
   ): Promise<User[]> {
-    const where: Prisma.UserWhereInput = {}
+    const where: Prisma.UserWhereInput = tenantUserWhere(filters?.organizationId)
     
     // Aplicar filtros
     if (filters?.email) {
@@ -61,10 +62,11 @@ export class UserRepository {
         email: true,
         name: true,
         isActive: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
         role: true,
-        // Excluir: password, refreshToken, passwordResetToken, passwordResetExpires, roleId
+        // Excluir: password, passwordResetTokenHash, passwordResetExpires, emailVerificationTokenHash, roleId
       },
     }
     
@@ -79,7 +81,7 @@ export class UserRepository {
    * Cuenta el total de usuarios que coinciden con los filtros
    */
   async count(filters?: UserFilters): Promise<number> {
-    const where: Prisma.UserWhereInput = {}
+    const where: Prisma.UserWhereInput = tenantUserWhere(filters?.organizationId)
     
     if (filters?.email) {
       where.email = { contains: filters.email }
@@ -94,19 +96,22 @@ export class UserRepository {
   /**
    * Encuentra un usuario por su ID
    * Excluye campos sensibles como password y tokens
+   * 
+   * @param organizationId - Organización activa: solo si el usuario es miembro
    */
-  async findById(id: number): Promise<User | null> {
-    return db.user.findUnique({
-      where: { id },
+  async findById(id: number, organizationId?: number): Promise<User | null> {
+    return db.user.findFirst({
+      where: { id, ...tenantUserWhere(organizationId) },
       select: {
         id: true,
         email: true,
         name: true,
         isActive: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
         role: true,
-        // Excluir: password, refreshToken, passwordResetToken, passwordResetExpires, roleId
+        // Excluir: password, passwordResetTokenHash, passwordResetExpires, emailVerificationTokenHash, roleId
       },
     }) as Promise<User | null>
   }
@@ -123,10 +128,11 @@ export class UserRepository {
         email: true,
         name: true,
         isActive: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
         role: true,
-        // Excluir: password, refreshToken, passwordResetToken, passwordResetExpires, roleId
+        // Excluir: password, passwordResetTokenHash, passwordResetExpires, emailVerificationTokenHash, roleId
       },
     }) as Promise<User | null>
   }
@@ -169,6 +175,7 @@ export class UserRepository {
         email: true,
         name: true,
         isActive: true,
+        emailVerifiedAt: true,
         createdAt: true,
         updatedAt: true,
         role: true,
@@ -178,17 +185,35 @@ export class UserRepository {
   
   /**
    * Actualiza un usuario existente
+   * 
+   * Un email nuevo queda sin verificar en la misma escritura (y se descarta
+   * el token pendiente del anterior): pasa email solo si cambia.
    */
   async update(id: number, data: UpdateUserInput): Promise<User> {
     return db.user.update({
       where: { id },
       data: {
-        ...(data.email && { email: data.email }),
+        ...(data.email && {
+          email: data.email,
+          emailVerifiedAt: null,
+          emailVerificationTokenHash: null,
+          emailVerificationExpires: null,
+        }),
         ...(data.name !== undefined && { name: data.name }),
       },
     })
   }
   
+  /**
+   * Activa o desactiva un usuario
+   */
+  async setActive(id: number, isActive: boolean): Promise<void> {
+    await db.user.update({
+      where: { id },
+      data: { isActive },
+    })
+  }
+  
   /**
    * Elimina un usuario
    */
@@ -0,0 +1,102 @@
+/**
+ * USER PERMISSION REPOSITORY - Capa de Acceso a Datos para Permisos Directos
+ *
+ * Este repository maneja todas las operaciones de base de datos
+ * relacionadas con los permisos concedidos o denegados directamente a un usuario.
+ *
+ * RESPONSABILIDADES:
+ * - Listar los permisos directos de un usuario (todos o solo los vigentes)
+ * - Conceder/denegar (upsert) y quitar permisos directos
+ * - Purgar los permisos directos expirados
+ *
+ * USO:
+ *   import { UserPermissionRepository } from '../repositories/UserPermission.repository'
+ *   const userPermissionRepo = new UserPermissionRepository()
+ */
+
+import { db } from '../config/prisma'
+import type { UpsertUserPermissionData, UserPermissionWithPermission } from '../models/UserPermission.model'
+
+/**
+ * Permiso incluido (solo ID, nombre y estado)
+ */
+const PERMISSION_INCLUDE = {
+  permission: { select: { id: true, name: true, isActive: true } },
+} as const
+
+export class UserPermissionRepository {
+  /**
+   * Lista los permisos directos de un usuario (incluye los expirados aún sin purgar)
+   */
+  async findByUser(userId: number): Promise<UserPermissionWithPermission[]> {
+    return db.userPermission.findMany({
+      where: { userId },
+      include: PERMISSION_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    })
+  }
+
+  /**
+   * Lista los permisos directos vigentes de un usuario (sin expirar y con el permiso activo)
+   */
+  async findActiveByUser(userId: number, now: Date = new Date()): Promise<UserPermissionWithPermission[]> {
+    return db.userPermission.findMany({
+      where: {
+        userId,
+        permission: { isActive: true },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+      include: PERMISSION_INCLUDE,
+    })
+  }
+
+  /**
+   * Concede o deniega un permiso a un usuario (reemplaza el anterior si existía)
+   */
+  async upsert(
+    userId: number,
+    permissionId: number,
+    data: UpsertUserPermissionData
+  ): Promise<UserPermissionWithPermission> {
+    return db.userPermission.upsert({
+      where: { userId_permissionId: { userId, permissionId } },
+      create: { userId, permissionId, ...data },
+      update: data,
+      include: PERMISSION_INCLUDE,
+    })
+  }
+
+  /**
+   * Quita un permiso directo de un usuario
+   *
+   * @returns true si el usuario tenía el permiso directo
+   */
+  async delete(userId: number, permissionId: number): Promise<boolean> {
+    const result = await db.userPermission.deleteMany({
+      where: { userId, permissionId },
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Elimina los permisos directos expirados
+   *
+   * @returns IDs de los usuarios afectados
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number[]> {
+    const expired = await db.userPermission.findMany({
+      where: { expiresAt: { lte: now } },
+      select: { id: true, userId: true },
+    })
+
+    if (expired.length === 0) {
+      return []
+    }
+
+    await db.userPermission.deleteMany({
+      where: { id: { in: expired.map((entry) => entry.id) } },
+    })
+
+    return [...new Set(expired.map((entry) => entry.userId))]
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * ADMIN ROUTES - Rutas de Administración
+ * 
+ * Este archivo define las rutas de soporte y administración:
+ * - POST   /api/v1/admin/impersonate/:userId - Suplantar a un usuario (requiere users.impersonate)
+ * - DELETE /api/v1/admin/impersonate - Terminar la suplantación en curso
+ * 
+ * La suplantación devuelve un access token del usuario suplantado de corta
+ * duración (sin refresh token). Con ese token, req.user es el usuario suplantado
+ * y req.user.impersonatorId el administrador.
+ * 
+ * USO:
+ *   import adminRouter from './routes/admin'
+ *   app.use('/api/v1/admin', adminRouter)
+ */
+
+import { Router } from 'express'
+import { ImpersonationController } from '../controllers/Impersonation.controller'
+import { authenticate, rejectApiKeys, rejectImpersonation } from '../middleware/auth.middleware'
+import { requirePolicy } from '../middleware/permissions.middleware'
+import { POLICY_ACTIONS } from '../models/Policy.model'
+
+const router = Router()
+const impersonationController = new ImpersonationController()
+
+// ============================================
+// SUPLANTACIÓN DE USUARIOS
+// ============================================
+
+/**
+ * DELETE /api/v1/admin/impersonate
+ * Termina la suplantación en curso (revoca la sesión de suplantación)
+ * Headers: Authorization: Bearer <accessToken de suplantación>
+ */
+router.delete('/impersonate', authenticate, impersonationController.stop.bind(impersonationController))
+
+/**
+ * POST /api/v1/admin/impersonate/:userId
+ * Inicia la suplantación de un usuario
+ * Headers: Authorization: Bearer <accessToken>
+ * Requiere: política users.impersonate (permiso users.impersonate y, con POLICY_BUSINESS_HOURS,
+ * horario laboral; no disponible con API key ni durante otra suplantación)
+ * Returns: { accessToken, expiresAt, sessionId, user, impersonatorId }
+ */
+router.post(
+  '/impersonate/:userId',
+  authenticate,
+  rejectApiKeys,
+  rejectImpersonation,
+  requirePolicy(POLICY_ACTIONS.USERS_IMPERSONATE),
+  impersonationController.start.bind(impersonationController)
+)
+
+export default router
@@ -0,0 +1,68 @@
+/**
+ * API KEYS ROUTES - Rutas de API Keys Personales
+ * 
+ * Este archivo define las rutas para que un usuario gestione sus API keys:
+ * - GET    /api/v1/auth/api-keys - Listar mis API keys
+ * - GET    /api/v1/auth/api-keys/:id - Obtener una API key
+ * - POST   /api/v1/auth/api-keys - Crear API key (la key solo se muestra aquí)
+ * - PUT    /api/v1/auth/api-keys/:id - Actualizar nombre, expiración o permisos
+ * - DELETE /api/v1/auth/api-keys/:id - Eliminar (revocar) una API key
+ * 
+ * Las API keys no pueden gestionar API keys: estas rutas requieren
+ * un access token de usuario. Durante una suplantación solo se pueden consultar.
+ * 
+ * USO:
+ *   import apiKeyRouter from './routes/api-keys'
+ *   app.use('/api/v1/auth/api-keys', apiKeyRouter)
+ */
+
+import { Router } from 'express'
+import { ApiKeyController } from '../controllers/ApiKey.controller'
+import { authenticate, rejectApiKeys, rejectImpersonation } from '../middleware/auth.middleware'
+
+const router = Router()
+const apiKeyController = new ApiKeyController()
+
+// ============================================
+// RUTAS PROTEGIDAS (requieren autenticación con access token)
+// ============================================
+
+/**
+ * GET /api/v1/auth/api-keys
+ * Lista las API keys del usuario (sin los secretos)
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/', authenticate, rejectApiKeys, apiKeyController.getAll.bind(apiKeyController))
+
+/**
+ * GET /api/v1/auth/api-keys/:id
+ * Obtiene una API key del usuario
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/:id', authenticate, rejectApiKeys, apiKeyController.getById.bind(apiKeyController))
+
+/**
+ * POST /api/v1/auth/api-keys
+ * Crea una API key con un subconjunto de los permisos del usuario
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name, permissions: string[], expiresAt? }
+ * Returns: { ..., key } (la key completa solo se muestra en esta respuesta)
+ */
+router.post('/', authenticate, rejectApiKeys, rejectImpersonation, apiKeyController.create.bind(apiKeyController))
+
+/**
+ * PUT /api/v1/auth/api-keys/:id
+ * Actualiza una API key
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name?, permissions?, expiresAt? (null = sin expiración) }
+ */
+router.put('/:id', authenticate, rejectApiKeys, rejectImpersonation, apiKeyController.update.bind(apiKeyController))
+
+/**
+ * DELETE /api/v1/auth/api-keys/:id
+ * Elimina (revoca) una API key
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.delete('/:id', authenticate, rejectApiKeys, rejectImpersonation, apiKeyController.delete.bind(apiKeyController))
+
+export default router
@@ -4,12 +4,29 @@
  * Este archivo define todas las rutas relacionadas con autenticación:
  * - POST /api/v1/auth/register - Registro de usuarios
  * - POST /api/v1/auth/login - Inicio de sesión
+ * - POST /api/v1/auth/login/mfa - Segundo paso del login (verificación en dos pasos)
+ * - POST /api/v1/auth/login/mfa/setup - Configurar 2FA durante el login (rol que la exige)
  * - POST /api/v1/auth/refresh - Refrescar access token
  * - POST /api/v1/auth/forgot-password - Solicitar recuperación de contraseña
  * - POST /api/v1/auth/reset-password - Resetear contraseña con token
+ * - GET /api/v1/auth/password-policy - Requisitos de la política de contraseñas
+ * - POST /api/v1/auth/verify-email - Verificar email con token
+ * - POST /api/v1/auth/resend-verification - Reenviar email de verificación
+ * - POST /api/v1/auth/magic-link - Solicitar enlace de inicio de sesión sin contraseña
+ * - POST /api/v1/auth/magic-link/verify - Iniciar sesión con el enlace
  * - POST /api/v1/auth/change-password - Cambiar contraseña (requiere auth)
  * - POST /api/v1/auth/logout - Cerrar sesión (requiere auth)
  * - GET /api/v1/auth/me - Obtener usuario actual (requiere auth)
+ * - GET /api/v1/auth/sessions - Listar sesiones activas (requiere auth)
+ * - DELETE /api/v1/auth/sessions - Cerrar las demás sesiones (requiere auth)
+ * - DELETE /api/v1/auth/sessions/:id - Cerrar una sesión (requiere auth)
+ * - /api/v1/auth/api-keys - API keys personales (ver routes/api-keys.ts)
+ * - /api/v1/auth/oauth - Login social y cuentas vinculadas (ver routes/oauth.ts)
+ * - GET /api/v1/auth/2fa - Estado de la verificación en dos pasos (requiere auth)
+ * - POST /api/v1/auth/2fa/setup - Iniciar configuración de 2FA (requiere auth)
+ * - POST /api/v1/auth/2fa/confirm - Activar 2FA con el primer código (requiere auth)
+ * - POST /api/v1/auth/2fa/disable - Desactivar 2FA (requiere auth)
+ * - POST /api/v1/auth/2fa/recovery-codes - Regenerar códigos de recuperación (requiere auth)
  * 
  * USO:
  *   import authRouter from './routes/auth'
@@ -18,7 +35,8 @@
 
 import { Router } from 'express'
 import { AuthController } from '../controllers/Auth.controller'
-import { authenticate } from '../middleware/auth.middleware'
+import { authenticate, rejectApiKeys, rejectImpersonation } from '../middleware/auth.middleware'
+import { loadPermissions } from '../middleware/permissions.middleware'
 
 const router = Router()
 const authController = new AuthController()
@@ -29,8 +47,9 @@ const authController = new AuthController()
 
 /**
  * POST /api/v1/auth/register
- * Registra un nuevo usuario
+ * Registra un nuevo usuario y envía el email de verificación
  * Body: { email, password, name? }
+ * Returns: { user, accessToken?, refreshToken? } (sin tokens si EMAIL_VERIFICATION_POLICY=login)
  */
 router.post('/register', authController.register.bind(authController))
 
@@ -39,9 +58,26 @@ router.post('/register', authController.register.bind(authController))
  * Inicia sesión de un usuario
  * Body: { email, password }
  * Returns: { user, accessToken, refreshToken }
+ *          o { mfaRequired, mfaToken, mfaSetupRequired } si se requiere verificación en dos pasos
  */
 router.post('/login', authController.login.bind(authController))
 
+/**
+ * POST /api/v1/auth/login/mfa
+ * Completa el login con un código TOTP o un código de recuperación
+ * Body: { mfaToken, code }
+ * Returns: { user, accessToken, refreshToken, recoveryCodes? }
+ */
+router.post('/login/mfa', authController.loginMfa.bind(authController))
+
+/**
+ * POST /api/v1/auth/login/mfa/setup
+ * Inicia la configuración de 2FA durante el login (mfaSetupRequired = true)
+ * Body: { mfaToken }
+ * Returns: { secret, otpauthUri }
+ */
+router.post('/login/mfa/setup', authController.loginMfaSetup.bind(authController))
+
 /**
  * POST /api/v1/auth/refresh
  * Refresca el access token usando un refresh token
@@ -66,17 +102,62 @@ router.post('/forgot-password', authController.forgotPassword.bind(authControlle
  */
 router.post('/reset-password', authController.resetPassword.bind(authController))
 
+/**
+ * GET /api/v1/auth/password-policy
+ * Devuelve los requisitos de la política de contraseñas
+ * Returns: { minLength, maxLength, requireUppercase, ..., historySize, maxAgeDays }
+ */
+router.get('/password-policy', authController.getPasswordPolicy.bind(authController))
+
+/**
+ * POST /api/v1/auth/verify-email
+ * Verifica el email usando el token enviado por correo
+ * Body: { token }
+ * Returns: { message }
+ */
+router.post('/verify-email', authController.verifyEmail.bind(authController))
+
+/**
+ * POST /api/v1/auth/resend-verification
+ * Reenvía el email de verificación (limitado por IP y por cuenta)
+ * Body: { email }
+ * Returns: { message }
+ */
+router.post('/resend-verification', authController.resendVerification.bind(authController))
+
+/**
+ * POST /api/v1/auth/magic-link
+ * Envía un enlace de inicio de sesión de un solo uso (limitado por email y por IP)
+ * Body: { email }
+ * Returns: { message }
+ */
+router.post('/magic-link', authController.requestMagicLink.bind(authController))
+
+/**
+ * POST /api/v1/auth/magic-link/verify
+ * Inicia sesión con el token del enlace
+ * Body: { token }
+ * Returns: { user, accessToken, refreshToken }
+ *          o { mfaRequired, mfaToken, mfaSetupRequired } si se requiere verificación en dos pasos
+ */
+router.post('/magic-link/verify', authController.verifyMagicLink.bind(authController))
+
 // ============================================
 // RUTAS PROTEGIDAS (requieren autenticación)
 // ============================================
+//
+// Las rutas que gestionan la cuenta (contraseña, sesiones, 2FA) no aceptan
+// API keys (rejectApiKeys): solo GET /me está disponible con API key.
+// Un administrador que suplanta al usuario no puede cambiar la contraseña
+// ni la 2FA (rejectImpersonation).
 
 /**
  * GET /api/v1/auth/me
- * Obtiene la información del usuario autenticado
+ * Obtiene la información del usuario autenticado con sus permisos efectivos
  * Headers: Authorization: Bearer <accessToken>
- * Returns: { user }
+ * Returns: { id, email, role, roleId, ..., permissions }
  */
-router.get('/me', authenticate, authController.getMe.bind(authController))
+router.get('/me', authenticate, loadPermissions, authController.getMe.bind(authController))
 
 /**
  * POST /api/v1/auth/change-password
@@ -85,15 +166,82 @@ router.get('/me', authenticate, authController.getMe.bind(authController))
  * Body: { currentPassword, newPassword }
  * Returns: { message }
  */
-router.post('/change-password', authenticate, authController.changePassword.bind(authController))
+router.post('/change-password', authenticate, rejectApiKeys, rejectImpersonation, authController.changePassword.bind(authController))
 
 /**
  * POST /api/v1/auth/logout
- * Cierra sesión e invalida el refresh token
+ * Cierra la sesión actual e invalida su refresh token
  * Headers: Authorization: Bearer <accessToken>
  * Returns: { message }
  */
-router.post('/logout', authenticate, authController.logout.bind(authController))
+router.post('/logout', authenticate, rejectApiKeys, authController.logout.bind(authController))
+
+/**
+ * GET /api/v1/auth/sessions
+ * Lista las sesiones activas (dispositivos conectados) del usuario
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: [{ id, userAgent, ipAddress, createdAt, lastUsedAt, expiresAt, current }]
+ */
+router.get('/sessions', authenticate, rejectApiKeys, authController.getSessions.bind(authController))
+
+/**
+ * DELETE /api/v1/auth/sessions
+ * Cierra todas las sesiones excepto la actual ("cerrar sesión en los demás dispositivos")
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: { revoked }
+ */
+router.delete('/sessions', authenticate, rejectApiKeys, authController.revokeOtherSessions.bind(authController))
+
+/**
+ * DELETE /api/v1/auth/sessions/:id
+ * Cierra una sesión concreta del usuario
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: { message }
+ */
+router.delete('/sessions/:id', authenticate, rejectApiKeys, authController.revokeSession.bind(authController))
+
+/**
+ * GET /api/v1/auth/2fa
+ * Obtiene el estado de la verificación en dos pasos
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: { enabled, required, pendingSetup, recoveryCodesRemaining }
+ */
+router.get('/2fa', authenticate, rejectApiKeys, authController.getTwoFactorStatus.bind(authController))
+
+/**
+ * POST /api/v1/auth/2fa/setup
+ * Genera un secreto TOTP pendiente de confirmación
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: { secret, otpauthUri }
+ */
+router.post('/2fa/setup', authenticate, rejectApiKeys, rejectImpersonation, authController.setupTwoFactor.bind(authController))
+
+/**
+ * POST /api/v1/auth/2fa/confirm
+ * Activa la verificación en dos pasos con el primer código de la app
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { code }
+ * Returns: { recoveryCodes }
+ */
+router.post('/2fa/confirm', authenticate, rejectApiKeys, rejectImpersonation, authController.confirmTwoFactor.bind(authController))
+
+/**
+ * POST /api/v1/auth/2fa/disable
+ * Desactiva la verificación en dos pasos (no permitido si el rol la exige)
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { password, code }
+ * Returns: { message }
+ */
+router.post('/2fa/disable', authenticate, rejectApiKeys, rejectImpersonation, authController.disableTwoFactor.bind(authController))
+
+/**
+ * POST /api/v1/auth/2fa/recovery-codes
+ * Genera nuevos códigos de recuperación (invalida los anteriores)
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { code }
+ * Returns: { recoveryCodes }
+ */
+router.post('/2fa/recovery-codes', authenticate, rejectApiKeys, rejectImpersonation, authController.regenerateRecoveryCodes.bind(authController))
 
 export default router
 
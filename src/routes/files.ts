@@ -1,17 +1,45 @@
 /**
  * FILES ROUTES - Rutas para Manejo de Archivos
  * 
- * Rutas para subir, eliminar y gestionar archivos.
+ * Rutas para subir, listar, eliminar y gestionar archivos.
+ * 
+ * Los archivos se guardan en la carpeta de su propietario ("users/<userId>/")
+ * y se registran en la base de datos: cada usuario sube, lista y elimina los
+ * suyos; para los de otros usuarios hacen falta files.create.any /
+ * files.delete.any (o files.manage).
  */
 
 import { Router } from 'express'
+import type { Request, Response, NextFunction } from 'express'
 import { FileController } from '../controllers/File.controller'
 import { uploadSingle, uploadMultiple } from '../middleware/upload.middleware'
-import { authenticate } from '../middleware/auth.middleware'
+import { authenticate, requireVerifiedEmail } from '../middleware/auth.middleware'
+import { resolveTenant } from '../middleware/tenant.middleware'
+import { requireOwnershipOr, requirePolicy } from '../middleware/permissions.middleware'
+import { PERMISSIONS } from '../models/Role.model'
+import { POLICY_ACTIONS } from '../models/Policy.model'
 
 const router = Router()
 const fileController = new FileController()
 
+// Propietario del archivo a subir (?ownerId= o el usuario autenticado), atributos
+// de un archivo registrado (/:id) y atributos del archivo a eliminar por ruta
+const loadUploadOwner = fileController.getUploadOwnerId.bind(fileController)
+const loadFileRecord = fileController.getFileRecordResource.bind(fileController)
+const loadFileResource = fileController.getFileResource.bind(fileController)
+
+/**
+ * Continúa solo si :id es numérico; si no, pasa a la siguiente ruta que coincida
+ * (DELETE /:id no debe capturar las rutas de un solo segmento de DELETE /*path)
+ */
+function requireNumericId(req: Request, _res: Response, next: NextFunction): void {
+  if (/^\d+$/.test(String(req.params.id))) {
+    next()
+    return
+  }
+  next('route')
+}
+
 // ============================================
 // RUTAS PÚBLICAS
 // ============================================
@@ -19,14 +47,29 @@ const fileController = new FileController()
 // Obtener información de tipos de archivo permitidos
 router.get('/info', fileController.getInfo.bind(fileController))
 
+// Descargar un archivo con una URL firmada del storage local (la genera GET /:id/signed-url)
+// Sin autenticación: la firma HMAC y la expiración de la query autorizan la lectura
+// Ruta comodín: la ruta completa (con "/") llega en req.params.path
+router.get('/signed/*path', fileController.downloadSigned.bind(fileController))
+
 // ============================================
 // RUTAS PROTEGIDAS
 // ============================================
+// 
+// La subida de archivos requiere email verificado cuando
+// EMAIL_VERIFICATION_POLICY es "routes" o "login".
+// Subir con ?ownerId=<id> de otro usuario requiere files.create.any
+// Con organización activa (X-Organization-Id o la de la sesión), los archivos se
+// registran en ella y solo se ven, descargan y eliminan los de esa organización
+// Con API key, la key necesita files.read / files.create / files.delete para los archivos propios
 
 // Subir un archivo
 router.post(
   '/upload',
   authenticate,
+  resolveTenant,
+  requireVerifiedEmail,
+  requireOwnershipOr(PERMISSIONS.FILES_CREATE_ANY, loadUploadOwner, undefined, PERMISSIONS.FILES_CREATE),
   uploadSingle('file'),
   fileController.upload.bind(fileController)
 )
@@ -35,15 +78,79 @@ router.post(
 router.post(
   '/upload-multiple',
   authenticate,
+  resolveTenant,
+  requireVerifiedEmail,
+  requireOwnershipOr(PERMISSIONS.FILES_CREATE_ANY, loadUploadOwner, undefined, PERMISSIONS.FILES_CREATE),
   uploadMultiple('files', 10),
   fileController.uploadMultiple.bind(fileController)
 )
 
-// Eliminar un archivo
+// Listar los archivos registrados (paginado: ?page=&limit=, filtro ?mimetype=image/)
+// Con ?ownerId=<id> de otro usuario requiere files.manage
+router.get(
+  '/',
+  authenticate,
+  resolveTenant,
+  requireOwnershipOr(PERMISSIONS.FILES_MANAGE, loadUploadOwner, undefined, PERMISSIONS.FILES_READ),
+  fileController.getAll.bind(fileController)
+)
+
+// Obtener un archivo registrado
+// Política files.read: el propietario, cualquiera si es público, o con files.manage
+router.get(
+  '/:id',
+  authenticate,
+  resolveTenant,
+  requirePolicy(POLICY_ACTIONS.FILES_READ, loadFileRecord),
+  fileController.getById.bind(fileController)
+)
+
+// Descargar un archivo registrado en streaming (misma política files.read)
+// Admite Range (206), ETag/Last-Modified (304) y ?inline=true para verlo en el navegador
+// (solo imágenes, PDF y texto plano; el resto se descarga)
+router.get(
+  '/:id/download',
+  authenticate,
+  resolveTenant,
+  requirePolicy(POLICY_ACTIONS.FILES_READ, loadFileRecord),
+  fileController.download.bind(fileController)
+)
+
+// Generar una URL firmada y temporal del archivo (misma política files.read)
+// ?expiresIn=<segundos>&disposition=inline|attachment
+router.get(
+  '/:id/signed-url',
+  authenticate,
+  resolveTenant,
+  requirePolicy(POLICY_ACTIONS.FILES_READ, loadFileRecord),
+  fileController.getSignedUrl.bind(fileController)
+)
+
+// Eliminar un archivo registrado: el objeto del storage y su registro
+// Política files.delete: el propietario dentro de POLICY_FILE_DELETE_WINDOW_HOURS
+// siguientes a la subida, o con files.delete.any
+router.delete(
+  '/:id',
+  requireNumericId,
+  authenticate,
+  resolveTenant,
+  requirePolicy(POLICY_ACTIONS.FILES_DELETE, loadFileRecord),
+  fileController.deleteById.bind(fileController)
+)
+
+// Eliminar un archivo por su ruta (y su registro, si lo tiene)
 // IMPORTANTE: Esta ruta debe ir al final para no interferir con otras rutas
-// Ejemplo: DELETE /api/v1/files/2024/01/15/archivo.jpg
-// Usamos un parámetro simple y extraemos la ruta completa desde req.path en el controller
-router.delete('/:path', authenticate, fileController.delete.bind(fileController))
+// Ejemplo: DELETE /api/v1/files/users/5/2024/01/15/archivo.jpg
+// Ruta comodín: la ruta completa (con "/") llega en req.params.path
+// Política files.delete: el propietario (archivos en "users/<userId>/") dentro de las
+// POLICY_FILE_DELETE_WINDOW_HOURS siguientes a la subida, o con files.delete.any
+router.delete(
+  '/*path',
+  authenticate,
+  resolveTenant,
+  requirePolicy(POLICY_ACTIONS.FILES_DELETE, loadFileResource),
+  fileController.delete.bind(fileController)
+)
 
 export default router
 
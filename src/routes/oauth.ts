@@ -0,0 +1,81 @@
+/**
+ * OAUTH ROUTES - Rutas de Login Social (OAuth2 / OpenID Connect)
+ * 
+ * Este archivo define las rutas del login con proveedores externos:
+ * - GET    /api/v1/auth/oauth/providers - Proveedores habilitados
+ * - GET    /api/v1/auth/oauth/identities - Cuentas externas vinculadas (requiere auth)
+ * - DELETE /api/v1/auth/oauth/identities/:id - Desvincular una cuenta externa (requiere auth)
+ * - GET    /api/v1/auth/oauth/:provider - Iniciar login (redirige al proveedor)
+ * - GET    /api/v1/auth/oauth/:provider/callback - Callback del proveedor
+ * - POST   /api/v1/auth/oauth/:provider/link - Iniciar vinculación (requiere auth)
+ * 
+ * Los proveedores se configuran con OAUTH_PROVIDERS (ver config/oauth.config.ts).
+ * 
+ * USO:
+ *   import oauthRouter from './routes/oauth'
+ *   app.use('/api/v1/auth/oauth', oauthRouter)
+ */
+
+import { Router } from 'express'
+import { OAuthController } from '../controllers/OAuth.controller'
+import { authenticate, rejectApiKeys, rejectImpersonation } from '../middleware/auth.middleware'
+
+const router = Router()
+const oauthController = new OAuthController()
+
+// ============================================
+// RUTAS PROTEGIDAS (requieren autenticación con access token)
+// ============================================
+
+/**
+ * GET /api/v1/auth/oauth/identities
+ * Lista las cuentas externas vinculadas a la cuenta
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: [{ id, provider, email, lastLoginAt, createdAt }]
+ */
+router.get('/identities', authenticate, rejectApiKeys, oauthController.getIdentities.bind(oauthController))
+
+/**
+ * DELETE /api/v1/auth/oauth/identities/:id
+ * Desvincula una cuenta externa (no se puede quitar el único método de inicio de sesión)
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.delete('/identities/:id', authenticate, rejectApiKeys, rejectImpersonation, oauthController.unlink.bind(oauthController))
+
+/**
+ * POST /api/v1/auth/oauth/:provider/link
+ * Inicia la vinculación de un proveedor: el cliente debe abrir authorizationUrl
+ * y el callback vinculará la cuenta externa a esta cuenta
+ * Headers: Authorization: Bearer <accessToken>
+ * Returns: { authorizationUrl }
+ */
+router.post('/:provider/link', authenticate, rejectApiKeys, rejectImpersonation, oauthController.link.bind(oauthController))
+
+// ============================================
+// RUTAS PÚBLICAS
+// ============================================
+
+/**
+ * GET /api/v1/auth/oauth/providers
+ * Lista los proveedores habilitados
+ * Returns: ["google", "github", ...]
+ */
+router.get('/providers', oauthController.getProviders.bind(oauthController))
+
+/**
+ * GET /api/v1/auth/oauth/:provider
+ * Inicia el login con el proveedor (authorization code + PKCE)
+ * Redirige (302) al proveedor; con "Accept: application/json" devuelve { authorizationUrl }
+ */
+router.get('/:provider', oauthController.authorize.bind(oauthController))
+
+/**
+ * GET /api/v1/auth/oauth/:provider/callback
+ * Callback registrado en el proveedor
+ * Query: { code, state } o { error, state }
+ * Returns: { mode: "login", isNewUser, login: { user, accessToken, refreshToken } | { mfaRequired, mfaToken, ... } }
+ *          o { mode: "link", identity }
+ */
+router.get('/:provider/callback', oauthController.callback.bind(oauthController))
+
+export default router
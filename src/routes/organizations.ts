@@ -0,0 +1,194 @@
+/**
+ * ORGANIZATIONS ROUTES - Rutas de Organizaciones (Multi-Tenant)
+ *
+ * Este archivo define las rutas de las organizaciones, sus miembros e invitaciones:
+ * - GET    /api/v1/organizations - Listar mis organizaciones
+ * - POST   /api/v1/organizations - Crear una organización
+ * - POST   /api/v1/organizations/switch - Cambiar la organización activa
+ * - POST   /api/v1/organizations/invitations/accept - Aceptar una invitación
+ * - GET    /api/v1/organizations/current/members - Listar miembros
+ * - PUT    /api/v1/organizations/current/members/:userId - Cambiar el rol de un miembro
+ * - DELETE /api/v1/organizations/current/members/:userId - Quitar un miembro
+ * - GET    /api/v1/organizations/current/invitations - Listar invitaciones
+ * - POST   /api/v1/organizations/current/invitations - Invitar por email
+ * - DELETE /api/v1/organizations/current/invitations/:id - Revocar una invitación
+ *
+ * Nadie se une a una organización sin aceptar una invitación enviada a su email.
+ *
+ * "current" es la organización activa: header X-Organization-Id o, si no
+ * viene, la organización de la sesión (claim "orgId" del token).
+ * En esas rutas los permisos se evalúan con el rol de la membresía.
+ *
+ * USO:
+ *   import organizationRouter from './routes/organizations'
+ *   app.use('/api/v1/organizations', organizationRouter)
+ */
+
+import { Router } from 'express'
+import { OrganizationController } from '../controllers/Organization.controller'
+import { authenticate, rejectApiKeys, rejectImpersonation, requireVerifiedEmail } from '../middleware/auth.middleware'
+import { resolveTenant, requireTenant } from '../middleware/tenant.middleware'
+import { requirePermission } from '../middleware/permissions.middleware'
+import { PERMISSIONS } from '../models/Role.model'
+
+const router = Router()
+const organizationController = new OrganizationController()
+
+// ============================================
+// ORGANIZACIONES DEL USUARIO
+// ============================================
+
+/**
+ * GET /api/v1/organizations
+ * Lista las organizaciones del usuario con su rol en cada una
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/', authenticate, resolveTenant, organizationController.getAll.bind(organizationController))
+
+/**
+ * POST /api/v1/organizations
+ * Crea una organización; el usuario queda como miembro con el rol org_admin
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name, slug }
+ * Requiere: email verificado
+ */
+router.post(
+  '/',
+  authenticate,
+  rejectApiKeys,
+  requireVerifiedEmail,
+  organizationController.create.bind(organizationController)
+)
+
+/**
+ * POST /api/v1/organizations/switch
+ * Cambia la organización activa de la sesión
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { organizationId: number | null } (null = ninguna, se usa el rol global)
+ * Returns: { accessToken, organizationId } (nuevo access token con el claim "orgId")
+ */
+router.post(
+  '/switch',
+  authenticate,
+  rejectApiKeys,
+  rejectImpersonation,
+  organizationController.switch.bind(organizationController)
+)
+
+/**
+ * POST /api/v1/organizations/invitations/accept
+ * Acepta una invitación: el usuario autenticado se une a la organización
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { token } (token del enlace del email)
+ * Requiere: email verificado e igual al invitado
+ */
+router.post(
+  '/invitations/accept',
+  authenticate,
+  rejectApiKeys,
+  rejectImpersonation,
+  requireVerifiedEmail,
+  organizationController.acceptInvitation.bind(organizationController)
+)
+
+// ============================================
+// MIEMBROS DE LA ORGANIZACIÓN ACTIVA
+// ============================================
+
+/**
+ * GET /api/v1/organizations/current/members
+ * Lista los miembros de la organización activa
+ * Headers: Authorization: Bearer <accessToken>, X-Organization-Id?
+ * Requiere: organizations.read (en la organización)
+ */
+router.get(
+  '/current/members',
+  authenticate,
+  resolveTenant,
+  requireTenant,
+  requirePermission(PERMISSIONS.ORGANIZATIONS_READ),
+  organizationController.getMembers.bind(organizationController)
+)
+
+/**
+ * PUT /api/v1/organizations/current/members/:userId
+ * Cambia el rol de un miembro de la organización activa
+ * Headers: Authorization: Bearer <accessToken>, X-Organization-Id?
+ * Body: { roleId }
+ * Requiere: organizations.manage (en la organización) y todos los permisos del rol asignado
+ */
+router.put(
+  '/current/members/:userId',
+  authenticate,
+  resolveTenant,
+  requireTenant,
+  requirePermission(PERMISSIONS.ORGANIZATIONS_MANAGE),
+  organizationController.updateMember.bind(organizationController)
+)
+
+/**
+ * DELETE /api/v1/organizations/current/members/:userId
+ * Quita un miembro de la organización activa
+ * Headers: Authorization: Bearer <accessToken>, X-Organization-Id?
+ * Requiere: organizations.manage (en la organización)
+ */
+router.delete(
+  '/current/members/:userId',
+  authenticate,
+  resolveTenant,
+  requireTenant,
+  requirePermission(PERMISSIONS.ORGANIZATIONS_MANAGE),
+  organizationController.removeMember.bind(organizationController)
+)
+
+// ============================================
+// INVITACIONES A LA ORGANIZACIÓN ACTIVA
+// ============================================
+
+/**
+ * GET /api/v1/organizations/current/invitations
+ * Lista las invitaciones (pendientes y expiradas) de la organización activa
+ * Headers: Authorization: Bearer <accessToken>, X-Organization-Id?
+ * Requiere: organizations.manage (en la organización)
+ */
+router.get(
+  '/current/invitations',
+  authenticate,
+  resolveTenant,
+  requireTenant,
+  requirePermission(PERMISSIONS.ORGANIZATIONS_MANAGE),
+  organizationController.getInvitations.bind(organizationController)
+)
+
+/**
+ * POST /api/v1/organizations/current/invitations
+ * Invita a un email a la organización activa (misma respuesta exista o no la cuenta)
+ * Headers: Authorization: Bearer <accessToken>, X-Organization-Id?
+ * Body: { email, roleId }
+ * Requiere: organizations.manage (en la organización) y todos los permisos del rol asignado
+ */
+router.post(
+  '/current/invitations',
+  authenticate,
+  resolveTenant,
+  requireTenant,
+  requirePermission(PERMISSIONS.ORGANIZATIONS_MANAGE),
+  organizationController.invite.bind(organizationController)
+)
+
+/**
+ * DELETE /api/v1/organizations/current/invitations/:id
+ * Revoca una invitación de la organización activa
+ * Headers: Authorization: Bearer <accessToken>, X-Organization-Id?
+ * Requiere: organizations.manage (en la organización)
+ */
+router.delete(
+  '/current/invitations/:id',
+  authenticate,
+  resolveTenant,
+  requireTenant,
+  requirePermission(PERMISSIONS.ORGANIZATIONS_MANAGE),
+  organizationController.revokeInvitation.bind(organizationController)
+)
+
+export default router
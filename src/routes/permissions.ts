@@ -0,0 +1,72 @@
+/**
+ * PERMISSIONS ROUTES - Rutas de Administración de Permisos
+ * 
+ * Este archivo define las rutas para gestionar el catálogo de permisos:
+ * - GET    /api/v1/permissions - Listar permisos
+ * - GET    /api/v1/permissions/:id - Obtener un permiso
+ * - POST   /api/v1/permissions - Crear permiso
+ * - PUT    /api/v1/permissions/:id - Actualizar permiso
+ * - DELETE /api/v1/permissions/:id - Eliminar (desactivar) permiso
+ * 
+ * USO:
+ *   import permissionRouter from './routes/permissions'
+ *   app.use('/api/v1/permissions', permissionRouter)
+ */
+
+import { Router } from 'express'
+import { PermissionController } from '../controllers/Role.controller'
+import { authenticate } from '../middleware/auth.middleware'
+import { requirePermission, requireAnyPermission } from '../middleware/permissions.middleware'
+import { PERMISSIONS } from '../models/Role.model'
+
+const router = Router()
+const permissionController = new PermissionController()
+
+// ============================================
+// RUTAS PROTEGIDAS (requieren autenticación y permisos)
+// ============================================
+//
+// Lectura: permissions.read o permissions.manage
+// Escritura: permissions.manage
+
+const canReadPermissions = requireAnyPermission([PERMISSIONS.PERMISSIONS_READ, PERMISSIONS.PERMISSIONS_MANAGE])
+const canManagePermissions = requirePermission(PERMISSIONS.PERMISSIONS_MANAGE)
+
+/**
+ * GET /api/v1/permissions
+ * Obtiene todos los permisos activos
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/', authenticate, canReadPermissions, permissionController.getAll.bind(permissionController))
+
+/**
+ * GET /api/v1/permissions/:id
+ * Obtiene un permiso por su ID
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/:id', authenticate, canReadPermissions, permissionController.getById.bind(permissionController))
+
+/**
+ * POST /api/v1/permissions
+ * Crea un nuevo permiso
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name, description? } (name con formato "recurso.accion")
+ */
+router.post('/', authenticate, canManagePermissions, permissionController.create.bind(permissionController))
+
+/**
+ * PUT /api/v1/permissions/:id
+ * Actualiza un permiso
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name?, description?, isActive? }
+ */
+router.put('/:id', authenticate, canManagePermissions, permissionController.update.bind(permissionController))
+
+/**
+ * DELETE /api/v1/permissions/:id
+ * Elimina (desactiva) un permiso
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.delete('/:id', authenticate, canManagePermissions, permissionController.delete.bind(permissionController))
+
+export default router
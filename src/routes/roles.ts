@@ -0,0 +1,106 @@
+/**
+ * ROLES ROUTES - Rutas de Administración de Roles
+ * 
+ * Este archivo define las rutas para gestionar roles y sus permisos:
+ * - GET    /api/v1/roles - Listar roles
+ * - GET    /api/v1/roles/:id - Obtener un rol con sus permisos
+ * - POST   /api/v1/roles - Crear rol
+ * - PUT    /api/v1/roles/:id - Actualizar rol
+ * - DELETE /api/v1/roles/:id - Eliminar rol (sin usuarios asignados)
+ * - GET    /api/v1/roles/:id/permissions - Listar permisos del rol
+ * - PUT    /api/v1/roles/:id/permissions - Reemplazar permisos del rol
+ * - POST   /api/v1/roles/:id/permissions/:permissionId - Agregar un permiso al rol
+ * - DELETE /api/v1/roles/:id/permissions/:permissionId - Quitar un permiso del rol
+ * 
+ * USO:
+ *   import roleRouter from './routes/roles'
+ *   app.use('/api/v1/roles', roleRouter)
+ */
+
+import { Router } from 'express'
+import { RoleController } from '../controllers/Role.controller'
+import { authenticate } from '../middleware/auth.middleware'
+import { requirePermission, requireAnyPermission } from '../middleware/permissions.middleware'
+import { PERMISSIONS } from '../models/Role.model'
+
+const router = Router()
+const roleController = new RoleController()
+
+// ============================================
+// RUTAS PROTEGIDAS (requieren autenticación y permisos)
+// ============================================
+//
+// Lectura: roles.read o roles.manage
+// Escritura: roles.manage
+
+const canReadRoles = requireAnyPermission([PERMISSIONS.ROLES_READ, PERMISSIONS.ROLES_MANAGE])
+const canManageRoles = requirePermission(PERMISSIONS.ROLES_MANAGE)
+
+/**
+ * GET /api/v1/roles
+ * Obtiene todos los roles activos
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/', authenticate, canReadRoles, roleController.getAll.bind(roleController))
+
+/**
+ * GET /api/v1/roles/:id
+ * Obtiene un rol con sus roles padre y sus permisos, directos y heredados
+ * (cada permiso indica source: "direct" | "inherited" e inheritedFrom)
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/:id', authenticate, canReadRoles, roleController.getById.bind(roleController))
+
+/**
+ * POST /api/v1/roles
+ * Crea un nuevo rol
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name, description?, requireTwoFactor?, permissionIds?, parentIds? }
+ */
+router.post('/', authenticate, canManageRoles, roleController.create.bind(roleController))
+
+/**
+ * PUT /api/v1/roles/:id
+ * Actualiza un rol. parentIds reemplaza los roles padre (400 si crea un ciclo)
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { name?, description?, isActive?, requireTwoFactor?, permissionIds?, parentIds? }
+ */
+router.put('/:id', authenticate, canManageRoles, roleController.update.bind(roleController))
+
+/**
+ * DELETE /api/v1/roles/:id
+ * Elimina un rol. Responde 409 si todavía tiene usuarios asignados o roles que heredan de él
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.delete('/:id', authenticate, canManageRoles, roleController.delete.bind(roleController))
+
+/**
+ * GET /api/v1/roles/:id/permissions
+ * Obtiene los permisos asignados directamente a un rol (sin los heredados)
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.get('/:id/permissions', authenticate, canReadRoles, roleController.getPermissions.bind(roleController))
+
+/**
+ * PUT /api/v1/roles/:id/permissions
+ * Reemplaza todos los permisos de un rol
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { permissionIds: number[] }
+ */
+router.put('/:id/permissions', authenticate, canManageRoles, roleController.replacePermissions.bind(roleController))
+
+/**
+ * POST /api/v1/roles/:id/permissions/:permissionId
+ * Agrega un permiso al rol
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.post('/:id/permissions/:permissionId', authenticate, canManageRoles, roleController.addPermission.bind(roleController))
+
+/**
+ * DELETE /api/v1/roles/:id/permissions/:permissionId
+ * Quita un permiso del rol
+ * Headers: Authorization: Bearer <accessToken>
+ */
+router.delete('/:id/permissions/:permissionId', authenticate, canManageRoles, roleController.removePermission.bind(roleController))
+
+export default router
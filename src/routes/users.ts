@@ -11,7 +11,10 @@
 
 import { Router } from 'express'
 import { UserController } from '../controllers/User.controller'
-import { authenticate } from '../middleware/auth.middleware'
+import { authenticate, rejectApiKeys } from '../middleware/auth.middleware'
+import { resolveTenant } from '../middleware/tenant.middleware'
+import { requirePermission, requireOwnershipOr } from '../middleware/permissions.middleware'
+import { PERMISSIONS } from '../models/Role.model'
 
 const router = Router()
 const userController = new UserController()
@@ -22,43 +25,160 @@ const userController = new UserController()
 // 
 // Todas las rutas de usuarios requieren autenticación.
 // El registro de usuarios está disponible en /api/v1/auth/register
+//
+// Cada usuario puede consultar, actualizar y eliminar su propio perfil;
+// sobre los demás usuarios necesita los permisos "any" (users.*.any).
+//
+// Con organización activa (header X-Organization-Id o claim "orgId"),
+// resolveTenant evalúa los permisos con el rol de la membresía y solo
+// se ven los usuarios miembros de la organización.
+
+const loadUserOwner = userController.getOwnerId.bind(userController)
 
 /**
  * GET /api/v1/users
  * Obtiene todos los usuarios (con paginación y filtros)
  * Headers: Authorization: Bearer <accessToken>
  * Query params: page, limit, email, name, orderBy, orderByEmail, orderByName
+ * Requiere: users.read.any
  */
-router.get('/', authenticate, userController.getAll.bind(userController))
+router.get(
+  '/',
+  authenticate,
+  resolveTenant,
+  requirePermission(PERMISSIONS.USERS_READ_ANY),
+  userController.getAll.bind(userController)
+)
 
 /**
  * GET /api/v1/users/:id
  * Obtiene un usuario por su ID
  * Headers: Authorization: Bearer <accessToken>
+ * Requiere: users.read (propio perfil) o users.read.any
  */
-router.get('/:id', authenticate, userController.getById.bind(userController))
+router.get(
+  '/:id',
+  authenticate,
+  resolveTenant,
+  requireOwnershipOr(PERMISSIONS.USERS_READ_ANY, loadUserOwner, PERMISSIONS.USERS_READ),
+  userController.getById.bind(userController)
+)
 
 /**
  * POST /api/v1/users
  * Crea un nuevo usuario
  * Headers: Authorization: Bearer <accessToken>
  * Body: { email, name? }
+ * Requiere: users.create
  */
-router.post('/', authenticate, userController.create.bind(userController))
+router.post(
+  '/',
+  authenticate,
+  requirePermission(PERMISSIONS.USERS_CREATE),
+  userController.create.bind(userController)
+)
 
 /**
  * PUT /api/v1/users/:id
  * Actualiza un usuario existente
  * Headers: Authorization: Bearer <accessToken>
  * Body: { email?, name? }
+ * Requiere: ser el propio usuario o users.update.any (no disponible con API key)
  */
-router.put('/:id', authenticate, userController.update.bind(userController))
+router.put(
+  '/:id',
+  authenticate,
+  rejectApiKeys,
+  resolveTenant,
+  requireOwnershipOr(PERMISSIONS.USERS_UPDATE_ANY, loadUserOwner),
+  userController.update.bind(userController)
+)
 
 /**
  * DELETE /api/v1/users/:id
  * Elimina un usuario
  * Headers: Authorization: Bearer <accessToken>
+ * Requiere: ser el propio usuario o users.delete.any (no disponible con API key)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  rejectApiKeys,
+  resolveTenant,
+  requireOwnershipOr(PERMISSIONS.USERS_DELETE_ANY, loadUserOwner),
+  userController.delete.bind(userController)
+)
+
+/**
+ * POST /api/v1/users/:id/deactivate
+ * Desactiva un usuario y cierra todas sus sesiones
+ * Headers: Authorization: Bearer <accessToken>
+ * Requiere: política users.deactivate (users.update.any; a un administrador solo lo desactiva otro administrador)
+ */
+router.post(
+  '/:id/deactivate',
+  authenticate,
+  resolveTenant,
+  userController.deactivate.bind(userController)
+)
+
+/**
+ * POST /api/v1/users/:id/unlock
+ * Desbloquea una cuenta bloqueada por intentos fallidos de login
+ * Headers: Authorization: Bearer <accessToken>
+ * Requiere: users.manage
+ */
+router.post(
+  '/:id/unlock',
+  authenticate,
+  requirePermission(PERMISSIONS.USERS_MANAGE),
+  userController.unlock.bind(userController)
+)
+
+// ============================================
+// PERMISOS DIRECTOS (además de los del rol)
+// ============================================
+//
+// Se evalúan siempre con el rol global (sin organización activa).
+
+/**
+ * GET /api/v1/users/:id/permissions
+ * Lista los permisos concedidos o denegados directamente al usuario
+ * Headers: Authorization: Bearer <accessToken>
+ * Requiere: permissions.manage
+ */
+router.get(
+  '/:id/permissions',
+  authenticate,
+  requirePermission(PERMISSIONS.PERMISSIONS_MANAGE),
+  userController.getPermissions.bind(userController)
+)
+
+/**
+ * PUT /api/v1/users/:id/permissions/:permissionId
+ * Concede o deniega un permiso directamente al usuario (reemplaza el anterior)
+ * Headers: Authorization: Bearer <accessToken>
+ * Body: { effect: "grant" | "deny", expiresAt? (ISO 8601, null = sin expiración), reason? }
+ * Requiere: permissions.manage (y, para un grant, tener el permiso)
+ */
+router.put(
+  '/:id/permissions/:permissionId',
+  authenticate,
+  requirePermission(PERMISSIONS.PERMISSIONS_MANAGE),
+  userController.setPermission.bind(userController)
+)
+
+/**
+ * DELETE /api/v1/users/:id/permissions/:permissionId
+ * Quita un permiso directo del usuario
+ * Headers: Authorization: Bearer <accessToken>
+ * Requiere: permissions.manage
  */
-router.delete('/:id', authenticate, userController.delete.bind(userController))
+router.delete(
+  '/:id/permissions/:permissionId',
+  authenticate,
+  requirePermission(PERMISSIONS.PERMISSIONS_MANAGE),
+  userController.removePermission.bind(userController)
+)
 
 export default router
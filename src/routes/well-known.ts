@@ -0,0 +1,37 @@
+/**
+ * WELL-KNOWN ROUTES - Metadatos Públicos
+ * 
+ * Este archivo define las rutas estándar bajo /.well-known:
+ * - GET /.well-known/jwks.json - Claves públicas para verificar los access tokens
+ * 
+ * USO:
+ *   import wellKnownRouter from './routes/well-known'
+ *   app.use('/.well-known', wellKnownRouter)
+ */
+
+import { Router } from 'express'
+import { getJwks } from '../config/jwt.config'
+import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+
+const router = Router()
+
+/**
+ * GET /.well-known/jwks.json
+ * Publica las claves públicas del keyring (RS256/ES256) en formato JWKS
+ * Con HS256 retorna un conjunto vacío
+ * Returns: { keys: [{ kty, kid, alg, use, ... }] }
+ */
+router.get('/jwks.json', (_req, res) => {
+  try {
+    res.set('Cache-Control', 'public, max-age=300')
+    res.status(HTTP_STATUS.OK).json(getJwks())
+  } catch (error) {
+    res.status(HTTP_STATUS.INTERNAL_SERVER_ERROR).json({
+      success: false,
+      message: HTTP_MESSAGES.INTERNAL_ERROR,
+      error: error instanceof Error ? error.message : 'Ocurrió un error desconocido',
+    })
+  }
+})
+
+export default router
@@ -0,0 +1,160 @@
+/**
+ * ROLES SYNC SCRIPT
+ *
+ * Sincroniza los roles, permisos y asignaciones de la base de datos con un
+ * manifiesto declarativo (YAML o JSON). Muestra el plan de cambios y solo
+ * lo aplica con --apply (en una transacción: todo o nada).
+ *
+ * A diferencia de init:roles (que solo crea lo que falta), reconcilia los
+ * roles que ya existen: quita permisos no declarados, actualiza descripciones
+ * y desactiva roles y permisos que ya no están en el manifiesto.
+ *
+ * USO:
+ *   npm run roles:sync                               # Muestra el plan (data/roles.yaml)
+ *   npm run roles:sync -- --apply                    # Aplica el plan
+ *   npm run roles:sync -- --check                    # Sale con código 1 si hay diferencias (CI)
+ *   npm run roles:sync -- --file config/roles.json   # Otro manifiesto
+ *
+ * CÓDIGOS DE SALIDA:
+ *   0 - Sin diferencias, o plan aplicado
+ *   1 - Hay diferencias (--check) o el plan está bloqueado
+ *   2 - Error (manifiesto inválido, base de datos, argumentos)
+ */
+
+import path from 'path'
+import { RoleSyncService } from '../services/RoleSync.service'
+import { db } from '../config/prisma'
+import type { RoleSyncPlan } from '../models/RoleSync.model'
+
+/**
+ * Manifiesto por defecto
+ */
+const DEFAULT_MANIFEST = path.join(process.cwd(), 'data', 'roles.yaml')
+
+interface SyncOptions {
+  file: string
+  apply: boolean
+  check: boolean
+}
+
+/**
+ * Lee las opciones de la línea de comandos
+ */
+function parseArgs(args: string[]): SyncOptions {
+  const options: SyncOptions = { file: DEFAULT_MANIFEST, apply: false, check: false }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+
+    if (arg === '--apply') {
+      options.apply = true
+    } else if (arg === '--check') {
+      options.check = true
+    } else if (arg === '--file') {
+      const file = args[++i]
+      if (!file) {
+        throw new Error('--file requiere la ruta del manifiesto')
+      }
+      options.file = path.resolve(file)
+    } else {
+      throw new Error(`Opción desconocida: ${arg} (usa --file <ruta>, --apply o --check)`)
+    }
+  }
+
+  if (options.apply && options.check) {
+    throw new Error('--apply y --check no se pueden usar juntos')
+  }
+
+  return options
+}
+
+/**
+ * Muestra un valor del plan ("null" para vacío)
+ */
+function formatValue(value: unknown): string {
+  return value === null || value === undefined ? 'null' : JSON.stringify(value)
+}
+
+/**
+ * Imprime el plan de cambios
+ */
+function printPlan(plan: RoleSyncPlan): void {
+  for (const permission of plan.permissions.add) {
+    console.log(`   + permiso ${permission.name}`)
+  }
+  for (const permission of plan.permissions.update) {
+    for (const [field, change] of Object.entries(permission.changes)) {
+      console.log(`   ~ permiso ${permission.name}: ${field} ${formatValue(change?.from)} → ${formatValue(change?.to)}`)
+    }
+  }
+  for (const permission of plan.permissions.remove) {
+    console.log(`   - permiso ${permission.name} (se desactiva)`)
+  }
+
+  for (const role of plan.roles.add) {
+    console.log(`   + rol ${role.name} (${role.permissions.length} permisos)`)
+  }
+  for (const role of plan.roles.update) {
+    for (const [field, change] of Object.entries(role.changes)) {
+      console.log(`   ~ rol ${role.name}: ${field} ${formatValue(change?.from)} → ${formatValue(change?.to)}`)
+    }
+  }
+  for (const role of plan.roles.remove) {
+    console.log(`   - rol ${role.name} (se desactiva)`)
+  }
+
+  for (const assignment of plan.assignments.add) {
+    console.log(`   + ${assignment.role} ← ${assignment.permission}`)
+  }
+  for (const assignment of plan.assignments.remove) {
+    console.log(`   - ${assignment.role} ← ${assignment.permission}`)
+  }
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2))
+  const roleSyncService = new RoleSyncService()
+
+  console.log(`📄 Manifiesto: ${path.relative(process.cwd(), options.file)}`)
+
+  const manifest = await roleSyncService.loadManifest(options.file)
+  const plan = await roleSyncService.buildPlan(manifest)
+
+  if (!roleSyncService.hasChanges(plan)) {
+    console.log('✅ La base de datos coincide con el manifiesto')
+    return 0
+  }
+
+  console.log('\n📋 Plan:')
+  printPlan(plan)
+
+  if (plan.blocked.length > 0) {
+    console.log('\n⛔ El plan está bloqueado:')
+    plan.blocked.forEach((reason) => console.log(`   - ${reason}`))
+    return 1
+  }
+
+  if (options.check) {
+    console.log('\n❌ La base de datos no coincide con el manifiesto')
+    return 1
+  }
+
+  if (!options.apply) {
+    console.log('\nEjecuta con --apply para aplicar el plan')
+    return 0
+  }
+
+  await roleSyncService.applyPlan(plan)
+  console.log('\n✅ Plan aplicado')
+  return 0
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code
+  })
+  .catch((error) => {
+    console.error('❌ Error al sincronizar roles y permisos:', error instanceof Error ? error.message : error)
+    process.exitCode = 2
+  })
+  .finally(() => db.$disconnect())
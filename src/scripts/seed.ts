@@ -118,6 +118,7 @@ async function seedAdminUser(roles: any[]): Promise<void> {
     password: hashedPassword,
     name: ADMIN_NAME,
     roleId: adminRole.id,
+    emailVerifiedAt: new Date(), // El administrador inicial no necesita verificar su email
   })
   
   console.log('✅ Usuario administrador creado exitosamente')
@@ -6,13 +6,24 @@
  */
 
 import express from 'express'
-import path from 'path'
 import authRouter from './routes/auth'
+import apiKeyRouter from './routes/api-keys'
+import oauthRouter from './routes/oauth'
 import userRouter from './routes/users'
 import fileRouter from './routes/files'
+import roleRouter from './routes/roles'
+import permissionRouter from './routes/permissions'
+import adminRouter from './routes/admin'
+import organizationRouter from './routes/organizations'
+import wellKnownRouter from './routes/well-known'
 import { errorHandler, notFoundHandler } from './middleware/error.middleware'
 import { requestLogger } from './middleware/request-logger.middleware'
-import { logAppStart, logAppShutdown } from './utils/logger.util'
+import { logAppStart, logAppShutdown, logError, logInfo } from './utils/logger.util'
+import { UserPermissionService } from './services/UserPermission.service'
+import { SessionService } from './services/Session.service'
+import { userPermissionConfig } from './config/permissions.config'
+import { sessionCleanupConfig } from './config/auth.config'
+import { storageProvider, LOCAL_STORAGE_CONFIG } from './config/storage.config'
 import './config/logger.config' // Inicializar logger
 
 // Crear instancia de Express
@@ -29,9 +40,12 @@ app.use(express.urlencoded({ extended: true }))
 // Middleware de logging de requests (debe ir después de los parsers pero antes de las rutas)
 app.use(requestLogger)
 
-// Servir archivos estáticos desde la carpeta uploads
-const uploadsPath = process.env.STORAGE_LOCAL_PATH || path.join(process.cwd(), 'uploads')
-app.use('/uploads', express.static(uploadsPath))
+// Servir los archivos del storage local como estáticos (opcional: STORAGE_LOCAL_SERVE_STATIC=true)
+// Sin autenticación: cualquiera con la URL puede leerlos, incluidos los privados.
+// Por defecto se descargan con GET /api/v1/files/:id/download (autenticado)
+if (storageProvider.name === 'local' && LOCAL_STORAGE_CONFIG.serveStatic) {
+  app.use(LOCAL_STORAGE_CONFIG.baseUrl, express.static(LOCAL_STORAGE_CONFIG.basePath))
+}
 
 // ============================================
 // RUTAS
@@ -42,10 +56,19 @@ app.get('/health', (_req, res) => {
   res.json({ status: 'ok', message: 'Server is running' })
 })
 
+// Claves públicas para verificar los access tokens (JWKS)
+app.use('/.well-known', wellKnownRouter)
+
 // Rutas de la API
+app.use('/api/v1/auth/api-keys', apiKeyRouter) // API keys personales
+app.use('/api/v1/auth/oauth', oauthRouter) // Login social (OAuth2 / OIDC)
 app.use('/api/v1/auth', authRouter)  // Rutas de autenticación
 app.use('/api/v1/users', userRouter) // Rutas de usuarios
 app.use('/api/v1/files', fileRouter) // Rutas de archivos
+app.use('/api/v1/roles', roleRouter) // Rutas de roles
+app.use('/api/v1/permissions', permissionRouter) // Rutas de permisos
+app.use('/api/v1/admin', adminRouter) // Administración (suplantación de usuarios)
+app.use('/api/v1/organizations', organizationRouter) // Organizaciones y miembros (multi-tenant)
 
 // ============================================
 // MANEJO DE ERRORES
@@ -73,10 +96,42 @@ const server = app.listen(PORT, () => {
   logAppStart(PORT, environment)
 })
 
+// ============================================
+// TAREAS PERIÓDICAS
+// ============================================
+
+// Purgar los permisos directos expirados (ya no se aplican, pero ocupan la tabla)
+const userPermissionService = new UserPermissionService()
+const purgeUserPermissionsTimer = userPermissionConfig.purgeIntervalMinutes > 0
+  ? setInterval(() => {
+      userPermissionService.purgeExpired()
+        .then((users) => {
+          if (users > 0) logInfo('Permisos directos expirados purgados', { users })
+        })
+        .catch((error) => logError(error, { action: 'purge_user_permissions' }))
+    }, userPermissionConfig.purgeIntervalMinutes * 60 * 1000)
+  : undefined
+purgeUserPermissionsTimer?.unref()
+
+// Eliminar las sesiones expiradas o revocadas (tras el periodo de retención)
+const sessionService = new SessionService()
+const purgeSessionsTimer = sessionCleanupConfig.purgeIntervalMinutes > 0
+  ? setInterval(() => {
+      sessionService.purgeStaleSessions()
+        .then((sessions) => {
+          if (sessions > 0) logInfo('Sesiones expiradas o revocadas eliminadas', { sessions })
+        })
+        .catch((error) => logError(error, { action: 'purge_sessions' }))
+    }, sessionCleanupConfig.purgeIntervalMinutes * 60 * 1000)
+  : undefined
+purgeSessionsTimer?.unref()
+
 // Manejar cierre graceful del servidor
 const gracefulShutdown = (signal: string) => {
   console.log(`\n${signal} recibido. Cerrando servidor...`)
   logAppShutdown(signal)
+  clearInterval(purgeUserPermissionsTimer)
+  clearInterval(purgeSessionsTimer)
   
   server.close(() => {
     console.log('Servidor cerrado correctamente')
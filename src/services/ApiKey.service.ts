@@ -0,0 +1,267 @@
+/**
+ * API KEY SERVICE - Lógica de Negocio de API Keys Personales
+ *
+ * Este service maneja las API keys para integraciones y tareas programadas:
+ * - Crear keys con un subconjunto de los permisos del propietario
+ * - Listar, actualizar y eliminar las keys propias
+ * - Autenticar peticiones con una key
+ *
+ * Formato de la key: "ak_<prefix>_<secret>"
+ * - El prefijo identifica la key y se guarda en claro
+ * - Del secreto solo se guarda el hash SHA-256: la key completa
+ *   se muestra una única vez, al crearla
+ *
+ * USO:
+ *   import { ApiKeyService } from '../services/ApiKey.service'
+ *   const apiKeyService = new ApiKeyService()
+ *   const { apiKey, user } = await apiKeyService.authenticate(key, req.ip)
+ */
+
+import crypto from 'crypto'
+import { ApiKeyRepository } from '../repositories/ApiKey.repository'
+import { PermissionRepository } from '../repositories/Role.repository'
+import { RoleService } from './Role.service'
+import { hashToken } from '../utils/token.util'
+import { API_KEY_CONFIG, HTTP_STATUS } from '../constants'
+import type {
+  ApiKeyInfo,
+  ApiKeyWithPermissions,
+  CreateApiKeyInput,
+  CreatedApiKey,
+  UpdateApiKeyInput,
+  UpdateApiKeyData,
+} from '../models/ApiKey.model'
+
+/**
+ * Formato de una key: prefijo fijo, identificador público y secreto (hexadecimal)
+ */
+const API_KEY_PATTERN = new RegExp(`^${API_KEY_CONFIG.KEY_PREFIX}_([a-f0-9]{12})_([a-f0-9]{64})$`)
+
+/**
+ * Convierte una API key a su información pública
+ */
+function toApiKeyInfo(apiKey: ApiKeyWithPermissions): ApiKeyInfo {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    permissions: apiKey.permissions.map(({ permission }) => permission.name),
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    lastUsedIp: apiKey.lastUsedIp,
+    createdAt: apiKey.createdAt,
+  }
+}
+
+export class ApiKeyService {
+  private apiKeyRepository: ApiKeyRepository
+  private permissionRepository: PermissionRepository
+  private roleService: RoleService
+
+  constructor() {
+    this.apiKeyRepository = new ApiKeyRepository()
+    this.permissionRepository = new PermissionRepository()
+    this.roleService = new RoleService()
+  }
+
+  /**
+   * Lista las API keys de un usuario
+   */
+  async listApiKeys(userId: number): Promise<ApiKeyInfo[]> {
+    const apiKeys = await this.apiKeyRepository.findByUser(userId)
+    return apiKeys.map(toApiKeyInfo)
+  }
+
+  /**
+   * Obtiene una API key del usuario
+   */
+  async getApiKey(userId: number, id: number): Promise<ApiKeyInfo> {
+    return toApiKeyInfo(await this.findOwnApiKey(userId, id))
+  }
+
+  /**
+   * Crea una API key
+   *
+   * @returns La key completa (solo se devuelve aquí) y su información pública
+   */
+  async createApiKey(userId: number, input: CreateApiKeyInput): Promise<CreatedApiKey> {
+    const name = this.validateName(input.name)
+    const expiresAt = this.parseExpiresAt(input.expiresAt) ?? null
+    const permissionIds = await this.resolvePermissions(userId, input.permissions)
+
+    const existing = await this.apiKeyRepository.findByUser(userId)
+    if (existing.length >= API_KEY_CONFIG.MAX_KEYS_PER_USER) {
+      const error = new Error(
+        `No puedes tener más de ${API_KEY_CONFIG.MAX_KEYS_PER_USER} API keys`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    const prefix = crypto.randomBytes(6).toString('hex')
+    const secret = crypto.randomBytes(32).toString('hex')
+
+    const apiKey = await this.apiKeyRepository.create({
+      userId,
+      name,
+      prefix,
+      secretHash: hashToken(secret),
+      expiresAt,
+      permissionIds,
+    })
+
+    return {
+      ...toApiKeyInfo(apiKey),
+      key: `${API_KEY_CONFIG.KEY_PREFIX}_${prefix}_${secret}`,
+    }
+  }
+
+  /**
+   * Actualiza el nombre, la expiración o los permisos de una API key
+   */
+  async updateApiKey(userId: number, id: number, input: UpdateApiKeyInput): Promise<ApiKeyInfo> {
+    await this.findOwnApiKey(userId, id)
+
+    const data: UpdateApiKeyData = {}
+    if (input.name !== undefined) {
+      data.name = this.validateName(input.name)
+    }
+    if (input.expiresAt !== undefined) {
+      data.expiresAt = input.expiresAt === null ? null : this.parseExpiresAt(input.expiresAt) ?? null
+    }
+    if (input.permissions !== undefined) {
+      data.permissionIds = await this.resolvePermissions(userId, input.permissions)
+    }
+
+    return toApiKeyInfo(await this.apiKeyRepository.update(id, data))
+  }
+
+  /**
+   * Elimina (revoca) una API key
+   */
+  async deleteApiKey(userId: number, id: number): Promise<void> {
+    await this.findOwnApiKey(userId, id)
+    await this.apiKeyRepository.delete(id)
+  }
+
+  /**
+   * Autentica una petición con una API key
+   *
+   * @returns La key (con sus permisos) y su propietario
+   * @throws Error (401) si la key es inválida, expiró o el propietario está inactivo
+   */
+  async authenticate(key: string, ipAddress?: string) {
+    const match = API_KEY_PATTERN.exec(key)
+    const apiKey = match ? await this.apiKeyRepository.findByPrefix(match[1]!) : null
+
+    if (
+      !match ||
+      !apiKey ||
+      !crypto.timingSafeEqual(Buffer.from(hashToken(match[2]!)), Buffer.from(apiKey.secretHash))
+    ) {
+      throw new Error('API key inválida')
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      throw new Error('API key expirada')
+    }
+
+    if (!apiKey.user.isActive) {
+      throw new Error('Usuario no encontrado o inactivo')
+    }
+
+    // Registrar el uso como máximo una vez por intervalo
+    const updateIntervalMs = API_KEY_CONFIG.LAST_USED_UPDATE_INTERVAL_SECONDS * 1000
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() >= updateIntervalMs) {
+      await this.apiKeyRepository.touch(apiKey.id, ipAddress ?? null)
+    }
+
+    return {
+      apiKey: {
+        id: apiKey.id,
+        permissions: apiKey.permissions.map(({ permission }) => permission.name),
+      },
+      user: apiKey.user,
+    }
+  }
+
+  /**
+   * Obtiene una API key del usuario o lanza 404
+   */
+  private async findOwnApiKey(userId: number, id: number): Promise<ApiKeyWithPermissions> {
+    const apiKey = await this.apiKeyRepository.findByIdForUser(id, userId)
+
+    if (!apiKey) {
+      const error = new Error('API key no encontrada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    return apiKey
+  }
+
+  /**
+   * Valida el nombre de la key
+   */
+  private validateName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+      const error = new Error('El nombre es requerido (máximo 100 caracteres)') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    return name.trim()
+  }
+
+  /**
+   * Convierte la fecha de expiración (debe ser una fecha futura)
+   */
+  private parseExpiresAt(value: string | undefined): Date | undefined {
+    if (value === undefined) {
+      return undefined
+    }
+
+    const expiresAt = new Date(value)
+    if (isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      const error = new Error('expiresAt debe ser una fecha futura en formato ISO 8601') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    return expiresAt
+  }
+
+  /**
+   * Convierte nombres de permisos en IDs comprobando que el propietario los tenga
+   *
+   * Una key nunca puede conceder más permisos que los de su propietario.
+   */
+  private async resolvePermissions(userId: number, names: unknown): Promise<number[]> {
+    if (!Array.isArray(names) || !names.every((name) => typeof name === 'string')) {
+      const error = new Error('permissions debe ser un arreglo de nombres de permisos') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const uniqueNames = [...new Set(names as string[])]
+    const permissions = await this.permissionRepository.findByNames(uniqueNames)
+
+    const missing = uniqueNames.filter((name) => !permissions.some((p) => p.name === name))
+    if (missing.length > 0) {
+      const error = new Error(`Permisos no encontrados: ${missing.join(', ')}`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const checks = await Promise.all(
+      uniqueNames.map((name) => this.roleService.userHasPermission(userId, name))
+    )
+    const notHeld = uniqueNames.filter((_, index) => !checks[index])
+    if (notHeld.length > 0) {
+      const error = new Error(`No tienes estos permisos: ${notHeld.join(', ')}`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+
+    return permissions.map((permission) => permission.id)
+  }
+}
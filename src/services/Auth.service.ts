@@ -7,6 +7,9 @@
  * - Refresh tokens
  * - Recuperación de contraseña
  * - Cambio de contraseña
+ * - Política de verificación de email en el login
+ * - Bloqueo por intentos fallidos de login
+ * - Segundo paso del login con verificación en dos pasos (TOTP)
  * 
  * USO:
  *   import { AuthService } from '../services/Auth.service'
@@ -15,35 +18,64 @@
  */
 
 import { AuthRepository } from '../repositories/Auth.repository'
-import { hashPassword, comparePassword, generateResetToken, validatePasswordStrength } from '../utils/password.util'
-import { generateTokens, verifyToken, generateAccessToken } from '../config/jwt.config'
-import { HTTP_STATUS, HTTP_MESSAGES } from '../constants'
+import { hashPassword, comparePassword, generateResetToken } from '../utils/password.util'
+import { generateMfaToken, verifyToken } from '../config/jwt.config'
+import { HTTP_STATUS, JWT_CONFIG } from '../constants'
+import { hashToken, tokenMatchesHash } from '../utils/token.util'
+import { logSecurityEvent } from '../utils/logger.util'
 import { db } from '../config/prisma'
+import { emailVerificationConfig, EMAIL_VERIFICATION_POLICIES } from '../config/auth.config'
 import { EmailService } from './Email.service'
+import { EmailVerificationService } from './EmailVerification.service'
+import { SessionService } from './Session.service'
+import { LoginAttemptService } from './LoginAttempt.service'
+import { TwoFactorService } from './TwoFactor.service'
+import { PasswordPolicyService } from './PasswordPolicy.service'
 import type {
   RegisterInput,
   LoginInput,
+  MfaLoginInput,
   ForgotPasswordInput,
   ResetPasswordInput,
   ChangePasswordInput,
   RefreshTokenInput,
   AuthResponse,
+  LoginResponse,
+  MfaLoginResponse,
+  TwoFactorSetupResponse,
+  RegisterResponse,
   RefreshTokenResponse,
 } from '../models/Auth.model'
+import type { ClientInfo } from '../models/Session.model'
+
+/**
+ * Usuario con los datos necesarios para completar el login
+ */
+type LoginUser = NonNullable<Awaited<ReturnType<AuthRepository['findByIdForLogin']>>>
 
 export class AuthService {
   private authRepository: AuthRepository
   private emailService: EmailService
+  private sessionService: SessionService
+  private emailVerificationService: EmailVerificationService
+  private loginAttemptService: LoginAttemptService
+  private twoFactorService: TwoFactorService
+  private passwordPolicyService: PasswordPolicyService
   
   constructor() {
     this.authRepository = new AuthRepository()
     this.emailService = new EmailService()
+    this.sessionService = new SessionService()
+    this.emailVerificationService = new EmailVerificationService()
+    this.loginAttemptService = new LoginAttemptService()
+    this.twoFactorService = new TwoFactorService()
+    this.passwordPolicyService = new PasswordPolicyService()
   }
   
   /**
    * Registra un nuevo usuario
    */
-  async register(input: RegisterInput): Promise<AuthResponse> {
+  async register(input: RegisterInput, client: ClientInfo = {}): Promise<RegisterResponse> {
     // Validar email
     if (!input.email || !input.email.trim()) {
       const error = new Error('El email es requerido') as Error & { statusCode?: number }
@@ -51,13 +83,8 @@ export class AuthService {
       throw error
     }
     
-    // Validar contraseña
-    const passwordValidation = validatePasswordStrength(input.password)
-    if (!passwordValidation.isValid) {
-      const error = new Error(passwordValidation.error || 'Contraseña inválida') as Error & { statusCode?: number }
-      error.statusCode = HTTP_STATUS.BAD_REQUEST
-      throw error
-    }
+    // Validar contraseña (devuelve todas las reglas incumplidas en details)
+    await this.passwordPolicyService.assertValid(input.password, { email: input.email, name: input.name ?? null })
     
     // Verificar si el email ya existe
     const emailExists = await this.authRepository.emailExists(input.email)
@@ -76,6 +103,7 @@ export class AuthService {
       password: hashedPassword,
       name: input.name,
     })
+    await this.passwordPolicyService.recordPassword(user.id, hashedPassword)
     
     // Obtener el rol del usuario
     const userWithRole = await db.user.findUnique({
@@ -85,23 +113,35 @@ export class AuthService {
     
     const roleName = userWithRole?.role?.name || 'user'
     
-    // Generar tokens
-    const tokens = generateTokens({
-      userId: user.id,
+    // Enviar el email de verificación y el de bienvenida
+    await this.emailVerificationService.sendVerification(user)
+    try {
+      await this.emailService.sendWelcomeEmail(user.email, user.name ?? undefined)
+    } catch (error) {
+      console.error('Error al enviar email de bienvenida:', error)
+    }
+    
+    const publicUser = {
+      id: user.id,
       email: user.email,
+      name: user.name,
       role: roleName,
-    })
+      emailVerified: false,
+    }
     
-    // Guardar refresh token en la BD
-    await this.authRepository.updateRefreshToken(user.id, tokens.refreshToken)
+    // Si el login requiere email verificado, no se inicia sesión todavía
+    if (emailVerificationConfig.policy === EMAIL_VERIFICATION_POLICIES.LOGIN) {
+      return { user: publicUser }
+    }
+    
+    // Crear la sesión y generar tokens
+    const tokens = await this.sessionService.startSession(
+      { id: user.id, email: user.email, role: roleName },
+      client
+    )
     
     return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: roleName,
-      },
+      user: publicUser,
       accessToken: tokens.accessToken,
       refreshToken: tokens.refreshToken,
     }
@@ -109,8 +149,11 @@ export class AuthService {
   
   /**
    * Inicia sesión de un usuario
+   * 
+   * Si el usuario tiene 2FA activa (o su rol la exige) no se emiten tokens:
+   * se devuelve un mfaToken para completar el login en completeMfaLogin.
    */
-  async login(input: LoginInput): Promise<AuthResponse> {
+  async login(input: LoginInput, client: ClientInfo = {}): Promise<LoginResponse> {
     // Validar entrada
     if (!input.email || !input.password) {
       const error = new Error('El email y la contraseña son requeridos') as Error & { statusCode?: number }
@@ -121,7 +164,11 @@ export class AuthService {
     // Buscar usuario con contraseña
     const user = await this.authRepository.findByEmailWithPassword(input.email)
     
+    // Bloqueo temporal o espera progresiva por intentos fallidos (cuenta e IP)
+    this.loginAttemptService.assertCanAttempt(user, client.ipAddress)
+    
     if (!user) {
+      await this.loginAttemptService.recordFailure(null, input.email, client)
       const error = new Error('Email o contraseña inválidos') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.UNAUTHORIZED
       throw error
@@ -134,43 +181,151 @@ export class AuthService {
       throw error
     }
     
-    // Verificar contraseña
-    const isPasswordValid = await comparePassword(input.password, user.password)
+    // Verificar contraseña (las cuentas creadas con OAuth pueden no tener)
+    const isPasswordValid = user.password !== null && await comparePassword(input.password, user.password)
     if (!isPasswordValid) {
+      const lockedUntil = await this.loginAttemptService.recordFailure(user, input.email, client)
+      if (lockedUntil) {
+        throw this.loginAttemptService.lockedError(lockedUntil.getTime() - Date.now())
+      }
+      
       const error = new Error('Email o contraseña inválidos') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.UNAUTHORIZED
       throw error
     }
     
-    // Obtener el nombre del rol
-    const roleName = user.role?.name || 'user'
+    // Contraseña caducada (PASSWORD_MAX_AGE_DAYS): debe restablecerse
+    if (this.passwordPolicyService.isExpired(user)) {
+      const error = new Error(
+        'Tu contraseña ha caducado. Restablécela con la recuperación de contraseña'
+      ) as Error & { statusCode?: number; details?: unknown }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      error.details = { passwordExpired: true }
+      throw error
+    }
     
-    // Generar tokens
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: roleName,
-    })
+    return this.finishLogin(user, client)
+  }
+  
+  /**
+   * Inicia sesión de un usuario cuya identidad ya se verificó por otro medio
+   * (proveedor OAuth / OIDC, enlace de inicio de sesión por email)
+   * 
+   * Aplica las mismas reglas que el login con contraseña: cuenta activa,
+   * bloqueo temporal, política de verificación de email y 2FA.
+   */
+  async loginWithIdentity(userId: number, client: ClientInfo = {}): Promise<LoginResponse> {
+    const user = await this.authRepository.findByIdForLogin(userId)
     
-    // Guardar refresh token en la BD
-    await this.authRepository.updateRefreshToken(user.id, tokens.refreshToken)
+    if (!user) {
+      const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED
+      throw error
+    }
     
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: roleName,
-      },
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
+    if (!user.isActive) {
+      const error = new Error('La cuenta está desactivada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
     }
+    
+    this.loginAttemptService.assertCanAttempt(user, client.ipAddress)
+    
+    return this.finishLogin(user, client)
+  }
+  
+  /**
+   * Completa el login con el código de verificación en dos pasos
+   * 
+   * Acepta un código TOTP o un código de recuperación. Si el rol exige 2FA
+   * y el usuario la estaba configurando, el código confirma la configuración
+   * y la respuesta incluye los códigos de recuperación.
+   */
+  async completeMfaLogin(input: MfaLoginInput, client: ClientInfo = {}): Promise<MfaLoginResponse> {
+    if (!input.mfaToken || !input.code) {
+      const error = new Error('El mfaToken y el código son requeridos') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
+    const payload = this.verifyMfaToken(input.mfaToken)
+    const user = await this.authRepository.findByIdForLogin(payload.userId)
+    
+    if (!user || !user.isActive) {
+      const error = new Error('Usuario no encontrado o inactivo') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED
+      throw error
+    }
+    
+    // Los códigos fallidos cuentan como intentos de login fallidos
+    this.loginAttemptService.assertCanAttempt(user, client.ipAddress)
+    
+    let recoveryCodes: string[] | undefined
+    let isCodeValid: boolean
+    
+    if (user.twoFactorEnabledAt) {
+      isCodeValid = await this.twoFactorService.verifyCode(user, input.code)
+    } else if (payload.mfaSetup && user.twoFactorSecret) {
+      try {
+        recoveryCodes = (await this.twoFactorService.confirm(user.id, input.code)).recoveryCodes
+        isCodeValid = true
+      } catch (error) {
+        if ((error as Error & { statusCode?: number }).statusCode !== HTTP_STATUS.UNAUTHORIZED) {
+          throw error
+        }
+        isCodeValid = false
+      }
+    } else {
+      const error = new Error('Primero debes configurar la verificación en dos pasos') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
+    if (!isCodeValid) {
+      const lockedUntil = await this.loginAttemptService.recordFailure(user, user.email, client)
+      if (lockedUntil) {
+        throw this.loginAttemptService.lockedError(lockedUntil.getTime() - Date.now())
+      }
+      throw this.twoFactorService.invalidCodeError()
+    }
+    
+    await this.loginAttemptService.recordSuccess(user)
+    
+    const response: MfaLoginResponse = await this.createAuthResponse(user, user.role.name, client)
+    if (recoveryCodes) {
+      response.recoveryCodes = recoveryCodes
+    }
+    
+    return response
+  }
+  
+  /**
+   * Inicia la configuración de 2FA durante el login (rol que exige 2FA)
+   * 
+   * Solo acepta mfaTokens emitidos para usuarios que deben configurarla.
+   */
+  async setupMfaLogin(mfaToken: string): Promise<TwoFactorSetupResponse> {
+    if (!mfaToken) {
+      const error = new Error('El mfaToken es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
+    const payload = this.verifyMfaToken(mfaToken)
+    
+    if (!payload.mfaSetup) {
+      const error = new Error('La verificación en dos pasos ya está configurada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+    
+    return this.twoFactorService.setup(payload.userId)
   }
   
   /**
    * Refresca el access token usando un refresh token
    */
-  async refreshToken(input: RefreshTokenInput): Promise<RefreshTokenResponse> {
+  async refreshToken(input: RefreshTokenInput, client: ClientInfo = {}): Promise<RefreshTokenResponse> {
     if (!input.refreshToken) {
       const error = new Error('El token de refresco es requerido') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
@@ -180,14 +335,23 @@ export class AuthService {
     // Verificar el refresh token
     let payload
     try {
-      payload = verifyToken(input.refreshToken)
+      payload = verifyToken(input.refreshToken, JWT_CONFIG.TOKEN_TYPES.REFRESH)
     } catch (error) {
       const authError = new Error('Token de refresco inválido o expirado') as Error & { statusCode?: number }
       authError.statusCode = HTTP_STATUS.UNAUTHORIZED
       throw authError
     }
     
-    // Buscar usuario y verificar que el refresh token coincida
+    // Buscar el refresh token (revoca la sesión si ya había sido rotado)
+    const record = await this.sessionService.findValidRefreshToken(input.refreshToken, client)
+    
+    if (record.session.userId !== payload.userId) {
+      const error = new Error('Token de refresco inválido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED
+      throw error
+    }
+    
+    // Buscar usuario
     const user = await this.authRepository.findById(payload.userId)
     
     if (!user) {
@@ -202,36 +366,21 @@ export class AuthService {
       throw error
     }
     
-    // Verificar que el refresh token almacenado coincida
-    if (user.refreshToken !== input.refreshToken) {
-      const error = new Error('Token de refresco inválido') as Error & { statusCode?: number }
-      error.statusCode = HTTP_STATUS.UNAUTHORIZED
-      throw error
-    }
-    
     // Obtener el nombre del rol
     const roleName = user.role?.name || 'user'
     
-    // Generar nuevos tokens
-    const tokens = generateTokens({
-      userId: user.id,
-      email: user.email,
-      role: roleName,
-    })
-    
-    // Actualizar refresh token en la BD
-    await this.authRepository.updateRefreshToken(user.id, tokens.refreshToken)
-    
-    return {
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-    }
+    // Rotar: nuevos tokens para la misma sesión (familia)
+    return this.sessionService.rotateSession(
+      record,
+      { id: user.id, email: user.email, role: roleName },
+      client
+    )
   }
   
   /**
    * Solicita recuperación de contraseña (envía email con token)
    */
-  async forgotPassword(input: ForgotPasswordInput): Promise<{ message: string }> {
+  async forgotPassword(input: ForgotPasswordInput, client: ClientInfo = {}): Promise<{ message: string }> {
     if (!input.email) {
       const error = new Error('El email es requerido') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
@@ -254,8 +403,14 @@ export class AuthService {
     const resetExpires = new Date()
     resetExpires.setHours(resetExpires.getHours() + 1) // Expira en 1 hora
     
-    // Guardar token en la BD
-    await this.authRepository.updatePasswordResetToken(user.id, resetToken, resetExpires)
+    // Guardar solo el hash del token (reemplaza e invalida cualquier token anterior)
+    await this.authRepository.updatePasswordResetToken(user.id, hashToken(resetToken), resetExpires)
+    
+    logSecurityEvent('password_reset_requested', {
+      userId: user.id,
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+    })
     
     // Enviar email con el token de recuperación
     try {
@@ -278,38 +433,46 @@ export class AuthService {
   /**
    * Resetea la contraseña usando un token de recuperación
    */
-  async resetPassword(input: ResetPasswordInput): Promise<{ message: string }> {
+  async resetPassword(input: ResetPasswordInput, client: ClientInfo = {}): Promise<{ message: string }> {
     if (!input.token || !input.password) {
       const error = new Error('El token y la contraseña son requeridos') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
       throw error
     }
     
-    // Validar fortaleza de la nueva contraseña
-    const passwordValidation = validatePasswordStrength(input.password)
-    if (!passwordValidation.isValid) {
-      const error = new Error(passwordValidation.error || 'Contraseña inválida') as Error & { statusCode?: number }
-      error.statusCode = HTTP_STATUS.BAD_REQUEST
-      throw error
+    // Buscar usuario por el hash del token y comparar en tiempo constante
+    const tokenHash = hashToken(input.token)
+    const user = await this.authRepository.findByPasswordResetToken(tokenHash)
+    
+    if (!user || !tokenMatchesHash(input.token, user.passwordResetTokenHash)) {
+      throw this.invalidResetTokenError()
     }
     
-    // Buscar usuario por token
-    const user = await this.authRepository.findByPasswordResetToken(input.token)
+    // Validar la nueva contraseña antes de consumir el token
+    // (si no cumple la política el enlace sigue sirviendo)
+    await this.passwordPolicyService.assertValid(input.password, user)
     
-    if (!user) {
-      const error = new Error('Token de restablecimiento inválido o expirado') as Error & { statusCode?: number }
-      error.statusCode = HTTP_STATUS.BAD_REQUEST
-      throw error
+    // Consumir el token (un solo uso)
+    if (!(await this.authRepository.consumePasswordResetToken(user.id, tokenHash))) {
+      throw this.invalidResetTokenError()
     }
     
     // Hash de la nueva contraseña
     const hashedPassword = await hashPassword(input.password)
     
-    // Actualizar contraseña y limpiar token
+    // Actualizar contraseña
     await this.authRepository.updatePassword(user.id, hashedPassword)
+    await this.passwordPolicyService.recordPassword(user.id, hashedPassword)
     
-    // Invalidar todos los refresh tokens (forzar re-login)
-    await this.authRepository.updateRefreshToken(user.id, null)
+    // Revocar todas las sesiones (forzar re-login)
+    await this.sessionService.revokeAllSessions(user.id)
+    
+    logSecurityEvent('password_reset', {
+      userId: user.id,
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+    })
+    await this.notifyPasswordChanged(user.email, client)
     
     return {
       message: 'La contraseña ha sido restablecida exitosamente',
@@ -318,22 +481,21 @@ export class AuthService {
   
   /**
    * Cambia la contraseña (requiere autenticación)
+   * 
+   * @param currentSessionId - Sesión desde la que se cambia la contraseña (se mantiene activa)
    */
-  async changePassword(userId: number, input: ChangePasswordInput): Promise<{ message: string }> {
+  async changePassword(
+    userId: number,
+    input: ChangePasswordInput,
+    currentSessionId?: string,
+    client: ClientInfo = {}
+  ): Promise<{ message: string }> {
     if (!input.currentPassword || !input.newPassword) {
       const error = new Error('La contraseña actual y la nueva contraseña son requeridas') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
       throw error
     }
     
-    // Validar fortaleza de la nueva contraseña
-    const passwordValidation = validatePasswordStrength(input.newPassword)
-    if (!passwordValidation.isValid) {
-      const error = new Error(passwordValidation.error || 'Contraseña inválida') as Error & { statusCode?: number }
-      error.statusCode = HTTP_STATUS.BAD_REQUEST
-      throw error
-    }
-    
     // Buscar usuario con contraseña
     const user = await this.authRepository.findByEmailWithPassword(
       (await this.authRepository.findById(userId))?.email || ''
@@ -345,6 +507,13 @@ export class AuthService {
       throw error
     }
     
+    // Las cuentas creadas con OAuth no tienen contraseña: se crea con la recuperación
+    if (user.password === null) {
+      const error = new Error('Tu cuenta no tiene contraseña. Usa la recuperación de contraseña para crear una') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
     // Verificar contraseña actual
     const isCurrentPasswordValid = await comparePassword(input.currentPassword, user.password)
     if (!isCurrentPasswordValid) {
@@ -353,14 +522,29 @@ export class AuthService {
       throw error
     }
     
+    // Validar la nueva contraseña (política e historial)
+    await this.passwordPolicyService.assertValid(input.newPassword, user)
+    
     // Hash de la nueva contraseña
     const hashedPassword = await hashPassword(input.newPassword)
     
     // Actualizar contraseña
     await this.authRepository.updatePassword(user.id, hashedPassword)
+    await this.passwordPolicyService.recordPassword(user.id, hashedPassword)
     
-    // Invalidar todos los refresh tokens (forzar re-login en otros dispositivos)
-    await this.authRepository.updateRefreshToken(user.id, null)
+    // Revocar las demás sesiones (forzar re-login en otros dispositivos)
+    if (currentSessionId) {
+      await this.sessionService.revokeOtherSessions(user.id, currentSessionId)
+    } else {
+      await this.sessionService.revokeAllSessions(user.id)
+    }
+    
+    logSecurityEvent('password_changed', {
+      userId: user.id,
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+    })
+    await this.notifyPasswordChanged(user.email, client)
     
     return {
       message: 'La contraseña ha sido cambiada exitosamente',
@@ -368,14 +552,122 @@ export class AuthService {
   }
   
   /**
-   * Cierra sesión (invalida el refresh token)
+   * Cierra sesión (revoca la sesión actual)
+   * 
+   * Las sesiones abiertas en otros dispositivos siguen activas.
+   * Si el token no identifica una sesión, se revocan todas.
    */
-  async logout(userId: number): Promise<{ message: string }> {
-    await this.authRepository.updateRefreshToken(userId, null)
+  async logout(userId: number, sessionId?: string): Promise<{ message: string }> {
+    if (sessionId) {
+      await this.sessionService.revokeSession(userId, sessionId)
+    } else {
+      await this.sessionService.revokeAllSessions(userId)
+    }
     
     return {
       message: 'Sesión cerrada exitosamente',
     }
   }
+  
+  /**
+   * Último paso del login, una vez verificadas las credenciales
+   * 
+   * Si el usuario tiene 2FA activa (o su rol la exige) devuelve el desafío
+   * en lugar de los tokens.
+   */
+  private async finishLogin(user: LoginUser, client: ClientInfo): Promise<LoginResponse> {
+    // Política de verificación: bloquear el login hasta verificar el email
+    if (
+      emailVerificationConfig.policy === EMAIL_VERIFICATION_POLICIES.LOGIN &&
+      !user.emailVerifiedAt
+    ) {
+      const error = new Error('Debes verificar tu email antes de iniciar sesión') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+    
+    // Obtener el nombre del rol
+    const roleName = user.role?.name || 'user'
+    
+    // Verificación en dos pasos: el contador de intentos fallidos se reinicia
+    // cuando se completa el segundo paso, no antes
+    const mfaSetupRequired = !user.twoFactorEnabledAt && user.role.requireTwoFactor
+    if (user.twoFactorEnabledAt || mfaSetupRequired) {
+      return {
+        mfaRequired: true,
+        mfaToken: generateMfaToken({
+          userId: user.id,
+          email: user.email,
+          role: roleName,
+          ...(mfaSetupRequired && { mfaSetup: true }),
+        }),
+        mfaSetupRequired,
+      }
+    }
+    
+    // Credenciales correctas: reiniciar el contador de intentos fallidos
+    await this.loginAttemptService.recordSuccess(user)
+    
+    return this.createAuthResponse(user, roleName, client)
+  }
+  
+  /**
+   * Inicia una sesión y construye la respuesta de autenticación
+   */
+  private async createAuthResponse(
+    user: { id: number; email: string; name: string | null; emailVerifiedAt: Date | null },
+    roleName: string,
+    client: ClientInfo
+  ): Promise<AuthResponse> {
+    // Crear una nueva sesión (no afecta las sesiones de otros dispositivos)
+    const tokens = await this.sessionService.startSession(
+      { id: user.id, email: user.email, role: roleName },
+      client
+    )
+    
+    return {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: roleName,
+        emailVerified: user.emailVerifiedAt !== null,
+      },
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    }
+  }
+  
+  /**
+   * Error de token de restablecimiento inválido, expirado o ya usado
+   */
+  private invalidResetTokenError(): Error {
+    const error = new Error('Token de restablecimiento inválido o expirado') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.BAD_REQUEST
+    return error
+  }
+  
+  /**
+   * Avisa por email de que la contraseña cambió (no falla la operación si el envío falla)
+   */
+  private async notifyPasswordChanged(email: string, client: ClientInfo): Promise<void> {
+    try {
+      await this.emailService.sendPasswordChangedEmail(email, new Date(), client)
+    } catch (error) {
+      console.error('Error al enviar email de contraseña cambiada:', error)
+    }
+  }
+  
+  /**
+   * Verifica el token del segundo paso del login
+   */
+  private verifyMfaToken(mfaToken: string) {
+    try {
+      return verifyToken(mfaToken, JWT_CONFIG.TOKEN_TYPES.MFA)
+    } catch (error) {
+      const authError = new Error('Token de verificación inválido o expirado') as Error & { statusCode?: number }
+      authError.statusCode = HTTP_STATUS.UNAUTHORIZED
+      throw authError
+    }
+  }
 }
-
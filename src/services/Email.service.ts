@@ -3,6 +3,10 @@
  * 
  * Este service maneja el envío de emails transaccionales:
  * - Recuperación de contraseña
+ * - Verificación de email
+ * - Enlaces de inicio de sesión sin contraseña (magic link)
+ * - Invitaciones a organizaciones
+ * - Avisos de seguridad (cuenta bloqueada, contraseña cambiada)
  * - Confirmación de registro
  * - Notificaciones
  * - etc.
@@ -14,6 +18,19 @@
  */
 
 import { emailTransporter, emailConfig } from '../config/email.config'
+import type { ClientInfo } from '../models/Session.model'
+
+/**
+ * Escapa texto no confiable (ej: user agent, nombre de organización) antes de incluirlo en el HTML
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
 
 export class EmailService {
   /**
@@ -119,6 +136,483 @@ export class EmailService {
     }
   }
 
+  /**
+   * Envía un email para verificar la dirección de correo
+   * 
+   * @param email - Email del destinatario (la dirección a verificar)
+   * @param verificationToken - Token de verificación
+   * @param expiresInHours - Horas de validez del token
+   * @param verifyUrl - URL completa para verificar el email (opcional)
+   */
+  async sendVerificationEmail(
+    email: string,
+    verificationToken: string,
+    expiresInHours: number,
+    verifyUrl?: string
+  ): Promise<void> {
+    const verifyLink = verifyUrl || `${emailConfig.frontendUrl}/verify-email?token=${verificationToken}`
+
+    // En desarrollo sin SMTP configurado, solo imprimir en consola
+    if (!emailTransporter) {
+      console.log('\n📧 ===== EMAIL DE VERIFICACIÓN =====')
+      console.log(`Para: ${email}`)
+      console.log(`Asunto: Verifica tu email`)
+      console.log(`Token: ${verificationToken}`)
+      console.log(`Enlace: ${verifyLink}`)
+      console.log('===========================================\n')
+      return
+    }
+
+    const mailOptions = {
+      from: emailConfig.from,
+      to: email,
+      subject: 'Verifica tu email',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Verifica tu email</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+            <h2 style="color: #333;">Verifica tu email</h2>
+            <p>Hola,</p>
+            <p>Confirma que esta dirección de correo te pertenece haciendo clic en el siguiente enlace:</p>
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${verifyLink}" 
+                 style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Verificar Email
+              </a>
+            </p>
+            <p>O copia y pega este enlace en tu navegador:</p>
+            <p style="background-color: #f9f9f9; padding: 10px; border-radius: 3px; word-break: break-all; font-size: 12px;">
+              ${verifyLink}
+            </p>
+            <p><strong>Este enlace expirará en ${expiresInHours} horas.</strong></p>
+            <p>Si no creaste una cuenta ni cambiaste tu email, puedes ignorar este mensaje.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+            <p style="font-size: 12px; color: #666;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Verifica tu email
+        
+        Hola,
+        
+        Confirma que esta dirección de correo te pertenece abriendo el siguiente enlace:
+        ${verifyLink}
+        
+        Este enlace expirará en ${expiresInHours} horas.
+        
+        Si no creaste una cuenta ni cambiaste tu email, puedes ignorar este mensaje.
+        
+        ---
+        Este es un email automático, por favor no respondas a este mensaje.
+      `,
+    }
+
+    try {
+      const info = await emailTransporter.sendMail(mailOptions)
+      
+      if (process.env.NODE_ENV === 'development') {
+        console.log('📧 Email de verificación enviado:')
+        console.log(`   Para: ${email}`)
+        console.log(`   Token: ${verificationToken}`)
+        console.log(`   Message ID: ${info.messageId}`)
+      }
+    } catch (error) {
+      console.error('❌ Error al enviar email de verificación:', error)
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Error al enviar email de verificación')
+      }
+    }
+  }
+
+  /**
+   * Envía un enlace de inicio de sesión sin contraseña (magic link)
+   * 
+   * @param email - Email del destinatario
+   * @param loginToken - Token de un solo uso
+   * @param expiresInMinutes - Minutos de validez del token
+   * @param loginUrl - URL completa para iniciar sesión (opcional)
+   */
+  async sendMagicLinkEmail(
+    email: string,
+    loginToken: string,
+    expiresInMinutes: number,
+    loginUrl?: string
+  ): Promise<void> {
+    const loginLink = loginUrl || `${emailConfig.frontendUrl}/magic-link?token=${loginToken}`
+
+    // En desarrollo sin SMTP configurado, solo imprimir en consola
+    if (!emailTransporter) {
+      console.log('\n📧 ===== EMAIL DE INICIO DE SESIÓN =====')
+      console.log(`Para: ${email}`)
+      console.log(`Asunto: Tu enlace para iniciar sesión`)
+      console.log(`Token: ${loginToken}`)
+      console.log(`Enlace: ${loginLink}`)
+      console.log('===========================================\n')
+      return
+    }
+
+    const mailOptions = {
+      from: emailConfig.from,
+      to: email,
+      subject: 'Tu enlace para iniciar sesión',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Tu enlace para iniciar sesión</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+            <h2 style="color: #333;">Inicia sesión</h2>
+            <p>Hola,</p>
+            <p>Recibimos una solicitud para iniciar sesión con esta dirección de correo. Haz clic en el siguiente enlace para entrar:</p>
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${loginLink}" 
+                 style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Iniciar Sesión
+              </a>
+            </p>
+            <p>O copia y pega este enlace en tu navegador:</p>
+            <p style="background-color: #f9f9f9; padding: 10px; border-radius: 3px; word-break: break-all; font-size: 12px;">
+              ${loginLink}
+            </p>
+            <p><strong>Este enlace expirará en ${expiresInMinutes} minutos y solo puede usarse una vez.</strong></p>
+            <p>Si no solicitaste iniciar sesión, puedes ignorar este mensaje.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+            <p style="font-size: 12px; color: #666;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Inicia sesión
+        
+        Hola,
+        
+        Recibimos una solicitud para iniciar sesión con esta dirección de correo. Abre el siguiente enlace para entrar:
+        ${loginLink}
+        
+        Este enlace expirará en ${expiresInMinutes} minutos y solo puede usarse una vez.
+        
+        Si no solicitaste iniciar sesión, puedes ignorar este mensaje.
+        
+        ---
+        Este es un email automático, por favor no respondas a este mensaje.
+      `,
+    }
+
+    try {
+      const info = await emailTransporter.sendMail(mailOptions)
+      
+      if (process.env.NODE_ENV === 'development') {
+        console.log('📧 Email de inicio de sesión enviado:')
+        console.log(`   Para: ${email}`)
+        console.log(`   Message ID: ${info.messageId}`)
+      }
+    } catch (error) {
+      console.error('❌ Error al enviar email de inicio de sesión:', error)
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Error al enviar email de inicio de sesión')
+      }
+    }
+  }
+
+  /**
+   * Envía una invitación para unirse a una organización
+   * 
+   * @param email - Email del invitado
+   * @param organizationName - Nombre de la organización
+   * @param invitationToken - Token de la invitación
+   * @param expiresInHours - Horas de validez de la invitación
+   * @param acceptUrl - URL completa para aceptar la invitación (opcional)
+   */
+  async sendOrganizationInvitationEmail(
+    email: string,
+    organizationName: string,
+    invitationToken: string,
+    expiresInHours: number,
+    acceptUrl?: string
+  ): Promise<void> {
+    const acceptLink = acceptUrl || `${emailConfig.frontendUrl}/accept-invitation?token=${invitationToken}`
+    const safeOrganizationName = escapeHtml(organizationName)
+
+    // En desarrollo sin SMTP configurado, solo imprimir en consola
+    if (!emailTransporter) {
+      console.log('\n📧 ===== EMAIL DE INVITACIÓN =====')
+      console.log(`Para: ${email}`)
+      console.log(`Asunto: Te invitaron a ${organizationName}`)
+      console.log(`Token: ${invitationToken}`)
+      console.log(`Enlace: ${acceptLink}`)
+      console.log('===========================================\n')
+      return
+    }
+
+    const mailOptions = {
+      from: emailConfig.from,
+      to: email,
+      subject: `Te invitaron a ${organizationName}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Invitación a ${safeOrganizationName}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+            <h2 style="color: #333;">Te invitaron a ${safeOrganizationName}</h2>
+            <p>Hola,</p>
+            <p>Recibiste una invitación para unirte a la organización <strong>${safeOrganizationName}</strong>. Inicia sesión con esta dirección de correo (o crea una cuenta con ella) y haz clic en el siguiente enlace para aceptarla:</p>
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${acceptLink}" 
+                 style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Aceptar Invitación
+              </a>
+            </p>
+            <p>O copia y pega este enlace en tu navegador:</p>
+            <p style="background-color: #f9f9f9; padding: 10px; border-radius: 3px; word-break: break-all; font-size: 12px;">
+              ${acceptLink}
+            </p>
+            <p><strong>Esta invitación expirará en ${expiresInHours} horas.</strong></p>
+            <p>Si no esperabas esta invitación, puedes ignorar este mensaje: no te unirás a la organización.</p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+            <p style="font-size: 12px; color: #666;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Te invitaron a ${organizationName}
+        
+        Hola,
+        
+        Recibiste una invitación para unirte a la organización ${organizationName}. Inicia sesión con esta dirección de correo (o crea una cuenta con ella) y abre el siguiente enlace para aceptarla:
+        ${acceptLink}
+        
+        Esta invitación expirará en ${expiresInHours} horas.
+        
+        Si no esperabas esta invitación, puedes ignorar este mensaje: no te unirás a la organización.
+        
+        ---
+        Este es un email automático, por favor no respondas a este mensaje.
+      `,
+    }
+
+    try {
+      const info = await emailTransporter.sendMail(mailOptions)
+      
+      if (process.env.NODE_ENV === 'development') {
+        console.log('📧 Email de invitación enviado:')
+        console.log(`   Para: ${email}`)
+        console.log(`   Message ID: ${info.messageId}`)
+      }
+    } catch (error) {
+      console.error('❌ Error al enviar email de invitación:', error)
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Error al enviar email de invitación')
+      }
+    }
+  }
+
+  /**
+   * Envía un aviso de contraseña cambiada (restablecida o cambiada desde la cuenta)
+   * 
+   * @param email - Email del destinatario
+   * @param changedAt - Fecha del cambio
+   * @param client - IP y dispositivo desde el que se hizo el cambio
+   */
+  async sendPasswordChangedEmail(email: string, changedAt: Date, client: ClientInfo = {}): Promise<void> {
+    const resetLink = `${emailConfig.frontendUrl}/forgot-password`
+    const when = changedAt.toISOString()
+    const ipAddress = client.ipAddress || 'desconocida'
+    const userAgent = client.userAgent || 'desconocido'
+
+    // En desarrollo sin SMTP configurado, solo imprimir en consola
+    if (!emailTransporter) {
+      console.log('\n📧 ===== EMAIL DE CONTRASEÑA CAMBIADA =====')
+      console.log(`Para: ${email}`)
+      console.log(`Asunto: Tu contraseña ha sido cambiada`)
+      console.log(`Fecha: ${when}`)
+      console.log(`IP: ${ipAddress}`)
+      console.log('===========================================\n')
+      return
+    }
+
+    const mailOptions = {
+      from: emailConfig.from,
+      to: email,
+      subject: 'Tu contraseña ha sido cambiada',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Contraseña cambiada</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+            <h2 style="color: #333;">Tu contraseña ha sido cambiada</h2>
+            <p>Hola,</p>
+            <p>La contraseña de tu cuenta se cambió correctamente y se cerraron las sesiones abiertas en otros dispositivos.</p>
+            <p>
+              <strong>Fecha:</strong> ${when} (UTC)<br>
+              <strong>IP:</strong> ${escapeHtml(ipAddress)}<br>
+              <strong>Dispositivo:</strong> ${escapeHtml(userAgent)}
+            </p>
+            <p>Si no fuiste tú, restablece tu contraseña de inmediato:</p>
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${resetLink}" 
+                 style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Restablecer Contraseña
+              </a>
+            </p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+            <p style="font-size: 12px; color: #666;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Tu contraseña ha sido cambiada
+        
+        Hola,
+        
+        La contraseña de tu cuenta se cambió correctamente y se cerraron las sesiones abiertas en otros dispositivos.
+        
+        Fecha: ${when} (UTC)
+        IP: ${ipAddress}
+        Dispositivo: ${userAgent}
+        
+        Si no fuiste tú, restablece tu contraseña de inmediato:
+        ${resetLink}
+        
+        ---
+        Este es un email automático, por favor no respondas a este mensaje.
+      `,
+    }
+
+    try {
+      const info = await emailTransporter.sendMail(mailOptions)
+      
+      if (process.env.NODE_ENV === 'development') {
+        console.log('📧 Email de contraseña cambiada enviado:')
+        console.log(`   Para: ${email}`)
+        console.log(`   Message ID: ${info.messageId}`)
+      }
+    } catch (error) {
+      console.error('❌ Error al enviar email de contraseña cambiada:', error)
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Error al enviar email de contraseña cambiada')
+      }
+    }
+  }
+
+  /**
+   * Envía un aviso de cuenta bloqueada por intentos fallidos
+   * 
+   * @param email - Email del destinatario
+   * @param lockedUntil - Fecha hasta la que la cuenta permanece bloqueada
+   */
+  async sendAccountLockedEmail(email: string, lockedUntil: Date): Promise<void> {
+    const resetLink = `${emailConfig.frontendUrl}/forgot-password`
+    const until = lockedUntil.toISOString()
+
+    // En desarrollo sin SMTP configurado, solo imprimir en consola
+    if (!emailTransporter) {
+      console.log('\n📧 ===== EMAIL DE CUENTA BLOQUEADA =====')
+      console.log(`Para: ${email}`)
+      console.log(`Asunto: Tu cuenta ha sido bloqueada temporalmente`)
+      console.log(`Bloqueada hasta: ${until}`)
+      console.log('===========================================\n')
+      return
+    }
+
+    const mailOptions = {
+      from: emailConfig.from,
+      to: email,
+      subject: 'Tu cuenta ha sido bloqueada temporalmente',
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Cuenta bloqueada</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background-color: #f4f4f4; padding: 20px; border-radius: 5px;">
+            <h2 style="color: #333;">Cuenta bloqueada temporalmente</h2>
+            <p>Hola,</p>
+            <p>Detectamos varios intentos fallidos de inicio de sesión en tu cuenta, por lo que la hemos bloqueado temporalmente.</p>
+            <p><strong>Podrás volver a intentarlo a partir de: ${until} (UTC)</strong></p>
+            <p>Si no fuiste tú, te recomendamos restablecer tu contraseña:</p>
+            <p style="text-align: center; margin: 30px 0;">
+              <a href="${resetLink}" 
+                 style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">
+                Restablecer Contraseña
+              </a>
+            </p>
+            <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+            <p style="font-size: 12px; color: #666;">
+              Este es un email automático, por favor no respondas a este mensaje.
+            </p>
+          </div>
+        </body>
+        </html>
+      `,
+      text: `
+        Cuenta bloqueada temporalmente
+        
+        Hola,
+        
+        Detectamos varios intentos fallidos de inicio de sesión en tu cuenta, por lo que la hemos bloqueado temporalmente.
+        
+        Podrás volver a intentarlo a partir de: ${until} (UTC)
+        
+        Si no fuiste tú, te recomendamos restablecer tu contraseña:
+        ${resetLink}
+        
+        ---
+        Este es un email automático, por favor no respondas a este mensaje.
+      `,
+    }
+
+    try {
+      const info = await emailTransporter.sendMail(mailOptions)
+      
+      if (process.env.NODE_ENV === 'development') {
+        console.log('📧 Email de cuenta bloqueada enviado:')
+        console.log(`   Para: ${email}`)
+        console.log(`   Message ID: ${info.messageId}`)
+      }
+    } catch (error) {
+      console.error('❌ Error al enviar email de cuenta bloqueada:', error)
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('Error al enviar email de cuenta bloqueada')
+      }
+    }
+  }
+
   /**
    * Envía un email de bienvenida después del registro
    * 
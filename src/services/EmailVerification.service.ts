@@ -0,0 +1,132 @@
+/**
+ * EMAIL VERIFICATION SERVICE - Verificación de Email
+ *
+ * Este service maneja la verificación de la dirección de correo:
+ * - Generar y enviar el token de verificación (registro y cambio de email)
+ * - Verificar el token
+ * - Reenviar el email de verificación (con límites de frecuencia)
+ *
+ * Los tokens se guardan hasheados (SHA-256) y expiran según
+ * EMAIL_VERIFICATION_EXPIRES_HOURS.
+ *
+ * USO:
+ *   import { EmailVerificationService } from '../services/EmailVerification.service'
+ *   const emailVerificationService = new EmailVerificationService()
+ *   await emailVerificationService.sendVerification(user)
+ */
+
+import { AuthRepository } from '../repositories/Auth.repository'
+import { EmailService } from './Email.service'
+import { emailVerificationConfig } from '../config/auth.config'
+import { generateResetToken } from '../utils/password.util'
+import { hashToken } from '../utils/token.util'
+import { RateLimiter } from '../utils/rate-limit.util'
+import { HTTP_STATUS } from '../constants'
+import type { ClientInfo } from '../models/Session.model'
+
+/**
+ * Límite de solicitudes de reenvío por IP (ventana de 15 minutos)
+ * Se comparte entre instancias del service
+ */
+const resendLimiter = new RateLimiter(emailVerificationConfig.resendMaxPerIp, 15 * 60 * 1000)
+
+/**
+ * Mensaje genérico de reenvío (no revela si el email existe)
+ */
+const RESEND_MESSAGE = 'Si existe una cuenta pendiente de verificación con ese email, se ha enviado un nuevo enlace.'
+
+export class EmailVerificationService {
+  private authRepository: AuthRepository
+  private emailService: EmailService
+
+  constructor() {
+    this.authRepository = new AuthRepository()
+    this.emailService = new EmailService()
+  }
+
+  /**
+   * Genera un nuevo token de verificación y lo envía al email del usuario
+   *
+   * El email queda marcado como no verificado hasta que se use el token.
+   */
+  async sendVerification(user: { id: number; email: string }): Promise<void> {
+    const token = generateResetToken()
+    const expiresAt = new Date()
+    expiresAt.setHours(expiresAt.getHours() + emailVerificationConfig.tokenExpiresInHours)
+
+    await this.authRepository.startEmailVerification(user.id, hashToken(token), expiresAt)
+
+    try {
+      await this.emailService.sendVerificationEmail(
+        user.email,
+        token,
+        emailVerificationConfig.tokenExpiresInHours
+      )
+    } catch (error) {
+      // El usuario puede solicitar un reenvío si el email no llega
+      console.error('Error al enviar email de verificación:', error)
+    }
+  }
+
+  /**
+   * Verifica el email usando el token recibido
+   */
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    if (!token) {
+      const error = new Error('El token es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const user = await this.authRepository.findByEmailVerificationToken(hashToken(token))
+
+    if (!user) {
+      const error = new Error('Token de verificación inválido o expirado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    await this.authRepository.markEmailVerified(user.id)
+
+    return {
+      message: 'El email ha sido verificado exitosamente',
+    }
+  }
+
+  /**
+   * Reenvía el email de verificación
+   *
+   * Límites:
+   * - Por IP: EMAIL_VERIFICATION_RESEND_MAX_PER_IP solicitudes cada 15 minutos (429)
+   * - Por cuenta: un envío cada EMAIL_VERIFICATION_RESEND_COOLDOWN segundos
+   *   (las solicitudes dentro del intervalo se ignoran sin revelar si el email existe)
+   */
+  async resendVerification(email: string, client: ClientInfo = {}): Promise<{ message: string }> {
+    if (!email) {
+      const error = new Error('El email es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (client.ipAddress && !resendLimiter.consume(client.ipAddress)) {
+      const error = new Error('Demasiadas solicitudes. Intenta de nuevo más tarde') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.TOO_MANY_REQUESTS
+      throw error
+    }
+
+    const user = await this.authRepository.findByEmail(email)
+
+    if (!user || user.emailVerifiedAt) {
+      return { message: RESEND_MESSAGE }
+    }
+
+    const cooldownMs = emailVerificationConfig.resendCooldownSeconds * 1000
+    const lastSent = user.emailVerificationSentAt?.getTime() ?? 0
+
+    if (Date.now() - lastSent >= cooldownMs) {
+      await this.sendVerification(user)
+    }
+
+    return { message: RESEND_MESSAGE }
+  }
+}
@@ -6,23 +6,38 @@
  * - Guardado y eliminación
  * - Generación de nombres únicos
  * - Organización por carpetas
+ * - Propiedad: los archivos de cada usuario se guardan en "users/<userId>/"
+ * - Registro: cada archivo subido se registra en la base de datos (tabla files)
+ *   con su propietario, organización, storage, ruta y metadatos
+ * - Organizaciones: con organización activa solo se ven los archivos de esa organización
+ * - Lectura en streaming (descargas con rangos de bytes)
+ * - URLs firmadas: temporales y sin autenticación (ej: imágenes privadas en <img>)
  * 
  * USO:
  *   import { FileService } from '../services/File.service'
  *   const fileService = new FileService()
- *   const result = await fileService.uploadFile(buffer, 'imagen.jpg', 'image/jpeg')
+ *   const result = await fileService.uploadFile(buffer, 'imagen.jpg', 'image/jpeg', { ownerId: 5 })
  */
 
-import { storageProvider } from '../config/storage.config'
+import { createHash } from 'crypto'
+import type { File } from '@prisma/client'
+import { storageProvider, SIGNED_URL_CONFIG } from '../config/storage.config'
+import { FileRepository } from '../repositories/File.repository'
+import { HTTP_STATUS } from '../constants'
+import { FILE_VISIBILITY } from '../models/File.model'
+import type { FileFilters, FileInfo, FileVisibility } from '../models/File.model'
+import type { PaginatedResponse } from '../types'
+import type { ByteRange, SignedUrlOptions } from '../storage/interfaces/Storage.interface'
+import { verifyStoragePathSignature } from '../utils/signed-url.util'
 import {
   generateUniqueFilename,
   generateDateBasedPath,
   isValidMimeType,
   isValidFileSize,
+  isInlineSafeMimeType,
   ALLOWED_MIME_TYPES,
   MAX_FILE_SIZES,
 } from '../utils/file.util'
-import type { UploadedFile } from '../storage/interfaces/Storage.interface'
 
 export interface FileUploadOptions {
   folder?: string // Carpeta donde guardar (opcional)
@@ -30,17 +45,44 @@ export interface FileUploadOptions {
   allowedMimeTypes?: string[] // Tipos MIME permitidos
   maxSize?: number // Tamaño máximo en bytes
   prefix?: string // Prefijo para el nombre del archivo
+  ownerId?: number // Propietario del archivo (se registra en la base de datos)
+  uploadedById?: number // Usuario que lo sube
+  organizationId?: number // Organización activa al subirlo
+  visibility?: FileVisibility // "private" por defecto
 }
 
+/**
+ * Carpeta raíz de los archivos de cada usuario ("users/<userId>/...")
+ */
+const OWNER_FOLDER = 'users'
+
+/**
+ * Ruta de las descargas de archivos registrados ("<prefijo>/<id>/download")
+ */
+const DOWNLOAD_URL_PREFIX = '/api/v1/files'
+
 export interface FileUploadResult {
   success: boolean
-  file?: UploadedFile
+  file?: FileInfo
   error?: string
 }
 
+export interface SignedUrlResult {
+  url: string
+  expiresAt: Date
+}
+
 export class FileService {
+  private fileRepository: FileRepository
+
+  constructor() {
+    this.fileRepository = new FileRepository()
+  }
+
   /**
-   * Sube un archivo al storage
+   * Sube un archivo al storage y lo registra en la base de datos
+   * 
+   * Si el registro falla, se elimina el objeto guardado (no quedan objetos sin registrar).
    * 
    * @param file - Buffer del archivo
    * @param originalName - Nombre original del archivo
@@ -77,6 +119,14 @@ export class FileService {
         }
       }
 
+      // La carpeta no puede salir de la carpeta destino (la propiedad depende de la ruta)
+      if (options.folder && !isSafeRelativePath(options.folder)) {
+        return {
+          success: false,
+          error: 'Carpeta inválida',
+        }
+      }
+
       // Generar nombre único
       const filename = generateUniqueFilename(originalName, options.prefix)
 
@@ -90,9 +140,29 @@ export class FileService {
       // Guardar archivo
       const uploadedFile = await storageProvider.save(file, filename, mimetype, folder)
 
+      // Registrar archivo
+      let record: File
+      try {
+        record = await this.fileRepository.create({
+          ownerId: options.ownerId ?? null,
+          uploadedById: options.uploadedById ?? null,
+          organizationId: options.organizationId ?? null,
+          storage: storageProvider.name,
+          key: uploadedFile.path,
+          originalName,
+          mimetype,
+          size: uploadedFile.size,
+          checksum: createHash('sha256').update(file).digest('hex'),
+          visibility: options.visibility ?? FILE_VISIBILITY.PRIVATE,
+        })
+      } catch (error) {
+        await this.deleteStoredObject(uploadedFile.path)
+        throw error
+      }
+
       return {
         success: true,
-        file: uploadedFile,
+        file: this.toFileInfo(record),
       }
     } catch (error) {
       console.error('Error al subir archivo:', error)
@@ -104,18 +174,159 @@ export class FileService {
   }
 
   /**
-   * Elimina un archivo del storage
+   * Lista archivos con paginación (más recientes primero)
+   */
+  async listFiles(filters: FileFilters, page = 1, limit = 10): Promise<PaginatedResponse<FileInfo>> {
+    const validPage = Math.max(1, page)
+    const validLimit = Math.min(Math.max(1, limit), 100) // Máximo 100 por página
+    const skip = (validPage - 1) * validLimit
+
+    const [files, total] = await Promise.all([
+      this.fileRepository.findAll(filters, skip, validLimit),
+      this.fileRepository.count(filters),
+    ])
+
+    return {
+      data: files.map((file) => this.toFileInfo(file)),
+      pagination: {
+        page: validPage,
+        limit: validLimit,
+        total,
+        totalPages: Math.ceil(total / validLimit),
+      },
+    }
+  }
+
+  /**
+   * Obtiene un archivo registrado por ID
+   * 
+   * @param organizationId - Organización activa: 404 si el archivo no es de ella
+   * @throws 404 si no existe
+   */
+  async getFileById(id: number, organizationId?: number): Promise<FileInfo> {
+    const file = await this.fileRepository.findById(id, organizationId)
+    if (!file) {
+      const error = new Error('Archivo no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+    return this.toFileInfo(file)
+  }
+
+  /**
+   * Obtiene el registro de un archivo del storage actual por su ruta
+   * (null si no está registrado, ej: archivos subidos antes de registrarlos)
+   * 
+   * @param organizationId - Organización activa: null si el archivo no es de ella
+   */
+  async getFileByPath(filePath: string, organizationId?: number): Promise<File | null> {
+    return this.fileRepository.findByKey(storageProvider.name, filePath, organizationId)
+  }
+
+  /**
+   * Elimina un archivo registrado: el objeto del storage y su registro
+   * 
+   * Si el objeto ya no existe en el storage, se elimina igualmente el registro.
+   * 
+   * @param organizationId - Organización activa: 404 si el archivo no es de ella
+   * @throws 404 si no existe, 409 si está en otro storage, 500 si no se pudo eliminar el objeto
+   */
+  async deleteFileById(id: number, organizationId?: number): Promise<void> {
+    const file = await this.getFileById(id, organizationId)
+    this.ensureCurrentStorage(file)
+
+    const deleted = await this.deleteStoredObject(file.key)
+    if (!deleted && (await this.fileExists(file.key))) {
+      const error = new Error('No se pudo eliminar el archivo del storage') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR
+      throw error
+    }
+
+    await this.fileRepository.delete(file.id)
+  }
+
+  /**
+   * Abre un archivo registrado para leerlo en streaming
+   * 
+   * @param range - Rango de bytes a leer (opcional; sin él se lee entero)
+   * @throws 404 si el objeto ya no está en el storage, 409 si está en otro storage
+   */
+  async openFileStream(file: File, range?: ByteRange): Promise<NodeJS.ReadableStream> {
+    this.ensureCurrentStorage(file)
+
+    const stream = await storageProvider.createReadStream(file.key, range)
+    if (!stream) {
+      const error = new Error('El archivo ya no está en el storage') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    return stream
+  }
+
+  /**
+   * Genera una URL firmada para leer un archivo registrado sin autenticación
+   * 
+   * @param expiresIn - Validez en segundos (por defecto SIGNED_URL_CONFIG.defaultExpiresIn)
+   * @param disposition - "attachment" (por defecto) o "inline" (solo para los tipos de
+   *   INLINE_SAFE_MIME_TYPES; el resto se firma como "attachment")
+   * @throws 400 si la validez no es válida, 409 si está en otro storage
+   */
+  async createSignedUrl(
+    file: File,
+    expiresIn: number = SIGNED_URL_CONFIG.defaultExpiresIn,
+    disposition: NonNullable<SignedUrlOptions['disposition']> = 'attachment'
+  ): Promise<SignedUrlResult> {
+    this.ensureCurrentStorage(file)
+
+    if (!Number.isInteger(expiresIn) || expiresIn < 1 || expiresIn > SIGNED_URL_CONFIG.maxExpiresIn) {
+      const error = new Error(
+        `expiresIn debe ser un número entero de segundos entre 1 y ${SIGNED_URL_CONFIG.maxExpiresIn}`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const url = await storageProvider.getSignedUrl(file.key, {
+      expiresIn,
+      disposition: disposition === 'inline' && isInlineSafeMimeType(file.mimetype) ? 'inline' : 'attachment',
+      filename: file.originalName,
+    })
+
+    return { url, expiresAt: new Date(Date.now() + expiresIn * 1000) }
+  }
+
+  /**
+   * Verifica una URL firmada del storage local (firma y expiración)
+   * 
+   * @param filePath - Ruta del archivo en el storage
+   * @param expires - Expiración (segundos desde epoch)
+   * @returns true si la firma es válida y no ha expirado
+   */
+  verifySignedPath(filePath: string, expires: number, disposition: string, signature: string): boolean {
+    if (!Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) {
+      return false
+    }
+    return verifyStoragePathSignature(filePath, expires, disposition, signature, SIGNED_URL_CONFIG.secret)
+  }
+
+  /**
+   * Elimina un archivo del storage (y su registro, si lo tiene)
    * 
    * @param filePath - Ruta del archivo a eliminar
    * @returns true si se eliminó correctamente
    */
   async deleteFile(filePath: string): Promise<boolean> {
-    try {
-      return await storageProvider.delete(filePath)
-    } catch (error) {
-      console.error(`Error al eliminar archivo ${filePath}:`, error)
-      return false
+    const deleted = await this.deleteStoredObject(filePath)
+
+    if (deleted) {
+      const record = await this.getFileByPath(filePath)
+      if (record) {
+        await this.fileRepository.delete(record.id)
+      }
     }
+
+    return deleted
   }
 
   /**
@@ -147,5 +358,82 @@ export class FileService {
   async getFile(filePath: string): Promise<Buffer | null> {
     return await storageProvider.get(filePath)
   }
+
+  /**
+   * Obtiene la fecha de subida de un archivo (null si no existe)
+   */
+  async getUploadedAt(filePath: string): Promise<Date | null> {
+    const info = await storageProvider.stat(filePath)
+    return info?.lastModified ?? null
+  }
+
+  /**
+   * Elimina un objeto del storage
+   * 
+   * @returns true si se eliminó correctamente
+   */
+  private async deleteStoredObject(filePath: string): Promise<boolean> {
+    try {
+      return await storageProvider.delete(filePath)
+    } catch (error) {
+      console.error(`Error al eliminar archivo ${filePath}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Verifica que un archivo registrado esté en el storage configurado
+   * 
+   * @throws 409 si está en otro storage
+   */
+  private ensureCurrentStorage(file: File): void {
+    if (file.storage !== storageProvider.name) {
+      const error = new Error(
+        `El archivo está en el storage "${file.storage}" y el configurado es "${storageProvider.name}"`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+  }
+
+  /**
+   * Agrega la URL de descarga (autenticada) al registro de un archivo
+   */
+  private toFileInfo(file: File): FileInfo {
+    return { ...file, url: `${DOWNLOAD_URL_PREFIX}/${file.id}/download` }
+  }
+
+  /**
+   * Obtiene la carpeta de los archivos de un usuario
+   * 
+   * @param ownerId - ID del usuario propietario
+   * @param folder - Subcarpeta opcional dentro de la del usuario
+   * @returns Carpeta (ej: "users/5/avatars")
+   */
+  getOwnerFolder(ownerId: number, folder?: string): string {
+    return folder ? `${OWNER_FOLDER}/${ownerId}/${folder}` : `${OWNER_FOLDER}/${ownerId}`
+  }
+
+  /**
+   * Obtiene el propietario de un archivo a partir de su ruta
+   * 
+   * @param filePath - Ruta del archivo (ej: "users/5/2024/01/15/foto.jpg")
+   * @returns ID del propietario o null si el archivo no está en la carpeta de un usuario
+   */
+  getOwnerId(filePath: string): number | null {
+    if (!isSafeRelativePath(filePath)) {
+      return null
+    }
+
+    const match = new RegExp(`^${OWNER_FOLDER}/([1-9]\\d*)/`).exec(filePath)
+    return match?.[1] ? parseInt(match[1]) : null
+  }
+}
+
+/**
+ * Indica si una ruta relativa no sale de su carpeta (sin segmentos "..", ni absoluta)
+ */
+function isSafeRelativePath(value: string): boolean {
+  return !value.startsWith('/') && !value.split(/[\\/]/).includes('..')
 }
 
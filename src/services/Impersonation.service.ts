@@ -0,0 +1,158 @@
+/**
+ * IMPERSONATION SERVICE - Suplantación de Usuarios
+ *
+ * Este service permite a un administrador de soporte actuar como otro usuario:
+ * - Emite un access token del usuario suplantado con el ID del administrador
+ *   (claim "actorId") y una sesión de suplantación propia
+ * - El token dura poco (JWT_IMPERSONATION_EXPIRES_IN) y no se puede refrescar
+ * - Terminar la suplantación revoca su sesión
+ *
+ * Inicio y fin quedan registrados como eventos de seguridad
+ * (impersonation_started / impersonation_stopped).
+ *
+ * USO:
+ *   import { ImpersonationService } from '../services/Impersonation.service'
+ *   const impersonationService = new ImpersonationService()
+ *   const result = await impersonationService.start(actor, targetUserId, client)
+ */
+
+import { randomUUID } from 'crypto'
+import { AuthRepository } from '../repositories/Auth.repository'
+import { SessionRepository } from '../repositories/Session.repository'
+import { RoleService } from './Role.service'
+import { generateImpersonationToken, decodeToken } from '../config/jwt.config'
+import { logSecurityEvent } from '../utils/logger.util'
+import { HTTP_STATUS } from '../constants'
+import { PERMISSIONS } from '../models/Role.model'
+import type { ClientInfo } from '../models/Session.model'
+import type { ImpersonationActor, ImpersonationResponse } from '../models/Impersonation.model'
+import type { AuthenticatedRequest } from '../types'
+
+export class ImpersonationService {
+  private authRepository: AuthRepository
+  private sessionRepository: SessionRepository
+  private roleService: RoleService
+
+  constructor() {
+    this.authRepository = new AuthRepository()
+    this.sessionRepository = new SessionRepository()
+    this.roleService = new RoleService()
+  }
+
+  /**
+   * Inicia la suplantación de un usuario
+   *
+   * No se puede suplantar a uno mismo, a un usuario inactivo ni a otro
+   * usuario que también tenga el permiso de suplantación.
+   *
+   * @throws 400 si el usuario es el propio administrador o está inactivo
+   * @throws 404 si el usuario no existe
+   * @throws 403 si el usuario también puede suplantar
+   */
+  async start(actor: ImpersonationActor, targetUserId: number, client: ClientInfo = {}): Promise<ImpersonationResponse> {
+    if (targetUserId === actor.id) {
+      const error = new Error('No puedes suplantarte a ti mismo') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const target = await this.authRepository.findByIdForLogin(targetUserId)
+
+    if (!target) {
+      const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    if (!target.isActive) {
+      const error = new Error('No se puede suplantar a un usuario inactivo') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (await this.roleService.userHasPermission(target.id, PERMISSIONS.USERS_IMPERSONATE)) {
+      const error = new Error('No se puede suplantar a otro usuario con permiso de suplantación') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+
+    const role = target.role?.name || 'user'
+    const sessionId = randomUUID()
+    const accessToken = generateImpersonationToken({
+      userId: target.id,
+      email: target.email,
+      role,
+      sid: sessionId,
+      actorId: actor.id,
+    })
+    const expiresAt = this.getTokenExpiration(accessToken)
+
+    await this.sessionRepository.createImpersonation({
+      id: sessionId,
+      userId: target.id,
+      impersonatorId: actor.id,
+      expiresAt,
+      ...client,
+    })
+
+    logSecurityEvent('impersonation_started', {
+      impersonatorId: actor.id,
+      impersonatorEmail: actor.email,
+      userId: target.id,
+      email: target.email,
+      sessionId,
+      expiresAt: expiresAt.toISOString(),
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+    })
+
+    return {
+      accessToken,
+      expiresAt,
+      sessionId,
+      user: {
+        id: target.id,
+        email: target.email,
+        name: target.name,
+        role,
+      },
+      impersonatorId: actor.id,
+    }
+  }
+
+  /**
+   * Termina la suplantación en curso (revoca su sesión)
+   *
+   * @param user - Usuario del request autenticado con el token de suplantación
+   * @throws 400 si la petición no pertenece a una suplantación
+   */
+  async stop(user: NonNullable<AuthenticatedRequest['user']>, client: ClientInfo = {}): Promise<void> {
+    if (user.impersonatorId === undefined || !user.sessionId) {
+      const error = new Error('No hay ninguna suplantación en curso') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    await this.sessionRepository.revoke(user.sessionId, user.id)
+
+    logSecurityEvent('impersonation_stopped', {
+      impersonatorId: user.impersonatorId,
+      userId: user.id,
+      email: user.email,
+      sessionId: user.sessionId,
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      ...(client.userAgent && { userAgent: client.userAgent }),
+    })
+  }
+
+  /**
+   * Obtiene la fecha de expiración de un token
+   */
+  private getTokenExpiration(token: string): Date {
+    const payload = decodeToken(token)
+    if (!payload?.exp) {
+      throw new Error('El token no tiene fecha de expiración')
+    }
+    return new Date(payload.exp * 1000)
+  }
+}
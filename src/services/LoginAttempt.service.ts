@@ -0,0 +1,215 @@
+/**
+ * LOGIN ATTEMPT SERVICE - Protección contra Fuerza Bruta
+ *
+ * Este service controla los intentos de inicio de sesión fallidos:
+ * - Por cuenta: contador en la BD, espera progresiva y bloqueo temporal
+ * - Por IP: contador en memoria, espera progresiva y bloqueo durante la ventana
+ *
+ * ESPERA PROGRESIVA (exponencial):
+ *   Tras LOGIN_BACKOFF_FREE_ATTEMPTS fallos, cada intento debe esperar
+ *   LOGIN_BACKOFF_BASE_SECONDS * 2^(fallos - libres - 1) segundos desde el
+ *   último fallo (máximo LOGIN_BACKOFF_MAX_SECONDS).
+ *
+ * BLOQUEO:
+ *   Al llegar a LOGIN_MAX_FAILED_ATTEMPTS la cuenta se bloquea durante
+ *   LOGIN_LOCK_DURATION_MINUTES y se avisa al usuario por email.
+ *   Un login correcto o el desbloqueo de un administrador reinician el contador.
+ *   Los fallos de una IP no se reinician con un login correcto (se podría limpiar el
+ *   contador entrando en una cuenta propia entre intentos): expiran con su ventana.
+ *
+ * USO:
+ *   import { LoginAttemptService } from '../services/LoginAttempt.service'
+ *   const loginAttemptService = new LoginAttemptService()
+ *   loginAttemptService.assertCanAttempt(user, client.ipAddress)
+ */
+
+import { AuthRepository } from '../repositories/Auth.repository'
+import { EmailService } from './Email.service'
+import { loginLockoutConfig } from '../config/auth.config'
+import { FailureTracker } from '../utils/rate-limit.util'
+import { logSecurityEvent } from '../utils/logger.util'
+import { HTTP_STATUS } from '../constants'
+import type { ClientInfo } from '../models/Session.model'
+
+/**
+ * Estado de intentos fallidos de una cuenta
+ */
+export interface LoginAttemptUser {
+  id: number
+  email: string
+  failedLoginAttempts: number
+  lastFailedLoginAt: Date | null
+  lockedUntil: Date | null
+}
+
+/**
+ * Fallos por IP (en memoria, compartido entre instancias del service)
+ */
+const ipFailures = new FailureTracker(loginLockoutConfig.ipWindowMinutes * 60 * 1000)
+
+/**
+ * Calcula la espera exigida tras un número de fallos consecutivos
+ *
+ * @returns Espera en milisegundos (0 si todavía no se penaliza)
+ */
+export function getBackoffDelayMs(failures: number): number {
+  const penalized = failures - loginLockoutConfig.backoffFreeAttempts
+  if (penalized <= 0) {
+    return 0
+  }
+
+  const seconds = Math.min(
+    loginLockoutConfig.backoffBaseSeconds * 2 ** (penalized - 1),
+    loginLockoutConfig.backoffMaxSeconds
+  )
+  return seconds * 1000
+}
+
+export class LoginAttemptService {
+  private authRepository: AuthRepository
+  private emailService: EmailService
+
+  constructor() {
+    this.authRepository = new AuthRepository()
+    this.emailService = new EmailService()
+  }
+
+  /**
+   * Comprueba que se pueda intentar un login (antes de verificar la contraseña)
+   *
+   * @throws 423 si la cuenta está bloqueada
+   * @throws 429 si hay que esperar (espera progresiva o IP bloqueada)
+   */
+  assertCanAttempt(user: LoginAttemptUser | null, ipAddress?: string): void {
+    const now = Date.now()
+
+    if (ipAddress) {
+      const entry = ipFailures.get(ipAddress)
+
+      if (entry && entry.count >= loginLockoutConfig.maxFailedAttemptsPerIp) {
+        throw this.tooManyAttemptsError(ipFailures.expiresAt(entry) - now)
+      }
+
+      if (entry) {
+        const waitMs = entry.lastFailureAt + getBackoffDelayMs(entry.count) - now
+        if (waitMs > 0) {
+          throw this.tooManyAttemptsError(waitMs)
+        }
+      }
+    }
+
+    if (!user) {
+      return
+    }
+
+    if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+      throw this.lockedError(user.lockedUntil.getTime() - now)
+    }
+
+    if (user.lastFailedLoginAt && !this.lockExpired(user)) {
+      const waitMs = user.lastFailedLoginAt.getTime() + getBackoffDelayMs(user.failedLoginAttempts) - now
+      if (waitMs > 0) {
+        throw this.tooManyAttemptsError(waitMs)
+      }
+    }
+  }
+
+  /**
+   * Registra un intento fallido para la IP y, si existe, para la cuenta
+   *
+   * @returns Fecha de bloqueo si este intento bloqueó la cuenta, null en otro caso
+   */
+  async recordFailure(
+    user: LoginAttemptUser | null,
+    email: string,
+    client: ClientInfo = {}
+  ): Promise<Date | null> {
+    if (client.ipAddress) {
+      const entry = ipFailures.record(client.ipAddress)
+
+      if (entry.count === loginLockoutConfig.maxFailedAttemptsPerIp) {
+        logSecurityEvent('login_ip_blocked', { ...client, failedAttempts: entry.count })
+      }
+    }
+
+    logSecurityEvent('login_failed', { ...(user && { userId: user.id }), email, ...client })
+
+    if (!user) {
+      return null
+    }
+
+    const failures = await this.authRepository.recordFailedLogin(user.id, this.lockExpired(user))
+
+    if (failures < loginLockoutConfig.maxFailedAttempts) {
+      return null
+    }
+
+    const lockedUntil = new Date(Date.now() + loginLockoutConfig.lockDurationMinutes * 60 * 1000)
+    await this.authRepository.lockAccount(user.id, lockedUntil)
+
+    logSecurityEvent('account_locked', {
+      userId: user.id,
+      failedAttempts: failures,
+      lockedUntil: lockedUntil.toISOString(),
+      ...client,
+    })
+
+    try {
+      await this.emailService.sendAccountLockedEmail(user.email, lockedUntil)
+    } catch (error) {
+      console.error('Error al enviar email de cuenta bloqueada:', error)
+    }
+
+    return lockedUntil
+  }
+
+  /**
+   * Reinicia el contador de la cuenta tras un login correcto
+   */
+  async recordSuccess(user: LoginAttemptUser): Promise<void> {
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.authRepository.resetFailedLogins(user.id)
+    }
+  }
+
+  /**
+   * Desbloquea una cuenta y reinicia su contador (acción de administrador)
+   */
+  async unlockAccount(userId: number, actorId?: number): Promise<void> {
+    await this.authRepository.resetFailedLogins(userId)
+    logSecurityEvent('account_unlocked', { userId, ...(actorId && { actorId }) })
+  }
+
+  /**
+   * Error de cuenta bloqueada
+   */
+  lockedError(retryAfterMs: number): Error {
+    const error = new Error('La cuenta está bloqueada temporalmente por demasiados intentos fallidos') as Error & {
+      statusCode?: number
+      retryAfter?: number
+    }
+    error.statusCode = HTTP_STATUS.LOCKED
+    error.retryAfter = Math.ceil(retryAfterMs / 1000)
+    return error
+  }
+
+  /**
+   * Indica si la cuenta tuvo un bloqueo que ya expiró (el conteo empieza de nuevo)
+   */
+  private lockExpired(user: LoginAttemptUser): boolean {
+    return user.lockedUntil !== null && user.lockedUntil.getTime() <= Date.now()
+  }
+
+  /**
+   * Error de espera obligatoria entre intentos
+   */
+  private tooManyAttemptsError(retryAfterMs: number): Error {
+    const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000))
+    const error = new Error(
+      `Demasiados intentos fallidos. Intenta de nuevo en ${retryAfter} segundos`
+    ) as Error & { statusCode?: number; retryAfter?: number }
+    error.statusCode = HTTP_STATUS.TOO_MANY_REQUESTS
+    error.retryAfter = retryAfter
+    return error
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * MAGIC LINK SERVICE - Inicio de Sesión sin Contraseña
+ *
+ * Este service maneja el login con un enlace enviado por email:
+ * - Generar el token y enviar el enlace (mismo mecanismo que la recuperación de contraseña)
+ * - Canjear el token por una sesión (mismas reglas que el login normal)
+ *
+ * Seguridad:
+ * - Solo se guarda el hash SHA-256 del token
+ * - El token es de un solo uso y expira en MAGIC_LINK_EXPIRES_MINUTES minutos
+ * - Solicitar un enlace nuevo invalida el anterior
+ * - Límite de solicitudes por email y por IP (429)
+ * - La respuesta de la solicitud no revela si el email existe
+ *
+ * USO:
+ *   import { MagicLinkService } from '../services/MagicLink.service'
+ *   const magicLinkService = new MagicLinkService()
+ *   await magicLinkService.requestLink(email, client)
+ */
+
+import { AuthRepository } from '../repositories/Auth.repository'
+import { AuthService } from './Auth.service'
+import { EmailService } from './Email.service'
+import { magicLinkConfig } from '../config/auth.config'
+import { generateResetToken } from '../utils/password.util'
+import { hashToken } from '../utils/token.util'
+import { RateLimiter } from '../utils/rate-limit.util'
+import { HTTP_STATUS } from '../constants'
+import type { LoginResponse } from '../models/Auth.model'
+import type { ClientInfo } from '../models/Session.model'
+
+/**
+ * Límites de solicitudes (ventana de 15 minutos)
+ * Se comparten entre instancias del service
+ */
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000
+const emailLimiter = new RateLimiter(magicLinkConfig.maxPerEmail, RATE_LIMIT_WINDOW_MS)
+const ipLimiter = new RateLimiter(magicLinkConfig.maxPerIp, RATE_LIMIT_WINDOW_MS)
+
+/**
+ * Mensaje genérico de solicitud (no revela si el email existe)
+ */
+const REQUEST_MESSAGE = 'Si existe una cuenta con ese email, se ha enviado un enlace para iniciar sesión.'
+
+export class MagicLinkService {
+  private authRepository: AuthRepository
+  private authService: AuthService
+  private emailService: EmailService
+
+  constructor() {
+    this.authRepository = new AuthRepository()
+    this.authService = new AuthService()
+    this.emailService = new EmailService()
+  }
+
+  /**
+   * Envía un enlace de inicio de sesión al email indicado
+   *
+   * Los límites se aplican exista o no la cuenta, para no revelar
+   * qué emails están registrados.
+   */
+  async requestLink(email: string, client: ClientInfo = {}): Promise<{ message: string }> {
+    if (!email || !email.trim()) {
+      const error = new Error('El email es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (client.ipAddress && !ipLimiter.consume(client.ipAddress)) {
+      throw this.tooManyRequestsError(ipLimiter.retryAfterSeconds(client.ipAddress))
+    }
+
+    const emailKey = email.trim().toLowerCase()
+    if (!emailLimiter.consume(emailKey)) {
+      throw this.tooManyRequestsError(emailLimiter.retryAfterSeconds(emailKey))
+    }
+
+    const user = await this.authRepository.findByEmail(email.trim())
+
+    if (!user || !user.isActive) {
+      return { message: REQUEST_MESSAGE }
+    }
+
+    const token = generateResetToken()
+    const expiresAt = new Date(Date.now() + magicLinkConfig.tokenExpiresInMinutes * 60 * 1000)
+
+    await this.authRepository.saveMagicLinkToken(user.id, hashToken(token), expiresAt)
+
+    try {
+      await this.emailService.sendMagicLinkEmail(user.email, token, magicLinkConfig.tokenExpiresInMinutes)
+    } catch (error) {
+      // Si falla el envío, loguear pero responder igual (no revela si el email existe)
+      console.error('Error al enviar email de inicio de sesión:', error)
+    }
+
+    return { message: REQUEST_MESSAGE }
+  }
+
+  /**
+   * Canjea el token del enlace por una sesión
+   *
+   * Abrir el enlace demuestra que el usuario controla el email, por lo que
+   * el email queda verificado. Si el usuario tiene 2FA se devuelve el desafío.
+   */
+  async login(token: string, client: ClientInfo = {}): Promise<LoginResponse> {
+    if (!token) {
+      const error = new Error('El token es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const userId = await this.authRepository.consumeMagicLinkToken(hashToken(token))
+
+    if (userId === null) {
+      const error = new Error('Enlace de inicio de sesión inválido o expirado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const user = await this.authRepository.findById(userId)
+    if (user && !user.emailVerifiedAt) {
+      await this.authRepository.markEmailVerified(userId)
+    }
+
+    return this.authService.loginWithIdentity(userId, client)
+  }
+
+  /**
+   * Error 429 con los segundos de espera (cabecera Retry-After)
+   */
+  private tooManyRequestsError(retryAfter: number): Error {
+    const error = new Error('Demasiadas solicitudes. Intenta de nuevo más tarde') as Error & {
+      statusCode?: number
+      retryAfter?: number
+    }
+    error.statusCode = HTTP_STATUS.TOO_MANY_REQUESTS
+    error.retryAfter = retryAfter
+    return error
+  }
+}
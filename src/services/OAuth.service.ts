@@ -0,0 +1,309 @@
+/**
+ * OAUTH SERVICE - Lógica de Negocio del Login Social
+ *
+ * Este service implementa el login con proveedores OAuth2 / OpenID Connect:
+ * - Iniciar el flujo authorization code + PKCE (login o vinculación)
+ * - Procesar el callback: validar el state, canjear el código y
+ *   obtener el perfil verificado del proveedor
+ * - Crear la cuenta en el primer login (sin contraseña local)
+ * - Vincular y desvincular identidades externas de una cuenta
+ *
+ * El state, el code_verifier y el nonce se guardan en el servidor
+ * (solo el hash del state) y cada flujo es de un solo uso.
+ *
+ * Un email existente nunca se vincula automáticamente: el usuario debe
+ * iniciar sesión y vincular el proveedor desde su cuenta.
+ *
+ * USO:
+ *   import { OAuthService } from '../services/OAuth.service'
+ *   const oauthService = new OAuthService()
+ *   const url = await oauthService.startAuthorization('google')
+ */
+
+import crypto from 'crypto'
+import { OAuthRepository } from '../repositories/OAuth.repository'
+import { AuthRepository } from '../repositories/Auth.repository'
+import { AuthService } from './Auth.service'
+import { EmailService } from './Email.service'
+import { EmailVerificationService } from './EmailVerification.service'
+import { getOAuthProvider, getOAuthProviderNames, getOAuthRedirectUri, oauthConfig } from '../config/oauth.config'
+import { hashToken } from '../utils/token.util'
+import { logSecurityEvent } from '../utils/logger.util'
+import { HTTP_STATUS } from '../constants'
+import type { IOAuthProvider, OAuthProfile } from '../oauth/interfaces/OAuthProvider.interface'
+import type { OAuthCallbackInput, OAuthCallbackResult, UserIdentityInfo } from '../models/OAuth.model'
+import type { ClientInfo } from '../models/Session.model'
+import type { UserIdentity } from '@prisma/client'
+
+/**
+ * Convierte una identidad a su información pública
+ */
+function toIdentityInfo(identity: UserIdentity): UserIdentityInfo {
+  return {
+    id: identity.id,
+    provider: identity.provider,
+    email: identity.email,
+    lastLoginAt: identity.lastLoginAt,
+    createdAt: identity.createdAt,
+  }
+}
+
+export class OAuthService {
+  private oauthRepository: OAuthRepository
+  private authRepository: AuthRepository
+  private authService: AuthService
+  private emailService: EmailService
+  private emailVerificationService: EmailVerificationService
+
+  constructor() {
+    this.oauthRepository = new OAuthRepository()
+    this.authRepository = new AuthRepository()
+    this.authService = new AuthService()
+    this.emailService = new EmailService()
+    this.emailVerificationService = new EmailVerificationService()
+  }
+
+  /**
+   * Lista los proveedores habilitados
+   */
+  listProviders(): string[] {
+    return getOAuthProviderNames()
+  }
+
+  /**
+   * Inicia un flujo OAuth
+   *
+   * @param userId - Usuario que vincula el proveedor (omitir para login)
+   * @returns URL de autorización del proveedor
+   */
+  async startAuthorization(providerName: string, userId?: number): Promise<string> {
+    const provider = this.getProvider(providerName)
+
+    const state = crypto.randomBytes(32).toString('base64url')
+    const codeVerifier = crypto.randomBytes(32).toString('base64url')
+    const nonce = crypto.randomBytes(16).toString('hex')
+
+    await this.oauthRepository.createState({
+      stateHash: hashToken(state),
+      provider: provider.name,
+      codeVerifier,
+      nonce,
+      userId: userId ?? null,
+      expiresAt: new Date(Date.now() + oauthConfig.stateExpiresInMinutes * 60 * 1000),
+    })
+
+    try {
+      return await provider.getAuthorizationUrl({
+        state,
+        codeChallenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+        nonce,
+        redirectUri: getOAuthRedirectUri(provider.name),
+      })
+    } catch (error) {
+      console.error(`Error al contactar con el proveedor OAuth ${provider.name}:`, error)
+      const providerError = new Error(`No se pudo contactar con ${provider.name}`) as Error & { statusCode?: number }
+      providerError.statusCode = HTTP_STATUS.BAD_GATEWAY
+      throw providerError
+    }
+  }
+
+  /**
+   * Procesa el callback del proveedor
+   *
+   * - Flujo de login: inicia sesión (o crea la cuenta) con la identidad
+   * - Flujo de vinculación: vincula la identidad a la cuenta que lo inició
+   */
+  async handleCallback(
+    providerName: string,
+    input: OAuthCallbackInput,
+    client: ClientInfo = {}
+  ): Promise<OAuthCallbackResult> {
+    const provider = this.getProvider(providerName)
+
+    // Consumir el state siempre, también si el usuario canceló
+    const stored = input.state ? await this.oauthRepository.consumeState(hashToken(input.state)) : null
+
+    if (input.error) {
+      const error = new Error(`El proveedor rechazó la autorización (${input.error})`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (!input.code || !stored || stored.provider !== provider.name || stored.expiresAt <= new Date()) {
+      const error = new Error('Solicitud OAuth inválida o expirada. Vuelve a intentarlo') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    let profile: OAuthProfile
+    try {
+      profile = await provider.exchangeCode({
+        code: input.code,
+        codeVerifier: stored.codeVerifier,
+        nonce: stored.nonce,
+        redirectUri: getOAuthRedirectUri(provider.name),
+      })
+    } catch (error) {
+      logSecurityEvent('oauth_callback_failed', {
+        provider: provider.name,
+        reason: error instanceof Error ? error.message : 'unknown',
+        ...(client.ipAddress && { ipAddress: client.ipAddress }),
+      })
+      const authError = new Error(`No se pudo verificar tu identidad con ${provider.name}`) as Error & { statusCode?: number }
+      authError.statusCode = HTTP_STATUS.UNAUTHORIZED
+      throw authError
+    }
+
+    if (stored.userId !== null) {
+      return { mode: 'link', identity: await this.linkIdentity(stored.userId, provider.name, profile) }
+    }
+
+    return this.loginWithProfile(provider.name, profile, client)
+  }
+
+  /**
+   * Lista las identidades externas vinculadas a un usuario
+   */
+  async listIdentities(userId: number): Promise<UserIdentityInfo[]> {
+    const identities = await this.oauthRepository.findIdentitiesByUser(userId)
+    return identities.map(toIdentityInfo)
+  }
+
+  /**
+   * Desvincula una identidad externa
+   *
+   * No permite quitar el único método de inicio de sesión de la cuenta
+   * (última identidad de un usuario sin contraseña).
+   */
+  async unlinkIdentity(userId: number, identityId: number): Promise<void> {
+    const identity = await this.oauthRepository.findIdentityForUser(identityId, userId)
+
+    if (!identity) {
+      const error = new Error('Cuenta externa no encontrada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    const [hasPassword, identities] = await Promise.all([
+      this.oauthRepository.hasPassword(userId),
+      this.oauthRepository.findIdentitiesByUser(userId),
+    ])
+
+    if (!hasPassword && identities.length <= 1) {
+      const error = new Error(
+        'No puedes desvincular tu único método de inicio de sesión. Crea una contraseña primero'
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    await this.oauthRepository.deleteIdentity(identity.id)
+
+    logSecurityEvent('oauth_identity_unlinked', { userId, provider: identity.provider })
+  }
+
+  /**
+   * Inicia sesión con una identidad; crea la cuenta si es el primer login
+   */
+  private async loginWithProfile(
+    providerName: string,
+    profile: OAuthProfile,
+    client: ClientInfo
+  ): Promise<OAuthCallbackResult> {
+    const identity = await this.oauthRepository.findIdentity(providerName, profile.subject)
+
+    if (identity) {
+      await this.oauthRepository.touchIdentity(identity.id, profile.email)
+      return {
+        mode: 'login',
+        isNewUser: false,
+        login: await this.authService.loginWithIdentity(identity.userId, client),
+      }
+    }
+
+    if (!profile.email) {
+      const error = new Error(
+        `${providerName} no proporcionó un email. Autoriza el acceso a tu email e inténtalo de nuevo`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (await this.authRepository.emailExists(profile.email)) {
+      const error = new Error(
+        `Ya existe una cuenta con este email. Inicia sesión y vincula ${providerName} desde tu cuenta`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    const user = await this.oauthRepository.createUserWithIdentity({
+      email: profile.email,
+      name: profile.name,
+      emailVerified: profile.emailVerified,
+      provider: providerName,
+      subject: profile.subject,
+    })
+
+    // Si el proveedor no garantiza el email, se verifica como en el registro
+    if (!profile.emailVerified) {
+      await this.emailVerificationService.sendVerification(user)
+    }
+    try {
+      await this.emailService.sendWelcomeEmail(user.email, user.name ?? undefined)
+    } catch (error) {
+      console.error('Error al enviar email de bienvenida:', error)
+    }
+
+    return {
+      mode: 'login',
+      isNewUser: true,
+      login: await this.authService.loginWithIdentity(user.id, client),
+    }
+  }
+
+  /**
+   * Vincula una identidad a la cuenta que inició el flujo
+   */
+  private async linkIdentity(userId: number, providerName: string, profile: OAuthProfile): Promise<UserIdentityInfo> {
+    const existing = await this.oauthRepository.findIdentity(providerName, profile.subject)
+
+    if (existing) {
+      if (existing.userId === userId) {
+        return toIdentityInfo(existing)
+      }
+
+      const error = new Error(`Esta cuenta de ${providerName} ya está vinculada a otro usuario`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    const identities = await this.oauthRepository.findIdentitiesByUser(userId)
+    if (identities.some((identity) => identity.provider === providerName)) {
+      const error = new Error(`Ya tienes una cuenta de ${providerName} vinculada`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    const identity = await this.oauthRepository.createIdentity(userId, providerName, profile.subject, profile.email)
+
+    logSecurityEvent('oauth_identity_linked', { userId, provider: providerName })
+
+    return toIdentityInfo(identity)
+  }
+
+  /**
+   * Obtiene un proveedor habilitado o lanza 404
+   */
+  private getProvider(name: string): IOAuthProvider {
+    const provider = getOAuthProvider(name)
+
+    if (!provider) {
+      const error = new Error(`Proveedor OAuth no disponible: ${name}`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    return provider
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * ORGANIZATION SERVICE - Organizaciones y Membresías (Multi-Tenant)
+ *
+ * Este service maneja la lógica de negocio de las organizaciones:
+ * - Un usuario puede pertenecer a varias organizaciones, con un rol en cada una
+ * - La organización activa de una petición se resuelve desde el header
+ *   X-Organization-Id o el claim "orgId" del token (resolveMembership)
+ * - Cambiar la organización activa emite un access token con el claim "orgId"
+ * - Gestión de miembros de la organización activa
+ * - Invitaciones: nadie se une a una organización sin aceptar una invitación
+ *
+ * Al asignar un rol de membresía (o invitar con él), quien lo asigna debe
+ * tener todos los permisos del rol (no se puede conceder más de lo que se tiene).
+ *
+ * Invitaciones:
+ * - Se envían por email; solo se guarda el hash SHA-256 del token
+ * - La respuesta es la misma exista o no una cuenta con ese email
+ * - Solo las acepta el usuario autenticado cuyo email verificado coincide
+ * - Invitar de nuevo al mismo email reemplaza la invitación anterior
+ * - Límite de invitaciones por organización (429)
+ *
+ * USO:
+ *   import { OrganizationService } from '../services/Organization.service'
+ *   const organizationService = new OrganizationService()
+ *   const tenant = await organizationService.resolveMembership(userId, organizationId)
+ */
+
+import { OrganizationRepository } from '../repositories/Organization.repository'
+import { RoleRepository } from '../repositories/Role.repository'
+import { UserRepository } from '../repositories/User.repository'
+import { RoleService } from './Role.service'
+import { SessionService } from './Session.service'
+import { EmailService } from './Email.service'
+import { organizationInvitationConfig } from '../config/auth.config'
+import { HTTP_STATUS } from '../constants'
+import { ROLE_NAMES } from '../models/Role.model'
+import type { Organization } from '@prisma/client'
+import type {
+  AcceptInvitationResponse,
+  CreateOrganizationInput,
+  InvitationInfo,
+  InvitationWithRole,
+  InviteMemberInput,
+  MembershipInfo,
+  SwitchOrganizationResponse,
+  UserOrganization,
+} from '../models/Organization.model'
+import type { TenantContext } from '../types'
+import { permissionSetGrants } from '../utils/permission.util'
+import { generateResetToken } from '../utils/password.util'
+import { hashToken } from '../utils/token.util'
+import { RateLimiter } from '../utils/rate-limit.util'
+import { validateEmail } from '../utils'
+
+/**
+ * Formato del slug: minúsculas, números y guiones (ej: "acme", "acme-labs")
+ */
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+/**
+ * Límite de invitaciones por organización (ventana de 15 minutos)
+ * Se comparte entre instancias del service
+ */
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000
+const invitationLimiter = new RateLimiter(organizationInvitationConfig.maxPerOrganization, RATE_LIMIT_WINDOW_MS)
+
+/**
+ * Usuario que cambia de organización (datos de sus tokens)
+ */
+interface SwitchingUser {
+  id: number
+  email: string
+  role: string
+}
+
+export class OrganizationService {
+  private organizationRepository: OrganizationRepository
+  private roleRepository: RoleRepository
+  private userRepository: UserRepository
+  private roleService: RoleService
+  private sessionService: SessionService
+  private emailService: EmailService
+
+  constructor() {
+    this.organizationRepository = new OrganizationRepository()
+    this.roleRepository = new RoleRepository()
+    this.userRepository = new UserRepository()
+    this.roleService = new RoleService()
+    this.sessionService = new SessionService()
+    this.emailService = new EmailService()
+  }
+
+  /**
+   * Lista las organizaciones del usuario con su rol en cada una
+   *
+   * @param currentOrganizationId - Organización activa (se marca como current)
+   */
+  async getUserOrganizations(userId: number, currentOrganizationId?: number): Promise<UserOrganization[]> {
+    const memberships = await this.organizationRepository.findMembershipsByUser(userId)
+
+    return memberships.map((membership) => ({
+      id: membership.organization.id,
+      name: membership.organization.name,
+      slug: membership.organization.slug,
+      role: membership.role.name,
+      current: membership.organizationId === currentOrganizationId,
+    }))
+  }
+
+  /**
+   * Crea una organización; su creador queda como miembro con el rol org_admin
+   *
+   * @throws 400 si el nombre o el slug no son válidos
+   * @throws 409 si el slug ya está en uso
+   */
+  async createOrganization(userId: number, input: CreateOrganizationInput): Promise<Organization> {
+    const name = typeof input.name === 'string' ? input.name.trim() : ''
+    const slug = typeof input.slug === 'string' ? input.slug.trim().toLowerCase() : ''
+
+    if (!name || name.length > 255) {
+      const error = new Error('El nombre es requerido (máximo 255 caracteres)') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (slug.length < 3 || slug.length > 100 || !SLUG_PATTERN.test(slug)) {
+      const error = new Error(
+        'El slug debe tener entre 3 y 100 caracteres: minúsculas, números y guiones (ej: "acme")'
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (await this.organizationRepository.slugExists(slug)) {
+      const error = new Error('Ya existe una organización con este slug') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    const ownerRole = await this.roleRepository.findByName(ROLE_NAMES.ORG_ADMIN)
+    if (!ownerRole) {
+      throw new Error(`No existe el rol "${ROLE_NAMES.ORG_ADMIN}". Ejecuta npm run init:roles`)
+    }
+
+    return this.organizationRepository.create({ name, slug }, userId, ownerRole.id)
+  }
+
+  /**
+   * Resuelve la membresía del usuario en una organización activa
+   *
+   * @returns Contexto de la organización, o null si el usuario no es miembro
+   *          o la organización está desactivada
+   */
+  async resolveMembership(userId: number, organizationId: number): Promise<TenantContext | null> {
+    const membership = await this.organizationRepository.findMembership(userId, organizationId)
+
+    if (!membership || !membership.organization.isActive) {
+      return null
+    }
+
+    return {
+      organizationId: membership.organizationId,
+      membershipId: membership.id,
+      roleId: membership.role.id,
+      role: membership.role.name,
+    }
+  }
+
+  /**
+   * Cambia la organización activa de la sesión
+   *
+   * @param organizationId - Organización a activar (null = ninguna: se usa el rol global)
+   * @throws 403 si el usuario no es miembro de la organización
+   */
+  async switchOrganization(
+    user: SwitchingUser,
+    sessionId: string | undefined,
+    organizationId: number | null
+  ): Promise<SwitchOrganizationResponse> {
+    if (organizationId !== null && !(await this.resolveMembership(user.id, organizationId))) {
+      throw this.notMemberError()
+    }
+
+    const accessToken = await this.sessionService.switchOrganization(user, sessionId, organizationId)
+    return { accessToken, organizationId }
+  }
+
+  /**
+   * Lista los miembros de una organización
+   */
+  async listMembers(organizationId: number): Promise<MembershipInfo[]> {
+    const memberships = await this.organizationRepository.findMembers(organizationId)
+
+    return memberships.map((membership) => ({
+      userId: membership.user.id,
+      email: membership.user.email,
+      name: membership.user.name,
+      isActive: membership.user.isActive,
+      role: membership.role.name,
+      roleId: membership.role.id,
+      joinedAt: membership.createdAt,
+    }))
+  }
+
+  /**
+   * Cambia el rol de un miembro de la organización
+   *
+   * @throws 404 si el rol no existe o el usuario no es miembro
+   * @throws 403 si el rol tiene permisos que quien lo asigna no tiene
+   */
+  async updateMemberRole(
+    organizationId: number,
+    actorPermissions: string[],
+    userId: number,
+    roleId: number
+  ): Promise<void> {
+    if (!Number.isInteger(roleId)) {
+      const error = new Error('roleId es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    await this.assertRoleAssignable(roleId, actorPermissions)
+
+    const updated = await this.organizationRepository.updateMemberRole(organizationId, userId, roleId)
+    if (!updated) {
+      throw this.memberNotFoundError()
+    }
+  }
+
+  /**
+   * Quita un miembro de la organización
+   *
+   * @throws 400 si quien lo quita es el propio miembro
+   * @throws 404 si el usuario no es miembro
+   */
+  async removeMember(organizationId: number, actorId: number, userId: number): Promise<void> {
+    if (userId === actorId) {
+      const error = new Error('No puedes quitarte a ti mismo de la organización') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const removed = await this.organizationRepository.removeMember(organizationId, userId)
+    if (!removed) {
+      throw this.memberNotFoundError()
+    }
+  }
+
+  // ============================================
+  // INVITACIONES
+  // ============================================
+
+  /**
+   * Invita a un email a unirse a la organización con un rol
+   *
+   * No comprueba si existe una cuenta con ese email ni si ya es miembro:
+   * la respuesta es la misma en todos los casos (no revela qué emails están
+   * registrados). La membresía solo se crea cuando el invitado acepta.
+   *
+   * @param actorPermissions - Permisos efectivos de quien invita (en la organización)
+   * @throws 404 si el rol no existe
+   * @throws 403 si el rol tiene permisos que quien invita no tiene
+   * @throws 429 si la organización superó el límite de invitaciones
+   */
+  async inviteMember(
+    organizationId: number,
+    actorId: number,
+    actorPermissions: string[],
+    input: InviteMemberInput
+  ): Promise<InvitationInfo> {
+    if (typeof input.email !== 'string' || !input.email.trim() || !Number.isInteger(input.roleId)) {
+      const error = new Error('email y roleId son requeridos') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const email = input.email.trim().toLowerCase()
+    if (!validateEmail(email)) {
+      const error = new Error('Email inválido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    await this.assertRoleAssignable(input.roleId, actorPermissions)
+
+    const limiterKey = String(organizationId)
+    if (!invitationLimiter.consume(limiterKey)) {
+      const error = new Error('Demasiadas invitaciones. Intenta de nuevo más tarde') as Error & {
+        statusCode?: number
+        retryAfter?: number
+      }
+      error.statusCode = HTTP_STATUS.TOO_MANY_REQUESTS
+      error.retryAfter = invitationLimiter.retryAfterSeconds(limiterKey)
+      throw error
+    }
+
+    const token = generateResetToken()
+    const expiresInHours = organizationInvitationConfig.expiresInHours
+
+    const invitation = await this.organizationRepository.upsertInvitation({
+      organizationId,
+      email,
+      roleId: input.roleId,
+      invitedById: actorId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    })
+
+    const organization = await this.organizationRepository.findById(organizationId)
+
+    try {
+      await this.emailService.sendOrganizationInvitationEmail(email, organization?.name ?? '', token, expiresInHours)
+    } catch (error) {
+      // Si falla el envío, loguear pero responder igual (se puede invitar de nuevo)
+      console.error('Error al enviar email de invitación:', error)
+    }
+
+    return this.toInvitationInfo(invitation)
+  }
+
+  /**
+   * Lista las invitaciones pendientes (y expiradas) de la organización
+   */
+  async listInvitations(organizationId: number): Promise<InvitationInfo[]> {
+    const invitations = await this.organizationRepository.findInvitations(organizationId)
+    return invitations.map((invitation) => this.toInvitationInfo(invitation))
+  }
+
+  /**
+   * Revoca una invitación de la organización
+   *
+   * @throws 404 si la invitación no existe en la organización
+   */
+  async revokeInvitation(organizationId: number, invitationId: number): Promise<void> {
+    const deleted = await this.organizationRepository.deleteInvitation(organizationId, invitationId)
+    if (!deleted) {
+      const error = new Error('Invitación no encontrada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+  }
+
+  /**
+   * Acepta una invitación: el usuario autenticado se une a la organización
+   *
+   * Solo puede aceptarla el usuario cuyo email coincide con el invitado y
+   * está verificado (demuestra que controla el buzón que recibió el enlace).
+   *
+   * @throws 400 si el token no es válido, expiró, o la organización o el rol
+   *         ya no están activos
+   * @throws 403 si el email del usuario no es el invitado o no está verificado
+   * @throws 409 si el usuario ya es miembro de la organización
+   */
+  async acceptInvitation(userId: number, token: string): Promise<AcceptInvitationResponse> {
+    if (typeof token !== 'string' || !token) {
+      const error = new Error('El token es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const invitation = await this.organizationRepository.findInvitationByTokenHash(hashToken(token))
+
+    if (
+      !invitation ||
+      invitation.expiresAt.getTime() <= Date.now() ||
+      !invitation.organization.isActive ||
+      !invitation.role.isActive
+    ) {
+      throw this.invalidInvitationError()
+    }
+
+    const user = await this.userRepository.findById(userId)
+    if (!user || user.email.toLowerCase() !== invitation.email) {
+      const error = new Error('Esta invitación es para otro email') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+
+    if (!user.emailVerifiedAt) {
+      const error = new Error('Verifica tu email para aceptar la invitación') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+
+    if (await this.organizationRepository.findMembership(userId, invitation.organizationId)) {
+      await this.organizationRepository.deleteInvitation(invitation.organizationId, invitation.id)
+      const error = new Error('Ya eres miembro de la organización') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    // Borra la invitación y crea la membresía juntas: un token solo sirve una vez
+    if (!(await this.organizationRepository.acceptInvitation(invitation.id, userId))) {
+      throw this.invalidInvitationError()
+    }
+
+    return {
+      organizationId: invitation.organizationId,
+      organizationName: invitation.organization.name,
+      role: invitation.role.name,
+    }
+  }
+
+  /**
+   * Comprueba que el rol existe y que quien lo asigna tiene todos sus permisos
+   */
+  private async assertRoleAssignable(roleId: number, actorPermissions: string[]): Promise<void> {
+    const role = await this.roleRepository.findById(roleId)
+    if (!role || !role.isActive) {
+      const error = new Error('Rol no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    const rolePermissions = await this.roleService.getEffectivePermissions(roleId)
+    const missing = rolePermissions.filter((permission) => !permissionSetGrants(actorPermissions, permission))
+
+    if (missing.length > 0) {
+      const error = new Error(
+        `No puedes asignar un rol con permisos que no tienes: ${missing.join(', ')}`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+  }
+
+  private toInvitationInfo(invitation: InvitationWithRole): InvitationInfo {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role.name,
+      roleId: invitation.role.id,
+      invitedBy: invitation.invitedBy?.email ?? null,
+      expiresAt: invitation.expiresAt,
+      expired: invitation.expiresAt.getTime() <= Date.now(),
+      createdAt: invitation.createdAt,
+    }
+  }
+
+  private invalidInvitationError(): Error {
+    const error = new Error('Invitación inválida o expirada') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.BAD_REQUEST
+    return error
+  }
+
+  private notMemberError(): Error {
+    const error = new Error('No perteneces a esta organización') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.FORBIDDEN
+    return error
+  }
+
+  private memberNotFoundError(): Error {
+    const error = new Error('El usuario no es miembro de la organización') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.NOT_FOUND
+    return error
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * PASSWORD POLICY SERVICE - Política de Contraseñas
+ *
+ * Este service aplica la política de contraseñas configurable (PASSWORD_* en .env):
+ * - Longitud, clases de caracteres, contraseñas comunes e información personal
+ *   (reglas de validatePasswordStrength)
+ * - No reutilizar las últimas PASSWORD_HISTORY_SIZE contraseñas
+ * - Caducidad opcional de las contraseñas (PASSWORD_MAX_AGE_DAYS)
+ *
+ * Todas las reglas incumplidas se devuelven a la vez en `details` del error (400),
+ * para que la UI pueda mostrar la lista de requisitos.
+ *
+ * USO:
+ *   import { PasswordPolicyService } from '../services/PasswordPolicy.service'
+ *   const passwordPolicyService = new PasswordPolicyService()
+ *   await passwordPolicyService.assertValid(newPassword, user)
+ */
+
+import { PasswordHistoryRepository } from '../repositories/PasswordHistory.repository'
+import { passwordPolicyConfig } from '../config/auth.config'
+import { comparePassword, validatePasswordStrength } from '../utils/password.util'
+import type { PasswordRuleFailure } from '../utils/password.util'
+import { HTTP_STATUS } from '../constants'
+import type { PasswordPolicyInfo } from '../models/Auth.model'
+
+/**
+ * Usuario para el que se valida la contraseña
+ * (id y password permiten comprobar el historial)
+ */
+export interface PasswordPolicyUser {
+  id?: number
+  email?: string | null
+  name?: string | null
+  password?: string | null
+}
+
+export class PasswordPolicyService {
+  private passwordHistoryRepository: PasswordHistoryRepository
+
+  constructor() {
+    this.passwordHistoryRepository = new PasswordHistoryRepository()
+  }
+
+  /**
+   * Obtiene la política vigente
+   */
+  getPolicy(): PasswordPolicyInfo {
+    return {
+      minLength: passwordPolicyConfig.minLength,
+      maxLength: passwordPolicyConfig.maxLength,
+      requireUppercase: passwordPolicyConfig.requireUppercase,
+      requireLowercase: passwordPolicyConfig.requireLowercase,
+      requireNumber: passwordPolicyConfig.requireNumber,
+      requireSymbol: passwordPolicyConfig.requireSymbol,
+      rejectCommonPasswords: true,
+      rejectPersonalInfo: passwordPolicyConfig.rejectPersonalInfo,
+      historySize: passwordPolicyConfig.historySize,
+      maxAgeDays: passwordPolicyConfig.maxAgeDays,
+    }
+  }
+
+  /**
+   * Valida una contraseña nueva contra todas las reglas
+   *
+   * @returns Reglas incumplidas (vacío si la contraseña es válida)
+   */
+  async validate(password: string, user: PasswordPolicyUser = {}): Promise<PasswordRuleFailure[]> {
+    const { failures } = validatePasswordStrength(password, { email: user.email ?? null, name: user.name ?? null })
+
+    if (user.id !== undefined && typeof password === 'string' && await this.isReused(password, user)) {
+      failures.push({
+        rule: 'history',
+        message: `No puede ser igual a ninguna de tus últimas ${passwordPolicyConfig.historySize} contraseñas`,
+      })
+    }
+
+    return failures
+  }
+
+  /**
+   * Valida una contraseña nueva o lanza 400 con todas las reglas incumplidas en `details`
+   */
+  async assertValid(password: string, user: PasswordPolicyUser = {}): Promise<void> {
+    const failures = await this.validate(password, user)
+
+    if (failures.length > 0) {
+      const error = new Error(
+        `La contraseña no cumple la política: ${failures.map((f) => f.message.toLowerCase()).join('; ')}`
+      ) as Error & { statusCode?: number; details?: unknown }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      error.details = failures
+      throw error
+    }
+  }
+
+  /**
+   * Registra una contraseña recién establecida en el historial
+   */
+  async recordPassword(userId: number, passwordHash: string): Promise<void> {
+    if (passwordPolicyConfig.historySize > 0) {
+      await this.passwordHistoryRepository.add(userId, passwordHash, passwordPolicyConfig.historySize)
+    }
+  }
+
+  /**
+   * Indica si la contraseña del usuario caducó (PASSWORD_MAX_AGE_DAYS)
+   */
+  isExpired(user: { passwordChangedAt: Date | null; createdAt: Date }): boolean {
+    if (passwordPolicyConfig.maxAgeDays <= 0) {
+      return false
+    }
+
+    const changedAt = user.passwordChangedAt ?? user.createdAt
+    return Date.now() - changedAt.getTime() > passwordPolicyConfig.maxAgeDays * 24 * 60 * 60 * 1000
+  }
+
+  /**
+   * Comprueba si la contraseña coincide con la actual o con alguna del historial
+   *
+   * Las comparaciones son secuenciales: cada verificación Argon2 usa 64 MB.
+   */
+  private async isReused(password: string, user: PasswordPolicyUser): Promise<boolean> {
+    if (passwordPolicyConfig.historySize <= 0 || user.id === undefined) {
+      return false
+    }
+
+    const hashes = await this.passwordHistoryRepository.findRecentHashes(user.id, passwordPolicyConfig.historySize)
+    if (user.password && !hashes.includes(user.password)) {
+      hashes.unshift(user.password)
+    }
+
+    for (const hash of hashes) {
+      if (await comparePassword(password, hash)) {
+        return true
+      }
+    }
+
+    return false
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * POLICY SERVICE - Motor de Políticas de Acceso (ABAC)
+ *
+ * Este service evalúa las reglas registradas en config/policies.config
+ * contra el sujeto, la acción, el recurso y el contexto de una petición:
+ * - evaluate: devuelve la decisión con la regla que decidió (modo explain)
+ * - authorize: lanza 403 si la acción no está permitida
+ *
+ * Las reglas "deny" tienen prioridad sobre las "allow"; si ninguna regla
+ * permite la acción, se deniega.
+ *
+ * USO:
+ *   import { PolicyService } from '../services/Policy.service'
+ *   const policyService = new PolicyService()
+ *   await policyService.authorize({ subject, action: 'users.deactivate', resource, context: { now: new Date() } })
+ */
+
+import { policyRules, policyConfig } from '../config/policies.config'
+import { logDebug } from '../utils/logger.util'
+import { HTTP_STATUS } from '../constants'
+import type { PolicyRule, PolicyRequest, PolicyDecision, PolicyRuleResult } from '../models/Policy.model'
+
+/**
+ * Comodín: la regla aplica a todas las acciones
+ */
+const ANY_ACTION = '*'
+
+export class PolicyService {
+  private rules: readonly PolicyRule[]
+
+  constructor(rules: readonly PolicyRule[] = policyRules) {
+    this.rules = rules
+  }
+
+  /**
+   * Evalúa una acción y explica la decisión
+   *
+   * @returns Decisión con la regla que decidió y el resultado de cada regla
+   */
+  async evaluate(request: PolicyRequest): Promise<PolicyDecision> {
+    const results: PolicyRuleResult[] = []
+
+    for (const rule of this.rules) {
+      if (!rule.actions.includes(request.action) && !rule.actions.includes(ANY_ACTION)) {
+        continue
+      }
+
+      results.push({
+        rule: rule.name,
+        description: rule.description,
+        effect: rule.effect,
+        matched: await rule.condition(request),
+      })
+    }
+
+    const deny = results.find((result) => result.matched && result.effect === 'deny')
+    const allow = results.find((result) => result.matched && result.effect === 'allow')
+    const decisive = deny ?? allow
+
+    let reason = decisive?.description ?? 'Ninguna regla permite esta acción'
+    if (results.length === 0) {
+      reason = 'No hay reglas para esta acción'
+    }
+
+    const decision: PolicyDecision = {
+      action: request.action,
+      allowed: deny === undefined && allow !== undefined,
+      rule: decisive?.rule ?? null,
+      reason,
+      rules: results,
+    }
+
+    logDebug('Decisión de política', {
+      userId: request.subject.id,
+      action: request.action,
+      allowed: decision.allowed,
+      rule: decision.rule,
+    })
+
+    return decision
+  }
+
+  /**
+   * Exige que la acción esté permitida
+   *
+   * @throws 403 si no está permitida (con la decisión en details si POLICY_EXPLAIN=true)
+   */
+  async authorize(request: PolicyRequest): Promise<PolicyDecision> {
+    const decision = await this.evaluate(request)
+
+    if (!decision.allowed) {
+      const error = new Error(`Acción no permitida: ${request.action}`) as Error & {
+        statusCode?: number
+        details?: Record<string, unknown>
+      }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      if (policyConfig.explain) {
+        error.details = { policy: decision }
+      }
+      throw error
+    }
+
+    return decision
+  }
+}
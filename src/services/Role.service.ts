@@ -9,17 +9,56 @@
  */
 
 import { RoleRepository, PermissionRepository } from '../repositories/Role.repository'
+import { UserPermissionRepository } from '../repositories/UserPermission.repository'
 import { HTTP_STATUS } from '../constants'
-import type { CreateRoleInput, UpdateRoleInput, CreatePermissionInput, UpdatePermissionInput } from '../models/Role.model'
-import { PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, ROLE_NAMES } from '../models/Role.model'
+import type {
+  CreateRoleInput,
+  UpdateRoleInput,
+  CreatePermissionInput,
+  UpdatePermissionInput,
+  RoleParentLink,
+  RolePermissionSource,
+  RoleWithPermissionSources,
+} from '../models/Role.model'
+import { PERMISSIONS, DEFAULT_ROLE_PERMISSIONS, ROLE_NAMES, PERMISSION_NAME_PATTERN } from '../models/Role.model'
+import { USER_PERMISSION_EFFECTS } from '../models/UserPermission.model'
+import type { UserPermissionOverrides } from '../models/UserPermission.model'
+import { expandPermissions, permissionSetDenies, permissionSetGrants } from '../utils/permission.util'
+import { TtlCache } from '../utils/ttl-cache.util'
+import { permissionCacheConfig } from '../config/permissions.config'
+
+/**
+ * Caché de los nombres de permisos activos de cada rol, incluidos los heredados
+ * (compartida por todas las instancias)
+ * Se vacía entera al cambiar un rol o un permiso: el cambio afecta también
+ * a los roles que heredan de él.
+ */
+const rolePermissionCache = new TtlCache<number, string[]>(permissionCacheConfig.ttlSeconds * 1000)
+
+/**
+ * Permiso directo guardado en caché (la expiración se comprueba al leerlo)
+ */
+interface CachedUserPermission {
+  name: string
+  effect: string
+  expiresAt: Date | null
+}
+
+/**
+ * Caché de los permisos directos vigentes de cada usuario
+ * Se invalida al conceder, denegar o quitar un permiso directo.
+ */
+const userPermissionCache = new TtlCache<number, CachedUserPermission[]>(permissionCacheConfig.ttlSeconds * 1000)
 
 export class RoleService {
   private roleRepository: RoleRepository
   private permissionRepository: PermissionRepository
+  private userPermissionRepository: UserPermissionRepository
   
   constructor() {
     this.roleRepository = new RoleRepository()
     this.permissionRepository = new PermissionRepository()
+    this.userPermissionRepository = new UserPermissionRepository()
   }
   
   /**
@@ -74,6 +113,21 @@ export class RoleService {
         permissionIds: userPermissionIds,
       })
     }
+    
+    // Crear roles de membresía de organizaciones
+    const organizationRoles = [
+      { name: ROLE_NAMES.ORG_ADMIN, description: 'Organization administrator (membership role)' },
+      { name: ROLE_NAMES.ORG_MEMBER, description: 'Organization member (membership role)' },
+    ]
+    for (const { name, description } of organizationRoles) {
+      if (!(await this.roleRepository.findByName(name))) {
+        const permissionIds = DEFAULT_ROLE_PERMISSIONS[name]
+          .map((permName) => permissionMap.get(permName))
+          .filter((id): id is number => id !== undefined)
+        
+        await this.roleRepository.create({ name, description, permissionIds })
+      }
+    }
   }
   
   /**
@@ -97,22 +151,58 @@ export class RoleService {
   }
   
   /**
-   * Obtiene un rol por ID con sus permisos
+   * Obtiene un rol por ID con sus roles padre y sus permisos, directos y
+   * heredados, indicando de dónde viene cada uno
    */
-  async getRoleByIdWithPermissions(id: number) {
+  async getRoleByIdWithPermissions(id: number): Promise<RoleWithPermissionSources> {
     const role = await this.roleRepository.findByIdWithPermissions(id)
     if (!role) {
       const error = new Error('Role not found') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.NOT_FOUND
       throw error
     }
-    return role
+    
+    const { permissions: rolePermissions, parents, ...data } = role
+    const sources = new Map<number, RolePermissionSource>()
+    
+    for (const { permission } of rolePermissions) {
+      sources.set(permission.id, { permission, source: 'direct', inheritedFrom: [] })
+    }
+    
+    // Ancestros en orden de cercanía (padres, luego abuelos...)
+    const ancestorIds = collectAncestors(id, await this.roleRepository.getParentLinks())
+    const ancestors = await this.roleRepository.findManyWithPermissions(ancestorIds)
+    ancestors.sort((a, b) => ancestorIds.indexOf(a.id) - ancestorIds.indexOf(b.id))
+    
+    for (const ancestor of ancestors) {
+      for (const { permission } of ancestor.permissions) {
+        const from = { id: ancestor.id, name: ancestor.name }
+        const existing = sources.get(permission.id)
+        if (existing) {
+          existing.inheritedFrom.push(from)
+        } else {
+          sources.set(permission.id, { permission, source: 'inherited', inheritedFrom: [from] })
+        }
+      }
+    }
+    
+    return {
+      ...data,
+      parents: parents.map((link) => link.parent),
+      permissions: [...sources.values()],
+    }
   }
   
   /**
    * Crea un nuevo rol
    */
   async createRole(data: CreateRoleInput) {
+    if (!data.name || !data.name.trim()) {
+      const error = new Error('El nombre del rol es requerido') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
     // Verificar si el rol ya existe
     const existing = await this.roleRepository.findByName(data.name)
     if (existing) {
@@ -121,6 +211,16 @@ export class RoleService {
       throw error
     }
     
+    if (data.permissionIds) {
+      await this.ensurePermissionsExist(data.permissionIds)
+    }
+    
+    if (data.parentIds) {
+      data.parentIds = [...new Set(data.parentIds)]
+      // Un rol nuevo no tiene descendientes: no puede cerrar un ciclo
+      await this.ensureValidParents(null, data.parentIds)
+    }
+    
     return this.roleRepository.create(data)
   }
   
@@ -140,42 +240,231 @@ export class RoleService {
       }
     }
     
-    return this.roleRepository.update(id, data)
+    if (data.permissionIds) {
+      await this.ensurePermissionsExist(data.permissionIds)
+    }
+    
+    const parentIds = data.parentIds ? [...new Set(data.parentIds)] : undefined
+    if (parentIds) {
+      data.parentIds = parentIds
+      await this.ensureValidParents(id, parentIds)
+    }
+    
+    // El ciclo se comprueba dentro de la transacción que reemplaza los padres
+    const role = await this.roleRepository.update(
+      id,
+      data,
+      parentIds && ((links) => this.ensureNoInheritanceCycle(id, parentIds, links))
+    )
+    rolePermissionCache.clear() // El cambio afecta también a los roles que heredan de él
+    
+    return role
   }
   
   /**
    * Elimina un rol
+   * 
+   * No permite eliminar roles del sistema ni roles que todavía tienen usuarios asignados
    */
   async deleteRole(id: number) {
-    await this.getRoleById(id) // Verifica que existe
+    const role = await this.getRoleById(id) // Verifica que existe
     
-    // Verificar que no sea un rol del sistema (admin o user)
-    const role = await this.roleRepository.findById(id)
-    if (role && (role.name === ROLE_NAMES.ADMIN || role.name === ROLE_NAMES.USER)) {
+    // Verificar que no sea un rol del sistema (admin, user o roles de organización)
+    if ((Object.values(ROLE_NAMES) as string[]).includes(role.name)) {
       const error = new Error('Cannot delete system roles') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
       throw error
     }
     
-    return this.roleRepository.delete(id)
+    // Verificar que ningún usuario tenga asignado el rol
+    const usersCount = await this.roleRepository.countUsers(id)
+    if (usersCount > 0) {
+      const error = new Error(
+        `No se puede eliminar el rol porque tiene ${usersCount} usuario(s) asignado(s). Reasígnalos a otro rol primero`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+    
+    // Verificar que ninguna membresía de organización use el rol
+    const membershipsCount = await this.roleRepository.countMemberships(id)
+    if (membershipsCount > 0) {
+      const error = new Error(
+        `No se puede eliminar el rol porque lo usan ${membershipsCount} membresía(s) de organizaciones`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+    
+    // Verificar que ningún rol activo herede de él
+    const childrenCount = await this.roleRepository.countChildren(id)
+    if (childrenCount > 0) {
+      const error = new Error(
+        `No se puede eliminar el rol porque ${childrenCount} rol(es) heredan sus permisos. Quítalo de sus roles padre primero`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+    
+    const deleted = await this.roleRepository.delete(id)
+    rolePermissionCache.delete(id)
+    
+    return deleted
+  }
+  
+  /**
+   * Obtiene los permisos asignados a un rol
+   */
+  async getRolePermissions(roleId: number) {
+    await this.getRoleById(roleId) // Verifica que existe
+    return this.roleRepository.getRolePermissions(roleId)
+  }
+  
+  /**
+   * Reemplaza todos los permisos de un rol
+   */
+  async assignPermissions(roleId: number, permissionIds: number[]) {
+    await this.getRoleById(roleId) // Verifica que existe
+    await this.ensurePermissionsExist(permissionIds)
+    
+    await this.roleRepository.assignPermissions(roleId, permissionIds)
+    rolePermissionCache.clear() // El cambio afecta también a los roles que heredan de él
+    
+    return this.roleRepository.getRolePermissions(roleId)
+  }
+  
+  /**
+   * Agrega un permiso individual a un rol
+   */
+  async addPermissionToRole(roleId: number, permissionId: number) {
+    await this.getRoleById(roleId) // Verifica que existe
+    await this.getPermissionById(permissionId) // Verifica que existe
+    
+    await this.roleRepository.addPermission(roleId, permissionId)
+    rolePermissionCache.clear() // El cambio afecta también a los roles que heredan de él
+    
+    return this.roleRepository.getRolePermissions(roleId)
+  }
+  
+  /**
+   * Quita un permiso individual de un rol
+   */
+  async removePermissionFromRole(roleId: number, permissionId: number) {
+    await this.getRoleById(roleId) // Verifica que existe
+    
+    const removed = await this.roleRepository.removePermission(roleId, permissionId)
+    if (!removed) {
+      const error = new Error('El rol no tiene asignado este permiso') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+    rolePermissionCache.clear() // El cambio afecta también a los roles que heredan de él
+    
+    return this.roleRepository.getRolePermissions(roleId)
   }
   
   /**
    * Verifica si un usuario tiene un permiso específico
+   * 
+   * Combina los permisos del rol con los concedidos directamente al usuario;
+   * un permiso denegado directamente prevalece sobre ambos.
+   * Aplica comodines e implicaciones: con "users.manage", "users.*", "*" o
+   * admin.access el usuario tiene también "users.delete".
    */
   async userHasPermission(userId: number, permissionName: string): Promise<boolean> {
-    // Obtener el usuario con su rol
+    // Obtener el rol del usuario
     const { db } = await import('../config/prisma')
     const user = await db.user.findUnique({
       where: { id: userId },
-      include: { role: true },
+      select: { roleId: true },
     })
     
-    if (!user || !user.role) {
+    if (!user) {
       return false
     }
     
-    return this.roleRepository.hasPermission(user.role.id, permissionName)
+    const { permissions, denied } = await this.getUserEffectivePermissions(userId, user.roleId)
+    return !permissionSetDenies(denied, permissionName) && permissionSetGrants(permissions, permissionName)
+  }
+  
+  /**
+   * Obtiene los permisos efectivos de un usuario: los de su rol más los
+   * concedidos directamente (con sus implicaciones), y los denegados directamente
+   * 
+   * @param roleId - Rol con el que se evalúa (el global o el de la membresía activa)
+   */
+  async getUserEffectivePermissions(
+    userId: number,
+    roleId: number | undefined
+  ): Promise<{ permissions: string[]; denied: string[] }> {
+    const [rolePermissions, overrides] = await Promise.all([
+      roleId !== undefined ? this.getRolePermissionNames(roleId) : Promise.resolve([]),
+      this.getUserPermissionOverrides(userId),
+    ])
+    
+    return {
+      permissions: [...expandPermissions([...rolePermissions, ...overrides.granted])].sort(),
+      denied: overrides.denied,
+    }
+  }
+  
+  /**
+   * Obtiene los permisos concedidos y denegados directamente a un usuario
+   * (solo los vigentes; con caché en memoria)
+   */
+  async getUserPermissionOverrides(userId: number): Promise<UserPermissionOverrides> {
+    let entries = userPermissionCache.get(userId)
+    if (!entries) {
+      const active = await this.userPermissionRepository.findActiveByUser(userId)
+      entries = active.map((entry) => ({
+        name: entry.permission.name,
+        effect: entry.effect,
+        expiresAt: entry.expiresAt,
+      }))
+      userPermissionCache.set(userId, entries)
+    }
+    
+    // Un permiso puede expirar mientras está en caché
+    const now = new Date()
+    const current = entries.filter((entry) => entry.expiresAt === null || entry.expiresAt > now)
+    
+    return {
+      granted: current.filter((entry) => entry.effect === USER_PERMISSION_EFFECTS.GRANT).map((entry) => entry.name),
+      denied: current.filter((entry) => entry.effect === USER_PERMISSION_EFFECTS.DENY).map((entry) => entry.name),
+    }
+  }
+  
+  /**
+   * Invalida la caché de permisos directos de un usuario
+   * (al conceder, denegar o quitar uno de sus permisos directos)
+   */
+  invalidateUserPermissions(userId: number): void {
+    userPermissionCache.delete(userId)
+  }
+  
+  /**
+   * Obtiene los permisos efectivos de un rol: los asignados, los heredados y
+   * los implicados (ej: admin.access → *), ordenados. Los comodines se devuelven tal cual.
+   */
+  async getEffectivePermissions(roleId: number): Promise<string[]> {
+    const granted = await this.getRolePermissionNames(roleId)
+    return [...expandPermissions(granted)].sort()
+  }
+  
+  /**
+   * Obtiene los nombres de los permisos activos de un rol: la unión de los
+   * suyos y los de toda su cadena de herencia (con caché en memoria)
+   */
+  async getRolePermissionNames(roleId: number): Promise<string[]> {
+    const cached = rolePermissionCache.get(roleId)
+    if (cached) {
+      return cached
+    }
+    
+    const ancestorIds = collectAncestors(roleId, await this.roleRepository.getParentLinks())
+    const names = await this.roleRepository.getActivePermissionNames([roleId, ...ancestorIds])
+    rolePermissionCache.set(roleId, names)
+    return names
   }
   
   /**
@@ -185,10 +474,29 @@ export class RoleService {
     return this.permissionRepository.findAll()
   }
   
+  /**
+   * Obtiene un permiso por ID
+   */
+  async getPermissionById(id: number) {
+    const permission = await this.permissionRepository.findById(id)
+    if (!permission) {
+      const error = new Error('Permiso no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+    return permission
+  }
+  
   /**
    * Crea un nuevo permiso
    */
   async createPermission(data: CreatePermissionInput) {
+    if (!data.name || !PERMISSION_NAME_PATTERN.test(data.name)) {
+      const error = new Error('El nombre del permiso es requerido y debe tener el formato "recurso.accion", "recurso.*" o "*"') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
     // Verificar si el permiso ya existe
     const existing = await this.permissionRepository.findByName(data.name)
     if (existing) {
@@ -204,10 +512,16 @@ export class RoleService {
    * Actualiza un permiso
    */
   async updatePermission(id: number, data: UpdatePermissionInput) {
-    await this.permissionRepository.findById(id) // Verifica que existe
+    await this.getPermissionById(id) // Verifica que existe
     
     // Verificar nombre único si se está cambiando
     if (data.name) {
+      if (!PERMISSION_NAME_PATTERN.test(data.name)) {
+        const error = new Error('El nombre del permiso debe tener el formato "recurso.accion", "recurso.*" o "*"') as Error & { statusCode?: number }
+        error.statusCode = HTTP_STATUS.BAD_REQUEST
+        throw error
+      }
+      
       const existing = await this.permissionRepository.findByName(data.name)
       if (existing && existing.id !== id) {
         const error = new Error('Permission with this name already exists') as Error & { statusCode?: number }
@@ -216,7 +530,139 @@ export class RoleService {
       }
     }
     
-    return this.permissionRepository.update(id, data)
+    const permission = await this.permissionRepository.update(id, data)
+    rolePermissionCache.clear() // El cambio afecta a todos los roles que lo tienen
+    userPermissionCache.clear() // Y a los usuarios que lo tienen como permiso directo
+    
+    return permission
+  }
+  
+  /**
+   * Elimina un permiso (soft delete)
+   */
+  async deletePermission(id: number) {
+    await this.getPermissionById(id) // Verifica que existe
+    
+    const permission = await this.permissionRepository.delete(id)
+    rolePermissionCache.clear() // El cambio afecta a todos los roles que lo tienen
+    userPermissionCache.clear() // Y a los usuarios que lo tienen como permiso directo
+    
+    return permission
+  }
+  
+  /**
+   * Verifica que los roles padre existan y estén activos
+   * 
+   * @param roleId - Rol que hereda (null si se está creando)
+   */
+  private async ensureValidParents(roleId: number | null, parentIds: number[]): Promise<void> {
+    if (roleId !== null && parentIds.includes(roleId)) {
+      const error = new Error('Un rol no puede heredar de sí mismo') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
+    const parents = await this.roleRepository.findByIds(parentIds)
+    const activeIds = new Set(parents.filter((role) => role.isActive).map((role) => role.id))
+    const missingIds = parentIds.filter((id) => !activeIds.has(id))
+    if (missingIds.length > 0) {
+      const error = new Error(`Roles padre no encontrados: ${missingIds.join(', ')}`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+  }
+  
+  /**
+   * Verifica que los nuevos roles padre no creen un ciclo
+   * 
+   * Hay ciclo si algún padre nuevo ya hereda (directa o indirectamente) del rol.
+   * Se ignoran los padres actuales del rol porque se reemplazan.
+   * 
+   * @param links - Enlaces de herencia actuales (leídos en la transacción del cambio)
+   */
+  private async ensureNoInheritanceCycle(roleId: number, parentIds: number[], links: RoleParentLink[]): Promise<void> {
+    const otherLinks = links.filter((link) => link.roleId !== roleId)
+    for (const parentId of parentIds) {
+      const path = findInheritancePath(parentId, roleId, otherLinks)
+      if (path) {
+        const cycleIds = [roleId, ...path]
+        const names = new Map((await this.roleRepository.findByIds(cycleIds)).map((role) => [role.id, role.name]))
+        const error = new Error(
+          `La herencia crearía un ciclo: ${cycleIds.map((id) => names.get(id) ?? id).join(' → ')}`
+        ) as Error & { statusCode?: number }
+        error.statusCode = HTTP_STATUS.BAD_REQUEST
+        throw error
+      }
+    }
+  }
+  
+  /**
+   * Verifica que todos los IDs de permisos existan
+   */
+  private async ensurePermissionsExist(permissionIds: number[]): Promise<void> {
+    const uniqueIds = [...new Set(permissionIds)]
+    const permissions = await this.permissionRepository.findByIds(uniqueIds)
+    
+    if (permissions.length !== uniqueIds.length) {
+      const foundIds = new Set(permissions.map((p) => p.id))
+      const missingIds = uniqueIds.filter((id) => !foundIds.has(id))
+      const error = new Error(`Permisos no encontrados: ${missingIds.join(', ')}`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
   }
 }
 
+/**
+ * Obtiene los ancestros activos de un rol (padres, abuelos...) en orden de cercanía
+ * 
+ * Los roles desactivados no se heredan, ni tampoco lo que ellos heredan.
+ * Tolera ciclos (no deberían existir: la API los rechaza).
+ */
+function collectAncestors(roleId: number, links: RoleParentLink[]): number[] {
+  const visited = new Set<number>([roleId])
+  const ancestors: number[] = []
+  const queue = [roleId]
+  
+  for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+    for (const link of links) {
+      if (link.roleId === current && link.parentIsActive && !visited.has(link.parentId)) {
+        visited.add(link.parentId)
+        ancestors.push(link.parentId)
+        queue.push(link.parentId)
+      }
+    }
+  }
+  
+  return ancestors
+}
+
+/**
+ * Busca la cadena de herencia de un rol hasta uno de sus ancestros
+ * (incluidos los desactivados, que pueden reactivarse)
+ * 
+ * @returns IDs desde `fromId` hasta `toId`, o null si `fromId` no hereda de `toId`
+ */
+function findInheritancePath(fromId: number, toId: number, links: RoleParentLink[]): number[] | null {
+  const previous = new Map<number, number>()
+  const queue = [fromId]
+  
+  for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+    if (current === toId) {
+      const path = [current]
+      for (let step = previous.get(current); step !== undefined; step = previous.get(step)) {
+        path.unshift(step)
+      }
+      return path
+    }
+    
+    for (const link of links) {
+      if (link.roleId === current && link.parentId !== fromId && !previous.has(link.parentId)) {
+        previous.set(link.parentId, current)
+        queue.push(link.parentId)
+      }
+    }
+  }
+  
+  return null
+}
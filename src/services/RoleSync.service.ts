@@ -0,0 +1,324 @@
+/**
+ * ROLE SYNC SERVICE - Sincronización Declarativa de Roles y Permisos
+ *
+ * Este service compara un manifiesto de roles y permisos (YAML o JSON)
+ * con la base de datos y genera el plan de cambios para reconciliarlos:
+ * - Permisos: altas, cambios de descripción, reactivación y bajas
+ * - Roles: altas, cambios (descripción, requireTwoFactor, reactivación) y bajas
+ * - Asignaciones de permisos a roles: altas y bajas
+ *
+ * El manifiesto es la fuente de verdad: lo que no declara se desactiva o se
+ * quita. Un rol del sistema, con usuarios/membresías o del que heredan otros
+ * roles no se puede dar de baja: el plan queda bloqueado. La herencia entre
+ * roles (parentIds) no forma parte del manifiesto: se gestiona desde la API.
+ *
+ * USO:
+ *   import { RoleSyncService } from '../services/RoleSync.service'
+ *   const roleSyncService = new RoleSyncService()
+ *   const manifest = await roleSyncService.loadManifest('data/roles.yaml')
+ *   const plan = await roleSyncService.buildPlan(manifest)
+ *   if (roleSyncService.hasChanges(plan)) await roleSyncService.applyPlan(plan)
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { parse as parseYaml } from 'yaml'
+import { RoleSyncRepository } from '../repositories/RoleSync.repository'
+import { HTTP_STATUS } from '../constants'
+import { PERMISSION_NAME_PATTERN, ROLE_NAMES } from '../models/Role.model'
+import type {
+  FieldChanges,
+  PermissionFields,
+  PermissionManifestEntry,
+  RoleFields,
+  RoleManifest,
+  RoleManifestEntry,
+  RoleSyncPlan,
+} from '../models/RoleSync.model'
+
+export class RoleSyncService {
+  private roleSyncRepository: RoleSyncRepository
+
+  constructor() {
+    this.roleSyncRepository = new RoleSyncRepository()
+  }
+
+  /**
+   * Lee y valida un manifiesto (.yaml, .yml o .json)
+   *
+   * @throws 400 si el formato o el contenido no son válidos
+   */
+  async loadManifest(filePath: string): Promise<RoleManifest> {
+    const content = await readFile(filePath, 'utf-8')
+    const extension = path.extname(filePath).toLowerCase()
+
+    let data: unknown
+    try {
+      if (extension === '.yaml' || extension === '.yml') {
+        data = parseYaml(content)
+      } else if (extension === '.json') {
+        data = JSON.parse(content)
+      } else {
+        throw new Error('el manifiesto debe ser .yaml, .yml o .json')
+      }
+    } catch (error) {
+      throw this.invalidManifestError([error instanceof Error ? error.message : String(error)])
+    }
+
+    return this.validateManifest(data)
+  }
+
+  /**
+   * Valida la estructura de un manifiesto
+   *
+   * @throws 400 con todos los problemas encontrados
+   */
+  validateManifest(data: unknown): RoleManifest {
+    const problems: string[] = []
+
+    if (!isObject(data) || !Array.isArray(data.permissions) || !Array.isArray(data.roles)) {
+      throw this.invalidManifestError(['debe tener las listas "permissions" y "roles"'])
+    }
+
+    const permissions: PermissionManifestEntry[] = []
+    const permissionNames = new Set<string>()
+
+    data.permissions.forEach((entry: unknown, index: number) => {
+      const where = `permissions[${index}]`
+      if (!isObject(entry) || typeof entry.name !== 'string' || !PERMISSION_NAME_PATTERN.test(entry.name)) {
+        problems.push(`${where}: name debe tener el formato "recurso.accion", "recurso.*" o "*"`)
+        return
+      }
+      if (permissionNames.has(entry.name)) {
+        problems.push(`${where}: permiso duplicado "${entry.name}"`)
+        return
+      }
+      if (entry.description !== undefined && typeof entry.description !== 'string') {
+        problems.push(`${where}: description debe ser un texto`)
+        return
+      }
+
+      permissionNames.add(entry.name)
+      permissions.push({
+        name: entry.name,
+        ...(entry.description !== undefined && { description: entry.description }),
+      })
+    })
+
+    const roles: RoleManifestEntry[] = []
+    const roleNames = new Set<string>()
+
+    data.roles.forEach((entry: unknown, index: number) => {
+      const where = `roles[${index}]`
+      if (!isObject(entry) || typeof entry.name !== 'string' || !entry.name.trim()) {
+        problems.push(`${where}: name es requerido`)
+        return
+      }
+      if (roleNames.has(entry.name)) {
+        problems.push(`${where}: rol duplicado "${entry.name}"`)
+        return
+      }
+      if (entry.description !== undefined && typeof entry.description !== 'string') {
+        problems.push(`${where}: description debe ser un texto`)
+        return
+      }
+      if (entry.requireTwoFactor !== undefined && typeof entry.requireTwoFactor !== 'boolean') {
+        problems.push(`${where}: requireTwoFactor debe ser true o false`)
+        return
+      }
+
+      const rolePermissions = entry.permissions ?? []
+      if (!Array.isArray(rolePermissions) || !rolePermissions.every((name) => typeof name === 'string')) {
+        problems.push(`${where}: permissions debe ser una lista de nombres de permisos`)
+        return
+      }
+
+      const undeclared = rolePermissions.filter((name: string) => !permissionNames.has(name))
+      if (undeclared.length > 0) {
+        problems.push(`${where}: permisos no declarados en "permissions": ${undeclared.join(', ')}`)
+        return
+      }
+
+      roleNames.add(entry.name)
+      roles.push({
+        name: entry.name,
+        ...(entry.description !== undefined && { description: entry.description }),
+        ...(entry.requireTwoFactor !== undefined && { requireTwoFactor: entry.requireTwoFactor }),
+        permissions: [...new Set(rolePermissions as string[])],
+      })
+    })
+
+    if (problems.length > 0) {
+      throw this.invalidManifestError(problems)
+    }
+
+    return { permissions, roles }
+  }
+
+  /**
+   * Compara el manifiesto con la base de datos y genera el plan de cambios
+   */
+  async buildPlan(manifest: RoleManifest): Promise<RoleSyncPlan> {
+    const [currentPermissions, currentRoles] = await Promise.all([
+      this.roleSyncRepository.getPermissions(),
+      this.roleSyncRepository.getRoles(),
+    ])
+
+    const plan: RoleSyncPlan = {
+      permissions: { add: [], update: [], remove: [] },
+      roles: { add: [], update: [], remove: [] },
+      assignments: { add: [], remove: [] },
+      blocked: [],
+    }
+
+    // Permisos
+    const permissionsByName = new Map(currentPermissions.map((permission) => [permission.name, permission]))
+
+    for (const desired of manifest.permissions) {
+      const current = permissionsByName.get(desired.name)
+
+      if (!current) {
+        plan.permissions.add.push({ name: desired.name, description: desired.description ?? null })
+        continue
+      }
+
+      const changes: FieldChanges<PermissionFields> = {}
+      if (!current.isActive) {
+        changes.isActive = { from: false, to: true }
+      }
+      if (desired.description !== undefined && desired.description !== current.description) {
+        changes.description = { from: current.description, to: desired.description }
+      }
+      if (Object.keys(changes).length > 0) {
+        plan.permissions.update.push({ id: current.id, name: current.name, changes })
+      }
+    }
+
+    const declaredPermissions = new Set(manifest.permissions.map((permission) => permission.name))
+    for (const current of currentPermissions) {
+      if (current.isActive && !declaredPermissions.has(current.name)) {
+        plan.permissions.remove.push({ id: current.id, name: current.name })
+      }
+    }
+
+    // Roles y asignaciones
+    const rolesByName = new Map(currentRoles.map((role) => [role.name, role]))
+
+    for (const desired of manifest.roles) {
+      const current = rolesByName.get(desired.name)
+
+      if (!current) {
+        plan.roles.add.push({
+          name: desired.name,
+          description: desired.description ?? null,
+          requireTwoFactor: desired.requireTwoFactor ?? false,
+          permissions: desired.permissions,
+        })
+        continue
+      }
+
+      const changes: FieldChanges<RoleFields> = {}
+      if (!current.isActive) {
+        changes.isActive = { from: false, to: true }
+      }
+      if (desired.description !== undefined && desired.description !== current.description) {
+        changes.description = { from: current.description, to: desired.description }
+      }
+      if (desired.requireTwoFactor !== undefined && desired.requireTwoFactor !== current.requireTwoFactor) {
+        changes.requireTwoFactor = { from: current.requireTwoFactor, to: desired.requireTwoFactor }
+      }
+      if (Object.keys(changes).length > 0) {
+        plan.roles.update.push({ id: current.id, name: current.name, changes })
+      }
+
+      const assigned = new Set(current.permissions.map((permission) => permission.name))
+      const wanted = new Set(desired.permissions)
+
+      for (const name of desired.permissions) {
+        if (!assigned.has(name)) {
+          plan.assignments.add.push({ roleId: current.id, role: current.name, permission: name })
+        }
+      }
+      for (const permission of current.permissions) {
+        if (!wanted.has(permission.name)) {
+          plan.assignments.remove.push({
+            roleId: current.id,
+            role: current.name,
+            permissionId: permission.id,
+            permission: permission.name,
+          })
+        }
+      }
+    }
+
+    const declaredRoles = new Set(manifest.roles.map((role) => role.name))
+    const systemRoles = new Set<string>(Object.values(ROLE_NAMES))
+
+    for (const current of currentRoles) {
+      if (!current.isActive || declaredRoles.has(current.name)) {
+        continue
+      }
+
+      plan.roles.remove.push({ id: current.id, name: current.name })
+
+      if (systemRoles.has(current.name)) {
+        plan.blocked.push(`El rol del sistema "${current.name}" debe estar en el manifiesto`)
+      } else if (current.users > 0 || current.memberships > 0) {
+        plan.blocked.push(
+          `No se puede desactivar el rol "${current.name}": tiene ${current.users} usuario(s) y ${current.memberships} membresía(s)`
+        )
+      } else if (current.children > 0) {
+        plan.blocked.push(`No se puede desactivar el rol "${current.name}": ${current.children} rol(es) heredan sus permisos`)
+      }
+    }
+
+    return plan
+  }
+
+  /**
+   * Indica si el plan tiene cambios (hay diferencias con el manifiesto)
+   */
+  hasChanges(plan: RoleSyncPlan): boolean {
+    return [
+      plan.permissions.add,
+      plan.permissions.update,
+      plan.permissions.remove,
+      plan.roles.add,
+      plan.roles.update,
+      plan.roles.remove,
+      plan.assignments.add,
+      plan.assignments.remove,
+    ].some((changes) => changes.length > 0)
+  }
+
+  /**
+   * Aplica el plan en una transacción (si algo falla no se aplica nada)
+   *
+   * Las demás instancias de la API ven los cambios al expirar la caché de
+   * permisos (PERMISSION_CACHE_TTL_SECONDS).
+   *
+   * @throws 409 si el plan está bloqueado
+   */
+  async applyPlan(plan: RoleSyncPlan): Promise<void> {
+    if (plan.blocked.length > 0) {
+      const error = new Error(`El plan está bloqueado: ${plan.blocked.join('; ')}`) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    await this.roleSyncRepository.applyPlan(plan)
+  }
+
+  private invalidManifestError(problems: string[]): Error {
+    const error = new Error(`Manifiesto inválido:\n  - ${problems.join('\n  - ')}`) as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.BAD_REQUEST
+    return error
+  }
+}
+
+/**
+ * Indica si un valor es un objeto (no null ni arreglo)
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
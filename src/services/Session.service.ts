@@ -0,0 +1,266 @@
+/**
+ * SESSION SERVICE - Lógica de Negocio de Sesiones
+ *
+ * Este service administra las sesiones de usuario. Cada inicio de sesión
+ * crea una sesión independiente con su propio refresh token, de modo que
+ * un usuario puede estar conectado en varios dispositivos a la vez.
+ *
+ * - Crear sesiones y emitir tokens
+ * - Rotar el refresh token de una sesión
+ * - Detectar la reutilización de refresh tokens ya rotados
+ * - Listar los dispositivos conectados
+ * - Revocar sesiones individuales o en bloque
+ * - Eliminar las sesiones expiradas o revocadas (tarea periódica)
+ *
+ * USO:
+ *   import { SessionService } from '../services/Session.service'
+ *   const sessionService = new SessionService()
+ *   const tokens = await sessionService.startSession(user, { userAgent, ipAddress })
+ */
+
+import { randomUUID } from 'crypto'
+import { SessionRepository } from '../repositories/Session.repository'
+import { generateTokens, generateAccessToken, decodeToken } from '../config/jwt.config'
+import { hashToken } from '../utils/token.util'
+import { sessionCleanupConfig } from '../config/auth.config'
+import { logSecurityEvent } from '../utils/logger.util'
+import { HTTP_STATUS } from '../constants'
+import type { ClientInfo, RefreshTokenWithSession, SessionInfo } from '../models/Session.model'
+import type { RefreshTokenResponse } from '../models/Auth.model'
+
+/**
+ * Datos del usuario que se incluyen en los tokens de la sesión
+ */
+interface SessionUser {
+  id: number
+  email: string
+  role: string
+}
+
+export class SessionService {
+  private sessionRepository: SessionRepository
+
+  constructor() {
+    this.sessionRepository = new SessionRepository()
+  }
+
+  /**
+   * Inicia una nueva sesión y emite su par de tokens
+   */
+  async startSession(user: SessionUser, client: ClientInfo = {}): Promise<RefreshTokenResponse> {
+    const sessionId = randomUUID()
+    const tokens = generateTokens({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    })
+
+    await this.sessionRepository.create({
+      id: sessionId,
+      userId: user.id,
+      refreshTokenHash: hashToken(tokens.refreshToken),
+      expiresAt: this.getTokenExpiration(tokens.refreshToken),
+      ...client,
+    })
+
+    return tokens
+  }
+
+  /**
+   * Busca un refresh token vigente
+   *
+   * Si el token ya fue rotado se considera reutilizado: se revoca la
+   * familia completa (la sesión) y se registra un evento de seguridad.
+   *
+   * @throws 401 si el token no existe, fue reutilizado o su sesión no está activa
+   */
+  async findValidRefreshToken(refreshToken: string, client: ClientInfo = {}): Promise<RefreshTokenWithSession> {
+    const record = await this.sessionRepository.findRefreshTokenByHash(hashToken(refreshToken))
+
+    if (!record) {
+      throw this.invalidRefreshTokenError()
+    }
+
+    if (record.rotatedAt) {
+      return this.handleTokenReuse(record, client)
+    }
+
+    const now = new Date()
+    if (record.session.revokedAt || record.expiresAt <= now || record.session.expiresAt <= now) {
+      throw this.invalidRefreshTokenError()
+    }
+
+    return record
+  }
+
+  /**
+   * Emite un nuevo par de tokens para la sesión del refresh token presentado
+   *
+   * El token presentado queda marcado como rotado y el nuevo registra a su padre.
+   */
+  async rotateSession(
+    record: RefreshTokenWithSession,
+    user: SessionUser,
+    client: ClientInfo = {}
+  ): Promise<RefreshTokenResponse> {
+    const tokens = generateTokens({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: record.sessionId,
+      ...(record.session.organizationId !== null && { orgId: record.session.organizationId }),
+    })
+
+    const rotated = await this.sessionRepository.rotateToken(record, {
+      tokenHash: hashToken(tokens.refreshToken),
+      expiresAt: this.getTokenExpiration(tokens.refreshToken),
+      ...client,
+    })
+
+    // Otra petición rotó el mismo token primero: también es una reutilización
+    if (!rotated) {
+      return this.handleTokenReuse(record, client)
+    }
+
+    return tokens
+  }
+
+  /**
+   * Lista las sesiones activas de un usuario
+   *
+   * @param currentSessionId - Sesión que hace la petición (se marca como current)
+   */
+  async listSessions(userId: number, currentSessionId?: string): Promise<SessionInfo[]> {
+    const sessions = await this.sessionRepository.findActiveByUser(userId)
+
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }))
+  }
+
+  /**
+   * Revoca una sesión del usuario
+   */
+  async revokeSession(userId: number, sessionId: string): Promise<void> {
+    const revoked = await this.sessionRepository.revoke(sessionId, userId)
+
+    if (!revoked) {
+      const error = new Error('Sesión no encontrada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+  }
+
+  /**
+   * Revoca todas las sesiones del usuario excepto la actual
+   *
+   * @returns Número de sesiones revocadas
+   */
+  async revokeOtherSessions(userId: number, currentSessionId?: string): Promise<number> {
+    if (!currentSessionId) {
+      const error = new Error('No se pudo identificar la sesión actual') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    return this.sessionRepository.revokeAllForUser(userId, currentSessionId)
+  }
+
+  /**
+   * Cambia la organización activa de la sesión y emite un access token con ella
+   *
+   * Los refresh tokens posteriores de la sesión conservan la organización (claim "orgId").
+   * La membresía se comprueba antes (OrganizationService.switchOrganization).
+   *
+   * @param organizationId - Organización activa (null = ninguna)
+   * @throws 400 si no hay sesión (ej: API key)
+   * @throws 404 si la sesión no existe o fue revocada
+   */
+  async switchOrganization(
+    user: SessionUser,
+    sessionId: string | undefined,
+    organizationId: number | null
+  ): Promise<string> {
+    if (!sessionId) {
+      const error = new Error('No se pudo identificar la sesión actual') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const updated = await this.sessionRepository.setOrganization(sessionId, user.id, organizationId)
+    if (!updated) {
+      const error = new Error('Sesión no encontrada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    return generateAccessToken({
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+      ...(organizationId !== null && { orgId: organizationId }),
+    })
+  }
+
+  /**
+   * Revoca todas las sesiones del usuario
+   *
+   * @returns Número de sesiones revocadas
+   */
+  async revokeAllSessions(userId: number): Promise<number> {
+    return this.sessionRepository.revokeAllForUser(userId)
+  }
+
+  /**
+   * Elimina las sesiones (y sus refresh tokens) expiradas o revocadas hace
+   * más de sessionCleanupConfig.retentionDays días
+   *
+   * @returns Número de sesiones eliminadas
+   */
+  async purgeStaleSessions(): Promise<number> {
+    const before = new Date(Date.now() - sessionCleanupConfig.retentionDays * 24 * 60 * 60 * 1000)
+    return this.sessionRepository.deleteStale(before)
+  }
+
+  /**
+   * Revoca la familia de un refresh token reutilizado y registra el evento
+   */
+  private async handleTokenReuse(record: RefreshTokenWithSession, client: ClientInfo): Promise<never> {
+    await this.sessionRepository.revokeFamily(record.sessionId)
+
+    logSecurityEvent('refresh_token_reuse', {
+      userId: record.session.userId,
+      sessionId: record.sessionId,
+      refreshTokenId: record.id,
+      rotatedAt: record.rotatedAt?.toISOString(),
+      ...client,
+    })
+
+    const error = new Error('Token de refresco reutilizado. La sesión ha sido revocada') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED
+    throw error
+  }
+
+  /**
+   * Error estándar para refresh tokens inválidos
+   */
+  private invalidRefreshTokenError(): Error {
+    const error = new Error('Token de refresco inválido') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED
+    return error
+  }
+
+  /**
+   * Obtiene la fecha de expiración de un token JWT recién emitido
+   */
+  private getTokenExpiration(token: string): Date {
+    const payload = decodeToken(token)
+    if (!payload?.exp) {
+      throw new Error('El token emitido no tiene fecha de expiración')
+    }
+    return new Date(payload.exp * 1000)
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * TWO FACTOR SERVICE - Verificación en Dos Pasos (TOTP)
+ *
+ * Este service maneja la verificación en dos pasos:
+ * - Configuración: genera el secreto y la URI otpauth:// (código QR)
+ * - Confirmación: activa 2FA con un primer código y genera los códigos de recuperación
+ * - Verificación de códigos TOTP (sin reutilizar un código) y de recuperación (un solo uso)
+ * - Desactivación y regeneración de códigos de recuperación
+ *
+ * Un rol puede exigir 2FA a todos sus usuarios (Role.requireTwoFactor).
+ *
+ * USO:
+ *   import { TwoFactorService } from '../services/TwoFactor.service'
+ *   const twoFactorService = new TwoFactorService()
+ *   const { secret, otpauthUri } = await twoFactorService.setup(userId)
+ */
+
+import crypto from 'crypto'
+import { TwoFactorRepository } from '../repositories/TwoFactor.repository'
+import { twoFactorConfig } from '../config/auth.config'
+import { comparePassword } from '../utils/password.util'
+import { hashToken } from '../utils/token.util'
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp.util'
+import { logSecurityEvent } from '../utils/logger.util'
+import { HTTP_STATUS } from '../constants'
+import type { TwoFactorSetupResponse, TwoFactorStatus } from '../models/Auth.model'
+
+/**
+ * Datos de 2FA necesarios para verificar un código
+ */
+export interface TwoFactorUser {
+  id: number
+  twoFactorSecret: string | null
+  twoFactorEnabledAt: Date | null
+}
+
+/**
+ * Normaliza un código de recuperación (sin guiones ni espacios, en minúsculas)
+ */
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export class TwoFactorService {
+  private twoFactorRepository: TwoFactorRepository
+
+  constructor() {
+    this.twoFactorRepository = new TwoFactorRepository()
+  }
+
+  /**
+   * Obtiene el estado de la verificación en dos pasos de un usuario
+   */
+  async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const user = await this.getUser(userId)
+    const enabled = user.twoFactorEnabledAt !== null
+
+    return {
+      enabled,
+      required: user.role.requireTwoFactor,
+      pendingSetup: !enabled && user.twoFactorSecret !== null,
+      recoveryCodesRemaining: enabled
+        ? await this.twoFactorRepository.countRemainingRecoveryCodes(userId)
+        : 0,
+    }
+  }
+
+  /**
+   * Inicia la configuración: genera un secreto nuevo pendiente de confirmación
+   *
+   * Llamarlo de nuevo antes de confirmar reemplaza el secreto pendiente.
+   */
+  async setup(userId: number): Promise<TwoFactorSetupResponse> {
+    const user = await this.getUser(userId)
+
+    if (user.twoFactorEnabledAt) {
+      const error = new Error('La verificación en dos pasos ya está activada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    const secret = generateTotpSecret()
+    await this.twoFactorRepository.savePendingSecret(userId, secret)
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, twoFactorConfig.issuer),
+    }
+  }
+
+  /**
+   * Confirma la configuración con el primer código de la app y activa 2FA
+   *
+   * @returns Códigos de recuperación (solo se muestran esta vez)
+   */
+  async confirm(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.getUser(userId)
+
+    if (user.twoFactorEnabledAt) {
+      const error = new Error('La verificación en dos pasos ya está activada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.CONFLICT
+      throw error
+    }
+
+    if (!user.twoFactorSecret) {
+      const error = new Error('Primero debes iniciar la configuración de la verificación en dos pasos') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code, twoFactorConfig.window)
+    if (step === null) {
+      throw this.invalidCodeError()
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes()
+    await this.twoFactorRepository.enable(userId, step, recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c))))
+
+    logSecurityEvent('two_factor_enabled', { userId })
+
+    return { recoveryCodes }
+  }
+
+  /**
+   * Desactiva la verificación en dos pasos (requiere contraseña y código)
+   *
+   * No se permite si el rol del usuario la exige.
+   */
+  async disable(userId: number, password: string, code: string): Promise<void> {
+    const user = await this.getUser(userId)
+
+    if (!user.twoFactorEnabledAt) {
+      const error = new Error('La verificación en dos pasos no está activada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (user.role.requireTwoFactor) {
+      const error = new Error('Tu rol exige la verificación en dos pasos') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+
+    // Cuentas sin contraseña (creadas con OAuth): deben crear una primero
+    if (user.password === null) {
+      const error = new Error('Tu cuenta no tiene contraseña. Usa la recuperación de contraseña para crear una') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const isPasswordValid = await comparePassword(password, user.password)
+    if (!isPasswordValid) {
+      const error = new Error('La contraseña es incorrecta') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED
+      throw error
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw this.invalidCodeError()
+    }
+
+    await this.twoFactorRepository.disable(userId)
+
+    logSecurityEvent('two_factor_disabled', { userId })
+  }
+
+  /**
+   * Genera nuevos códigos de recuperación (invalida los anteriores)
+   */
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<{ recoveryCodes: string[] }> {
+    const user = await this.getUser(userId)
+
+    if (!user.twoFactorEnabledAt) {
+      const error = new Error('La verificación en dos pasos no está activada') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      throw this.invalidCodeError()
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes()
+    await this.twoFactorRepository.replaceRecoveryCodes(userId, recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c))))
+
+    logSecurityEvent('two_factor_recovery_codes_regenerated', { userId })
+
+    return { recoveryCodes }
+  }
+
+  /**
+   * Verifica un código TOTP o de recuperación de un usuario con 2FA activa
+   *
+   * Los códigos TOTP no se pueden reutilizar y los de recuperación
+   * se consumen al usarse.
+   */
+  async verifyCode(user: TwoFactorUser, code: string): Promise<boolean> {
+    if (!user.twoFactorEnabledAt || !user.twoFactorSecret || !code) {
+      return false
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, code, twoFactorConfig.window)
+    if (step !== null) {
+      return this.twoFactorRepository.claimTotpStep(user.id, step)
+    }
+
+    const used = await this.twoFactorRepository.useRecoveryCode(
+      user.id,
+      hashToken(normalizeRecoveryCode(code))
+    )
+
+    if (used) {
+      logSecurityEvent('two_factor_recovery_code_used', { userId: user.id })
+    }
+
+    return used
+  }
+
+  /**
+   * Error de código inválido
+   */
+  invalidCodeError(): Error {
+    const error = new Error('Código de verificación inválido') as Error & { statusCode?: number }
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED
+    return error
+  }
+
+  /**
+   * Obtiene el usuario o lanza 404
+   */
+  private async getUser(userId: number) {
+    const user = await this.twoFactorRepository.findUserById(userId)
+
+    if (!user) {
+      const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    return user
+  }
+
+  /**
+   * Genera códigos de recuperación aleatorios con formato "xxxxx-xxxxx"
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: twoFactorConfig.recoveryCodesCount }, () => {
+      const code = crypto.randomBytes(5).toString('hex')
+      return `${code.slice(0, 5)}-${code.slice(5)}`
+    })
+  }
+}
@@ -22,16 +22,36 @@
  */
 
 import { UserRepository } from '../repositories/User.repository'
+import { OrganizationRepository } from '../repositories/Organization.repository'
+import { EmailVerificationService } from './EmailVerification.service'
+import { LoginAttemptService } from './LoginAttempt.service'
+import { SessionService } from './Session.service'
+import { PolicyService } from './Policy.service'
 import type { CreateUserInput, UpdateUserInput, UserFilters, UserOrderBy } from '../models/User.model'
+import type { PolicyRequest } from '../models/Policy.model'
+import { ROLE_NAMES } from '../models/Role.model'
+import { POLICY_ACTIONS } from '../models/Policy.model'
+import type { UserResource } from '../config/policies.config'
 import type { User } from '@prisma/client'
 import { HTTP_STATUS, PRISMA_ERROR_CODES } from '../constants'
 import { validateEmail } from '../utils'
+import { logSecurityEvent } from '../utils/logger.util'
 
 export class UserService {
   private userRepository: UserRepository
+  private organizationRepository: OrganizationRepository
+  private emailVerificationService: EmailVerificationService
+  private loginAttemptService: LoginAttemptService
+  private sessionService: SessionService
+  private policyService: PolicyService
   
   constructor() {
     this.userRepository = new UserRepository()
+    this.organizationRepository = new OrganizationRepository()
+    this.emailVerificationService = new EmailVerificationService()
+    this.loginAttemptService = new LoginAttemptService()
+    this.sessionService = new SessionService()
+    this.policyService = new PolicyService()
   }
   
   /**
@@ -67,13 +87,15 @@ export class UserService {
   
   /**
    * Obtiene un usuario por ID
+   * 
+   * @param organizationId - Organización activa: 404 si el usuario no es miembro
    */
-  async getUserById(id: number) {
+  async getUserById(id: number, organizationId?: number) {
     if (!id || id <= 0) {
       throw new Error('ID de usuario inválido')
     }
     
-    const user = await this.userRepository.findById(id)
+    const user = await this.userRepository.findById(id, organizationId)
     
     if (!user) {
       const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
@@ -128,8 +150,14 @@ export class UserService {
   
   /**
    * Actualiza un usuario existente
+   * 
+   * Si cambia el email, la nueva dirección queda sin verificar
+   * y se le envía un email de verificación.
+   * 
+   * @param organizationId - Organización activa: 404 si el usuario no es miembro
+   * @param actorId - Quien lo actualiza (con organización activa, ver ensureTenantCanModify)
    */
-  async updateUser(id: number, data: UpdateUserInput): Promise<User> {
+  async updateUser(id: number, data: UpdateUserInput, organizationId?: number, actorId?: number): Promise<User> {
     if (!id || id <= 0) {
       const error = new Error('Invalid user ID') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
@@ -144,13 +172,15 @@ export class UserService {
     }
     
     // Verificar si el usuario existe
-    const user = await this.userRepository.findById(id)
+    const user = await this.userRepository.findById(id, organizationId)
     if (!user) {
       const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.NOT_FOUND
       throw error
     }
     
+    await this.ensureTenantCanModify(user, organizationId, actorId)
+    
     // Verificar si el nuevo email ya está en uso por otro usuario
     if (data.email && data.email !== user.email) {
       const exists = await this.userRepository.existsByEmail(data.email)
@@ -162,9 +192,18 @@ export class UserService {
       }
     }
     
-    // Actualizar el usuario
+    const emailChanged = !!data.email && data.email !== user.email
+    
+    // Actualizar el usuario (el email nuevo queda sin verificar en la misma escritura)
     try {
-      return await this.userRepository.update(id, data)
+      const { email: _unchangedEmail, ...dataWithoutEmail } = data
+      const updated = await this.userRepository.update(id, emailChanged ? data : dataWithoutEmail)
+      
+      if (emailChanged) {
+        await this.emailVerificationService.sendVerification(updated)
+      }
+      
+      return updated
     } catch (error: unknown) {
       if (isPrismaError(error) && error.code === PRISMA_ERROR_CODES.RECORD_NOT_FOUND) {
         const prismaError = new Error('User not found') as Error & { statusCode?: number }
@@ -177,8 +216,11 @@ export class UserService {
   
   /**
    * Elimina un usuario
+   * 
+   * @param organizationId - Organización activa: 404 si el usuario no es miembro
+   * @param actorId - Quien lo elimina (con organización activa, ver ensureTenantCanModify)
    */
-  async deleteUser(id: number): Promise<void> {
+  async deleteUser(id: number, organizationId?: number, actorId?: number): Promise<void> {
     if (!id || id <= 0) {
       const error = new Error('Invalid user ID') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.BAD_REQUEST
@@ -186,13 +228,15 @@ export class UserService {
     }
     
     // Verificar si el usuario existe
-    const user = await this.userRepository.findById(id)
+    const user = await this.userRepository.findById(id, organizationId)
     if (!user) {
       const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
       error.statusCode = HTTP_STATUS.NOT_FOUND
       throw error
     }
     
+    await this.ensureTenantCanModify(user, organizationId, actorId)
+    
     // Eliminar el usuario
     try {
       await this.userRepository.delete(id)
@@ -205,6 +249,102 @@ export class UserService {
       throw error
     }
   }
+  
+  /**
+   * Desbloquea la cuenta de un usuario bloqueada por intentos fallidos
+   */
+  async unlockUser(id: number, actorId?: number): Promise<void> {
+    if (!id || id <= 0) {
+      const error = new Error('Invalid user ID') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
+    // Verificar si el usuario existe
+    const user = await this.userRepository.findById(id)
+    if (!user) {
+      const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+    
+    await this.loginAttemptService.unlockAccount(id, actorId)
+  }
+  
+  /**
+   * Desactiva un usuario y cierra todas sus sesiones
+   * 
+   * Lo decide la política "users.deactivate" (config/policies.config):
+   * ej: un moderador no puede desactivar a un administrador.
+   * 
+   * @param id - ID del usuario a desactivar
+   * @param authorization - Sujeto y contexto de quien lo desactiva (sin el recurso)
+   * @param organizationId - Organización activa: 404 si el usuario no es miembro
+   * @throws 404 si el usuario no existe
+   * @throws 403 si la política no lo permite
+   */
+  async deactivateUser(
+    id: number,
+    authorization: Omit<PolicyRequest, 'action' | 'resource'>,
+    organizationId?: number
+  ): Promise<void> {
+    if (!id || id <= 0) {
+      const error = new Error('Invalid user ID') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+    
+    const user = await this.userRepository.findById(id, organizationId) as (User & { role?: { name: string } | null }) | null
+    if (!user) {
+      const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+    
+    await this.ensureTenantCanModify(user, organizationId, authorization.subject.id)
+    
+    const resource: UserResource = { id: user.id, role: user.role?.name ?? null }
+    await this.policyService.authorize({ ...authorization, action: POLICY_ACTIONS.USERS_DEACTIVATE, resource })
+    
+    await this.userRepository.setActive(id, false)
+    const revokedSessions = await this.sessionService.revokeAllSessions(id)
+    
+    logSecurityEvent('user_deactivated', {
+      userId: id,
+      actorId: authorization.subject.id,
+      revokedSessions,
+    })
+  }
+  
+  /**
+   * Verifica que un administrador de organización pueda modificar la cuenta de otro usuario
+   * 
+   * La cuenta (email, estado, borrado) es global, no de la organización: desde una
+   * organización solo se modifican los usuarios con el rol global "user" que no son
+   * miembros de ninguna otra. El resto solo lo modifica un administrador global
+   * (sin organización activa). La propia cuenta siempre se puede modificar.
+   * 
+   * @throws 403 si el usuario tiene otro rol global o pertenece a otras organizaciones
+   */
+  private async ensureTenantCanModify(
+    user: User & { role?: { name: string } | null },
+    organizationId: number | undefined,
+    actorId: number | undefined
+  ): Promise<void> {
+    if (organizationId === undefined || user.id === actorId) {
+      return
+    }
+    
+    const otherMemberships = await this.organizationRepository.countMembershipsOutside(user.id, organizationId)
+    
+    if (user.role?.name !== ROLE_NAMES.USER || otherMemberships > 0) {
+      const error = new Error(
+        'Este usuario tiene un rol global o pertenece a otras organizaciones: solo un administrador global puede modificar su cuenta'
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+  }
 }
 
 /**
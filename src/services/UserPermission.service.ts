@@ -0,0 +1,200 @@
+/**
+ * USER PERMISSION SERVICE - Permisos Directos de Usuario
+ *
+ * Este service maneja los permisos concedidos (grant) o denegados (deny)
+ * directamente a un usuario, además de los de su rol:
+ * - Un grant concede el permiso (ej: users.delete durante una migración)
+ * - Un deny lo bloquea aunque lo concedan el rol o un grant
+ * - Con expiresAt deja de aplicarse al expirar; purgeExpired los elimina
+ *
+ * La combinación con los permisos del rol se hace en RoleService
+ * (userHasPermission / getUserEffectivePermissions).
+ *
+ * Quien concede un permiso debe tenerlo (no se puede conceder más de lo que se tiene).
+ *
+ * USO:
+ *   import { UserPermissionService } from '../services/UserPermission.service'
+ *   const userPermissionService = new UserPermissionService()
+ *   await userPermissionService.setUserPermission(userId, permissionId, { effect: 'grant', expiresAt }, actor)
+ */
+
+import { UserPermissionRepository } from '../repositories/UserPermission.repository'
+import { PermissionRepository } from '../repositories/Role.repository'
+import { UserRepository } from '../repositories/User.repository'
+import { RoleService } from './Role.service'
+import { HTTP_STATUS } from '../constants'
+import { USER_PERMISSION_EFFECTS } from '../models/UserPermission.model'
+import type {
+  SetUserPermissionInput,
+  UserPermissionEffect,
+  UserPermissionInfo,
+  UserPermissionWithPermission,
+} from '../models/UserPermission.model'
+import { permissionSetGrants } from '../utils/permission.util'
+import { logSecurityEvent } from '../utils/logger.util'
+
+/**
+ * Quien asigna el permiso directo
+ */
+interface PermissionActor {
+  id: number
+  permissions: string[] // Permisos efectivos (un grant requiere tener el permiso)
+}
+
+export class UserPermissionService {
+  private userPermissionRepository: UserPermissionRepository
+  private permissionRepository: PermissionRepository
+  private userRepository: UserRepository
+  private roleService: RoleService
+
+  constructor() {
+    this.userPermissionRepository = new UserPermissionRepository()
+    this.permissionRepository = new PermissionRepository()
+    this.userRepository = new UserRepository()
+    this.roleService = new RoleService()
+  }
+
+  /**
+   * Lista los permisos directos de un usuario (los expirados sin purgar se marcan como expired)
+   *
+   * @throws 404 si el usuario no existe
+   */
+  async listUserPermissions(userId: number): Promise<UserPermissionInfo[]> {
+    await this.ensureUserExists(userId)
+
+    const entries = await this.userPermissionRepository.findByUser(userId)
+    return entries.map((entry) => this.toInfo(entry))
+  }
+
+  /**
+   * Concede o deniega un permiso a un usuario (reemplaza el anterior del mismo permiso)
+   *
+   * @throws 400 si el efecto o la fecha de expiración no son válidos
+   * @throws 404 si el usuario o el permiso no existen
+   * @throws 403 si se concede un permiso que quien lo concede no tiene
+   */
+  async setUserPermission(
+    userId: number,
+    permissionId: number,
+    input: SetUserPermissionInput,
+    actor: PermissionActor
+  ): Promise<UserPermissionInfo> {
+    const effect = input.effect
+    if (effect !== USER_PERMISSION_EFFECTS.GRANT && effect !== USER_PERMISSION_EFFECTS.DENY) {
+      const error = new Error('effect debe ser "grant" o "deny"') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    const expiresAt = this.parseExpiresAt(input.expiresAt)
+
+    if (input.reason != null && (typeof input.reason !== 'string' || input.reason.length > 255)) {
+      const error = new Error('reason debe ser un texto de máximo 255 caracteres') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    await this.ensureUserExists(userId)
+
+    const permission = await this.permissionRepository.findById(permissionId)
+    if (!permission || !permission.isActive) {
+      const error = new Error('Permiso no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    if (effect === USER_PERMISSION_EFFECTS.GRANT && !permissionSetGrants(actor.permissions, permission.name)) {
+      const error = new Error(
+        `No puedes conceder un permiso que no tienes: ${permission.name}`
+      ) as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.FORBIDDEN
+      throw error
+    }
+
+    const entry = await this.userPermissionRepository.upsert(userId, permissionId, {
+      effect,
+      expiresAt,
+      reason: input.reason?.trim() || null,
+      grantedById: actor.id,
+    })
+    this.roleService.invalidateUserPermissions(userId)
+
+    logSecurityEvent(effect === USER_PERMISSION_EFFECTS.GRANT ? 'user_permission_granted' : 'user_permission_denied', {
+      userId,
+      actorId: actor.id,
+      permission: permission.name,
+      expiresAt: expiresAt?.toISOString() ?? null,
+    })
+
+    return this.toInfo(entry)
+  }
+
+  /**
+   * Quita un permiso directo de un usuario
+   *
+   * @throws 404 si el usuario no tenía ese permiso directo
+   */
+  async removeUserPermission(userId: number, permissionId: number, actorId?: number): Promise<void> {
+    const removed = await this.userPermissionRepository.delete(userId, permissionId)
+    if (!removed) {
+      const error = new Error('El usuario no tiene este permiso directo') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+
+    this.roleService.invalidateUserPermissions(userId)
+
+    logSecurityEvent('user_permission_removed', { userId, actorId, permissionId })
+  }
+
+  /**
+   * Elimina los permisos directos expirados
+   *
+   * @returns Número de usuarios afectados
+   */
+  async purgeExpired(): Promise<number> {
+    const userIds = await this.userPermissionRepository.deleteExpired()
+    userIds.forEach((userId) => this.roleService.invalidateUserPermissions(userId))
+    return userIds.length
+  }
+
+  /**
+   * Valida la fecha de expiración (null o ausente = sin expiración)
+   */
+  private parseExpiresAt(value: string | null | undefined): Date | null {
+    if (value === undefined || value === null) {
+      return null
+    }
+
+    const expiresAt = new Date(value)
+    if (typeof value !== 'string' || isNaN(expiresAt.getTime()) || expiresAt <= new Date()) {
+      const error = new Error('expiresAt debe ser una fecha futura en formato ISO 8601') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.BAD_REQUEST
+      throw error
+    }
+
+    return expiresAt
+  }
+
+  private async ensureUserExists(userId: number): Promise<void> {
+    const user = await this.userRepository.findById(userId)
+    if (!user) {
+      const error = new Error('Usuario no encontrado') as Error & { statusCode?: number }
+      error.statusCode = HTTP_STATUS.NOT_FOUND
+      throw error
+    }
+  }
+
+  private toInfo(entry: UserPermissionWithPermission): UserPermissionInfo {
+    return {
+      permissionId: entry.permissionId,
+      permission: entry.permission.name,
+      effect: entry.effect as UserPermissionEffect,
+      expiresAt: entry.expiresAt,
+      expired: entry.expiresAt !== null && entry.expiresAt <= new Date(),
+      reason: entry.reason,
+      grantedById: entry.grantedById,
+      createdAt: entry.createdAt,
+    }
+  }
+}
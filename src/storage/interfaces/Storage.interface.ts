@@ -17,6 +17,28 @@ export interface UploadedFile {
   url?: string // URL completa (para cloud storage)
 }
 
+export interface StoredFileInfo {
+  size: number // Tamaño en bytes
+  lastModified: Date // Fecha de la última escritura (subida)
+}
+
+/**
+ * Rango de bytes de un archivo (inclusivo: { start: 0, end: 99 } son los 100 primeros bytes)
+ */
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * Opciones de una URL firmada (temporal, sin cabecera Authorization)
+ */
+export interface SignedUrlOptions {
+  expiresIn: number // Segundos de validez
+  disposition?: 'inline' | 'attachment' // "attachment" por defecto ("inline" para un <img>)
+  filename?: string // Nombre del archivo en Content-Disposition (por defecto, el del storage)
+}
+
 export interface StorageConfig {
   maxFileSize?: number // Tamaño máximo en bytes
   allowedMimeTypes?: string[] // Tipos MIME permitidos
@@ -24,6 +46,11 @@ export interface StorageConfig {
 }
 
 export interface IStorageProvider {
+  /**
+   * Identificador del storage ("local", "s3"); se guarda en cada archivo registrado
+   */
+  readonly name: string
+
   /**
    * Guarda un archivo en el storage
    * 
@@ -71,5 +98,32 @@ export interface IStorageProvider {
    * @returns Buffer del archivo o null si no existe
    */
   get(path: string): Promise<Buffer | null>
+
+  /**
+   * Abre un archivo para leerlo en streaming (sin cargarlo entero en memoria)
+   * 
+   * @param path - Ruta del archivo
+   * @param range - Rango de bytes a leer (opcional; sin él se lee entero)
+   * @returns Stream del contenido o null si no existe
+   */
+  createReadStream(path: string, range?: ByteRange): Promise<NodeJS.ReadableStream | null>
+
+  /**
+   * Genera una URL temporal para leer un archivo sin autenticación
+   * (ej: para mostrar una imagen privada en un <img>)
+   * 
+   * @param path - Ruta del archivo
+   * @param options - Validez en segundos y modo de Content-Disposition
+   * @returns URL firmada que deja de funcionar al expirar
+   */
+  getSignedUrl(path: string, options: SignedUrlOptions): Promise<string>
+
+  /**
+   * Obtiene el tamaño y la fecha de modificación de un archivo
+   * 
+   * @param path - Ruta del archivo
+   * @returns Información del archivo o null si no existe
+   */
+  stat(path: string): Promise<StoredFileInfo | null>
 }
 
@@ -0,0 +1,125 @@
+/**
+ * IN-MEMORY STORAGE PROVIDER - Almacenamiento en memoria
+ *
+ * Implementación de storage que guarda los archivos en un Map del proceso.
+ * Pensado para tests y prototipos: los archivos se pierden al reiniciar.
+ *
+ * CONTRATO (igual que LocalStorageProvider y S3StorageProvider):
+ * - Los archivos que no existen no son un error: exists/delete devuelven false
+ *   y get/createReadStream/stat devuelven null
+ *
+ * URLs FIRMADAS:
+ *   getSignedUrl genera "<baseUrl>/<ruta>?expires=&disposition=" sin firma:
+ *   no hay ninguna ruta que las sirva.
+ *
+ * USO:
+ *   import { InMemoryStorageProvider } from '../providers/InMemoryStorage.provider'
+ *   const storage = new InMemoryStorageProvider()
+ */
+
+import { Readable } from 'stream'
+import type {
+  ByteRange,
+  IStorageProvider,
+  SignedUrlOptions,
+  StoredFileInfo,
+  UploadedFile,
+} from '../interfaces/Storage.interface'
+
+export interface InMemoryStorageConfig {
+  baseUrl?: string // URL base de los archivos
+}
+
+interface StoredObject {
+  data: Buffer
+  lastModified: Date
+}
+
+export class InMemoryStorageProvider implements IStorageProvider {
+  readonly name = 'memory'
+  private baseUrl: string
+  private objects = new Map<string, StoredObject>()
+
+  constructor(config: InMemoryStorageConfig = {}) {
+    this.baseUrl = config.baseUrl || 'memory://storage'
+  }
+
+  /**
+   * Normaliza una ruta ("\" -> "/", sin "/" inicial) para usarla como clave
+   */
+  private normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/^\/+/, '')
+  }
+
+  async save(
+    file: Buffer | NodeJS.ReadableStream,
+    filename: string,
+    mimetype: string,
+    folder?: string
+  ): Promise<UploadedFile> {
+    const key = this.normalizePath(folder ? `${folder}/${filename}` : filename)
+
+    let data: Buffer
+    if (Buffer.isBuffer(file)) {
+      data = Buffer.from(file)
+    } else {
+      const chunks: Buffer[] = []
+      for await (const chunk of file) {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+      }
+      data = Buffer.concat(chunks)
+    }
+
+    this.objects.set(key, { data, lastModified: new Date() })
+
+    return {
+      filename,
+      originalName: filename,
+      mimetype,
+      size: data.length,
+      path: key,
+      url: this.getUrl(key),
+    }
+  }
+
+  async delete(filePath: string): Promise<boolean> {
+    return this.objects.delete(this.normalizePath(filePath))
+  }
+
+  getUrl(filePath: string): string {
+    return `${this.baseUrl}/${this.normalizePath(filePath)}`
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return this.objects.has(this.normalizePath(filePath))
+  }
+
+  async get(filePath: string): Promise<Buffer | null> {
+    const object = this.objects.get(this.normalizePath(filePath))
+    // Copia: quien la modifique no altera el archivo guardado
+    return object ? Buffer.from(object.data) : null
+  }
+
+  async createReadStream(filePath: string, range?: ByteRange): Promise<NodeJS.ReadableStream | null> {
+    const object = this.objects.get(this.normalizePath(filePath))
+    if (!object) {
+      return null
+    }
+
+    return Readable.from([range ? object.data.subarray(range.start, range.end + 1) : object.data])
+  }
+
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    const normalizedPath = this.normalizePath(filePath)
+    const expires = Math.floor(Date.now() / 1000) + options.expiresIn
+    const disposition = options.disposition ?? 'attachment'
+    const encodedPath = normalizedPath.split('/').map(encodeURIComponent).join('/')
+
+    return `${this.baseUrl}/${encodedPath}?expires=${expires}&disposition=${disposition}`
+  }
+
+  async stat(filePath: string): Promise<StoredFileInfo | null> {
+    const object = this.objects.get(this.normalizePath(filePath))
+    return object ? { size: object.data.length, lastModified: object.lastModified } : null
+  }
+}
@@ -15,28 +15,47 @@
  * - Requiere backups manuales
  * - No es ideal para múltiples servidores
  * 
+ * URLs FIRMADAS:
+ *   getSignedUrl genera "<signedUrlBase>/<ruta>?expires=&disposition=&signature="
+ *   firmada con HMAC-SHA256 (utils/signed-url.util); la ruta
+ *   GET /api/v1/files/signed/*path verifica la firma y sirve el archivo.
+ * 
  * USO:
  *   import { LocalStorageProvider } from '../providers/LocalStorage.provider'
  *   const storage = new LocalStorageProvider({ basePath: './uploads' })
  */
 
-import { promises as fs } from 'fs'
+import { createReadStream, promises as fs } from 'fs'
 import path from 'path'
-import type { IStorageProvider, UploadedFile } from '../interfaces/Storage.interface'
+import type {
+  ByteRange,
+  IStorageProvider,
+  SignedUrlOptions,
+  StoredFileInfo,
+  UploadedFile,
+} from '../interfaces/Storage.interface'
+import { signStoragePath } from '../../utils/signed-url.util'
 
 export interface LocalStorageConfig {
   basePath?: string // Carpeta base donde guardar archivos
   baseUrl?: string // URL base para acceder a los archivos
+  signedUrlBase?: string // URL base de las URLs firmadas (ruta que las verifica)
+  signingSecret?: string // Clave HMAC de las URLs firmadas
 }
 
 export class LocalStorageProvider implements IStorageProvider {
+  readonly name = 'local'
   private basePath: string
   private baseUrl: string
+  private signedUrlBase: string
+  private signingSecret: string | undefined
 
   constructor(config: LocalStorageConfig = {}) {
     // Carpeta base: ./uploads por defecto (relativa a la raíz del proyecto)
     this.basePath = config.basePath || path.join(process.cwd(), 'uploads')
     this.baseUrl = config.baseUrl || '/uploads'
+    this.signedUrlBase = config.signedUrlBase || '/api/v1/files/signed'
+    this.signingSecret = config.signingSecret
     
     // Crear carpeta base si no existe
     this.ensureDirectoryExists(this.basePath)
@@ -153,5 +172,38 @@ export class LocalStorageProvider implements IStorageProvider {
       return null
     }
   }
+
+  async createReadStream(filePath: string, range?: ByteRange): Promise<NodeJS.ReadableStream | null> {
+    if (!(await this.stat(filePath))) {
+      return null
+    }
+
+    const fullPath = path.join(this.basePath, filePath)
+    return createReadStream(fullPath, range ? { start: range.start, end: range.end } : {})
+  }
+
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    if (!this.signingSecret) {
+      throw new Error('LocalStorageProvider: falta signingSecret para generar URLs firmadas')
+    }
+
+    const normalizedPath = filePath.replace(/\\/g, '/').replace(/^\/+/, '')
+    const expires = Math.floor(Date.now() / 1000) + options.expiresIn
+    const disposition = options.disposition ?? 'attachment'
+    const signature = signStoragePath(normalizedPath, expires, disposition, this.signingSecret)
+    const encodedPath = normalizedPath.split('/').map(encodeURIComponent).join('/')
+
+    return `${this.signedUrlBase}/${encodedPath}?expires=${expires}&disposition=${disposition}&signature=${signature}`
+  }
+
+  async stat(filePath: string): Promise<StoredFileInfo | null> {
+    try {
+      const fullPath = path.join(this.basePath, filePath)
+      const stats = await fs.stat(fullPath)
+      return stats.isFile() ? { size: stats.size, lastModified: stats.mtime } : null
+    } catch {
+      return null
+    }
+  }
 }
 
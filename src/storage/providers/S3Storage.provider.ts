@@ -1,71 +1,126 @@
 /**
- * S3 STORAGE PROVIDER - Almacenamiento en AWS S3
- * 
- * Implementación de storage usando AWS S3.
+ * S3 STORAGE PROVIDER - Almacenamiento en AWS S3 (o compatible)
+ *
+ * Implementación de storage usando la API de S3.
  * Ideal para producción y aplicaciones que necesitan escalabilidad.
- * 
+ * Funciona también con servicios compatibles (MinIO, Cloudflare R2, un mock local)
+ * configurando endpoint y forcePathStyle.
+ *
  * VENTAJAS:
  * - Escalable infinitamente
  * - Redundancia automática
  * - CDN integrado (CloudFront)
  * - Ideal para múltiples servidores
  * - Backups automáticos
- * 
+ *
  * DESVENTAJAS:
  * - Requiere configuración de AWS
  * - Costos según uso
  * - Más complejo de configurar
- * 
- * INSTALACIÓN:
- *   npm install @aws-sdk/client-s3
- * 
+ *
+ * CONTRATO (igual que LocalStorageProvider):
+ * - Los archivos que no existen no son un error: exists/delete devuelven false
+ *   y get/createReadStream/stat devuelven null
+ * - Los demás errores de S3 (credenciales, bucket, red) se lanzan
+ * - save sube en streaming por partes (multipart) los archivos grandes
+ *
  * CONFIGURACIÓN (.env):
  *   AWS_ACCESS_KEY_ID=tu-access-key
  *   AWS_SECRET_ACCESS_KEY=tu-secret-key
  *   AWS_REGION=us-east-1
  *   AWS_S3_BUCKET=mi-bucket
  *   AWS_S3_BASE_URL=https://mi-bucket.s3.amazonaws.com
- * 
+ *   AWS_S3_ENDPOINT=http://localhost:9000   # Solo S3 compatible (ej: MinIO)
+ *   AWS_S3_FORCE_PATH_STYLE=true            # URLs "<endpoint>/<bucket>/<key>"
+ *
  * USO:
  *   import { S3StorageProvider } from '../providers/S3Storage.provider'
  *   const storage = new S3StorageProvider({ bucket: 'mi-bucket' })
  */
 
-import type { IStorageProvider, UploadedFile } from '../interfaces/Storage.interface'
+import path from 'path'
+import { Transform, pipeline } from 'stream'
+import type { Readable } from 'stream'
+import {
+  S3Client,
+  S3ServiceException,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3'
+import type { S3ClientConfig } from '@aws-sdk/client-s3'
+import { Upload } from '@aws-sdk/lib-storage'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import type {
+  ByteRange,
+  IStorageProvider,
+  SignedUrlOptions,
+  StoredFileInfo,
+  UploadedFile,
+} from '../interfaces/Storage.interface'
+import { buildContentDisposition } from '../../utils/file.util'
 
 export interface S3StorageConfig {
   bucket: string
   region?: string
   baseUrl?: string
-  accessKeyId?: string
-  secretAccessKey?: string
+  accessKeyId?: string | undefined
+  secretAccessKey?: string | undefined
+  endpoint?: string | undefined // Endpoint de un servicio compatible (ej: "http://localhost:9000")
+  forcePathStyle?: boolean // URLs "<endpoint>/<bucket>/<key>" en lugar de "<bucket>.<endpoint>/<key>"
+  partSize?: number // Tamaño de cada parte de las subidas multipart (mínimo 5 MB)
 }
 
+/**
+ * Tamaño mínimo de parte que admite S3 (y por defecto de las subidas multipart)
+ */
+const MIN_PART_SIZE = 5 * 1024 * 1024
+
+/**
+ * Partes que se suben en paralelo en una subida multipart
+ */
+const UPLOAD_QUEUE_SIZE = 4
+
 /**
  * S3 Storage Provider
- * 
- * NOTA: Esta es una implementación preparada para futuro uso.
- * Para usarla, instala @aws-sdk/client-s3 y descomenta el código.
  */
 export class S3StorageProvider implements IStorageProvider {
+  readonly name = 's3'
   private bucket: string
   private region: string
   private baseUrl: string
+  private partSize: number
+  private s3Client: S3Client
 
   constructor(config: S3StorageConfig) {
     this.bucket = config.bucket
     this.region = config.region || 'us-east-1'
-    this.baseUrl = config.baseUrl || `https://${config.bucket}.s3.${this.region}.amazonaws.com`
-    
-    // TODO: Inicializar cliente S3 cuando se instale @aws-sdk/client-s3
-    // import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from '@aws-sdk/client-s3'
-    // this.s3Client = new S3Client({
-    //   region: this.region,
-    //   credentials: {
-    //     accessKeyId: config.accessKeyId || process.env.AWS_ACCESS_KEY_ID!,
-    //     secretAccessKey: config.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY!,
-    //   },
-    // })
+    this.partSize = Math.max(config.partSize ?? MIN_PART_SIZE, MIN_PART_SIZE)
+
+    const endpoint = config.endpoint?.replace(/\/+$/, '')
+    if (config.baseUrl) {
+      this.baseUrl = config.baseUrl
+    } else if (endpoint) {
+      this.baseUrl = config.forcePathStyle ? `${endpoint}/${config.bucket}` : endpoint
+    } else {
+      this.baseUrl = `https://${config.bucket}.s3.${this.region}.amazonaws.com`
+    }
+
+    const clientConfig: S3ClientConfig = {
+      region: this.region,
+      forcePathStyle: config.forcePathStyle ?? false,
+    }
+    if (endpoint) {
+      clientConfig.endpoint = endpoint
+    }
+    // Sin claves explícitas se usa la cadena de credenciales de AWS (variables, perfil, rol IAM)
+    if (config.accessKeyId && config.secretAccessKey) {
+      clientConfig.credentials = {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      }
+    }
+    this.s3Client = new S3Client(clientConfig)
   }
 
   async save(
@@ -74,31 +129,59 @@ export class S3StorageProvider implements IStorageProvider {
     mimetype: string,
     folder?: string
   ): Promise<UploadedFile> {
-    // TODO: Implementar cuando se instale @aws-sdk/client-s3
-    throw new Error('S3StorageProvider no está implementado. Instala @aws-sdk/client-s3 y descomenta el código.')
-    
-    // const key = folder ? `${folder}/${filename}` : filename
-    // const command = new PutObjectCommand({
-    //   Bucket: this.bucket,
-    //   Key: key,
-    //   Body: file,
-    //   ContentType: mimetype,
-    // })
-    // await this.s3Client.send(command)
-    // 
-    // return {
-    //   filename,
-    //   originalName: filename,
-    //   mimetype,
-    //   size: Buffer.isBuffer(file) ? file.length : 0,
-    //   path: key,
-    //   url: this.getUrl(key),
-    // }
+    const key = folder ? `${folder}/${filename}`.replace(/\\/g, '/') : filename
+
+    // Los streams se suben por partes sin cargarlos en memoria; se cuenta su tamaño al pasar
+    let size = 0
+    let body: Buffer | Transform
+    if (Buffer.isBuffer(file)) {
+      body = file
+      size = file.length
+    } else {
+      body = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          size += chunk.length
+          callback(null, chunk)
+        },
+      })
+      pipeline(file, body, () => {
+        // Los errores del origen destruyen el Transform y hacen fallar la subida
+      })
+    }
+
+    // Upload hace un PutObject si cabe en una parte y una subida multipart si no
+    // (si falla, aborta la subida multipart y no deja partes huérfanas)
+    const upload = new Upload({
+      client: this.s3Client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: mimetype,
+      },
+      partSize: this.partSize,
+      queueSize: UPLOAD_QUEUE_SIZE,
+    })
+    await upload.done()
+
+    return {
+      filename,
+      originalName: filename,
+      mimetype,
+      size,
+      path: key,
+      url: this.getUrl(key),
+    }
   }
 
   async delete(filePath: string): Promise<boolean> {
-    // TODO: Implementar cuando se instale @aws-sdk/client-s3
-    throw new Error('S3StorageProvider no está implementado.')
+    // DeleteObject no falla si el objeto no existe: se comprueba antes con HEAD
+    if (!(await this.exists(filePath))) {
+      return false
+    }
+
+    await this.s3Client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: filePath }))
+    return true
   }
 
   getUrl(filePath: string): string {
@@ -108,13 +191,79 @@ export class S3StorageProvider implements IStorageProvider {
   }
 
   async exists(filePath: string): Promise<boolean> {
-    // TODO: Implementar cuando se instale @aws-sdk/client-s3
-    throw new Error('S3StorageProvider no está implementado.')
+    return (await this.stat(filePath)) !== null
   }
 
   async get(filePath: string): Promise<Buffer | null> {
-    // TODO: Implementar cuando se instale @aws-sdk/client-s3
-    throw new Error('S3StorageProvider no está implementado.')
+    try {
+      const response = await this.s3Client.send(new GetObjectCommand({ Bucket: this.bucket, Key: filePath }))
+      if (!response.Body) {
+        return null
+      }
+      return Buffer.from(await response.Body.transformToByteArray())
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async createReadStream(filePath: string, range?: ByteRange): Promise<NodeJS.ReadableStream | null> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: filePath,
+          ...(range ? { Range: `bytes=${range.start}-${range.end}` } : {}),
+        })
+      )
+      // En Node.js el Body de GetObject es un Readable
+      return (response.Body as Readable | undefined) ?? null
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async getSignedUrl(filePath: string, options: SignedUrlOptions): Promise<string> {
+    // URL prefirmada de GetObject; S3 envía el Content-Disposition pedido
+    const command = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: filePath,
+      ResponseContentDisposition: buildContentDisposition(
+        options.filename ?? path.posix.basename(filePath),
+        options.disposition === 'inline'
+      ),
+    })
+
+    return getSignedUrl(this.s3Client, command, { expiresIn: options.expiresIn })
+  }
+
+  async stat(filePath: string): Promise<StoredFileInfo | null> {
+    try {
+      const response = await this.s3Client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: filePath }))
+      return {
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(),
+      }
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return null
+      }
+      throw error
+    }
   }
 }
 
+/**
+ * Indica si un error de S3 es "el objeto no existe"
+ * (HEAD responde NotFound sin cuerpo; GET responde NoSuchKey)
+ *
+ * NoSuchBucket no cuenta: es un error de configuración y se lanza.
+ */
+function isNotFoundError(error: unknown): boolean {
+  return error instanceof S3ServiceException && (error.name === 'NotFound' || error.name === 'NoSuchKey')
+}
@@ -0,0 +1,67 @@
+/**
+ * STORAGE CONTRACT TESTS - Ejecuta el contrato contra cada storage provider
+ *
+ * - LocalStorageProvider: en una carpeta temporal
+ * - S3StorageProvider: contra s3rver, un S3 local que se levanta en un puerto libre
+ * - InMemoryStorageProvider
+ *
+ * USO:
+ *   npm test
+ */
+
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import S3rver from 's3rver'
+import { LocalStorageProvider } from '../providers/LocalStorage.provider'
+import { S3StorageProvider } from '../providers/S3Storage.provider'
+import { InMemoryStorageProvider } from '../providers/InMemoryStorage.provider'
+import { describeStorageContract } from './storage.contract'
+
+const S3_BUCKET = 'contract-tests'
+
+/**
+ * Crea una carpeta temporal para los archivos de una suite
+ */
+async function createTempDir(prefix: string): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), prefix))
+}
+
+describeStorageContract('LocalStorageProvider', async () => {
+  const basePath = await createTempDir('storage-local-')
+  return {
+    provider: new LocalStorageProvider({ basePath, signingSecret: 'contract-tests-secret' }),
+    cleanup: () => fs.rm(basePath, { recursive: true, force: true }),
+  }
+})
+
+describeStorageContract('S3StorageProvider (s3rver)', async () => {
+  const directory = await createTempDir('storage-s3-')
+  const server = new S3rver({
+    address: '127.0.0.1',
+    port: 0,
+    silent: true,
+    directory,
+    configureBuckets: [{ name: S3_BUCKET, configs: [] }],
+  })
+  const { port } = await server.run()
+
+  return {
+    // Credenciales por defecto de s3rver
+    provider: new S3StorageProvider({
+      bucket: S3_BUCKET,
+      endpoint: `http://127.0.0.1:${port}`,
+      forcePathStyle: true,
+      accessKeyId: 'S3RVER',
+      secretAccessKey: 'S3RVER',
+    }),
+    cleanup: async () => {
+      await server.close()
+      await fs.rm(directory, { recursive: true, force: true })
+    },
+  }
+})
+
+describeStorageContract('InMemoryStorageProvider', async () => ({
+  provider: new InMemoryStorageProvider(),
+}))
@@ -0,0 +1,157 @@
+/**
+ * STORAGE CONTRACT - Tests comunes a todos los storage providers
+ *
+ * Comprueba que un provider cumple el contrato de IStorageProvider:
+ * - save guarda Buffers y streams (también los que superan una parte de S3)
+ * - get/createReadStream/stat devuelven el contenido, un rango y el tamaño
+ * - Los archivos que no existen no son un error: exists/delete devuelven false
+ *   y get/createReadStream/stat devuelven null
+ *
+ * USO:
+ *   describeStorageContract('MiStorageProvider', async () => ({
+ *     provider: new MiStorageProvider(),
+ *     cleanup: async () => { ... },
+ *   }))
+ */
+
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { randomUUID } from 'crypto'
+import { Readable } from 'stream'
+import type { IStorageProvider } from '../interfaces/Storage.interface'
+
+export interface StorageContractSetup {
+  provider: IStorageProvider
+  cleanup?: () => Promise<void> // Libera lo creado por el setup (carpetas, servidores)
+}
+
+/**
+ * Tamaño de un archivo que S3 sube por partes (la parte mínima es de 5 MB)
+ */
+const MULTIPART_SIZE = 6 * 1024 * 1024
+
+/**
+ * Lee un stream entero en un Buffer
+ */
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Registra los tests del contrato de IStorageProvider para un provider
+ *
+ * @param name - Nombre de la suite (ej: "LocalStorageProvider")
+ * @param setup - Crea el provider (y lo que necesite) antes de los tests
+ */
+export function describeStorageContract(name: string, setup: () => Promise<StorageContractSetup>): void {
+  describe(name, () => {
+    let provider: IStorageProvider
+    let cleanup: (() => Promise<void>) | undefined
+    // Carpeta propia de cada ejecución: no choca con archivos de otras
+    const folder = `contract/${randomUUID()}`
+
+    before(async () => {
+      ;({ provider, cleanup } = await setup())
+    })
+
+    after(async () => {
+      await cleanup?.()
+    })
+
+    it('guarda un Buffer y devuelve su información', async () => {
+      const content = Buffer.from('hola mundo')
+      const uploaded = await provider.save(content, 'buffer.txt', 'text/plain', folder)
+
+      assert.equal(uploaded.filename, 'buffer.txt')
+      assert.equal(uploaded.mimetype, 'text/plain')
+      assert.equal(uploaded.size, content.length)
+      assert.equal(uploaded.path, `${folder}/buffer.txt`)
+      assert.ok(provider.getUrl(uploaded.path).endsWith(`${folder}/buffer.txt`))
+
+      assert.equal(await provider.exists(uploaded.path), true)
+      assert.deepEqual(await provider.get(uploaded.path), content)
+    })
+
+    it('guarda un stream y cuenta su tamaño', async () => {
+      const chunks = [Buffer.from('primera parte, '), Buffer.from('segunda parte')]
+      const uploaded = await provider.save(Readable.from(chunks), 'stream.txt', 'text/plain', folder)
+
+      assert.equal(uploaded.size, Buffer.concat(chunks).length)
+      assert.deepEqual(await provider.get(uploaded.path), Buffer.concat(chunks))
+    })
+
+    it('guarda un stream mayor que una parte de S3', async () => {
+      const content = Buffer.alloc(MULTIPART_SIZE, 'a')
+      content.write('fin', MULTIPART_SIZE - 3)
+      const uploaded = await provider.save(Readable.from([content]), 'grande.bin', 'application/octet-stream', folder)
+
+      assert.equal(uploaded.size, MULTIPART_SIZE)
+      const stored = await provider.get(uploaded.path)
+      assert.ok(stored)
+      assert.equal(stored.length, MULTIPART_SIZE)
+      assert.equal(stored.subarray(-3).toString(), 'fin')
+    })
+
+    it('sobrescribe un archivo guardado en la misma ruta', async () => {
+      await provider.save(Buffer.from('versión 1'), 'sobrescrito.txt', 'text/plain', folder)
+      const uploaded = await provider.save(Buffer.from('versión 2'), 'sobrescrito.txt', 'text/plain', folder)
+
+      assert.equal((await provider.get(uploaded.path))?.toString(), 'versión 2')
+    })
+
+    it('devuelve el tamaño y la fecha de modificación', async () => {
+      const content = Buffer.from('0123456789')
+      const uploaded = await provider.save(content, 'stat.txt', 'text/plain', folder)
+      const info = await provider.stat(uploaded.path)
+
+      assert.ok(info)
+      assert.equal(info.size, content.length)
+      assert.ok(info.lastModified instanceof Date)
+      assert.ok(!isNaN(info.lastModified.getTime()))
+    })
+
+    it('lee en streaming el archivo entero o un rango', async () => {
+      const uploaded = await provider.save(Buffer.from('0123456789'), 'rango.txt', 'text/plain', folder)
+
+      const full = await provider.createReadStream(uploaded.path)
+      assert.ok(full)
+      assert.equal((await readAll(full)).toString(), '0123456789')
+
+      const partial = await provider.createReadStream(uploaded.path, { start: 2, end: 5 })
+      assert.ok(partial)
+      assert.equal((await readAll(partial)).toString(), '2345')
+    })
+
+    it('elimina un archivo', async () => {
+      const uploaded = await provider.save(Buffer.from('borrar'), 'borrar.txt', 'text/plain', folder)
+
+      assert.equal(await provider.delete(uploaded.path), true)
+      assert.equal(await provider.exists(uploaded.path), false)
+      assert.equal(await provider.get(uploaded.path), null)
+    })
+
+    it('trata los archivos que no existen sin lanzar errores', async () => {
+      const missing = `${folder}/no-existe.txt`
+
+      assert.equal(await provider.exists(missing), false)
+      assert.equal(await provider.get(missing), null)
+      assert.equal(await provider.createReadStream(missing), null)
+      assert.equal(await provider.stat(missing), null)
+      assert.equal(await provider.delete(missing), false)
+    })
+
+    it('genera URLs firmadas con la ruta y el modo de Content-Disposition', async () => {
+      const uploaded = await provider.save(Buffer.from('firmado'), 'firmado.txt', 'text/plain', folder)
+
+      const inline = await provider.getSignedUrl(uploaded.path, { expiresIn: 60, disposition: 'inline' })
+      const attachment = await provider.getSignedUrl(uploaded.path, { expiresIn: 60, disposition: 'attachment' })
+
+      assert.ok(inline.includes(`${folder}/firmado.txt`))
+      assert.notEqual(inline, attachment)
+    })
+  })
+}
@@ -9,6 +9,7 @@
  */
 
 import { Request } from 'express'
+import type { TokenType } from '../constants'
 
 // ============================================
 // TIPOS DE RESPUESTA API
@@ -69,6 +70,19 @@ export interface PaginatedResponse<T> {
 // Extiende el tipo Request de Express para incluir datos personalizados
 // que agregas en los middlewares (ej: usuario autenticado)
 
+/**
+ * Organización activa de la petición (multi-tenant)
+ * 
+ * La resuelve el middleware resolveTenant a partir del header X-Organization-Id
+ * o del claim "orgId" del token, tras comprobar la membresía del usuario.
+ */
+export interface TenantContext {
+  organizationId: number
+  membershipId: number
+  roleId: number // Rol del usuario dentro de la organización
+  role: string
+}
+
 export interface AuthenticatedRequest extends Request {
   // Usuario autenticado (agregado por el middleware de autenticación)
   user?: {
@@ -76,6 +90,15 @@ export interface AuthenticatedRequest extends Request {
     email: string
     role?: string        // Nombre del rol (ej: "admin", "user")
     roleId?: number      // ID del rol en la base de datos
+    sessionId?: string   // ID de la sesión (claim "sid" del token)
+    emailVerified?: boolean // Si el usuario verificó su email
+    apiKeyId?: number    // ID de la API key (solo si se autenticó con API key)
+    apiKeyPermissions?: string[] // Permisos concedidos a la API key
+    impersonatorId?: number // ID del administrador que suplanta al usuario (solo en suplantación)
+    permissions?: string[] // Permisos efectivos del rol y directos (se cargan una vez por petición)
+    deniedPermissions?: string[] // Permisos denegados directamente al usuario (prevalecen sobre los concedidos)
+    organizationId?: number // Organización activa según el token (claim "orgId"; sin verificar)
+    tenant?: TenantContext // Organización activa verificada (resolveTenant): los permisos usan su rol
     // Agrega más campos según necesites
   }
   
@@ -158,6 +181,11 @@ export interface JwtPayload {
   userId: number
   email: string
   role?: string
+  sid?: string  // ID de la sesión a la que pertenece el token
+  type?: TokenType  // Tipo de token (access / refresh / mfa)
+  mfaSetup?: boolean  // Token mfa: el usuario debe configurar la verificación en dos pasos
+  actorId?: number  // Token de suplantación: ID del administrador que actúa como el usuario
+  orgId?: number  // Organización activa de la sesión (multi-tenant)
   iat?: number  // Issued at
   exp?: number  // Expiration
 }
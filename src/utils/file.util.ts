@@ -38,6 +38,20 @@ export const ALLOWED_MIME_TYPES = {
   ] as string[],
 }
 
+/**
+ * Tipos MIME que se pueden mostrar en el navegador (Content-Disposition: inline)
+ * Solo formatos que no ejecutan scripts: SVG, HTML y el resto se descargan siempre
+ */
+export const INLINE_SAFE_MIME_TYPES: string[] = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+]
+
 /**
  * Tamaños máximos por tipo de archivo (en bytes)
  */
@@ -141,3 +155,35 @@ export function sanitizeFilename(filename: string): string {
     .replace(/^_+|_+$/g, '')
 }
 
+
+/**
+ * Indica si un tipo MIME se puede mostrar en el navegador sin riesgo
+ * (ignora parámetros como "; charset=utf-8")
+ * 
+ * @param mimetype - Tipo MIME del archivo (ej: "image/png")
+ */
+export function isInlineSafeMimeType(mimetype: string): boolean {
+  const baseType = mimetype.split(';')[0]?.trim().toLowerCase() ?? ''
+  return INLINE_SAFE_MIME_TYPES.includes(baseType)
+}
+
+/**
+ * Genera la cabecera Content-Disposition de una descarga
+ * 
+ * Incluye el nombre en ASCII (filename) para clientes antiguos y en UTF-8
+ * (filename*, RFC 5987) para conservar acentos y otros caracteres.
+ * 
+ * @param filename - Nombre con el que se descarga el archivo
+ * @param inline - true para mostrarlo en el navegador (PDF, video) en lugar de descargarlo
+ * @returns Valor de la cabecera (ej: attachment; filename="informe.pdf"; filename*=UTF-8''informe.pdf)
+ */
+export function buildContentDisposition(filename: string, inline = false): string {
+  const type = inline ? 'inline' : 'attachment'
+  const asciiName = filename.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  const encodedName = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+
+  return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodedName}`
+}
@@ -62,6 +62,22 @@ export function logWarn(message: string, context?: LogContext): void {
   logger.warn(message, context || {})
 }
 
+/**
+ * Registra un evento de seguridad (reutilización de tokens, bloqueos, etc.)
+ * 
+ * Se registra como advertencia con el campo securityEvent para poder
+ * filtrarlo en los logs.
+ * 
+ * @param event - Nombre del evento (ej: 'refresh_token_reuse')
+ * @param context - Contexto adicional (userId, ipAddress, etc.)
+ */
+export function logSecurityEvent(event: string, context?: LogContext): void {
+  logger.warn('Evento de seguridad', {
+    securityEvent: event,
+    ...context,
+  })
+}
+
 /**
  * Registra información de debug (solo en desarrollo)
  * 
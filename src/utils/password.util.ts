@@ -13,11 +13,15 @@
  * - Recomendado por OWASP y NIST
  * 
  * USO:
- *   import { hashPassword, comparePassword } from '../utils/password.util'
+ *   import { hashPassword, comparePassword, validatePasswordStrength } from '../utils/password.util'
+ *   const { isValid, failures } = validatePasswordStrength(password, { email, name })
  */
 
 import argon2 from 'argon2'
 import crypto from 'crypto'
+import { readFileSync } from 'fs'
+import path from 'path'
+import { passwordPolicyConfig } from '../config/auth.config'
 
 // Configuración de Argon2
 // - type: argon2id (recomendado, combina resistencia a timing y side-channel)
@@ -68,56 +72,151 @@ export async function comparePassword(password: string, hash: string): Promise<b
 }
 
 /**
- * Valida la fortaleza de una contraseña
+ * Reglas de la política de contraseñas
+ */
+export type PasswordRule =
+  | 'minLength'
+  | 'maxLength'
+  | 'uppercase'
+  | 'lowercase'
+  | 'number'
+  | 'symbol'
+  | 'denylist'
+  | 'personalInfo'
+  | 'history'
+
+/**
+ * Regla incumplida con su mensaje (para mostrar una lista de requisitos en la UI)
+ */
+export interface PasswordRuleFailure {
+  rule: PasswordRule
+  message: string
+}
+
+/**
+ * Datos del usuario para la regla de información personal
+ */
+export interface PasswordContext {
+  email?: string | null
+  name?: string | null
+}
+
+/**
+ * Contraseñas comunes prohibidas (se cargan del archivo la primera vez)
+ */
+let denylist: Set<string> | null = null
+
+/**
+ * Carga la lista de contraseñas comunes (una por línea, # para comentarios)
+ * 
+ * Si el archivo no existe se avisa una vez y la regla queda desactivada.
+ */
+function getDenylist(): Set<string> {
+  if (denylist) {
+    return denylist
+  }
+
+  const filePath = path.resolve(process.cwd(), passwordPolicyConfig.denylistFile)
+  try {
+    denylist = new Set(
+      readFileSync(filePath, 'utf8')
+        .split(/\r?\n/)
+        .map((line) => line.trim().toLowerCase())
+        .filter((line) => line && !line.startsWith('#'))
+    )
+  } catch {
+    console.warn(`⚠️  No se pudo leer la lista de contraseñas comunes (${filePath}). Regla desactivada.`)
+    denylist = new Set()
+  }
+
+  return denylist
+}
+
+/**
+ * Indica si la contraseña es una contraseña común
+ * 
+ * También detecta variantes con números o símbolos al principio o al final
+ * (ej: "Password123!" se compara como "password").
+ */
+function isCommonPassword(password: string): boolean {
+  const list = getDenylist()
+  const normalized = password.toLowerCase()
+  const core = normalized.replace(/^[^a-z]+|[^a-z]+$/g, '')
+
+  return list.has(normalized) || (core.length > 0 && list.has(core))
+}
+
+/**
+ * Indica si la contraseña contiene el email (parte local) o el nombre del usuario
+ */
+function containsPersonalInfo(password: string, context: PasswordContext): boolean {
+  const normalized = password.toLowerCase()
+  const parts: string[] = []
+
+  if (context.email) {
+    const localPart = context.email.toLowerCase().split('@')[0] ?? ''
+    parts.push(localPart, ...localPart.split(/[^a-z0-9]+/))
+  }
+  if (context.name) {
+    parts.push(...context.name.toLowerCase().split(/\s+/))
+  }
+
+  // Fragmentos muy cortos (ej: iniciales) darían falsos positivos
+  return parts.some((part) => part.length >= 3 && normalized.includes(part))
+}
+
+/**
+ * Valida una contraseña contra la política configurada (PASSWORD_* en .env)
+ * 
+ * Devuelve todas las reglas incumplidas a la vez. La regla de historial
+ * requiere la base de datos y se comprueba en PasswordPolicyService.
  * 
  * @param password - Contraseña a validar
- * @param minLength - Longitud mínima (por defecto 8)
- * @returns Objeto con isValid y mensaje de error si aplica
+ * @param context - Email y nombre del usuario (regla de información personal)
+ * @returns isValid, las reglas incumplidas y un mensaje con todas ellas
  */
 export function validatePasswordStrength(
   password: string,
-  minLength = 8
-): { isValid: boolean; error?: string } {
-  if (password.length < minLength) {
-    return {
-      isValid: false,
-      error: `Password must be at least ${minLength} characters long`,
-    }
+  context: PasswordContext = {}
+): { isValid: boolean; failures: PasswordRuleFailure[]; error?: string } {
+  const policy = passwordPolicyConfig
+  const failures: PasswordRuleFailure[] = []
+  const value = typeof password === 'string' ? password : ''
+
+  if (value.length < policy.minLength) {
+    failures.push({ rule: 'minLength', message: `Debe tener al menos ${policy.minLength} caracteres` })
+  }
+  if (value.length > policy.maxLength) {
+    failures.push({ rule: 'maxLength', message: `No puede tener más de ${policy.maxLength} caracteres` })
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(value)) {
+    failures.push({ rule: 'uppercase', message: 'Debe contener al menos una letra mayúscula' })
   }
-  
-  // Verificar que tenga al menos una letra mayúscula
-  if (!/[A-Z]/.test(password)) {
-    return {
-      isValid: false,
-      error: 'Password must contain at least one uppercase letter',
-    }
+  if (policy.requireLowercase && !/[a-z]/.test(value)) {
+    failures.push({ rule: 'lowercase', message: 'Debe contener al menos una letra minúscula' })
   }
-  
-  // Verificar que tenga al menos una letra minúscula
-  if (!/[a-z]/.test(password)) {
-    return {
-      isValid: false,
-      error: 'Password must contain at least one lowercase letter',
-    }
+  if (policy.requireNumber && !/[0-9]/.test(value)) {
+    failures.push({ rule: 'number', message: 'Debe contener al menos un número' })
   }
-  
-  // Verificar que tenga al menos un número
-  if (!/[0-9]/.test(password)) {
-    return {
-      isValid: false,
-      error: 'Password must contain at least one number',
-    }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(value)) {
+    failures.push({ rule: 'symbol', message: 'Debe contener al menos un carácter especial' })
   }
-  
-  // Verificar que tenga al menos un carácter especial
-  if (!/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
-    return {
-      isValid: false,
-      error: 'Password must contain at least one special character',
-    }
+  if (value && isCommonPassword(value)) {
+    failures.push({ rule: 'denylist', message: 'Es una contraseña demasiado común' })
+  }
+  if (policy.rejectPersonalInfo && value && containsPersonalInfo(value, context)) {
+    failures.push({ rule: 'personalInfo', message: 'No puede contener tu email ni tu nombre' })
+  }
+
+  if (failures.length === 0) {
+    return { isValid: true, failures }
+  }
+
+  return {
+    isValid: false,
+    failures,
+    error: `La contraseña no cumple la política: ${failures.map((f) => f.message.toLowerCase()).join('; ')}`,
   }
-  
-  return { isValid: true }
 }
 
 /**
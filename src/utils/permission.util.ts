@@ -0,0 +1,123 @@
+/**
+ * PERMISSION UTILITIES
+ * 
+ * Resolver de permisos: decide si un conjunto de permisos concedidos
+ * incluye un permiso requerido.
+ * 
+ * Reglas:
+ * - Coincidencia exacta: "users.delete" concede "users.delete"
+ * - "*" concede cualquier permiso
+ * - "recurso.*" concede "recurso.<lo que sea>" (ej: users.* → users.delete, users.update.any)
+ * - "recurso.manage" concede lo mismo que "recurso.*"
+ * - Mapa de implicaciones (config/permissions.config): un permiso concede otros
+ *   (ej: admin.access → *), de forma transitiva
+ * - Denegados (permissionSetDenies): un permiso denegado bloquea lo que cubre
+ *   por comodín, aunque otro permiso lo conceda
+ * 
+ * USO:
+ *   import { permissionSetGrants, expandPermissions } from '../utils/permission.util'
+ *   if (permissionSetGrants(['users.manage'], 'users.delete')) { ... }
+ */
+
+import { permissionImplications } from '../config/permissions.config'
+import type { PermissionImplicationMap } from '../config/permissions.config'
+
+/**
+ * Comodín que concede cualquier permiso
+ */
+export const PERMISSION_WILDCARD = '*'
+
+/**
+ * Acción que concede todas las acciones de su recurso
+ */
+const MANAGE_ACTION = 'manage'
+
+/**
+ * Expande un conjunto de permisos con las implicaciones del mapa
+ * 
+ * @param granted - Permisos concedidos (ej: permisos del rol)
+ * @param implications - Mapa de implicaciones (por defecto el configurado)
+ * @returns Permisos concedidos más los implicados (sin duplicados)
+ */
+export function expandPermissions(
+  granted: Iterable<string>,
+  implications: PermissionImplicationMap = permissionImplications
+): Set<string> {
+  const expanded = new Set<string>()
+  const pending = [...granted]
+
+  while (pending.length > 0) {
+    const permission = pending.pop() as string
+    if (expanded.has(permission)) {
+      continue
+    }
+
+    expanded.add(permission)
+    pending.push(...(implications[permission] ?? []))
+  }
+
+  return expanded
+}
+
+/**
+ * Indica si un permiso concedido (sin aplicar implicaciones) cubre el requerido
+ * 
+ * @param granted - Permiso concedido (puede ser un comodín)
+ * @param required - Permiso requerido (ej: "users.delete")
+ */
+export function permissionGrants(granted: string, required: string): boolean {
+  if (granted === required || granted === PERMISSION_WILDCARD) {
+    return true
+  }
+
+  const separator = granted.lastIndexOf('.')
+  if (separator <= 0) {
+    return false
+  }
+
+  const action = granted.substring(separator + 1)
+  if (action !== PERMISSION_WILDCARD && action !== MANAGE_ACTION) {
+    return false
+  }
+
+  // "users.*" y "users.manage" cubren "users.<acción>" (no el propio "users")
+  return required.startsWith(granted.substring(0, separator + 1))
+}
+
+/**
+ * Indica si un conjunto de permisos concede el permiso requerido
+ * 
+ * @param granted - Permisos concedidos (se expanden con el mapa de implicaciones)
+ * @param required - Permiso requerido (ej: "users.delete")
+ * @param implications - Mapa de implicaciones (por defecto el configurado)
+ */
+export function permissionSetGrants(
+  granted: Iterable<string>,
+  required: string,
+  implications: PermissionImplicationMap = permissionImplications
+): boolean {
+  for (const permission of expandPermissions(granted, implications)) {
+    if (permissionGrants(permission, required)) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Indica si un conjunto de permisos denegados bloquea el permiso requerido
+ * 
+ * Los denegados cubren por comodín ("users.*", "users.manage") pero sin
+ * implicaciones: denegar admin.access no deniega todos los permisos.
+ * 
+ * @param denied - Permisos denegados (ej: denegados directamente al usuario)
+ * @param required - Permiso requerido (ej: "users.delete")
+ */
+export function permissionSetDenies(denied: Iterable<string>, required: string): boolean {
+  for (const permission of denied) {
+    if (permissionGrants(permission, required)) {
+      return true
+    }
+  }
+  return false
+}
@@ -0,0 +1,86 @@
+/**
+ * POLICY UTILITIES
+ *
+ * Condiciones reutilizables para las reglas de políticas (config/policies.config):
+ * permisos del sujeto, propiedad del recurso y horario laboral.
+ *
+ * USO:
+ *   import { subjectHasPermission, subjectApiKeyAllows, isWithinBusinessHours } from '../utils/policy.util'
+ *   condition: ({ subject }) => subjectHasPermission(subject, 'users.update.any')
+ */
+
+import { permissionSetDenies, permissionSetGrants } from './permission.util'
+import type { PolicySubject } from '../models/Policy.model'
+
+/**
+ * Horario laboral (horas en formato HH:MM, días 0 = domingo ... 6 = sábado)
+ */
+export interface BusinessHours {
+  start: string
+  end: string
+  days: number[]
+  timeZone: string
+}
+
+/**
+ * Indica si el sujeto tiene un permiso
+ *
+ * Mismas reglas que requirePermission: comodines, implicaciones, permisos
+ * denegados y, con API key, el permiso también debe estar concedido a la key.
+ */
+export function subjectHasPermission(subject: PolicySubject, permission: string): boolean {
+  if (subject.apiKeyPermissions && !permissionSetGrants(subject.apiKeyPermissions, permission)) {
+    return false
+  }
+  if (subject.deniedPermissions && permissionSetDenies(subject.deniedPermissions, permission)) {
+    return false
+  }
+  return permissionSetGrants(subject.permissions, permission)
+}
+
+/**
+ * Indica si la API key del sujeto tiene concedido un permiso
+ * (true si no se autenticó con API key)
+ *
+ * Para las reglas que no exigen el permiso en el rol (ej: el propietario de un
+ * recurso): una API key no actúa fuera de los permisos que se le concedieron.
+ */
+export function subjectApiKeyAllows(subject: PolicySubject, permission: string): boolean {
+  return !subject.apiKeyPermissions || permissionSetGrants(subject.apiKeyPermissions, permission)
+}
+
+/**
+ * Indica si una fecha está dentro del horario laboral (en su zona horaria)
+ *
+ * @param date - Fecha a comprobar
+ * @param hours - Horario laboral (ej: { start: '09:00', end: '18:00', days: [1, 2, 3, 4, 5], timeZone: 'Europe/Madrid' })
+ */
+export function isWithinBusinessHours(date: Date, hours: BusinessHours): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? ''
+  const day = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday'))
+  const time = `${part('hour')}:${part('minute')}`
+
+  return hours.days.includes(day) && time >= hours.start && time < hours.end
+}
+
+/**
+ * Indica si han pasado menos de las horas indicadas desde una fecha
+ *
+ * @param since - Fecha de referencia (ej: subida de un archivo)
+ * @param hours - Horas de la ventana (0 = sin límite)
+ * @param now - Fecha actual
+ */
+export function isWithinWindow(since: Date | null | undefined, hours: number, now: Date): boolean {
+  if (hours === 0) {
+    return true
+  }
+  return since !== null && since !== undefined && now.getTime() - since.getTime() < hours * 60 * 60 * 1000
+}
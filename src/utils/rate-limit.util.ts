@@ -0,0 +1,167 @@
+/**
+ * RATE LIMIT UTILITIES - Limitador de Peticiones en Memoria
+ *
+ * - RateLimiter: ventana fija para acotar cuántas veces se puede
+ *   realizar una acción por clave (IP, email, etc.) en un periodo
+ * - FailureTracker: cuenta fallos consecutivos por clave (ej: logins por IP)
+ *
+ * NOTA: Los contadores viven en memoria del proceso. Con varias
+ * instancias de la API cada una lleva su propio conteo.
+ *
+ * USO:
+ *   import { RateLimiter } from '../utils/rate-limit.util'
+ *   const limiter = new RateLimiter(5, 15 * 60 * 1000) // 5 por cada 15 minutos
+ *   if (!limiter.consume(req.ip)) { ... 429 ... }
+ *
+ *   const failures = new FailureTracker(15 * 60 * 1000)
+ *   failures.record(ip)
+ */
+
+interface RateLimitWindow {
+  count: number
+  resetAt: number
+}
+
+export class RateLimiter {
+  private windows = new Map<string, RateLimitWindow>()
+
+  /**
+   * @param max - Número máximo de acciones por ventana
+   * @param windowMs - Duración de la ventana en milisegundos
+   */
+  constructor(
+    private readonly max: number,
+    private readonly windowMs: number
+  ) {}
+
+  /**
+   * Registra una acción para la clave
+   *
+   * @returns true si la acción está permitida, false si se superó el límite
+   */
+  consume(key: string): boolean {
+    const now = Date.now()
+    this.purgeExpired(now)
+
+    const window = this.windows.get(key)
+    if (!window || window.resetAt <= now) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs })
+      return true
+    }
+
+    if (window.count >= this.max) {
+      return false
+    }
+
+    window.count++
+    return true
+  }
+
+  /**
+   * Segundos que faltan para que la clave vuelva a tener acciones disponibles
+   */
+  retryAfterSeconds(key: string): number {
+    const window = this.windows.get(key)
+    if (!window) {
+      return 0
+    }
+    return Math.max(0, Math.ceil((window.resetAt - Date.now()) / 1000))
+  }
+
+  /**
+   * Reinicia el contador de una clave
+   */
+  reset(key: string): void {
+    this.windows.delete(key)
+  }
+
+  /**
+   * Elimina las ventanas expiradas para que el mapa no crezca sin límite
+   */
+  private purgeExpired(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Fallos registrados para una clave
+ */
+export interface FailureEntry {
+  count: number
+  lastFailureAt: number
+}
+
+export class FailureTracker {
+  private failures = new Map<string, FailureEntry>()
+  private nextPurgeAt = 0
+
+  /**
+   * @param windowMs - Tiempo sin fallos tras el cual se olvida la clave
+   */
+  constructor(private readonly windowMs: number) {}
+
+  /**
+   * Registra un fallo para la clave
+   *
+   * @returns Fallos acumulados de la clave
+   */
+  record(key: string): FailureEntry {
+    const now = Date.now()
+    if (now >= this.nextPurgeAt) {
+      this.purgeExpired(now)
+    }
+
+    const entry = this.get(key)
+    const updated = { count: (entry?.count ?? 0) + 1, lastFailureAt: now }
+    this.failures.set(key, updated)
+    return updated
+  }
+
+  /**
+   * Obtiene los fallos de una clave (null si no tiene o ya expiraron)
+   */
+  get(key: string): FailureEntry | null {
+    const entry = this.failures.get(key)
+    if (!entry) {
+      return null
+    }
+
+    if (entry.lastFailureAt + this.windowMs <= Date.now()) {
+      this.failures.delete(key)
+      return null
+    }
+
+    return entry
+  }
+
+  /**
+   * Momento (en ms) en que expiran los fallos de una clave
+   */
+  expiresAt(entry: FailureEntry): number {
+    return entry.lastFailureAt + this.windowMs
+  }
+
+  /**
+   * Olvida los fallos de una clave
+   */
+  reset(key: string): void {
+    this.failures.delete(key)
+  }
+
+  /**
+   * Elimina las claves expiradas para que el mapa no crezca sin límite
+   * (como mucho una vez por ventana: no se recorre el mapa en cada fallo)
+   */
+  private purgeExpired(now: number): void {
+    this.nextPurgeAt = now + this.windowMs
+    for (const [key, entry] of this.failures) {
+      if (entry.lastFailureAt + this.windowMs <= now) {
+        this.failures.delete(key)
+      }
+    }
+  }
+}
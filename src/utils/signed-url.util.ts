@@ -0,0 +1,48 @@
+/**
+ * SIGNED URL UTILITIES
+ *
+ * Firma y verificación HMAC-SHA256 de las URLs temporales de archivos
+ * del storage local (las de S3 las firma AWS: URLs prefirmadas).
+ *
+ * La firma cubre la ruta del archivo, la fecha de expiración y el modo de
+ * Content-Disposition: cambiar cualquiera de ellos invalida la URL.
+ *
+ * USO:
+ *   import { signStoragePath, verifyStoragePathSignature } from '../utils/signed-url.util'
+ *   const signature = signStoragePath('users/5/foto.jpg', expires, 'inline', secret)
+ *   if (verifyStoragePathSignature('users/5/foto.jpg', expires, 'inline', signature, secret)) { ... }
+ */
+
+import crypto from 'crypto'
+
+/**
+ * Calcula la firma de una ruta del storage
+ *
+ * @param path - Ruta del archivo (ej: "users/5/foto.jpg")
+ * @param expires - Expiración (segundos desde epoch)
+ * @param disposition - "inline" o "attachment"
+ * @param secret - Clave de firma
+ * @returns Firma en hexadecimal (64 caracteres)
+ */
+export function signStoragePath(path: string, expires: number, disposition: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(`${path}\n${expires}\n${disposition}`).digest('hex')
+}
+
+/**
+ * Verifica la firma de una ruta del storage en tiempo constante
+ * (no comprueba la expiración)
+ *
+ * @returns true si la firma corresponde a la ruta, la expiración y el modo
+ */
+export function verifyStoragePathSignature(
+  path: string,
+  expires: number,
+  disposition: string,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(signStoragePath(path, expires, disposition, secret))
+  const actual = Buffer.from(signature)
+
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,45 @@
+/**
+ * TENANT UTILITIES
+ *
+ * Filtros de Prisma para que los datos de una organización (tenant)
+ * no se vean desde otra. Los services reciben la organización activa
+ * (getTenantId) y los repositories aplican el filtro en el where.
+ *
+ * - tenantWhere: modelos con columna organizationId (ej: Membership, File)
+ * - tenantUserWhere: usuarios miembros de la organización
+ *
+ * Sin organización activa (undefined), tenantUserWhere no filtra: la
+ * petición se evalúa con el rol global del usuario.
+ *
+ * USO:
+ *   import { getTenantId, tenantUserWhere } from '../utils/tenant.util'
+ *   db.user.findMany({ where: { ...filters, ...tenantUserWhere(organizationId) } })
+ */
+
+import type { Request } from 'express'
+import type { Prisma } from '@prisma/client'
+import type { AuthenticatedRequest } from '../types'
+
+/**
+ * Obtiene la organización activa de la petición (resuelta por resolveTenant)
+ */
+export function getTenantId(req: Request): number | undefined {
+  return (req as AuthenticatedRequest).user?.tenant?.organizationId
+}
+
+/**
+ * Filtro para modelos que pertenecen a una organización
+ */
+export function tenantWhere(organizationId: number): { organizationId: number } {
+  return { organizationId }
+}
+
+/**
+ * Filtro de usuarios: solo los miembros de la organización activa
+ * (sin organización, no filtra)
+ */
+export function tenantUserWhere(organizationId: number | undefined): Prisma.UserWhereInput {
+  return organizationId === undefined
+    ? {}
+    : { memberships: { some: tenantWhere(organizationId) } }
+}
@@ -0,0 +1,44 @@
+/**
+ * TOKEN UTILITIES
+ * 
+ * Utilidades para manejar tokens opacos (refresh tokens, tokens de un solo uso, etc.)
+ * que se almacenan en la base de datos.
+ * 
+ * Los tokens nunca se guardan en texto plano: se guarda su hash SHA-256,
+ * de modo que una filtración de la base de datos no entrega tokens válidos.
+ * 
+ * USO:
+ *   import { hashToken, tokenMatchesHash } from '../utils/token.util'
+ *   const tokenHash = hashToken(refreshToken)
+ *   if (tokenMatchesHash(token, user.passwordResetTokenHash)) { ... }
+ */
+
+import crypto from 'crypto'
+
+/**
+ * Calcula el hash SHA-256 de un token
+ * 
+ * @param token - Token en texto plano
+ * @returns Hash en hexadecimal (64 caracteres)
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Compara un token con un hash guardado en tiempo constante
+ * 
+ * @param token - Token en texto plano recibido del cliente
+ * @param tokenHash - Hash SHA-256 guardado (null = no hay token)
+ * @returns true si el hash del token coincide
+ */
+export function tokenMatchesHash(token: string, tokenHash: string | null): boolean {
+  if (!tokenHash) {
+    return false
+  }
+  
+  const expected = Buffer.from(tokenHash)
+  const actual = Buffer.from(hashToken(token))
+  
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,168 @@
+/**
+ * TOTP UTILITIES - Códigos de Verificación en Dos Pasos
+ *
+ * Implementación de TOTP (RFC 6238) compatible con Google Authenticator,
+ * Authy, 1Password, etc.:
+ * - HMAC-SHA1, códigos de 6 dígitos e intervalos de 30 segundos
+ * - Secretos codificados en base32 (RFC 4648, sin relleno)
+ *
+ * USO:
+ *   import { generateTotpSecret, buildOtpauthUri, verifyTotp } from '../utils/totp.util'
+ *   const secret = generateTotpSecret()
+ *   const uri = buildOtpauthUri(secret, user.email, 'Mi App')
+ *   const step = verifyTotp(secret, code) // null si el código no es válido
+ */
+
+import crypto from 'crypto'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/**
+ * Parámetros TOTP (los valores por defecto de las apps de autenticación)
+ */
+const TOTP_DIGITS = 6
+const TOTP_PERIOD_SECONDS = 30
+const TOTP_SECRET_BYTES = 20
+
+// ============================================
+// BASE32
+// ============================================
+
+/**
+ * Codifica bytes en base32 (sin relleno)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * Decodifica un texto en base32 (ignora espacios, guiones y relleno)
+ *
+ * @throws Error si contiene caracteres fuera del alfabeto base32
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '')
+  const bytes: number[] = []
+  let bits = 0
+  let value = 0
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error('Secreto base32 inválido')
+    }
+
+    value = (value << 5) | index
+    bits += 5
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+// ============================================
+// TOTP
+// ============================================
+
+/**
+ * Genera un secreto TOTP aleatorio (160 bits, en base32)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(TOTP_SECRET_BYTES))
+}
+
+/**
+ * Intervalo TOTP correspondiente a un momento
+ */
+export function getTotpStep(timestampMs: number = Date.now()): number {
+  return Math.floor(timestampMs / 1000 / TOTP_PERIOD_SECONDS)
+}
+
+/**
+ * Genera el código TOTP de un intervalo (HOTP con el intervalo como contador)
+ */
+export function generateTotp(secret: string, step: number = getTotpStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+
+  // Truncado dinámico (RFC 4226, sección 5.3)
+  const offset = hmac[hmac.length - 1]! & 0x0f
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+/**
+ * Verifica un código TOTP
+ *
+ * Acepta el intervalo actual y `window` intervalos antes y después
+ * para tolerar desfases de reloj. La comparación es de tiempo constante.
+ *
+ * @param secret - Secreto en base32
+ * @param code - Código introducido por el usuario
+ * @param window - Intervalos de tolerancia a cada lado (1 = ±30 segundos)
+ * @returns Intervalo que coincide (para impedir reutilizarlo) o null si no es válido
+ */
+export function verifyTotp(secret: string, code: string, window = 1): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null
+  }
+
+  const currentStep = getTotpStep()
+  let matchedStep: number | null = null
+
+  // Se revisan todos los intervalos para no revelar cuál coincidió por el tiempo de respuesta
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateTotp(secret, step)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized)) && matchedStep === null) {
+      matchedStep = step
+    }
+  }
+
+  return matchedStep
+}
+
+/**
+ * Construye la URI otpauth:// que las apps de autenticación leen como código QR
+ *
+ * @param secret - Secreto en base32
+ * @param accountName - Identificador de la cuenta (normalmente el email)
+ * @param issuer - Nombre de la aplicación que se muestra en la app
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  })
+
+  return `otpauth://totp/${label}?${params.toString()}`
+}
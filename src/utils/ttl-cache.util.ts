@@ -0,0 +1,74 @@
+/**
+ * TTL CACHE UTILITIES - Caché en Memoria con Expiración
+ *
+ * Caché clave → valor en memoria del proceso donde cada entrada
+ * expira tras un tiempo fijo. Con ttlMs = 0 la caché está desactivada
+ * (nunca guarda nada).
+ *
+ * NOTA: Cada instancia de la API tiene su propia caché. Invalidar una
+ * entrada solo afecta al proceso que lo hace; el TTL acota cuánto tiempo
+ * pueden ver datos antiguos las demás instancias.
+ *
+ * USO:
+ *   import { TtlCache } from '../utils/ttl-cache.util'
+ *   const cache = new TtlCache<number, string[]>(60 * 1000) // 1 minuto
+ *   const cached = cache.get(roleId)
+ *   cache.set(roleId, permissions)
+ *   cache.delete(roleId)
+ */
+
+interface CacheEntry<V> {
+  value: V
+  expiresAt: number
+}
+
+export class TtlCache<K, V> {
+  private entries = new Map<K, CacheEntry<V>>()
+
+  /**
+   * @param ttlMs - Tiempo de vida de cada entrada en milisegundos (0 = desactivada)
+   */
+  constructor(private readonly ttlMs: number) {}
+
+  /**
+   * Obtiene un valor vigente (undefined si no existe o expiró)
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    return entry.value
+  }
+
+  /**
+   * Guarda un valor (no hace nada si la caché está desactivada)
+   */
+  set(key: K, value: V): void {
+    if (this.ttlMs <= 0) {
+      return
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs })
+  }
+
+  /**
+   * Invalida una entrada
+   */
+  delete(key: K): void {
+    this.entries.delete(key)
+  }
+
+  /**
+   * Invalida todas las entradas
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+}